@@ -0,0 +1,337 @@
+import { z, ZodType, ZodTypeDef } from 'zod';
+import {
+  AIGenerationInput,
+  AIProvider,
+  ActionItem,
+  CategoryAssignment,
+  ComplianceFinding,
+  Email,
+  EmailCategoryDefinition,
+  EmailIntent,
+  ExtractedEntities,
+  LanguageDetection,
+  PriorityAssessment,
+  SentimentAnalysis,
+  SmartReply,
+  StructuredOutputOptions,
+  StructuredResponse,
+} from './interface';
+import { EmailAnalysisPromptBuilder } from './prompts/email-analysis';
+import { languageName } from './language';
+
+const unitScore = z.number().min(0).max(1);
+
+// Without strictNullChecks zod infers every field as optional, so the schemas are
+// asserted against the hand-written interfaces they validate
+type SchemaFor<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+export const SentimentAnalysisSchema = z.object({
+  sentiment: z.enum(['positive', 'negative', 'neutral', 'mixed']),
+  score: unitScore,
+  emotions: z.object({
+    joy: unitScore.optional(),
+    anger: unitScore.optional(),
+    sadness: unitScore.optional(),
+    fear: unitScore.optional(),
+    surprise: unitScore.optional(),
+  }).optional(),
+  urgency: z.enum(['low', 'medium', 'high']),
+  professionalism: unitScore,
+}) as SchemaFor<SentimentAnalysis>;
+
+export const EmailIntentSchema = z.object({
+  type: z.enum([
+    'meeting_request',
+    'information_request',
+    'task_assignment',
+    'feedback',
+    'complaint',
+    'thank_you',
+    'introduction',
+    'follow_up',
+    'announcement',
+    'other',
+  ]),
+  confidence: unitScore,
+  requiredActions: z.array(z.string()).optional(),
+}) as SchemaFor<EmailIntent>;
+
+export const ActionItemSchema = z.object({
+  description: z.string().min(1),
+  owner: z.string().optional(),
+  deadline: z.string().optional().describe('ISO 8601 when unambiguous'),
+  priority: z.enum(['low', 'medium', 'high']),
+  type: z.enum(['request', 'commitment']),
+}) as SchemaFor<ActionItem>;
+
+// JSON mode requires an object at the root, so lists are wrapped
+export const ActionItemListSchema = z.object({
+  actionItems: z.array(ActionItemSchema),
+}) as SchemaFor<{ actionItems: ActionItem[] }>;
+
+export const ExtractedEntitiesSchema = z.object({
+  people: z.array(z.object({
+    name: z.string(),
+    role: z.string().optional(),
+    organization: z.string().optional(),
+  })).default([]),
+  dates: z.array(z.object({
+    text: z.string(),
+    date: z.string().optional().describe('ISO 8601'),
+    context: z.string().optional(),
+  })).default([]),
+  locations: z.array(z.string()).default([]),
+  projects: z.array(z.string()).default([]),
+  amounts: z.array(z.object({
+    text: z.string(),
+    value: z.number().optional(),
+    currency: z.string().optional(),
+  })).default([]),
+  contacts: z.array(z.object({
+    type: z.enum(['email', 'phone', 'address']),
+    value: z.string(),
+  })).default([]),
+  documents: z.array(z.string()).default([]),
+  urls: z.array(z.string()).default([]),
+}) as SchemaFor<ExtractedEntities>;
+
+export const LanguageDetectionSchema = z.object({
+  language: z.string().regex(/^[a-z]{2}$/).describe('ISO 639-1 code of the primary language'),
+  confidence: unitScore,
+}) as SchemaFor<LanguageDetection>;
+
+export const PriorityAssessmentSchema = z.object({
+  level: z.enum(['low', 'medium', 'high', 'urgent']),
+  factors: z.array(z.string()).default([]),
+  deadline: z.string().optional().describe('ISO 8601 when the email names a deadline'),
+  confidence: unitScore,
+}) as SchemaFor<PriorityAssessment>;
+
+export const ComplianceFindingListSchema = z.object({
+  violations: z.array(z.object({
+    policyId: z.string().describe('The ID in square brackets of the violated policy'),
+    explanation: z.string(),
+    excerpt: z.string().optional().describe('The passage that violates the policy'),
+  })),
+}) as SchemaFor<{ violations: ComplianceFinding[] }>;
+
+export const SmartReplyListSchema = z.object({
+  replies: z.array(z.object({
+    text: z.string().min(1),
+    intent: z.enum(['accept', 'acknowledge', 'decline', 'question']),
+  })).min(1),
+}) as SchemaFor<{ replies: SmartReply[] }>;
+
+export const CategoryAssignmentSchema = z.object({
+  category: z.string().nullable().describe('Name of the chosen category, or null if none fits'),
+  confidence: unitScore,
+  reason: z.string().optional(),
+}) as SchemaFor<CategoryAssignment>;
+
+export const TranslationSchema = z.object({
+  text: z.string(),
+}) as SchemaFor<{ text: string }>;
+
+/**
+ * Schema-validated email analysis on top of AIProvider.generateStructured.
+ * Providers delegate to this so every backend returns the same typed results.
+ * Calls are attributed to userId, and tokensUsed adds up what they used, so
+ * callers can charge an analysis against the user's budget.
+ */
+export class EmailAnalyzer {
+  private promptBuilder = new EmailAnalysisPromptBuilder();
+  private usage = 0;
+
+  constructor(private provider: Pick<AIProvider, 'generateStructured'>, private userId?: string) {}
+
+  // Tokens used by every call made through this analyzer so far
+  get tokensUsed(): number {
+    return this.usage;
+  }
+
+  async analyzeSentiment(email: string): Promise<SentimentAnalysis> {
+    const response = await this.generate(
+      {
+        messages: [
+          { role: 'system', content: 'You are an email sentiment analyzer.' },
+          { role: 'user', content: this.promptBuilder.buildSentimentAnalysisPrompt(email) },
+        ],
+        task: 'sentiment',
+        options: { maxTokens: 500 },
+      },
+      SentimentAnalysisSchema,
+      { schemaName: 'SentimentAnalysis' }
+    );
+
+    return response.data;
+  }
+
+  async classifyIntent(email: string): Promise<EmailIntent> {
+    const response = await this.generate(
+      {
+        messages: [
+          { role: 'system', content: 'You are an email intent classifier.' },
+          { role: 'user', content: this.promptBuilder.buildIntentClassificationPrompt(email) },
+        ],
+        task: 'extraction',
+        options: { maxTokens: 500 },
+      },
+      EmailIntentSchema,
+      { schemaName: 'EmailIntent' }
+    );
+
+    return response.data;
+  }
+
+  async assessPriority(email: string): Promise<PriorityAssessment> {
+    const response = await this.generate(
+      {
+        messages: [
+          { role: 'system', content: 'You triage emails by how soon they need attention.' },
+          { role: 'user', content: this.promptBuilder.buildPriorityDetectionPrompt(email) },
+        ],
+        task: 'extraction',
+        options: { maxTokens: 500 },
+      },
+      PriorityAssessmentSchema,
+      { schemaName: 'PriorityAssessment' }
+    );
+
+    return response.data;
+  }
+
+  // Short replies are cheap to generate, so the cheapest provider is used
+  async suggestReplies(email: string, count: number = 3): Promise<SmartReply[]> {
+    const response = await this.generate(
+      {
+        messages: [
+          { role: 'system', content: 'You suggest short replies the user can send with one tap.' },
+          { role: 'user', content: this.promptBuilder.buildSmartReplyPrompt(email, count) },
+        ],
+        task: 'extraction',
+        options: { maxTokens: 300 },
+      },
+      SmartReplyListSchema,
+      { schemaName: 'SmartReplyList' }
+    );
+
+    return response.data.replies;
+  }
+
+  // Policies are described as "[id] name: description" so findings can name them
+  async checkCompliance(email: string, policies: string[]): Promise<ComplianceFinding[]> {
+    const response = await this.generate(
+      {
+        messages: [
+          {
+            role: 'system',
+            content: 'You review outgoing emails against company policies. Report only clear violations of the listed policies.',
+          },
+          { role: 'user', content: this.promptBuilder.buildComplianceCheckPrompt(email, policies) },
+        ],
+        task: 'extraction',
+        options: { maxTokens: 1000 },
+      },
+      ComplianceFindingListSchema,
+      { schemaName: 'ComplianceFindingList' }
+    );
+
+    return response.data.violations;
+  }
+
+  async categorizeThread(thread: Email[], categories: EmailCategoryDefinition[]): Promise<CategoryAssignment> {
+    const response = await this.generate(
+      {
+        messages: [
+          { role: 'system', content: 'You sort emails into the categories a user defined.' },
+          { role: 'user', content: this.promptBuilder.buildThreadCategorizationPrompt(thread, categories) },
+        ],
+        task: 'extraction',
+        options: { maxTokens: 300 },
+      },
+      CategoryAssignmentSchema,
+      { schemaName: 'CategoryAssignment' }
+    );
+
+    return response.data;
+  }
+
+  async extractActionItems(email: string): Promise<ActionItem[]> {
+    const response = await this.generate(
+      {
+        messages: [
+          { role: 'system', content: 'You extract action items from emails.' },
+          { role: 'user', content: this.promptBuilder.buildActionItemExtractionPrompt(email) },
+        ],
+        task: 'extraction',
+        options: { maxTokens: 1000 },
+      },
+      ActionItemListSchema,
+      { schemaName: 'ActionItemList' }
+    );
+
+    return response.data.actionItems;
+  }
+
+  async extractEntities(email: string): Promise<ExtractedEntities> {
+    const response = await this.generate(
+      {
+        messages: [
+          { role: 'system', content: 'You extract structured entities from emails.' },
+          { role: 'user', content: this.promptBuilder.buildEntityExtractionPrompt(email) },
+        ],
+        task: 'extraction',
+        options: { maxTokens: 1000 },
+      },
+      ExtractedEntitiesSchema,
+      { schemaName: 'ExtractedEntities' }
+    );
+
+    return response.data;
+  }
+
+  // detectLanguageLocally is free and usually enough; this is for short or mixed-language mail
+  async detectLanguage(email: string): Promise<LanguageDetection> {
+    const response = await this.generate(
+      {
+        messages: [
+          { role: 'system', content: 'You detect the language of emails.' },
+          { role: 'user', content: this.promptBuilder.buildLanguageDetectionPrompt(email) },
+        ],
+        task: 'extraction',
+        options: { maxTokens: 300 },
+      },
+      LanguageDetectionSchema,
+      { schemaName: 'LanguageDetection' }
+    );
+
+    return response.data;
+  }
+
+  async translate(text: string, language: string): Promise<string> {
+    const response = await this.generate(
+      {
+        messages: [
+          { role: 'system', content: 'You translate emails faithfully, keeping names, numbers and formatting.' },
+          { role: 'user', content: this.promptBuilder.buildTranslationPrompt(text, languageName(language)) },
+        ],
+        task: 'general',
+        options: { maxTokens: 2000 },
+      },
+      TranslationSchema,
+      { schemaName: 'Translation' }
+    );
+
+    return response.data.text;
+  }
+
+  private async generate<T>(
+    input: AIGenerationInput,
+    schema: ZodType<T, ZodTypeDef, any>,
+    options: StructuredOutputOptions
+  ): Promise<StructuredResponse<T>> {
+    const response = await this.provider.generateStructured({ ...input, userId: input.userId ?? this.userId }, schema, options);
+    this.usage += response.tokensUsed;
+    return response;
+  }
+}
@@ -0,0 +1,47 @@
+import { TokenBudget } from './budget';
+import { RateLimitError } from './errors';
+import { MemoryCacheStore } from './stores/memory';
+
+describe('TokenBudget', () => {
+  const limits = { requestsPerMinute: 5, tokensPerDay: 1000, requestsPerMonth: 2 };
+
+  it('reconciles reserved tokens with actual usage', async () => {
+    const budget = new TokenBudget(new MemoryCacheStore());
+
+    const reservation = await budget.reserve('user-1', limits, 400);
+    await budget.reconcile(reservation, 150);
+
+    const status = await budget.getStatus('user-1', limits);
+    const day = status.windows.find(window => window.window === 'day')!;
+
+    expect(day.tokensUsed).toBe(150);
+    expect(status.tokensRemaining).toBe(850);
+    expect(status.requestsRemaining).toBe(1);
+    expect(status.isLimited).toBe(false);
+  });
+
+  it('rejects calls over budget without consuming it', async () => {
+    const budget = new TokenBudget(new MemoryCacheStore());
+
+    await expect(budget.reserve('user-1', limits, 1200)).rejects.toBeInstanceOf(RateLimitError);
+    expect((await budget.getStatus('user-1', limits)).tokensRemaining).toBe(1000);
+
+    await budget.reserve('user-1', limits, 10);
+    await budget.reserve('user-1', limits, 10);
+    const error = await budget.reserve('user-1', limits, 10).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.limitType).toBe('requests');
+
+    const status = await budget.getStatus('user-1', limits);
+    expect(status.isLimited).toBe(true);
+    expect(status.resetTime.getUTCDate()).toBe(1);
+  });
+
+  it('tracks each subject separately', async () => {
+    const budget = new TokenBudget(new MemoryCacheStore());
+
+    await budget.reserve('user-1', limits, 100);
+    expect((await budget.getStatus('user-2', limits)).requestsRemaining).toBe(2);
+  });
+});
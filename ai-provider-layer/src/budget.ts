@@ -0,0 +1,207 @@
+import { RateLimitStatus } from './interface';
+import { RateLimitError } from './errors';
+import { CacheStore } from './stores/cache-store';
+
+export type BudgetWindow = 'minute' | 'day' | 'month';
+
+// Omitted or negative limits are unlimited
+export interface BudgetLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  requestsPerDay?: number;
+  tokensPerDay?: number;
+  requestsPerMonth?: number;
+  tokensPerMonth?: number;
+}
+
+export interface BudgetWindowStatus {
+  window: BudgetWindow;
+  requestsUsed: number;
+  requestLimit: number;
+  tokensUsed: number;
+  tokenLimit: number;
+  resetTime: Date;
+}
+
+// Remaining counts are for the most constrained window; -1 means unlimited
+export interface BudgetStatus extends RateLimitStatus {
+  windows: BudgetWindowStatus[];
+}
+
+interface WindowCounters {
+  window: BudgetWindow;
+  requestsKey: string;
+  tokensKey: string;
+  ttlSeconds: number;
+  resetTime: Date;
+}
+
+export interface BudgetReservation {
+  subject: string;
+  estimatedTokens: number;
+  windows: WindowCounters[];
+}
+
+const WINDOWS: BudgetWindow[] = ['minute', 'day', 'month'];
+
+/**
+ * Per-subject (usually per-user) request and token budgets over UTC minute, day
+ * and month windows. Counters live in a shared store that can increment them
+ * (a CacheStore or the database), so every API instance sees the same totals.
+ * Callers reserve the estimated tokens before an AI call, then reconcile with
+ * the actual usage or release the reservation if the call failed.
+ */
+export class TokenBudget {
+  constructor(private store: Pick<CacheStore, 'increment'>, private keyPrefix: string = 'budget') {}
+
+  async reserve(subject: string, limits: BudgetLimits, estimatedTokens: number): Promise<BudgetReservation> {
+    const now = new Date();
+    const reservation: BudgetReservation = {
+      subject,
+      estimatedTokens,
+      windows: WINDOWS.map(window => this.windowCounters(subject, window, now)),
+    };
+
+    // Incrementing first keeps concurrent reservations from overshooting the limit
+    const counts = await Promise.all(reservation.windows.map(async counters => ({
+      counters,
+      requests: await this.store.increment(counters.requestsKey, 1, counters.ttlSeconds),
+      tokens: await this.store.increment(counters.tokensKey, estimatedTokens, counters.ttlSeconds),
+    })));
+
+    for (const { counters, requests, tokens } of counts) {
+      const requestLimit = this.limitFor(limits, counters.window, 'requests');
+      const tokenLimit = this.limitFor(limits, counters.window, 'tokens');
+      const retryAfter = counters.resetTime.getTime() - now.getTime();
+
+      if (requestLimit >= 0 && requests > requestLimit) {
+        await this.release(reservation);
+        throw new RateLimitError(
+          `AI request budget exceeded: ${requestLimit} requests per ${counters.window} allowed.`,
+          retryAfter,
+          'requests'
+        );
+      }
+
+      if (tokenLimit >= 0 && tokens > tokenLimit) {
+        await this.release(reservation);
+        throw new RateLimitError(
+          `AI token budget exceeded: ${tokenLimit} tokens per ${counters.window} allowed.`,
+          retryAfter,
+          'tokens'
+        );
+      }
+    }
+
+    return reservation;
+  }
+
+  // Replaces the estimate with the tokens the call actually used
+  async reconcile(reservation: BudgetReservation, actualTokens: number): Promise<void> {
+    const delta = actualTokens - reservation.estimatedTokens;
+    if (delta === 0) {
+      return;
+    }
+
+    await Promise.all(reservation.windows.map(counters =>
+      this.store.increment(counters.tokensKey, delta, counters.ttlSeconds)
+    ));
+  }
+
+  // Returns the request and tokens of a call that never reached the provider
+  async release(reservation: BudgetReservation): Promise<void> {
+    await Promise.all(reservation.windows.flatMap(counters => [
+      this.store.increment(counters.requestsKey, -1, counters.ttlSeconds),
+      this.store.increment(counters.tokensKey, -reservation.estimatedTokens, counters.ttlSeconds),
+    ]));
+  }
+
+  async getStatus(subject: string, limits: BudgetLimits): Promise<BudgetStatus> {
+    const now = new Date();
+
+    const windows = await Promise.all(WINDOWS.map(async window => {
+      const counters = this.windowCounters(subject, window, now);
+      const [requestsUsed, tokensUsed] = await Promise.all([
+        this.store.increment(counters.requestsKey, 0, counters.ttlSeconds),
+        this.store.increment(counters.tokensKey, 0, counters.ttlSeconds),
+      ]);
+
+      return {
+        window,
+        requestsUsed,
+        requestLimit: this.limitFor(limits, window, 'requests'),
+        tokensUsed,
+        tokenLimit: this.limitFor(limits, window, 'tokens'),
+        resetTime: counters.resetTime,
+      };
+    }));
+
+    return summarize(windows);
+  }
+
+  private windowCounters(subject: string, window: BudgetWindow, now: Date): WindowCounters {
+    const { bucket, resetTime } = windowBounds(window, now);
+    const key = `${this.keyPrefix}:${subject}:${window}:${bucket}`;
+
+    return {
+      window,
+      requestsKey: `${key}:requests`,
+      tokensKey: `${key}:tokens`,
+      // Outlive the window slightly so a late reconcile still lands in it
+      ttlSeconds: Math.ceil((resetTime.getTime() - now.getTime()) / 1000) + 60,
+      resetTime,
+    };
+  }
+
+  private limitFor(limits: BudgetLimits, window: BudgetWindow, metric: 'requests' | 'tokens'): number {
+    const suffix = window.charAt(0).toUpperCase() + window.slice(1);
+    const limit = limits[`${metric}Per${suffix}` as keyof BudgetLimits];
+    return limit === undefined || limit === null || limit < 0 ? -1 : limit;
+  }
+}
+
+function windowBounds(window: BudgetWindow, now: Date): { bucket: string; resetTime: Date } {
+  switch (window) {
+    case 'minute': {
+      const start = Math.floor(now.getTime() / 60000);
+      return { bucket: String(start), resetTime: new Date((start + 1) * 60000) };
+    }
+    case 'day': {
+      const start = Math.floor(now.getTime() / 86400000);
+      return { bucket: String(start), resetTime: new Date((start + 1) * 86400000) };
+    }
+    case 'month':
+      return {
+        bucket: `${now.getUTCFullYear()}-${now.getUTCMonth() + 1}`,
+        resetTime: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+      };
+  }
+}
+
+function summarize(windows: BudgetWindowStatus[]): BudgetStatus {
+  const remaining = (limit: number, used: number): number => (limit >= 0 ? Math.max(0, limit - used) : -1);
+  const tightest = (values: number[]): number => {
+    const limited = values.filter(value => value >= 0);
+    return limited.length > 0 ? Math.min(...limited) : -1;
+  };
+
+  const requests = windows.map(status => remaining(status.requestLimit, status.requestsUsed));
+  const tokens = windows.map(status => remaining(status.tokenLimit, status.tokensUsed));
+  const requestsRemaining = tightest(requests);
+  const tokensRemaining = tightest(tokens);
+
+  // When limited, calls resume once the last exhausted window resets;
+  // otherwise report the reset of the window with the fewest requests left
+  const exhausted = windows.filter((_, i) => requests[i] === 0 || tokens[i] === 0);
+  const binding = exhausted.length > 0
+    ? exhausted[exhausted.length - 1]
+    : windows.find((_, i) => requests[i] === requestsRemaining) || windows[0];
+
+  return {
+    requestsRemaining,
+    tokensRemaining,
+    resetTime: binding.resetTime,
+    isLimited: exhausted.length > 0,
+    windows,
+  };
+}
@@ -0,0 +1,81 @@
+import { SemanticCache } from './cache';
+import { HashEmbeddingProvider } from './embeddings';
+import { UsageTracker } from './usage-tracker';
+import { AIResponse, EmailContext } from './interface';
+
+const response: AIResponse = {
+  text: 'Thanks, the refund has been issued.',
+  model: 'test-model',
+  tokensUsed: 42,
+  responseTimeMs: 100,
+  confidence: 0.9,
+};
+
+function email(userId: string, body: string, from: string = 'customer@example.com'): EmailContext {
+  return {
+    userId,
+    subject: 'Refund request',
+    from,
+    to: ['support@example.com'],
+    body,
+  };
+}
+
+describe('SemanticCache', () => {
+  const config = { ttl: 3600, maxSize: 100, enabled: true, similarityThreshold: 0.8 };
+  const original = 'Hi, I was charged twice for order 1234 last week. Could you please refund the duplicate charge? Thanks, Sam';
+  const similar = 'Hi, I was charged twice for order 1234 last week. Could you please refund the duplicate charge? Thanks, Alex';
+
+  it('should return a stored response for a near-identical email from the same user', async () => {
+    const cache = new SemanticCache(config, new HashEmbeddingProvider());
+    await cache.store(email('user-1', original), response);
+
+    const hit = await cache.lookup(email('user-1', similar));
+
+    expect(hit?.source).toBe('semantic');
+    expect(hit?.response.text).toBe(response.text);
+    expect(hit?.similarity).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('should never share responses across users', async () => {
+    const cache = new SemanticCache(config, new HashEmbeddingProvider());
+    await cache.store(email('user-1', original), response);
+
+    expect(await cache.lookup(email('user-2', original))).toBeNull();
+    expect(await cache.lookup(email('user-2', similar))).toBeNull();
+    expect(cache.getSemanticStats().misses).toBe(2);
+  });
+
+  it('should not serve a draft written for another sender', async () => {
+    const cache = new SemanticCache(config, new HashEmbeddingProvider());
+    await cache.store(email('user-1', original), response);
+
+    expect(await cache.lookup(email('user-1', similar, 'someone.else@example.com'))).toBeNull();
+  });
+
+  it('should ignore emails below the similarity threshold', async () => {
+    const cache = new SemanticCache(config, new HashEmbeddingProvider());
+    await cache.store(email('user-1', original), response);
+
+    const miss = await cache.lookup(email('user-1', 'Can we move Thursday\'s design review to next week?'));
+
+    expect(miss).toBeNull();
+  });
+});
+
+describe('UsageTracker cache hit rates', () => {
+  it('should report semantic hits separately from the overall hit rate', () => {
+    const tracker = new UsageTracker();
+    const base = { provider: 'test', responseTimeMs: 1, success: true, timestamp: new Date() };
+
+    tracker.record({ ...base, model: 'test-model', tokensUsed: 10 });
+    tracker.record({ ...base, model: 'test-model', tokensUsed: 10 });
+    tracker.record({ ...base, model: 'cache', tokensUsed: 0, cacheHit: 'exact' });
+    tracker.record({ ...base, model: 'cache', tokensUsed: 0, cacheHit: 'semantic' });
+
+    const stats = tracker.getUsageStats();
+
+    expect(stats.cacheHitRate).toBe(0.5);
+    expect(stats.semanticCacheHitRate).toBe(0.25);
+  });
+});
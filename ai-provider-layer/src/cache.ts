@@ -1,6 +1,8 @@
 import * as crypto from 'crypto';
-import { AIResponse, EmailContext, CacheConfig } from './interface';
+import { AIResponse, EmailContext, CacheConfig, EmbeddingProvider } from './interface';
 import { CacheError } from './errors';
+import { cosineSimilarity } from './embeddings';
+import type { CacheStore } from './stores/cache-store';
 
 export interface CachedResponse {
   response: AIResponse;
@@ -9,6 +11,14 @@ export interface CachedResponse {
   key: string;
 }
 
+export type CacheHitSource = 'exact' | 'semantic';
+
+export interface CacheLookup {
+  response: AIResponse;
+  source: CacheHitSource;
+  similarity?: number;
+}
+
 export class ResponseCache {
   private cache: Map<string, CachedResponse>;
   private lru: string[];
@@ -117,6 +127,16 @@ export class ResponseCache {
     }
   }
 
+  // Email-level entry points used by providers; subclasses can match more loosely than the exact key
+  async lookup(context: EmailContext): Promise<CacheLookup | null> {
+    const response = await this.get(this.getCacheKey(context));
+    return response ? { response, source: 'exact' } : null;
+  }
+
+  async store(context: EmailContext, response: AIResponse): Promise<void> {
+    await this.set(this.getCacheKey(context), response);
+  }
+
   getCacheKey(context: EmailContext): string {
     // Create deterministic cache key from email context
     const keyData = {
@@ -127,6 +147,10 @@ export class ResponseCache {
       maxLength: context.maxLength,
       includeSignature: context.includeSignature,
       threadLength: context.thread?.length || 0,
+      // Drafts in one user's style must not be served to another
+      styleProfile: context.styleProfile ? JSON.stringify(context.styleProfile) : undefined,
+      language: context.language,
+      redactionKey: context.redactionKey,
     };
     
     const keyString = JSON.stringify(keyData, Object.keys(keyData).sort());
@@ -206,6 +230,15 @@ export class ResponseCache {
     };
   }
 
+  // Reads an entry without touching hit statistics or LRU order
+  protected peek(key: string): AIResponse | null {
+    const cached = this.cache.get(key);
+    if (!cached || Date.now() - cached.timestamp > this.config.ttl * 1000) {
+      return null;
+    }
+    return cached.response;
+  }
+
   getEntries(): Map<string, CachedResponse> {
     return new Map(this.cache);
   }
@@ -325,11 +358,7 @@ export class DistributedCache extends ResponseCache {
 
   constructor(
     config: CacheConfig,
-    private remoteStore?: {
-      get: (key: string) => Promise<string | null>;
-      set: (key: string, value: string, ttl: number) => Promise<void>;
-      delete: (key: string) => Promise<boolean>;
-    }
+    private remoteStore?: Pick<CacheStore, 'get' | 'set' | 'delete'>
   ) {
     super(config);
     this.localCache = new ResponseCache({
@@ -342,6 +371,7 @@ export class DistributedCache extends ResponseCache {
       this.syncInterval = setInterval(() => {
         this.syncWithRemote();
       }, 60000); // Every minute
+      this.syncInterval.unref();
     }
   }
 
@@ -407,4 +437,184 @@ export class DistributedCache extends ResponseCache {
       this.syncInterval = null;
     }
   }
-}
\ No newline at end of file
+}
+
+export interface SemanticCacheConfig extends CacheConfig {
+  similarityThreshold?: number;
+}
+
+interface SemanticEntry {
+  key: string;
+  embedding: number[];
+}
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.95;
+const SEMANTIC_TEXT_LIMIT = 2000;
+
+/**
+ * Falls back to the most similar earlier email when the exact key misses.
+ * Entries are partitioned by EmailContext.userId, the sender and recipients
+ * and the response options, so drafts are never shared across users or
+ * served to a different correspondent; contexts without a userId only get
+ * exact, user-scoped matches.
+ */
+export class SemanticCache extends ResponseCache {
+  private partitions: Map<string, SemanticEntry[]> = new Map();
+  private pendingEmbeddings: Map<string, number[]> = new Map();
+  private similarityThreshold: number;
+  private semanticStats = { hits: 0, misses: 0 };
+
+  constructor(config: SemanticCacheConfig, private embedder: EmbeddingProvider) {
+    super(config);
+    this.similarityThreshold = config.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  }
+
+  async lookup(context: EmailContext): Promise<CacheLookup | null> {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    const key = this.getCacheKey(context);
+    const exact = await this.get(key);
+    if (exact) {
+      return { response: exact, source: 'exact' };
+    }
+
+    if (!context.userId) {
+      return null;
+    }
+
+    const embedding = await this.embed(context);
+    if (!embedding) {
+      return null;
+    }
+    this.rememberEmbedding(key, embedding);
+
+    const partition = this.getPartitionKey(context);
+    const entries = this.partitions.get(partition) || [];
+    let best: { entry: SemanticEntry; response: AIResponse; similarity: number } | null = null;
+
+    for (const entry of [...entries]) {
+      const response = this.peek(entry.key);
+      if (!response) {
+        // Expired or evicted from the underlying cache
+        this.removeEntry(partition, entry.key);
+        continue;
+      }
+
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= this.similarityThreshold && (!best || similarity > best.similarity)) {
+        best = { entry, response, similarity };
+      }
+    }
+
+    if (!best) {
+      this.semanticStats.misses++;
+      return null;
+    }
+
+    this.semanticStats.hits++;
+    // Counts towards the entry's LRU position and hit statistics
+    await this.get(best.entry.key);
+    return { response: best.response, source: 'semantic', similarity: best.similarity };
+  }
+
+  async store(context: EmailContext, response: AIResponse): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const key = this.getCacheKey(context);
+    await this.set(key, response);
+
+    if (!context.userId) {
+      return;
+    }
+
+    const embedding = this.pendingEmbeddings.get(key) || await this.embed(context);
+    this.pendingEmbeddings.delete(key);
+    if (!embedding) {
+      return;
+    }
+
+    const partition = this.getPartitionKey(context);
+    this.removeEntry(partition, key);
+    this.partitions.set(partition, [...(this.partitions.get(partition) || []), { key, embedding }]);
+  }
+
+  // Scope the exact key to the user as well; the base key only covers the email
+  getCacheKey(context: EmailContext): string {
+    const base = super.getCacheKey(context);
+    return context.userId ? `${context.userId}:${base}` : base;
+  }
+
+  async clear(): Promise<void> {
+    await super.clear();
+    this.partitions.clear();
+    this.pendingEmbeddings.clear();
+    this.semanticStats = { hits: 0, misses: 0 };
+  }
+
+  getSemanticStats(): { hits: number; misses: number; hitRate: number; entries: number } {
+    const lookups = this.semanticStats.hits + this.semanticStats.misses;
+    let entries = 0;
+    this.partitions.forEach(partition => {
+      entries += partition.length;
+    });
+
+    return {
+      hits: this.semanticStats.hits,
+      misses: this.semanticStats.misses,
+      hitRate: lookups > 0 ? this.semanticStats.hits / lookups : 0,
+      entries,
+    };
+  }
+
+  private getPartitionKey(context: EmailContext): string {
+    return JSON.stringify([
+      context.userId,
+      // The draft addresses its sender, so a similar email from someone else must not reuse it
+      context.from.toLowerCase(),
+      context.to.map(address => address.toLowerCase()).sort(),
+      context.responseStyle || 'formal',
+      context.maxLength ?? null,
+      context.includeSignature ?? null,
+      context.language ?? null,
+      context.redactionKey ?? null,
+    ]);
+  }
+
+  // An unavailable embedder degrades to exact matching rather than failing the request
+  private async embed(context: EmailContext): Promise<number[] | null> {
+    const text = `${context.subject}\n\n${context.body}`.slice(0, SEMANTIC_TEXT_LIMIT);
+    try {
+      const { embeddings } = await this.embedder.generateEmbeddings([text]);
+      return embeddings[0] || null;
+    } catch (error) {
+      console.error('Failed to embed email for semantic cache:', error);
+      return null;
+    }
+  }
+
+  // Keeps the lookup embedding so the following store() needn't embed again
+  private rememberEmbedding(key: string, embedding: number[]): void {
+    if (this.pendingEmbeddings.size >= this.config.maxSize) {
+      this.pendingEmbeddings.clear();
+    }
+    this.pendingEmbeddings.set(key, embedding);
+  }
+
+  private removeEntry(partition: string, key: string): void {
+    const entries = this.partitions.get(partition);
+    if (!entries) {
+      return;
+    }
+
+    const remaining = entries.filter(entry => entry.key !== key);
+    if (remaining.length > 0) {
+      this.partitions.set(partition, remaining);
+    } else {
+      this.partitions.delete(partition);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { categorizeThread, MAX_CATEGORY_EXAMPLES } from './categories';
+import { Email, EmailCategoryDefinition } from './interface';
+import { analyzerReturning } from './testing/analyzer';
+
+const thread: Email[] = [{
+  id: '1',
+  from: 'billing@vendor.com',
+  to: ['me@example.com'],
+  subject: 'Invoice 1042',
+  body: 'Please find attached the invoice for March.',
+  timestamp: new Date('2026-03-02T09:00:00Z'),
+}];
+
+const categories: EmailCategoryDefinition[] = [
+  { name: 'Invoices', description: 'Bills and payment requests from vendors' },
+  { name: 'Hiring', description: 'Candidates, recruiters and interviews' },
+];
+
+describe('categorizeThread', () => {
+  it("returns the user's spelling of the chosen category", async () => {
+    const analyzer = analyzerReturning('categorizeThread', { category: ' invoices', confidence: 0.9, reason: 'An invoice' });
+
+    const result = await categorizeThread(analyzer, thread, categories);
+
+    expect(result).toEqual({ category: 'Invoices', confidence: 0.9, reason: 'An invoice' });
+  });
+
+  it('drops unknown categories and answers below the confidence threshold', async () => {
+    const unknown = await categorizeThread(analyzerReturning('categorizeThread', { category: 'Finance', confidence: 0.95 }), thread, categories);
+    expect(unknown.category).toBeNull();
+
+    const unsure = await categorizeThread(analyzerReturning('categorizeThread', { category: 'Invoices', confidence: 0.4 }), thread, categories);
+    expect(unsure).toEqual({ category: null, confidence: 0.4, reason: undefined });
+  });
+
+  it('sends only the newest examples of each category', async () => {
+    const analyzer = analyzerReturning('categorizeThread', { category: 'Hiring', confidence: 0.8 });
+    const examples = Array.from({ length: 8 }, (_, i) => ({ subject: `Invoice ${i}`, snippet: 'Amount due' }));
+
+    await categorizeThread(analyzer, thread, [{ ...categories[0], examples }, categories[1]]);
+
+    const sent = analyzer.categorizeThread.mock.calls[0][1];
+    expect(sent[0].examples).toHaveLength(MAX_CATEGORY_EXAMPLES);
+    expect(sent[0].examples![0].subject).toBe('Invoice 3');
+  });
+
+  it('does not call the model without categories', async () => {
+    const analyzer = analyzerReturning('categorizeThread', { category: 'Invoices', confidence: 1 });
+
+    expect(await categorizeThread(analyzer, thread, [])).toEqual({ category: null, confidence: 0 });
+    expect(analyzer.categorizeThread).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { CategoryAssignment, Email, EmailCategoryDefinition } from './interface';
+import { EmailAnalyzer } from './analysis';
+
+export const DEFAULT_MIN_CATEGORY_CONFIDENCE = 0.6;
+// Examples sent per category; the newest are kept, so recent corrections count most
+export const MAX_CATEGORY_EXAMPLES = 5;
+
+/**
+ * Sorts an email thread into one of the user's categories. An answer that
+ * names no defined category or is less confident than `minConfidence` comes
+ * back with category null, so a guess never turns into a label.
+ */
+export async function categorizeThread(
+  analyzer: Pick<EmailAnalyzer, 'categorizeThread'>,
+  thread: Email[],
+  categories: EmailCategoryDefinition[],
+  minConfidence: number = DEFAULT_MIN_CATEGORY_CONFIDENCE
+): Promise<CategoryAssignment> {
+  if (thread.length === 0 || categories.length === 0) {
+    return { category: null, confidence: 0 };
+  }
+
+  const assignment = await analyzer.categorizeThread(
+    thread,
+    categories.map(category => ({ ...category, examples: (category.examples || []).slice(-MAX_CATEGORY_EXAMPLES) }))
+  );
+
+  // Models echo names with different case or spacing; labels use the user's spelling
+  const name = assignment.category?.trim().toLowerCase();
+  const match = categories.find(category => category.name.trim().toLowerCase() === name);
+  const confidence = Math.max(0, Math.min(1, assignment.confidence));
+
+  return {
+    category: match && confidence >= minConfidence ? match.name : null,
+    confidence,
+    reason: assignment.reason,
+  };
+}
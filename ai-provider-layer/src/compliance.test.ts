@@ -0,0 +1,65 @@
+import { checkCompliance } from './compliance';
+import { CompliancePolicy } from './interface';
+
+const policies: CompliancePolicy[] = [
+  {
+    id: 'pricing',
+    name: 'No pricing commitments',
+    description: 'Prices and discounts are only quoted by sales',
+    type: 'forbidden',
+    pattern: '\\b\\d+\\s?% (?:off|discount)\\b',
+    flags: 'i',
+    severity: 'high',
+  },
+  {
+    id: 'disclaimer',
+    name: 'Disclaimer',
+    description: 'Drafts must end with the investment disclaimer',
+    type: 'required',
+    pattern: 'This is not investment advice',
+    severity: 'medium',
+  },
+  {
+    id: 'legal',
+    name: 'No legal advice',
+    description: 'Do not tell the recipient what the law requires of them',
+    type: 'llm',
+    severity: 'high',
+  },
+];
+
+describe('checkCompliance', () => {
+  it('reports forbidden and missing patterns without asking the model', async () => {
+    const analyzer = { checkCompliance: jest.fn() };
+    const violations = await checkCompliance(analyzer, 'We can offer you 20% off this month.', policies.slice(0, 2));
+
+    expect(analyzer.checkCompliance).not.toHaveBeenCalled();
+    expect(violations).toEqual([
+      expect.objectContaining({ policyId: 'pricing', excerpt: '20% off', severity: 'high', source: 'rule' }),
+      expect.objectContaining({ policyId: 'disclaimer', excerpt: undefined, source: 'rule' }),
+    ]);
+  });
+
+  it('maps model findings to the policies it was asked about', async () => {
+    const analyzer = {
+      checkCompliance: jest.fn(async () => [
+        { policyId: 'legal', explanation: 'Tells the customer they may cancel under consumer law', excerpt: 'you are entitled' },
+        { policyId: 'made-up', explanation: 'Not a policy' },
+      ]),
+    };
+    const draft = 'Under EU law you are entitled to cancel. This is not investment advice.';
+    const violations = await checkCompliance(analyzer, draft, policies);
+
+    expect(analyzer.checkCompliance).toHaveBeenCalledWith(draft, [
+      '[legal] No legal advice: Do not tell the recipient what the law requires of them',
+    ]);
+    expect(violations).toEqual([{
+      policyId: 'legal',
+      policyName: 'No legal advice',
+      severity: 'high',
+      explanation: 'Tells the customer they may cancel under consumer law',
+      excerpt: 'you are entitled',
+      source: 'model',
+    }]);
+  });
+});
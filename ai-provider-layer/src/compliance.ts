@@ -0,0 +1,73 @@
+import { CompliancePolicy, ComplianceViolation } from './interface';
+import { EmailAnalyzer } from './analysis';
+
+/**
+ * Checks a draft against an organization's policies. Pattern policies are
+ * evaluated locally; 'llm' policies are judged together in one model call,
+ * which is skipped when there are none.
+ */
+export async function checkCompliance(
+  analyzer: Pick<EmailAnalyzer, 'checkCompliance'>,
+  draft: string,
+  policies: CompliancePolicy[]
+): Promise<ComplianceViolation[]> {
+  const violations = checkCompliancePatterns(draft, policies);
+  const judged = policies.filter(policy => policy.type === 'llm');
+  if (judged.length === 0) {
+    return violations;
+  }
+
+  const findings = await analyzer.checkCompliance(
+    draft,
+    judged.map(policy => `[${policy.id}] ${policy.name}: ${policy.description}`)
+  );
+
+  for (const finding of findings) {
+    // Findings for policies that were not asked about are dropped
+    const policy = judged.find(candidate => candidate.id === finding.policyId);
+    if (policy) {
+      violations.push({
+        policyId: policy.id,
+        policyName: policy.name,
+        severity: policy.severity,
+        explanation: finding.explanation,
+        excerpt: finding.excerpt,
+        source: 'model',
+      });
+    }
+  }
+
+  return violations;
+}
+
+// The rule-based half of checkCompliance
+export function checkCompliancePatterns(draft: string, policies: CompliancePolicy[]): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+
+  for (const policy of policies) {
+    if (policy.type === 'llm' || !policy.pattern) {
+      continue;
+    }
+
+    const match = draft.match(new RegExp(policy.pattern, policy.flags));
+    if (policy.type === 'forbidden' && match) {
+      violations.push(ruleViolation(policy, match[0]));
+    }
+    if (policy.type === 'required' && !match) {
+      violations.push(ruleViolation(policy));
+    }
+  }
+
+  return violations;
+}
+
+function ruleViolation(policy: CompliancePolicy, excerpt?: string): ComplianceViolation {
+  return {
+    policyId: policy.id,
+    policyName: policy.name,
+    severity: policy.severity,
+    explanation: policy.description,
+    excerpt,
+    source: 'rule',
+  };
+}
@@ -0,0 +1,72 @@
+import { EmbeddingProvider, EmbeddingResponse } from './interface';
+import { tokenizers } from './tokenizer';
+
+const DEFAULT_HASH_DIMENSIONS = 512;
+
+/**
+ * Deterministic, dependency-free embeddings using the hashing trick over word
+ * unigrams and bigrams. Far weaker than a model embedding, but lets semantic
+ * search work offline and in tests without any API key.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly embeddingModel: string;
+
+  constructor(readonly embeddingDimensions: number = DEFAULT_HASH_DIMENSIONS) {
+    this.embeddingModel = `hash-${embeddingDimensions}`;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<EmbeddingResponse> {
+    return {
+      embeddings: texts.map(text => this.embed(text)),
+      model: this.embeddingModel,
+      tokensUsed: texts.reduce((sum, text) => sum + tokenizers.count(text), 0),
+    };
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.embeddingDimensions).fill(0);
+    const words: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    const features = words.concat(
+      words.slice(1).map((word, i) => `${words[i]} ${word}`)
+    );
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so collisions tend to cancel out
+      vector[hash % this.embeddingDimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    return normalize(vector);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
+
+// 32-bit FNV-1a, also used for stable experiment assignment
+export function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -157,6 +157,37 @@ export class ValidationError extends AIProviderError {
   }
 }
 
+export class StructuredOutputError extends AIProviderError {
+  public readonly rawOutput: string;
+  public readonly issues: string[];
+  public readonly attempts: number;
+
+  constructor(
+    message: string,
+    rawOutput: string,
+    issues: string[],
+    attempts: number
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.rawOutput = rawOutput;
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
+
+export class CassetteMissError extends AIProviderError {
+  public readonly method: string;
+  public readonly key: string;
+
+  constructor(message: string, method: string, key: string) {
+    super(message);
+    this.name = 'CassetteMissError';
+    this.method = method;
+    this.key = key;
+  }
+}
+
 export function isRateLimitError(error: any): error is RateLimitError {
   return error instanceof RateLimitError || error?.name === 'RateLimitError';
 }
@@ -0,0 +1,113 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { AIProviderError, StructuredOutputError } from '../errors';
+import { requestHash } from '../providers/replay';
+
+// live calls the model only; record calls it and saves the outputs; replay never calls it
+export type CassetteMode = 'live' | 'record' | 'replay';
+
+interface CassetteEntry {
+  value?: unknown;
+  error?: {
+    name: string;
+    message: string;
+    rawOutput?: string;
+    issues?: string[];
+    attempts?: number;
+  };
+}
+
+interface CassetteFile {
+  version: number;
+  entries: Record<string, CassetteEntry>;
+}
+
+const CASSETTE_VERSION = 1;
+
+/**
+ * Model outputs of an eval run keyed by a hash of the request, so a recorded
+ * run can be scored again without network. A changed prompt or fixture changes
+ * the key, and replaying it fails instead of reusing a stale output.
+ */
+export class EvalCassette {
+  private entries: Map<string, CassetteEntry> = new Map();
+
+  constructor(private file: string, readonly mode: CassetteMode) {}
+
+  async load(): Promise<void> {
+    if (this.mode === 'live') {
+      return;
+    }
+
+    try {
+      const content: CassetteFile = JSON.parse(await fs.readFile(this.file, 'utf-8'));
+      this.entries = new Map(Object.entries(content.entries));
+    } catch (error: any) {
+      // Recording starts a new cassette; replaying needs an existing one
+      if (error.code !== 'ENOENT' || this.mode === 'replay') {
+        throw error;
+      }
+    }
+  }
+
+  // Entries are sorted so re-recording an unchanged run leaves the file unchanged
+  async save(): Promise<void> {
+    if (this.mode !== 'record') {
+      return;
+    }
+
+    const entries: Record<string, CassetteEntry> = {};
+    Array.from(this.entries.keys()).sort().forEach(key => {
+      entries[key] = this.entries.get(key)!;
+    });
+
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(this.file, JSON.stringify({ version: CASSETTE_VERSION, entries }, null, 2) + '\n');
+  }
+
+  async run<T>(request: unknown, call: () => Promise<T>): Promise<T> {
+    if (this.mode === 'live') {
+      return call();
+    }
+
+    const key = requestHash(request);
+
+    if (this.mode === 'replay') {
+      const entry = this.entries.get(key);
+      if (!entry) {
+        throw new AIProviderError(`No recorded output for request ${key.slice(0, 12)}; record the run again`);
+      }
+      if (entry.error) {
+        throw toError(entry.error);
+      }
+      return entry.value as T;
+    }
+
+    try {
+      const value = await call();
+      this.entries.set(key, { value });
+      return value;
+    } catch (error: any) {
+      // Invalid model output is a result worth replaying; network failures are not
+      if (error instanceof StructuredOutputError) {
+        this.entries.set(key, {
+          error: {
+            name: error.name,
+            message: error.message,
+            rawOutput: error.rawOutput,
+            issues: error.issues,
+            attempts: error.attempts,
+          },
+        });
+      }
+      throw error;
+    }
+  }
+}
+
+function toError(error: NonNullable<CassetteEntry['error']>): Error {
+  if (error.name === 'StructuredOutputError') {
+    return new StructuredOutputError(error.message, error.rawOutput || '', error.issues || [], error.attempts || 0);
+  }
+  return new AIProviderError(error.message);
+}
@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+/**
+ * Offline eval runner.
+ *
+ *   npm run eval -- --fixtures eval/fixtures/emails.json --provider groq --mode record \
+ *     --cassette eval/cassettes/groq.json --out eval/reports/groq.json
+ *
+ * --mode replay scores the recorded outputs without network; --baseline prints
+ * the metric deltas and changed fixtures against an earlier report.
+ */
+import dotenv from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+import { AIProviderFactory, ProviderType } from '../index';
+import { EvalCassette, CassetteMode } from './cassette';
+import { EvalReport, EvalRunner, EvalTask, compareEvalReports, formatEvalReport, loadEvalFixtures } from './runner';
+
+dotenv.config();
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+    }
+  }
+  return args;
+}
+
+// Replay never calls the provider, so a missing key only matters when recording or running live
+function createProvider(type: string, model: string | undefined, mode: CassetteMode) {
+  const apiKey = process.env[`${type.toUpperCase()}_API_KEY`] || (mode === 'replay' ? 'replay' : '');
+
+  return AIProviderFactory.create({
+    type: type as ProviderType,
+    apiKey,
+    // Cached drafts would hide what the current prompts produce
+    config: { model, cacheConfig: { ttl: 0, maxSize: 0, enabled: false } },
+  });
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.fixtures) {
+    throw new Error('--fixtures is required');
+  }
+
+  const mode = (args.mode || 'live') as CassetteMode;
+  const provider = createProvider(args.provider || ProviderType.GROQ, args.model, mode);
+  const judge = args['judge-provider']
+    ? createProvider(args['judge-provider'], args['judge-model'], mode)
+    : undefined;
+
+  let cassette: EvalCassette | undefined;
+  if (mode !== 'live') {
+    if (!args.cassette) {
+      throw new Error(`--cassette is required with --mode ${mode}`);
+    }
+    cassette = new EvalCassette(args.cassette, mode);
+    await cassette.load();
+  }
+
+  const runner = new EvalRunner(provider, {
+    cassette,
+    judge,
+    tasks: args.tasks ? (args.tasks.split(',') as EvalTask[]) : undefined,
+  });
+
+  const report = await runner.run(await loadEvalFixtures(args.fixtures));
+  await cassette?.save();
+
+  process.stdout.write(formatEvalReport(report));
+
+  if (args.out) {
+    await fs.mkdir(path.dirname(args.out), { recursive: true });
+    await fs.writeFile(args.out, JSON.stringify(report, null, 2) + '\n');
+  }
+
+  if (args.baseline) {
+    const baseline: EvalReport = JSON.parse(await fs.readFile(args.baseline, 'utf-8'));
+    const comparison = compareEvalReports(baseline, report);
+
+    console.log('\nChanges against baseline:');
+    Object.entries(comparison.metrics)
+      .filter(([, metric]) => metric.delta)
+      .forEach(([name, metric]) => console.log(`  ${name}: ${metric.delta! > 0 ? '+' : ''}${metric.delta!.toFixed(3)}`));
+    comparison.changes.forEach(change =>
+      console.log(`  ${change.id} ${change.field}: ${change.before ?? '-'} -> ${change.after ?? '-'}`)
+    );
+  }
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
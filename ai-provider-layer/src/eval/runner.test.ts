@@ -0,0 +1,148 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { StructuredOutputError } from '../errors';
+import { prompts } from '../prompts/registry';
+import { EvalCassette } from './cassette';
+import { EvalFixture, EvalRunner, compareEvalReports, formatEvalReport } from './runner';
+import { checkLength, checkStyle } from './scoring';
+
+const fixtures: EvalFixture[] = [
+  {
+    id: 'meeting',
+    email: { subject: 'Roadmap', from: 'maria@acme.com', body: 'Could we meet on Tuesday to review the roadmap?' },
+    style: 'formal',
+    expected: { intent: 'meeting_request', sentiment: 'neutral', urgency: 'medium' },
+    referenceReply: 'Dear Maria, Tuesday at 2 PM works for me. Best regards',
+  },
+  {
+    id: 'complaint',
+    email: { subject: 'Outage', from: 'ops@customer.io', body: 'The dashboard is down again and we have a demo soon.' },
+    style: 'brief',
+    expected: { intent: 'complaint', sentiment: 'negative', urgency: 'high' },
+  },
+];
+
+function createProvider(replyText = 'Dear Maria,\n\nTuesday at 2 PM works well for me. I will send an invitation shortly.\n\nBest regards') {
+  return {
+    generateStructured: jest.fn(async (_input: any, _schema: any, options: any): Promise<any> => {
+      const base = { text: '{}', model: 'test-model', tokensUsed: 10, responseTimeMs: 5 };
+      switch (options.schemaName) {
+        case 'EmailIntent':
+          return { ...base, data: { type: 'meeting_request', confidence: 0.9 }, repairAttempts: 0 };
+        case 'SentimentAnalysis':
+          return {
+            ...base,
+            data: { sentiment: 'neutral', score: 0.8, urgency: 'medium', professionalism: 0.9 },
+            repairAttempts: 1,
+          };
+        default:
+          return { ...base, data: { score: 4, reasoning: 'Answers the question.' }, repairAttempts: 0 };
+      }
+    }),
+    generateEmailResponse: jest.fn(async () => ({
+      text: replyText,
+      model: 'test-model',
+      tokensUsed: 20,
+      responseTimeMs: 5,
+      prompt: { id: 'email-reply.system.formal', version: 1 },
+    })),
+    getModelInfo: jest.fn(() => ({ name: 'test-model' } as any)),
+  };
+}
+
+describe('EvalRunner', () => {
+  it('scores classification, JSON validity, replies and judge grades', async () => {
+    const provider = createProvider();
+    const runner = new EvalRunner(provider, { judge: provider });
+
+    const report = await runner.run(fixtures);
+
+    expect(report.summary).toMatchObject({
+      fixtures: 2,
+      intentAccuracy: 0.5,
+      sentimentAccuracy: 0.5,
+      urgencyAccuracy: 0.5,
+      // Sentiment needed a repair prompt in both fixtures
+      jsonValidity: 0.5,
+      judgeScore: 4,
+      errors: 0,
+    });
+    expect(report.results[0].reply).toMatchObject({ style: { passed: true }, length: { passed: true } });
+    expect(report.results[0].reply!.prompt).toEqual({ id: 'email-reply.system.formal', version: 1 });
+    // Only the first fixture has a reference reply
+    expect(report.results[1].reply!.judgeScore).toBeUndefined();
+    expect(formatEvalReport(report)).toContain('complaint  intent=meeting_request (expected complaint)');
+  });
+
+  it('counts schema failures as invalid JSON and keeps going', async () => {
+    const provider = createProvider();
+    provider.generateStructured.mockImplementation(async () => {
+      throw new StructuredOutputError('Model output did not match', 'not json', ['invalid JSON'], 3);
+    });
+
+    const report = await new EvalRunner(provider, { tasks: ['intent'] }).run(fixtures);
+
+    expect(report.summary.jsonValidity).toBe(0);
+    expect(report.summary.intentAccuracy).toBe(0);
+    expect(report.results[0].errors).toEqual(['intent: Model output did not match']);
+    expect(provider.generateEmailResponse).not.toHaveBeenCalled();
+  });
+
+  it('replays a recorded run without calling the provider', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'eval-'));
+    const file = path.join(directory, 'cassette.json');
+
+    const recorder = new EvalCassette(file, 'record');
+    await recorder.load();
+    const recorded = await new EvalRunner(createProvider(), { cassette: recorder }).run(fixtures);
+    await recorder.save();
+
+    const offline = createProvider();
+    const player = new EvalCassette(file, 'replay');
+    await player.load();
+    const replayed = await new EvalRunner(offline, { cassette: player }).run(fixtures);
+
+    expect(replayed).toEqual(recorded);
+    expect(offline.generateStructured).not.toHaveBeenCalled();
+    expect(offline.generateEmailResponse).not.toHaveBeenCalled();
+
+    // A changed fixture is a new request with nothing recorded for it
+    const changed = await new EvalRunner(offline, { cassette: player, tasks: ['intent'] }).run([
+      { ...fixtures[0], email: { ...fixtures[0].email, body: 'Can we meet on Wednesday instead?' } },
+    ]);
+    expect(changed.results[0].errors[0]).toContain('No recorded output');
+
+    // So is a reply drafted with a reworded system prompt
+    prompts.register({ id: 'email-reply.system.formal', version: 2, template: 'Be formal.' });
+    const reworded = await new EvalRunner(offline, { cassette: player, tasks: ['reply'] }).run(fixtures);
+    await fs.rm(directory, { recursive: true });
+
+    expect(reworded.results[0].errors[0]).toContain('No recorded output');
+    expect(reworded.results[1].errors).toEqual([]);
+  });
+
+  it('lists metric deltas and changed fixtures between reports', async () => {
+    const before = await new EvalRunner(createProvider()).run(fixtures);
+    const after = await new EvalRunner(createProvider('hey, tuesday works, gonna send an invite!')).run(fixtures);
+
+    const comparison = compareEvalReports(before, after);
+
+    expect(comparison.metrics.stylePassRate.delta).toBeLessThan(0);
+    expect(comparison.changes).toContainEqual({ id: 'meeting', field: 'style', before: 'pass', after: 'fail' });
+  });
+});
+
+describe('reply checks', () => {
+  it('flags replies that miss the requested style', () => {
+    expect(checkStyle("Hey, I'm sure we'll sort it out, don't worry!", 'formal').issues).toEqual([
+      '3 contractions',
+      'informal wording',
+      'no formal closing',
+    ]);
+    expect(checkStyle('To whom it may concern, please find the report herewith.', 'casual').passed).toBe(false);
+    expect(checkStyle('Done. Sent. Filed. Booked. Paid.', 'brief').passed).toBe(false);
+    expect(checkLength('Thanks', 'brief').issues).toEqual(['1 words, expected at least 3']);
+    expect(checkLength('one two three four', 'brief', { maxWords: 3 }).passed).toBe(false);
+  });
+});
@@ -0,0 +1,420 @@
+import fs from 'fs/promises';
+import { z, ZodType, ZodTypeDef } from 'zod';
+import {
+  AIGenerationInput,
+  AIProvider,
+  EmailContext,
+  EmailIntent,
+  PromptRef,
+  ResponseStyle,
+  SentimentAnalysis,
+  StructuredOutputOptions,
+  StructuredResponse,
+} from '../interface';
+import { EmailAnalyzer } from '../analysis';
+import { StructuredOutputError } from '../errors';
+import { EmailAnalysisPromptBuilder } from '../prompts/email-analysis';
+import { EmailPromptBuilder } from '../prompts/email-response';
+import { EvalCassette } from './cassette';
+import { CheckResult, LengthBounds, checkLength, checkStyle, countWords } from './scoring';
+
+export interface EvalFixture {
+  id: string;
+  email: {
+    subject: string;
+    from: string;
+    to?: string[];
+    body: string;
+  };
+  // Style the reply is drafted in; defaults to formal
+  style?: ResponseStyle;
+  expected?: {
+    intent?: EmailIntent['type'];
+    sentiment?: SentimentAnalysis['sentiment'];
+    urgency?: SentimentAnalysis['urgency'];
+  };
+  // Needed for the LLM judge
+  referenceReply?: string;
+  // Overrides the default word range for the style
+  length?: LengthBounds;
+}
+
+export type EvalTask = 'intent' | 'sentiment' | 'reply';
+
+export type EvalProvider = Pick<AIProvider, 'generateStructured' | 'generateEmailResponse' | 'getModelInfo'>;
+
+export interface EvalRunnerOptions {
+  tasks?: EvalTask[];
+  // Without a cassette every call goes to the provider
+  cassette?: EvalCassette;
+  // Scores replies against fixture.referenceReply; usually a stronger model than the one evaluated
+  judge?: Pick<AIProvider, 'generateStructured' | 'getModelInfo'>;
+  // Enrolls the replies in prompt experiments as this user
+  userId?: string;
+}
+
+export interface LabelResult {
+  expected: string;
+  actual?: string;
+  correct: boolean;
+}
+
+export interface ReplyResult {
+  words: number;
+  length: CheckResult;
+  style: CheckResult;
+  prompt?: PromptRef;
+  judgeScore?: number;
+  judgeReasoning?: string;
+}
+
+export interface FixtureResult {
+  id: string;
+  intent?: LabelResult;
+  sentiment?: LabelResult;
+  urgency?: LabelResult;
+  // Structured calls whose first output matched the schema, without repair prompts
+  json: { valid: number; total: number };
+  reply?: ReplyResult;
+  errors: string[];
+}
+
+export interface EvalSummary {
+  fixtures: number;
+  intentAccuracy?: number;
+  sentimentAccuracy?: number;
+  urgencyAccuracy?: number;
+  jsonValidity?: number;
+  lengthPassRate?: number;
+  stylePassRate?: number;
+  // Mean judge score, 1 to 5
+  judgeScore?: number;
+  errors: number;
+}
+
+// No timestamps or timings, so reports of two runs can be diffed directly
+export interface EvalReport {
+  model: string;
+  judgeModel?: string;
+  summary: EvalSummary;
+  results: FixtureResult[];
+}
+
+export interface EvalComparison {
+  metrics: Record<string, { before?: number; after?: number; delta?: number }>;
+  // Fixtures whose label, check or judge score changed between the runs
+  changes: Array<{ id: string; field: string; before?: string; after?: string }>;
+}
+
+const ReplyJudgementSchema = z.object({
+  score: z.number().int().min(1).max(5),
+  reasoning: z.string(),
+}) as ZodType<{ score: number; reasoning: string }, ZodTypeDef, unknown>;
+
+const ALL_TASKS: EvalTask[] = ['intent', 'sentiment', 'reply'];
+
+/**
+ * Runs an AIProvider over a fixture set and scores classification accuracy,
+ * JSON validity, reply length and style, and optionally reply quality with an
+ * LLM judge. With a cassette in replay mode the run needs no network.
+ */
+export class EvalRunner {
+  private analysisPrompts = new EmailAnalysisPromptBuilder();
+  private replyPrompts = new EmailPromptBuilder();
+
+  constructor(private provider: EvalProvider, private options: EvalRunnerOptions = {}) {}
+
+  async run(fixtures: EvalFixture[]): Promise<EvalReport> {
+    const tasks = this.options.tasks || ALL_TASKS;
+    const results: FixtureResult[] = [];
+
+    // One at a time: evals are small, and parallel calls would trip provider rate limits
+    for (const fixture of fixtures) {
+      results.push(await this.runFixture(fixture, tasks));
+    }
+
+    return {
+      model: this.provider.getModelInfo().name,
+      judgeModel: this.options.judge?.getModelInfo().name,
+      summary: summarize(results),
+      results,
+    };
+  }
+
+  private async runFixture(fixture: EvalFixture, tasks: EvalTask[]): Promise<FixtureResult> {
+    const result: FixtureResult = { id: fixture.id, json: { valid: 0, total: 0 }, errors: [] };
+    const expected = fixture.expected || {};
+
+    // Routed through structured() to count JSON validity and use the cassette
+    const analyzer = new EmailAnalyzer({
+      generateStructured: <T>(
+        input: AIGenerationInput,
+        schema: ZodType<T, ZodTypeDef, any>,
+        options?: StructuredOutputOptions
+      ) => this.structured(this.provider, input, schema, options, result),
+    });
+
+    if (tasks.includes('intent') && expected.intent) {
+      try {
+        const intent = await analyzer.classifyIntent(fixture.email.body);
+        result.intent = label(expected.intent, intent.type);
+      } catch (error: any) {
+        result.intent = label(expected.intent);
+        result.errors.push(`intent: ${error.message}`);
+      }
+    }
+
+    if (tasks.includes('sentiment') && (expected.sentiment || expected.urgency)) {
+      try {
+        const sentiment = await analyzer.analyzeSentiment(fixture.email.body);
+        result.sentiment = expected.sentiment ? label(expected.sentiment, sentiment.sentiment) : undefined;
+        result.urgency = expected.urgency ? label(expected.urgency, sentiment.urgency) : undefined;
+      } catch (error: any) {
+        result.sentiment = expected.sentiment ? label(expected.sentiment) : undefined;
+        result.urgency = expected.urgency ? label(expected.urgency) : undefined;
+        result.errors.push(`sentiment: ${error.message}`);
+      }
+    }
+
+    if (tasks.includes('reply')) {
+      try {
+        result.reply = await this.runReply(fixture, result);
+      } catch (error: any) {
+        result.errors.push(`reply: ${error.message}`);
+      }
+    }
+
+    return result;
+  }
+
+  private async runReply(fixture: EvalFixture, result: FixtureResult): Promise<ReplyResult> {
+    const style = fixture.style || 'formal';
+    const context: EmailContext = {
+      userId: this.options.userId,
+      subject: fixture.email.subject,
+      from: fixture.email.from,
+      to: fixture.email.to || [],
+      body: fixture.email.body,
+      responseStyle: style,
+    };
+
+    // The system prompt is part of the key so a reworded prompt is not replayed from an old recording
+    const response = await this.call(
+      {
+        kind: 'reply',
+        model: this.provider.getModelInfo().name,
+        systemPrompt: this.replyPrompts.renderSystemPrompt(style, context.userId).text,
+        context,
+      },
+      async () => {
+        const reply = await this.provider.generateEmailResponse(context);
+        return { text: reply.text, prompt: reply.prompt };
+      }
+    );
+
+    const reply: ReplyResult = {
+      words: countWords(response.text),
+      length: checkLength(response.text, style, fixture.length),
+      style: checkStyle(response.text, style),
+      prompt: response.prompt,
+    };
+
+    if (this.options.judge && fixture.referenceReply) {
+      try {
+        const judgement = await this.structured(
+          this.options.judge,
+          {
+            messages: [
+              { role: 'system', content: 'You grade email replies.' },
+              {
+                role: 'user',
+                content: this.analysisPrompts.buildReplyJudgePrompt(
+                  fixture.email.body,
+                  style,
+                  fixture.referenceReply,
+                  response.text
+                ),
+              },
+            ],
+            task: 'general',
+            options: { temperature: 0, maxTokens: 300 },
+          },
+          ReplyJudgementSchema,
+          { schemaName: 'ReplyJudgement' }
+        );
+        reply.judgeScore = judgement.data.score;
+        reply.judgeReasoning = judgement.data.reasoning;
+      } catch (error: any) {
+        // The reply itself is still scored without a judgement
+        result.errors.push(`judge: ${error.message}`);
+      }
+    }
+
+    return reply;
+  }
+
+  private async structured<T>(
+    provider: Pick<AIProvider, 'generateStructured' | 'getModelInfo'>,
+    input: AIGenerationInput,
+    schema: ZodType<T, ZodTypeDef, any>,
+    options: StructuredOutputOptions | undefined,
+    result?: FixtureResult
+  ): Promise<StructuredResponse<T>> {
+    try {
+      const response = await this.call(
+        { kind: 'structured', model: provider.getModelInfo().name, schemaName: options?.schemaName, input },
+        () => provider.generateStructured(input, schema, options)
+      );
+
+      if (result) {
+        result.json.total++;
+        result.json.valid += response.repairAttempts === 0 ? 1 : 0;
+      }
+      return response;
+    } catch (error) {
+      if (result && error instanceof StructuredOutputError) {
+        result.json.total++;
+      }
+      throw error;
+    }
+  }
+
+  private call<T>(request: unknown, call: () => Promise<T>): Promise<T> {
+    return this.options.cassette ? this.options.cassette.run(request, call) : call();
+  }
+}
+
+export async function loadEvalFixtures(file: string): Promise<EvalFixture[]> {
+  const content = JSON.parse(await fs.readFile(file, 'utf-8'));
+  const fixtures: EvalFixture[] = Array.isArray(content) ? content : content.fixtures;
+
+  const ids = new Set<string>();
+  for (const fixture of fixtures) {
+    if (!fixture.id || !fixture.email?.body) {
+      throw new Error(`Invalid eval fixture in ${file}: every fixture needs an id and email.body`);
+    }
+    if (ids.has(fixture.id)) {
+      throw new Error(`Duplicate eval fixture id '${fixture.id}' in ${file}`);
+    }
+    ids.add(fixture.id);
+  }
+
+  return fixtures;
+}
+
+export function formatEvalReport(report: EvalReport): string {
+  const { summary } = report;
+  const lines = [
+    `model: ${report.model}`,
+    ...(report.judgeModel ? [`judge: ${report.judgeModel}`] : []),
+    `fixtures: ${summary.fixtures}`,
+  ];
+
+  const metric = (name: string, value?: number, scale: 'percent' | 'score' = 'percent') => {
+    if (value !== undefined) {
+      lines.push(`${name}: ${scale === 'percent' ? `${(value * 100).toFixed(1)}%` : value.toFixed(2)}`);
+    }
+  };
+  metric('intent accuracy', summary.intentAccuracy);
+  metric('sentiment accuracy', summary.sentimentAccuracy);
+  metric('urgency accuracy', summary.urgencyAccuracy);
+  metric('json validity', summary.jsonValidity);
+  metric('length pass rate', summary.lengthPassRate);
+  metric('style pass rate', summary.stylePassRate);
+  metric('judge score', summary.judgeScore, 'score');
+  lines.push(`errors: ${summary.errors}`, '');
+
+  for (const result of report.results) {
+    const parts = [result.id];
+    for (const field of ['intent', 'sentiment', 'urgency'] as const) {
+      const value = result[field];
+      if (value) {
+        parts.push(`${field}=${value.actual ?? '-'}${value.correct ? '' : ` (expected ${value.expected})`}`);
+      }
+    }
+    if (result.reply) {
+      parts.push(`words=${result.reply.words}`);
+      result.reply.length.issues.concat(result.reply.style.issues).forEach(issue => parts.push(`[${issue}]`));
+      if (result.reply.judgeScore !== undefined) {
+        parts.push(`judge=${result.reply.judgeScore}`);
+      }
+    }
+    result.errors.forEach(error => parts.push(`ERROR ${error}`));
+    lines.push(parts.join('  '));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function compareEvalReports(before: EvalReport, after: EvalReport): EvalComparison {
+  const metrics: EvalComparison['metrics'] = {};
+  const keys = new Set([...Object.keys(before.summary), ...Object.keys(after.summary)]);
+
+  keys.forEach(key => {
+    const a = (before.summary as any)[key] as number | undefined;
+    const b = (after.summary as any)[key] as number | undefined;
+    metrics[key] = { before: a, after: b, delta: a !== undefined && b !== undefined ? b - a : undefined };
+  });
+
+  const changes: EvalComparison['changes'] = [];
+  const previous = new Map(before.results.map(result => [result.id, result]));
+
+  for (const result of after.results) {
+    const old = previous.get(result.id);
+    if (!old) {
+      continue;
+    }
+
+    const fields: Record<string, [string | undefined, string | undefined]> = {
+      intent: [old.intent?.actual, result.intent?.actual],
+      sentiment: [old.sentiment?.actual, result.sentiment?.actual],
+      urgency: [old.urgency?.actual, result.urgency?.actual],
+      length: [passed(old.reply?.length), passed(result.reply?.length)],
+      style: [passed(old.reply?.style), passed(result.reply?.style)],
+      judgeScore: [old.reply?.judgeScore?.toString(), result.reply?.judgeScore?.toString()],
+    };
+
+    Object.entries(fields).forEach(([field, [a, b]]) => {
+      if (a !== b) {
+        changes.push({ id: result.id, field, before: a, after: b });
+      }
+    });
+  }
+
+  return { metrics, changes };
+}
+
+function label(expected: string, actual?: string): LabelResult {
+  return { expected, actual, correct: actual === expected };
+}
+
+function passed(check?: CheckResult): string | undefined {
+  return check ? (check.passed ? 'pass' : 'fail') : undefined;
+}
+
+function summarize(results: FixtureResult[]): EvalSummary {
+  const rate = (values: boolean[]): number | undefined =>
+    values.length > 0 ? values.filter(Boolean).length / values.length : undefined;
+  const labels = (field: 'intent' | 'sentiment' | 'urgency') =>
+    results.filter(result => result[field]).map(result => result[field]!.correct);
+
+  const replies = results.map(result => result.reply).filter((reply): reply is ReplyResult => !!reply);
+  const judged = replies.filter(reply => reply.judgeScore !== undefined);
+  const jsonTotal = results.reduce((sum, result) => sum + result.json.total, 0);
+
+  return {
+    fixtures: results.length,
+    intentAccuracy: rate(labels('intent')),
+    sentimentAccuracy: rate(labels('sentiment')),
+    urgencyAccuracy: rate(labels('urgency')),
+    jsonValidity: jsonTotal > 0
+      ? results.reduce((sum, result) => sum + result.json.valid, 0) / jsonTotal
+      : undefined,
+    lengthPassRate: rate(replies.map(reply => reply.length.passed)),
+    stylePassRate: rate(replies.map(reply => reply.style.passed)),
+    judgeScore: judged.length > 0
+      ? judged.reduce((sum, reply) => sum + reply.judgeScore!, 0) / judged.length
+      : undefined,
+    errors: results.filter(result => result.errors.length > 0).length,
+  };
+}
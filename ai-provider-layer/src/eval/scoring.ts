@@ -0,0 +1,95 @@
+import { ResponseStyle } from '../interface';
+
+export interface LengthBounds {
+  minWords?: number;
+  maxWords?: number;
+}
+
+export interface CheckResult {
+  passed: boolean;
+  // Why the check failed; empty when it passed
+  issues: string[];
+}
+
+// Used unless a fixture sets its own bounds, e.g. from EmailContext.maxLength
+const DEFAULT_LENGTH_BOUNDS: Record<ResponseStyle, LengthBounds> = {
+  formal: { minWords: 10, maxWords: 300 },
+  casual: { minWords: 5, maxWords: 250 },
+  brief: { minWords: 3, maxWords: 80 },
+};
+
+const MAX_BRIEF_SENTENCES = 4;
+
+const CONTRACTION = /\b\w+'(?:t|re|ve|ll|d|m|s)\b/gi;
+const FORMAL_CLOSING = /\b(sincerely|best regards|kind regards|regards|yours (?:truly|faithfully|sincerely)|respectfully)\b/i;
+const SLANG = /\b(hey|gonna|wanna|gotta|lol|btw|cheers mate|yo)\b/i;
+const STIFF = /\b(dear sir|dear madam|to whom it may concern|yours faithfully|herewith|pursuant to)\b/i;
+const EMOJI = /[\u{1F300}-\u{1FAFF}\u{2600}-\u{27BF}]/u;
+
+export function countWords(text: string): number {
+  const words = text.trim().match(/\S+/g);
+  return words ? words.length : 0;
+}
+
+export function countSentences(text: string): number {
+  const sentences = text.split(/[.!?]+(?:\s|$)/).filter(sentence => sentence.trim().length > 0);
+  return sentences.length;
+}
+
+export function checkLength(text: string, style: ResponseStyle, bounds: LengthBounds = {}): CheckResult {
+  const { minWords, maxWords } = { ...DEFAULT_LENGTH_BOUNDS[style], ...bounds };
+  const words = countWords(text);
+  const issues: string[] = [];
+
+  if (minWords !== undefined && words < minWords) {
+    issues.push(`${words} words, expected at least ${minWords}`);
+  }
+  if (maxWords !== undefined && words > maxWords) {
+    issues.push(`${words} words, expected at most ${maxWords}`);
+  }
+
+  return { passed: issues.length === 0, issues };
+}
+
+/**
+ * Heuristic check that a reply reads like the requested ResponseStyle. It only
+ * catches clear misses (slang in a formal reply, a long "brief" reply); tone
+ * beyond that is left to the LLM judge.
+ */
+export function checkStyle(text: string, style: ResponseStyle): CheckResult {
+  const issues: string[] = [];
+  const contractions = (text.match(CONTRACTION) || []).length;
+
+  switch (style) {
+    case 'formal':
+      if (contractions > 1) {
+        issues.push(`${contractions} contractions`);
+      }
+      if (SLANG.test(text)) {
+        issues.push('informal wording');
+      }
+      if (EMOJI.test(text)) {
+        issues.push('emoji');
+      }
+      if (!FORMAL_CLOSING.test(text)) {
+        issues.push('no formal closing');
+      }
+      break;
+
+    case 'casual':
+      if (STIFF.test(text)) {
+        issues.push('stiff formal wording');
+      }
+      break;
+
+    case 'brief': {
+      const sentences = countSentences(text);
+      if (sentences > MAX_BRIEF_SENTENCES) {
+        issues.push(`${sentences} sentences, expected at most ${MAX_BRIEF_SENTENCES}`);
+      }
+      break;
+    }
+  }
+
+  return { passed: issues.length === 0, issues };
+}
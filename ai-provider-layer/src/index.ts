@@ -4,23 +4,63 @@ export * from './errors';
 export * from './cache';
 export * from './rate-limiter';
 export * from './usage-tracker';
+export * from './structured';
+export * from './tools';
+export * from './revision';
+export * from './analysis';
+export * from './tasks';
+export * from './priority';
+export * from './compliance';
+export * from './smart-replies';
+export * from './categories';
+export * from './embeddings';
+export * from './tokenizer';
+export * from './summarizer';
+export * from './style-profile';
+export * from './language';
+export * from './redaction';
+export * from './threats';
+export * from './stores/cache-store';
+export * from './stores/redis';
+export * from './stores/sqlite';
+export * from './stores/memory';
+export * from './budget';
 export * from './providers/groq';
+export * from './providers/openai';
+export * from './providers/anthropic';
+export * from './providers/local';
+export * from './providers/heuristics';
+export * from './providers/router';
+export * from './providers/replay';
+export * from './providers/redacting';
 export * from './prompts/email-response';
 export * from './prompts/email-analysis';
+export * from './prompts/registry';
 export * from './templates/email-templates';
+export * from './eval/runner';
+export * from './eval/scoring';
+export * from './eval/cassette';
 
 // Re-export main provider for convenience
 export { GroqProvider as DefaultProvider } from './providers/groq';
 
 // Factory function for creating providers
 import { GroqProvider, GroqConfig } from './providers/groq';
-import { AIProvider } from './interface';
+import { OpenAIProvider, OpenAIConfig } from './providers/openai';
+import { AnthropicProvider, AnthropicConfig } from './providers/anthropic';
+import { LocalProvider, LocalConfig } from './providers/local';
+import { RouterProvider, RoutingPolicy } from './providers/router';
+import { RecordingProvider, ReplayConfig, ReplayProvider } from './providers/replay';
+import { HashEmbeddingProvider } from './embeddings';
+import { AIProvider, AITask, EmbeddingProvider } from './interface';
 
 export enum ProviderType {
   GROQ = 'groq',
   OPENAI = 'openai',
   ANTHROPIC = 'anthropic',
   LOCAL = 'local',
+  // Serves a cassette recorded with RecordingProvider; config.cassette is its path
+  REPLAY = 'replay',
 }
 
 export interface ProviderFactoryConfig {
@@ -39,16 +79,26 @@ export class AIProviderFactory {
         } as GroqConfig);
       
       case ProviderType.OPENAI:
-        // Placeholder for OpenAI provider
-        throw new Error('OpenAI provider not yet implemented');
+        return new OpenAIProvider({
+          apiKey: config.apiKey,
+          ...config.config,
+        } as OpenAIConfig);
       
       case ProviderType.ANTHROPIC:
-        // Placeholder for Anthropic provider
-        throw new Error('Anthropic provider not yet implemented');
+        return new AnthropicProvider({
+          apiKey: config.apiKey,
+          ...config.config,
+        } as AnthropicConfig);
       
       case ProviderType.LOCAL:
-        // Placeholder for local model provider
-        throw new Error('Local model provider not yet implemented');
+        // Self-hosted servers usually need no key, so apiKey may be empty
+        return new LocalProvider({
+          apiKey: config.apiKey,
+          ...config.config,
+        } as LocalConfig);
+      
+      case ProviderType.REPLAY:
+        return new ReplayProvider(config.config as ReplayConfig);
       
       default:
         throw new Error(`Unknown provider type: ${config.type}`);
@@ -68,6 +118,49 @@ export class AIProviderFactory {
     
     return provider;
   }
+
+  // Groq and Anthropic have no embeddings API; 'hash' needs no backend at all
+  static createEmbeddingProvider(
+    config: Omit<ProviderFactoryConfig, 'type'> & { type: ProviderType | 'hash' }
+  ): EmbeddingProvider {
+    switch (config.type) {
+      case ProviderType.OPENAI:
+        return new OpenAIProvider({
+          apiKey: config.apiKey,
+          ...config.config,
+        } as OpenAIConfig);
+
+      case ProviderType.LOCAL:
+        return new LocalProvider({
+          apiKey: config.apiKey,
+          ...config.config,
+        } as LocalConfig);
+
+      case 'hash':
+        return new HashEmbeddingProvider(config.config?.dimensions);
+
+      default:
+        throw new Error(`Provider ${config.type} does not support embeddings`);
+    }
+  }
+
+  // Wraps a provider or router so its calls are saved for ProviderType.REPLAY
+  static createRecording(provider: AIProvider, cassette: string): RecordingProvider {
+    return new RecordingProvider(provider, { cassette });
+  }
+
+  static createRouter(
+    configs: ProviderFactoryConfig[],
+    policies?: Partial<Record<AITask, RoutingPolicy>>
+  ): RouterProvider {
+    return new RouterProvider({
+      providers: configs.map(config => ({
+        name: config.type,
+        provider: this.create(config),
+      })),
+      policies,
+    });
+  }
 }
 
 // Convenience function for quick setup
@@ -1,7 +1,15 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+
 export interface AIProvider {
   generateResponse(input: AIGenerationInput): Promise<AIResponse>;
   generateStreamingResponse(input: AIGenerationInput): AsyncGenerator<string>;
   
+  generateStructured<T>(
+    input: AIGenerationInput,
+    schema: ZodType<T, ZodTypeDef, any>,
+    options?: StructuredOutputOptions
+  ): Promise<StructuredResponse<T>>;
+  
   analyzeEmailSentiment(email: string): Promise<SentimentAnalysis>;
   generateEmailResponse(email: EmailContext): Promise<EmailResponse>;
   summarizeEmailThread(thread: Email[]): Promise<string>;
@@ -14,22 +22,80 @@ export interface AIProvider {
   isAvailable(): Promise<boolean>;
 }
 
+// Implemented by providers that can embed text for semantic search
+export interface EmbeddingProvider {
+  readonly embeddingModel: string;
+  readonly embeddingDimensions: number;
+  generateEmbeddings(texts: string[]): Promise<EmbeddingResponse>;
+}
+
+export interface EmbeddingResponse {
+  embeddings: number[][];
+  model: string;
+  tokensUsed: number;
+}
+
 export interface AIGenerationInput {
   messages: Message[];
+  task?: AITask;
+  // Attributes usage to a user; never sent to the model
+  userId?: string;
+  // Functions the model may call instead of answering; ignored by providers without tool support
+  tools?: ToolDefinition[];
+  // 'none' makes the model answer with what it has, e.g. once the step limit is reached
+  toolChoice?: 'auto' | 'none';
+  // Earlier tool rounds of this generation, sent after messages in order
+  toolSteps?: ToolStep[];
   options?: {
     temperature?: number;
     maxTokens?: number;
     topP?: number;
     stopSequences?: string[];
+    responseFormat?: 'text' | 'json';
   };
 }
 
+// parameters is a JSON Schema object describing the arguments
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+// A tool the caller can run, e.g. for the tool loop of generateEmailResponse
+export interface Tool extends ToolDefinition {
+  execute(args: Record<string, any>): Promise<unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolResult {
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+// One round of tool use: the calls the model asked for and what they returned
+export interface ToolStep {
+  // Text the model wrote alongside the calls, if any
+  text?: string;
+  calls: ToolCall[];
+  results: ToolResult[];
+}
+
 export interface Message {
   role: 'system' | 'user' | 'assistant';
   content: string;
 }
 
 export interface EmailContext {
+  // Scopes per-user features such as the semantic response cache
+  userId?: string;
   subject: string;
   from: string;
   to: string[];
@@ -38,6 +104,31 @@ export interface EmailContext {
   responseStyle?: 'formal' | 'casual' | 'brief';
   maxLength?: number;
   includeSignature?: boolean;
+  // Looked up while drafting, e.g. calendar availability; such drafts are never cached
+  tools?: Tool[];
+  // Tool rounds before the model has to answer (default: 3)
+  maxToolSteps?: number;
+  // Learned from the user's sent mail; drafts then follow their habits instead of a generic tone
+  styleProfile?: StyleProfile;
+  // ISO 639-1 code to reply in; without it the reply follows the language of the email
+  language?: string;
+  // Set by RedactingProvider: which values the placeholders stand for. Cached drafts hold
+  // placeholders, so they are only reused where they restore to the same values
+  redactionKey?: string;
+}
+
+// How the user writes, see StyleProfileBuilder
+export interface StyleProfile {
+  // Most frequent first; names are replaced with {name}, e.g. "Hi {name},"
+  greetings: string[];
+  signOffs: string[];
+  // Median words per email, without greeting, sign-off and quoted text
+  typicalLength: number;
+  formality: 'formal' | 'neutral' | 'casual';
+  commonPhrases: string[];
+  // Short emails the user sent, used as few-shot examples
+  examples: Array<{ subject: string; body: string }>;
+  sampleSize: number;
 }
 
 export interface Email {
@@ -62,10 +153,45 @@ export interface AIResponse {
   tokensUsed: number;
   responseTimeMs: number;
   confidence?: number;
+  // Registry prompt the response was generated from, for experiment reporting
+  prompt?: PromptRef;
+  // Set when PII was replaced with placeholders before the request left the server
+  redaction?: RedactionAudit;
+  // Calls the model asked for instead of a final answer (finishReason 'tool_calls')
+  toolCalls?: ToolCall[];
+  // Tool rounds that ran before the final answer
+  toolSteps?: ToolStep[];
   metadata?: Record<string, any>;
 }
 
+// Identifies the exact prompt version (and experiment variant) behind a response
+export interface PromptRef {
+  id: string;
+  version: number;
+  experimentId?: string;
+  variant?: string;
+}
+
+// What was redacted, by placeholder; the original values are never included
+export interface RedactionAudit {
+  redactions: Array<{ type: string; placeholder: string; count: number }>;
+  // Placeholders put back into the generated text
+  restored: number;
+}
+
+export interface StructuredResponse<T> extends AIResponse {
+  data: T;
+  repairAttempts: number;
+}
+
+export interface StructuredOutputOptions {
+  maxRepairAttempts?: number;
+  schemaName?: string;
+}
+
 export interface EmailResponse extends AIResponse {
+  // ISO 639-1 code of the reply, when EmailContext.language was set
+  language?: string;
   suggestedActions?: string[];
   detectedIntent?: EmailIntent;
   requiresFollowUp?: boolean;
@@ -93,6 +219,108 @@ export interface EmailIntent {
   requiredActions?: string[];
 }
 
+export interface LanguageDetection {
+  // ISO 639-1 code, e.g. 'en' or 'de'
+  language: string;
+  confidence: number;
+}
+
+export interface ActionItem {
+  description: string;
+  owner?: string;
+  deadline?: string;
+  priority: 'low' | 'medium' | 'high';
+  type: 'request' | 'commitment';
+}
+
+export interface PriorityAssessment {
+  level: 'low' | 'medium' | 'high' | 'urgent';
+  factors: string[];
+  // ISO 8601, when the email names a deadline
+  deadline?: string;
+  confidence: number;
+}
+
+// An action item with the details needed to track it, see extractTasks
+export interface ExtractedTask {
+  description: string;
+  owner?: string;
+  // ISO 8601; only set when the deadline names a date
+  dueDate?: string;
+  amounts: ExtractedEntities['amounts'];
+  priority: ActionItem['priority'];
+  type: ActionItem['type'];
+}
+
+// A one-tap reply offered with an email, see suggestSmartReplies
+export interface SmartReply {
+  text: string;
+  intent: 'accept' | 'acknowledge' | 'decline' | 'question';
+}
+
+// A category defined by the user that emails are sorted into, see categorizeThread
+export interface EmailCategoryDefinition {
+  name: string;
+  // What belongs in the category, in the user's words
+  description: string;
+  // Emails the user filed here; corrections are added as they come
+  examples?: CategoryExample[];
+}
+
+export interface CategoryExample {
+  subject: string;
+  from?: string;
+  snippet: string;
+}
+
+export interface CategoryAssignment {
+  // Null when no category fits well enough
+  category: string | null;
+  confidence: number;
+  reason?: string;
+}
+
+// An organization rule that outgoing drafts are checked against, see checkCompliance
+export interface CompliancePolicy {
+  id: string;
+  name: string;
+  // What the policy forbids or requires; the model judges 'llm' policies by it
+  description: string;
+  // 'forbidden' drafts must not match the pattern, 'required' ones must (e.g. a disclaimer)
+  type: 'forbidden' | 'required' | 'llm';
+  pattern?: string;
+  flags?: string;
+  severity: 'low' | 'medium' | 'high';
+}
+
+// What the model reports for an 'llm' policy
+export interface ComplianceFinding {
+  policyId: string;
+  explanation: string;
+  excerpt?: string;
+}
+
+export interface ComplianceViolation {
+  policyId: string;
+  policyName: string;
+  severity: CompliancePolicy['severity'];
+  explanation: string;
+  // The offending passage, if there is one
+  excerpt?: string;
+  source: 'rule' | 'model';
+}
+
+export interface ExtractedEntities {
+  people: Array<{ name: string; role?: string; organization?: string }>;
+  dates: Array<{ text: string; date?: string; context?: string }>;
+  locations: string[];
+  projects: string[];
+  amounts: Array<{ text: string; value?: number; currency?: string }>;
+  contacts: Array<{ type: 'email' | 'phone' | 'address'; value: string }>;
+  documents: string[];
+  urls: string[];
+}
+
 export interface RateLimitStatus {
   requestsRemaining: number;
   tokensRemaining: number;
@@ -105,7 +333,9 @@ export interface UsageStats {
   totalTokens: number;
   totalCost: number;
   averageResponseTime: number;
+  // Fractions of requests served from cache; semantic hits are included in cacheHitRate
   cacheHitRate: number;
+  semanticCacheHitRate: number;
   errorRate: number;
   byModel: Record<string, ModelUsage>;
   byDay: Record<string, DailyUsage>;
@@ -161,4 +391,15 @@ export interface RateLimits {
   tokensPerDay?: number;
 }
 
-export type ResponseStyle = 'formal' | 'casual' | 'brief';
\ No newline at end of file
+export type ResponseStyle = 'formal' | 'casual' | 'brief';
+
+// Canned requests for reviseEmailResponse, see REVISION_PRESETS
+export type RevisionPreset = 'shorter' | 'warmer' | 'add_apology' | 'decline_politely';
+
+export interface RevisionRequest {
+  presets?: RevisionPreset[];
+  // Free-text instructions from the user, e.g. "mention the new deadline"
+  feedback?: string;
+}
+
+export type AITask = 'reply' | 'sentiment' | 'summary' | 'extraction' | 'general';
\ No newline at end of file
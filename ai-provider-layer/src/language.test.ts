@@ -0,0 +1,29 @@
+import { detectLanguageLocally, languageName } from './language';
+import { EmailPromptBuilder } from './prompts/email-response';
+
+describe('detectLanguageLocally', () => {
+  it('detects languages from their script or common words', () => {
+    expect(detectLanguageLocally('お世話になっております。来週の会議について確認させてください。')?.language).toBe('ja');
+    expect(detectLanguageLocally('Спасибо за письмо. Я не смогу быть на встрече, но это не проблема для нас.')?.language).toBe('ru');
+    expect(detectLanguageLocally('Hallo Anna, danke für die Unterlagen. Ich habe die Rechnung nicht bekommen, bitte schick sie mir noch einmal. Wir sehen uns.')?.language).toBe('de');
+    expect(detectLanguageLocally('Bonjour, merci pour votre message. Nous avons bien reçu le dossier et vous pouvez passer pour la signature.')?.language).toBe('fr');
+    expect(detectLanguageLocally('Thanks for the update. Please send the contract and we will have a look at it this week.')?.language).toBe('en');
+  });
+
+  it('leaves short or ambiguous text to the model', () => {
+    expect(detectLanguageLocally('OK 👍')).toBeNull();
+    expect(detectLanguageLocally('Invoice 2026-10 attached')).toBeNull();
+  });
+});
+
+describe('reply language', () => {
+  const email = { subject: 'Rechnung', from: 'anna@example.com', to: ['me@example.com'], body: 'Hallo!' };
+
+  it('follows the email unless a language is given', () => {
+    const builder = new EmailPromptBuilder();
+
+    expect(builder.buildEmailPrompt(email)).toContain('Write the reply in the language of the email.');
+    expect(builder.buildEmailPrompt({ ...email, language: 'de' })).toContain('Write the reply in German.');
+    expect(languageName('pt')).toBe('Portuguese');
+  });
+});
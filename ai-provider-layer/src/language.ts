@@ -0,0 +1,74 @@
+import { LanguageDetection } from './interface';
+
+// Scripts used by a single language decide on their own. Japanese mixes kana
+// with Chinese characters, so a smaller share of kana is enough.
+const SCRIPTS: Array<{ language: string; pattern: RegExp; minShare: number }> = [
+  { language: 'ja', pattern: /[\u3040-\u309f\u30a0-\u30ff]/g, minShare: 0.1 },
+  { language: 'ko', pattern: /[\uac00-\ud7af]/g, minShare: 0.3 },
+  { language: 'zh', pattern: /[\u4e00-\u9fa5]/g, minShare: 0.3 },
+  { language: 'ar', pattern: /[\u0600-\u06ff]/g, minShare: 0.3 },
+  { language: 'he', pattern: /[\u0590-\u05ff]/g, minShare: 0.3 },
+  { language: 'el', pattern: /[\u0370-\u03ff]/g, minShare: 0.3 },
+  { language: 'th', pattern: /[\u0e00-\u0e7f]/g, minShare: 0.3 },
+  { language: 'hi', pattern: /[\u0900-\u097f]/g, minShare: 0.3 },
+];
+
+// Frequent words that are rare in the other listed languages
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'for', 'with', 'this', 'that', 'have', 'will', 'please', 'thanks'],
+  es: ['el', 'los', 'las', 'que', 'por', 'para', 'con', 'una', 'es', 'gracias', 'usted', 'pero'],
+  fr: ['le', 'les', 'et', 'est', 'pour', 'une', 'dans', 'vous', 'nous', 'merci', 'avec', 'pas'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'ich', 'sie', 'wir', 'danke', 'bitte'],
+  it: ['il', 'che', 'per', 'della', 'sono', 'con', 'non', 'una', 'grazie', 'anche', 'gli'],
+  pt: ['não', 'uma', 'para', 'com', 'você', 'obrigado', 'obrigada', 'os', 'as', 'mas', 'está'],
+  nl: ['het', 'een', 'van', 'en', 'niet', 'met', 'ik', 'je', 'wij', 'bedankt', 'voor', 'ook'],
+  ru: ['и', 'в', 'не', 'на', 'что', 'с', 'по', 'это', 'вы', 'спасибо', 'как', 'для'],
+  uk: ['і', 'та', 'що', 'це', 'ви', 'ми', 'дякую', 'як', 'від', 'але', 'буде'],
+};
+
+// Below this many matched words the guess is left to the model
+const MIN_EVIDENCE = 4;
+
+/**
+ * Detects the language of a text without a model call, from its script or
+ * from common words. Returns null when the text is too short or ambiguous;
+ * EmailAnalyzer.detectLanguage can then decide.
+ */
+export function detectLanguageLocally(text: string): LanguageDetection | null {
+  const sample = text.slice(0, 2000);
+  const letters = sample.replace(/[^\p{L}]/gu, '').length;
+  if (letters === 0) {
+    return null;
+  }
+
+  for (const { language, pattern, minShare } of SCRIPTS) {
+    const share = (sample.match(pattern)?.length || 0) / letters;
+    if (share > minShare) {
+      return { language, confidence: 0.95 };
+    }
+  }
+
+  const words = sample.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  const scores = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({
+      language,
+      hits: words.filter(word => stopwords.includes(word)).length,
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, second] = scores;
+  if (best.hits < MIN_EVIDENCE || best.hits < second.hits * 2) {
+    return null;
+  }
+
+  return { language: best.language, confidence: Math.min(0.95, best.hits / (best.hits + second.hits)) };
+}
+
+// English name of an ISO 639-1 code for prompts, e.g. 'de' -> 'German'
+export function languageName(code: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
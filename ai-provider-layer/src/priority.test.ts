@@ -0,0 +1,53 @@
+import { findDeadline, scorePriority } from './priority';
+
+// A Wednesday
+const now = new Date(2026, 2, 4, 10, 0, 0);
+
+describe('scorePriority', () => {
+  it('ranks an urgent direct email from a VIP above a cc from an ignored sender', () => {
+    const important = scorePriority({
+      urgency: 'high',
+      vip: true,
+      recipient: 'to',
+      sender: { received: 10, opened: 10, replied: 8, medianReplyMinutes: 30 },
+      deadline: findDeadline('Please send it by Friday', now),
+    }, now);
+    const ignored = scorePriority({
+      urgency: 'low',
+      recipient: 'cc',
+      sender: { received: 20, opened: 2, replied: 0 },
+    }, now);
+
+    expect(important).toMatchObject({ score: 100, level: 'urgent' });
+    expect(important.factors.map(factor => factor.signal)).toEqual([
+      'urgency', 'vip', 'recipient', 'sender_opens', 'sender_replies', 'sender_reply_speed', 'deadline',
+    ]);
+    expect(ignored.level).toBe('low');
+    expect(ignored.score).toBeLessThan(20);
+  });
+
+  it('ignores a short sender history and caps feedback adjustments', () => {
+    const score = scorePriority({ sender: { received: 1, opened: 0, replied: 0 }, adjustment: 80 });
+
+    expect(score.factors).toEqual([{ signal: 'feedback', points: 30 }]);
+    expect(score).toMatchObject({ score: 50, level: 'medium' });
+  });
+});
+
+describe('findDeadline', () => {
+  it('resolves relative and named dates', () => {
+    expect(findDeadline('Can you review this by Friday?', now)).toEqual({
+      text: 'by Friday',
+      date: new Date(2026, 2, 6, 23, 59, 59).toISOString(),
+    });
+    expect(findDeadline('Needed tomorrow morning', now)?.date).toBe(new Date(2026, 2, 5, 23, 59, 59).toISOString());
+    expect(findDeadline('The report is due March 20.', now)?.date).toBe(new Date(2026, 2, 20, 23, 59, 59).toISOString());
+    expect(findDeadline('Payment due 2 Jan', now)?.date).toBe(new Date(2027, 0, 2, 23, 59, 59).toISOString());
+    expect(findDeadline('Deadline: 2026-03-10', now)?.date).toBe(new Date(2026, 2, 10, 23, 59, 59).toISOString());
+  });
+
+  it('reports "ASAP" without a date and picks the first deadline mentioned', () => {
+    expect(findDeadline('Please reply ASAP, the form is due Friday', now)).toEqual({ text: 'ASAP' });
+    expect(findDeadline('Thanks for the lovely dinner!', now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,180 @@
+import { PriorityAssessment } from './interface';
+
+export type PriorityLevel = PriorityAssessment['level'];
+
+// What is known about an email when it is scored; every signal is optional
+export interface PrioritySignals {
+  // The model's assessment of the content, see EmailAnalyzer.assessPriority
+  urgency?: PriorityLevel;
+  vip?: boolean;
+  // How the user received the email
+  recipient?: 'to' | 'cc' | 'bcc';
+  sender?: SenderHistory;
+  deadline?: DeadlineMention;
+  // Points learned from the user's corrections for this sender
+  adjustment?: number;
+}
+
+// The user's past behaviour with mail from the same sender
+export interface SenderHistory {
+  received: number;
+  opened: number;
+  replied: number;
+  medianReplyMinutes?: number;
+}
+
+export interface DeadlineMention {
+  text: string;
+  // ISO 8601; unset for "ASAP" and similar
+  date?: string;
+}
+
+export interface PriorityScore {
+  // 0 to 100
+  score: number;
+  level: PriorityLevel;
+  // Points per signal, so the score can be explained and corrected
+  factors: Array<{ signal: string; points: number }>;
+}
+
+const BASE_SCORE = 20;
+const URGENCY_POINTS: Record<PriorityLevel, number> = { low: 0, medium: 10, high: 25, urgent: 35 };
+const RECIPIENT_POINTS = { to: 10, cc: -5, bcc: -10 };
+const VIP_POINTS = 20;
+// A few emails say little about how the user treats a sender
+const MIN_SENDER_HISTORY = 3;
+const MAX_ADJUSTMENT = 30;
+const LEVELS: Array<[number, PriorityLevel]> = [[75, 'urgent'], [55, 'high'], [35, 'medium'], [0, 'low']];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const DEADLINE_CUE = '(?:by|before|until|due|no later than|deadline(?: is)?:?)';
+const MONTH_NAME = `(${MONTHS.map(month => `${month.slice(0, 3)}(?:${month.slice(3)})?`).join('|')})\\.?`;
+
+/**
+ * Combines the signals into one score. Each signal adds or removes points
+ * from a base score; the result is clamped to 0-100 and mapped to a level.
+ */
+export function scorePriority(signals: PrioritySignals, now: Date = new Date()): PriorityScore {
+  const factors: PriorityScore['factors'] = [];
+  const add = (signal: string, points: number) => {
+    if (points !== 0) {
+      factors.push({ signal, points: Math.round(points) });
+    }
+  };
+
+  if (signals.urgency) {
+    add('urgency', URGENCY_POINTS[signals.urgency]);
+  }
+  if (signals.vip) {
+    add('vip', VIP_POINTS);
+  }
+  if (signals.recipient) {
+    add('recipient', RECIPIENT_POINTS[signals.recipient]);
+  }
+
+  const sender = signals.sender;
+  if (sender && sender.received >= MIN_SENDER_HISTORY) {
+    add('sender_opens', 10 * (sender.opened / sender.received) - 5);
+    add('sender_replies', 15 * (sender.replied / sender.received));
+    if (sender.medianReplyMinutes !== undefined && sender.medianReplyMinutes <= 4 * 60) {
+      add('sender_reply_speed', 5);
+    }
+  }
+
+  if (signals.deadline) {
+    add('deadline', deadlinePoints(signals.deadline, now));
+  }
+  if (signals.adjustment) {
+    add('feedback', Math.max(-MAX_ADJUSTMENT, Math.min(MAX_ADJUSTMENT, signals.adjustment)));
+  }
+
+  const total = factors.reduce((sum, factor) => sum + factor.points, BASE_SCORE);
+  const score = Math.max(0, Math.min(100, total));
+
+  return {
+    score,
+    level: LEVELS.find(([min]) => score >= min)![1],
+    factors,
+  };
+}
+
+/**
+ * Finds the first deadline in a text: "ASAP" or "end of day", "tomorrow",
+ * "by Friday", "due March 5" or an ISO date after a cue such as "by" or "due".
+ */
+export function findDeadline(text: string, now: Date = new Date()): DeadlineMention | undefined {
+  const candidates: Array<{ index: number; mention: DeadlineMention }> = [];
+  const find = (pattern: RegExp, resolve: (match: RegExpMatchArray) => Date | undefined) => {
+    const match = text.match(pattern);
+    if (match?.index !== undefined) {
+      const date = resolve(match);
+      candidates.push({ index: match.index, mention: { text: match[0].trim(), date: date?.toISOString() } });
+    }
+  };
+
+  find(/\b(asap|as soon as possible|urgent(?:ly)?)\b/i, () => undefined);
+  find(/\b(today|tonight|eod|end of (?:the )?day|cob|close of business)\b/i, () => endOfDay(now, 0));
+  find(/\btomorrow\b/i, () => endOfDay(now, 1));
+  find(new RegExp(`\\b${DEADLINE_CUE}\\s+(?:this |next )?(${WEEKDAYS.join('|')})\\b`, 'i'), match =>
+    nextWeekday(now, WEEKDAYS.indexOf(match[1].toLowerCase()))
+  );
+  find(new RegExp(`\\b${DEADLINE_CUE}\\s+(\\d{4}-\\d{2}-\\d{2})\\b`, 'i'), match => {
+    const date = new Date(`${match[1]}T23:59:59`);
+    return isNaN(date.getTime()) ? undefined : date;
+  });
+  find(new RegExp(`\\b${DEADLINE_CUE}\\s+(?:${MONTH_NAME}\\s+(\\d{1,2})|(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_NAME})\\b`, 'i'), match => {
+    const month = monthIndex(match[1] || match[4]);
+    const day = Number(match[2] || match[3]);
+    return month >= 0 ? nextDate(now, month, day) : undefined;
+  });
+
+  candidates.sort((a, b) => a.index - b.index);
+  return candidates[0]?.mention;
+}
+
+function deadlinePoints(deadline: DeadlineMention, now: Date): number {
+  if (!deadline.date) {
+    return 15;
+  }
+
+  const remaining = new Date(deadline.date).getTime() - now.getTime();
+  if (remaining < -DAY_MS) {
+    // Long past; probably a reference to an earlier date
+    return 0;
+  }
+  if (remaining <= DAY_MS) return 20;
+  if (remaining <= 3 * DAY_MS) return 12;
+  if (remaining <= 7 * DAY_MS) return 5;
+  return 0;
+}
+
+function endOfDay(now: Date, daysAhead: number): Date {
+  const date = new Date(now);
+  date.setDate(date.getDate() + daysAhead);
+  date.setHours(23, 59, 59, 0);
+  return date;
+}
+
+// "By Friday" on a Friday means today
+function nextWeekday(now: Date, weekday: number): Date {
+  return endOfDay(now, (weekday - now.getDay() + 7) % 7);
+}
+
+// Dates without a year are the next time that day comes around
+function nextDate(now: Date, month: number, day: number): Date | undefined {
+  const date = new Date(now.getFullYear(), month, day, 23, 59, 59);
+  if (date.getMonth() !== month) {
+    return undefined;
+  }
+  if (date.getTime() < now.getTime() - DAY_MS) {
+    date.setFullYear(date.getFullYear() + 1);
+  }
+  return date;
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.findIndex(month => month.startsWith(name.toLowerCase().replace('.', '')));
+}
@@ -0,0 +1,152 @@
+import type { PromptTemplate } from './registry';
+
+// Version 1 of every built-in prompt; newer versions and experiments are loaded at runtime
+
+const REPLY_SYSTEM_BASE = `You are a professional email assistant. Your responses should be:
+- Clear and concise
+- Professional yet friendly
+- Action-oriented when appropriate
+- Free of spelling and grammar errors
+- Properly formatted with appropriate greetings and closings`;
+
+export const DEFAULT_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'email-reply.system.formal',
+    version: 1,
+    description: 'Reply drafting system prompt, formal style',
+    template: REPLY_SYSTEM_BASE + `
+- Use formal language and proper salutations
+- Maintain professional distance
+- Use complete sentences and proper grammar
+- Include formal closings (Sincerely, Best regards, etc.)
+- Avoid contractions and colloquialisms`,
+  },
+  {
+    id: 'email-reply.system.casual',
+    version: 1,
+    description: 'Reply drafting system prompt, casual style',
+    template: REPLY_SYSTEM_BASE + `
+- Use conversational tone
+- Be friendly and approachable
+- Use contractions when natural
+- Include warm greetings and closings
+- Feel free to use appropriate humor when suitable`,
+  },
+  {
+    id: 'email-reply.system.brief',
+    version: 1,
+    description: 'Reply drafting system prompt, brief style',
+    template: REPLY_SYSTEM_BASE + `
+- Maximum 3 paragraphs
+- Get straight to the point
+- Use bullet points when listing items
+- Skip unnecessary pleasantries
+- Focus on key information and actions`,
+  },
+  {
+    id: 'analysis.sentiment',
+    version: 1,
+    description: 'Sentiment and tone analysis',
+    template: `Analyze the sentiment and emotional tone of the following email.
+
+Email content:
+{{email}}
+
+Provide:
+- sentiment: positive, negative, neutral, or mixed
+- score: confidence in the sentiment from 0.0 to 1.0
+- emotions: intensity (0.0 to 1.0) of joy, anger, sadness, fear and surprise
+- urgency: low, medium, or high
+- professionalism: 0.0 to 1.0
+
+Be precise and consider both explicit and implicit emotional cues.`,
+  },
+  {
+    id: 'analysis.intent',
+    version: 1,
+    description: 'Intent classification',
+    template: `Classify the primary intent of this email and identify required actions.
+
+Email content:
+{{email}}
+
+Classify into one of these categories:
+- meeting_request: Requesting to schedule or discussing a meeting
+- information_request: Asking for information, clarification, or data
+- task_assignment: Assigning work or requesting action items
+- feedback: Providing feedback, review, or evaluation
+- complaint: Expressing dissatisfaction or raising issues
+- thank_you: Expressing gratitude or appreciation
+- introduction: Introducing people or initiating contact
+- follow_up: Following up on previous communication
+- announcement: Sharing news, updates, or announcements
+- other: Doesn't fit other categories
+
+Also provide:
+- confidence: 0.0 to 1.0
+- requiredActions: specific actions required from the recipient, including any deadline`,
+  },
+  {
+    id: 'analysis.action-items',
+    version: 1,
+    description: 'Action item extraction',
+    template: `Extract all action items from this email.
+
+Email content:
+{{email}}
+
+For each action item, provide:
+- description: what needs to be done
+- owner: who is responsible, if mentioned
+- deadline: due date as ISO 8601 when unambiguous, otherwise as written
+- priority: low, medium, or high
+- type: request (asked of the recipient) or commitment (promised by the sender)
+
+Return an empty list when there are no action items.`,
+  },
+  {
+    id: 'analysis.entities',
+    version: 1,
+    description: 'Entity extraction',
+    template: `Extract key entities and information from this email.
+
+Email content:
+{{email}}
+
+Extract:
+- people: names with role and organization when stated
+- dates: dates and times of meetings, deadlines and events, as ISO 8601 when unambiguous
+- locations: addresses, meeting rooms and venues
+- projects: projects or products mentioned
+- amounts: monetary amounts or budgets with currency
+- contacts: phone numbers, email addresses and postal addresses
+- documents: file names or document references
+- urls: links
+
+Use empty lists for anything not present.`,
+  },
+  {
+    id: 'eval.reply-judge',
+    version: 1,
+    description: 'Grades a drafted reply against a reference reply in offline evals',
+    template: `Grade a drafted email reply against a reference reply written by a person.
+
+Original email:
+{{email}}
+
+Requested style: {{style}}
+
+Reference reply:
+{{reference}}
+
+Drafted reply:
+{{candidate}}
+
+Provide:
+- score: 1 (unusable) to 5 (as good as or better than the reference)
+- reasoning: one or two sentences
+
+Judge whether the draft answers what the email asks, is correct about the facts in it, and matches
+the requested style. Do not reward length, and do not penalize wording that differs from the reference.`,
+  },
+];
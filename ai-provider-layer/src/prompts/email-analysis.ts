@@ -1,52 +1,15 @@
-import { Email, EmailIntent, SentimentAnalysis } from '../interface';
+import { Email, EmailCategoryDefinition, ResponseStyle } from '../interface';
+import { PromptRegistry, prompts } from './registry';
 
 export class EmailAnalysisPromptBuilder {
-  buildSentimentAnalysisPrompt(email: string): string {
-    return `Analyze the sentiment and emotional tone of the following email.
+  constructor(private registry: PromptRegistry = prompts) {}
 
-Email content:
-${email}
-
-Provide analysis in the following format:
-1. Overall sentiment: positive, negative, neutral, or mixed
-2. Confidence score: 0.0 to 1.0
-3. Detected emotions with intensity (0.0 to 1.0):
-   - Joy
-   - Anger
-   - Sadness
-   - Fear
-   - Surprise
-4. Urgency level: low, medium, or high
-5. Professionalism score: 0.0 to 1.0
-6. Key indicators that influenced the analysis
-
-Be precise and consider both explicit and implicit emotional cues.`;
+  buildSentimentAnalysisPrompt(email: string): string {
+    return this.registry.render('analysis.sentiment', { email }).text;
   }
 
   buildIntentClassificationPrompt(email: string): string {
-    return `Classify the primary intent of this email and identify required actions.
-
-Email content:
-${email}
-
-Classify into one of these categories:
-- meeting_request: Requesting to schedule or discussing a meeting
-- information_request: Asking for information, clarification, or data
-- task_assignment: Assigning work or requesting action items
-- feedback: Providing feedback, review, or evaluation
-- complaint: Expressing dissatisfaction or raising issues
-- thank_you: Expressing gratitude or appreciation
-- introduction: Introducing people or initiating contact
-- follow_up: Following up on previous communication
-- announcement: Sharing news, updates, or announcements
-- other: Doesn't fit other categories
-
-Also identify:
-1. Confidence level (0.0 to 1.0)
-2. List of specific actions required from the recipient
-3. Deadline if mentioned
-4. Priority indicators
-5. Secondary intents if present`;
+    return this.registry.render('analysis.intent', { email }).text;
   }
 
   buildPriorityDetectionPrompt(email: string): string {
@@ -69,24 +32,11 @@ Analyze and provide:
   }
 
   buildEntityExtractionPrompt(email: string): string {
-    return `Extract key entities and information from this email.
-
-Email content:
-${email}
+    return this.registry.render('analysis.entities', { email }).text;
+  }
 
-Extract the following:
-1. People mentioned (names, roles, organizations)
-2. Dates and times (meetings, deadlines, events)
-3. Locations (physical addresses, meeting rooms, venues)
-4. Projects or products mentioned
-5. Action items with assigned owners
-6. Monetary amounts or budgets
-7. Contact information (phone, email, addresses)
-8. File names or document references
-9. URLs or links
-10. Key metrics or KPIs mentioned
-
-Format each entity with its type and context.`;
+  buildReplyJudgePrompt(email: string, style: ResponseStyle, reference: string, candidate: string): string {
+    return this.registry.render('eval.reply-judge', { email, style, reference, candidate }).text;
   }
 
   buildTopicExtractionPrompt(emails: Email[]): string {
@@ -123,6 +73,15 @@ Analyze:
 6. Recommended response language and style`;
   }
 
+  buildTranslationPrompt(text: string, language: string): string {
+    return `Translate this email draft into ${language} so its author can check what it says.
+
+Draft:
+${text}
+
+Keep the meaning, tone and line breaks. Do not add or leave out anything.`;
+  }
+
   buildComplianceCheckPrompt(email: string, policies: string[]): string {
     const policyList = policies.join('\n- ');
     
@@ -164,34 +123,20 @@ Analyze:
   }
 
   buildActionItemExtractionPrompt(email: string): string {
-    return `Extract all action items from this email.
-
-Email content:
-${email}
-
-For each action item, identify:
-1. Description of the task
-2. Assigned owner (if mentioned)
-3. Deadline or timeline
-4. Priority level
-5. Dependencies on other tasks
-6. Success criteria or deliverables
-7. Whether it's a request or commitment
-8. Status if mentioned (not started, in progress, completed)
-
-Format as a structured list with clear ownership and deadlines.`;
+    return this.registry.render('analysis.action-items', { email }).text;
   }
 
-  buildSmartReplyPrompt(email: string): string {
-    return `Generate 3 brief smart reply options for this email.
+  buildSmartReplyPrompt(email: string, count: number = 3): string {
+    return `Generate ${count} brief smart reply options for this email.
 
 Email content:
 ${email}
 
-Provide 3 different response options:
+Provide ${count} different response options, starting with:
 1. Positive/Accepting response (1-2 sentences)
 2. Neutral/Acknowledging response (1-2 sentences)
 3. Declining/Deferring response (1-2 sentences)
+Any further options may ask a clarifying question.
 
 Each response should:
 - Be complete and professional
@@ -200,81 +145,27 @@ Each response should:
 - Offer different strategic approaches`;
   }
 
-  buildThreadCategorizationPrompt(thread: Email[]): string {
+  buildThreadCategorizationPrompt(thread: Email[], categories: EmailCategoryDefinition[]): string {
     const threadContent = thread.slice(0, 5).map(email => 
-      `Subject: ${email.subject}\nFrom: ${email.from}\nPreview: ${email.body.substring(0, 100)}...`
+      `Subject: ${email.subject}\nFrom: ${email.from}\nPreview: ${email.body.substring(0, 300)}...`
     ).join('\n---\n');
 
-    return `Categorize this email thread for inbox organization.
+    const categoryList = categories.map(category => {
+      const examples = (category.examples || []).map(example =>
+        `  Example: "${example.subject}"${example.from ? ` from ${example.from}` : ''}: ${example.snippet}`
+      );
+      return [`- ${category.name}: ${category.description}`, ...examples].join('\n');
+    }).join('\n');
 
-Thread sample:
-${threadContent}
+    return `Categorize this email thread into one of the user's categories.
 
-Assign categories:
-1. Primary category (work, personal, promotional, social, updates)
-2. Subcategory (project, meeting, report, invoice, newsletter, etc.)
-3. Importance level (high, medium, low)
-4. Suggested folder/label
-5. Auto-archive recommendation (yes/no)
-6. Follow-up required (yes/no)
-7. Estimated reading time
-8. Key stakeholders involved`;
-  }
-
-  parseSentimentResponse(response: string): SentimentAnalysis {
-    // Parse AI response into structured sentiment analysis
-    // This is a simplified parser - in production, use more robust parsing
-    
-    const sentimentMatch = response.match(/sentiment:\s*(positive|negative|neutral|mixed)/i);
-    const scoreMatch = response.match(/score:\s*([\d.]+)/);
-    const urgencyMatch = response.match(/urgency:\s*(low|medium|high)/i);
-    const professionalismMatch = response.match(/professionalism:\s*([\d.]+)/);
-    
-    return {
-      sentiment: (sentimentMatch?.[1] as any) || 'neutral',
-      score: parseFloat(scoreMatch?.[1] || '0.5'),
-      emotions: this.parseEmotions(response),
-      urgency: (urgencyMatch?.[1] as any) || 'medium',
-      professionalism: parseFloat(professionalismMatch?.[1] || '0.7'),
-    };
-  }
+Categories:
+${categoryList}
 
-  private parseEmotions(response: string): Record<string, number> {
-    const emotions: Record<string, number> = {};
-    
-    const emotionPatterns = [
-      /joy:\s*([\d.]+)/i,
-      /anger:\s*([\d.]+)/i,
-      /sadness:\s*([\d.]+)/i,
-      /fear:\s*([\d.]+)/i,
-      /surprise:\s*([\d.]+)/i,
-    ];
-    
-    emotionPatterns.forEach(pattern => {
-      const match = response.match(pattern);
-      if (match) {
-        const emotionName = pattern.source.split(':')[0].replace(/\\/g, '').toLowerCase();
-        emotions[emotionName] = parseFloat(match[1]);
-      }
-    });
-    
-    return emotions;
-  }
+Thread sample:
+${threadContent}
 
-  parseIntentResponse(response: string): EmailIntent {
-    const typeMatch = response.match(/category:\s*(\w+)/i);
-    const confidenceMatch = response.match(/confidence:\s*([\d.]+)/);
-    
-    // Extract required actions (looking for numbered or bulleted lists)
-    const actionsMatch = response.match(/actions?:?\s*((?:[-•*]\s*.+\n?)+)/i);
-    const actions = actionsMatch 
-      ? actionsMatch[1].split(/[-•*]\s*/).filter(a => a.trim()).map(a => a.trim())
-      : [];
-    
-    return {
-      type: (typeMatch?.[1] as any) || 'other',
-      confidence: parseFloat(confidenceMatch?.[1] || '0.5'),
-      requiredActions: actions,
-    };
+Choose the single category that fits best; the examples show how the user sorts their mail.
+Use null if no category fits. Give your confidence from 0 to 1 and a short reason.`;
   }
-}
\ No newline at end of file
+}
@@ -1,45 +1,32 @@
-import { EmailContext, Email, ResponseStyle } from '../interface';
+import { EmailContext, Email, ResponseStyle, RevisionPreset, RevisionRequest, StyleProfile } from '../interface';
+import { tokenizers } from '../tokenizer';
+import { formatStyleProfile } from '../style-profile';
+import { languageName } from '../language';
+import { PromptRegistry, RenderedPrompt, prompts } from './registry';
+
+const REVISION_INSTRUCTIONS: Record<RevisionPreset, string> = {
+  shorter: 'Make it noticeably shorter. Keep every answer and commitment, drop the filler.',
+  warmer: 'Make the tone warmer and more personal without becoming informal.',
+  add_apology: 'Add a brief, sincere apology for the inconvenience or delay.',
+  decline_politely: 'Turn it into a polite decline: say no clearly, thank the sender and, if it fits, offer an alternative.',
+};
 
 export class EmailPromptBuilder {
-  private systemPrompts: Map<ResponseStyle, string>;
+  constructor(private registry: PromptRegistry = prompts) {}
 
-  constructor() {
-    this.systemPrompts = new Map();
-    this.initializeSystemPrompts();
+  buildSystemPrompt(style: ResponseStyle = 'formal', styleProfile?: StyleProfile): string {
+    return this.renderSystemPrompt(style, undefined, styleProfile).text;
   }
 
-  private initializeSystemPrompts(): void {
-    const basePrompt = `You are a professional email assistant. Your responses should be:
-- Clear and concise
-- Professional yet friendly
-- Action-oriented when appropriate
-- Free of spelling and grammar errors
-- Properly formatted with appropriate greetings and closings`;
-
-    this.systemPrompts.set('formal', basePrompt + `
-- Use formal language and proper salutations
-- Maintain professional distance
-- Use complete sentences and proper grammar
-- Include formal closings (Sincerely, Best regards, etc.)
-- Avoid contractions and colloquialisms`);
-
-    this.systemPrompts.set('casual', basePrompt + `
-- Use conversational tone
-- Be friendly and approachable
-- Use contractions when natural
-- Include warm greetings and closings
-- Feel free to use appropriate humor when suitable`);
-
-    this.systemPrompts.set('brief', basePrompt + `
-- Maximum 3 paragraphs
-- Get straight to the point
-- Use bullet points when listing items
-- Skip unnecessary pleasantries
-- Focus on key information and actions`);
-  }
+  // The subject (usually the user ID) enrolls the call in any running experiment
+  renderSystemPrompt(style: ResponseStyle = 'formal', subject?: string, styleProfile?: StyleProfile): RenderedPrompt {
+    const id = `email-reply.system.${style}`;
+    const rendered = this.registry.render(this.registry.get(id) ? id : 'email-reply.system.formal', {}, subject);
 
-  buildSystemPrompt(style: ResponseStyle = 'formal'): string {
-    return this.systemPrompts.get(style) || this.systemPrompts.get('formal')!;
+    // The user's own habits refine the registry prompt rather than replace it
+    return styleProfile
+      ? { ...rendered, text: `${rendered.text}\n\n${formatStyleProfile(styleProfile)}` }
+      : rendered;
   }
 
   buildEmailPrompt(context: EmailContext): string {
@@ -63,7 +50,7 @@ export class EmailPromptBuilder {
         lines.push(`Email ${index + 1}:`);
         lines.push(`From: ${email.from}`);
         lines.push(`Date: ${email.timestamp.toISOString()}`);
-        lines.push(`${this.truncateBody(email.body, 500)}`);
+        lines.push(`${this.truncateBody(email.body, 125)}`);
       });
       lines.push('');
     }
@@ -84,6 +71,34 @@ export class EmailPromptBuilder {
       lines.push('6. Includes a professional signature at the end');
     }
     
+    lines.push('');
+    lines.push(context.language
+      ? `Write the reply in ${languageName(context.language)}.`
+      : 'Write the reply in the language of the email.');
+    
+    if (context.tools && context.tools.length > 0) {
+      lines.push('');
+      lines.push('Use the available tools for facts you do not have. Never propose meeting times without checking availability first, and look up earlier conversations or notes about the sender when they matter.');
+    }
+    
+    return lines.join('\n');
+  }
+
+  // Sent after the draft as the assistant's turn, so the model edits its own reply
+  buildRevisionPrompt(request: RevisionRequest): string {
+    const lines: string[] = [];
+    
+    lines.push('Revise your reply:');
+    for (const preset of request.presets || []) {
+      lines.push(`- ${REVISION_INSTRUCTIONS[preset]}`);
+    }
+    if (request.feedback?.trim()) {
+      lines.push(`- ${request.feedback.trim()}`);
+    }
+    lines.push('');
+    lines.push('Keep the language of the reply and any facts it states unless asked to change them.');
+    lines.push('Return only the revised reply.');
+    
     return lines.join('\n');
   }
 
@@ -99,7 +114,7 @@ export class EmailPromptBuilder {
     lines.push('');
     lines.push('Original email:');
     lines.push(`Subject: ${originalEmail.subject}`);
-    lines.push(`Body: ${this.truncateBody(originalEmail.body, 300)}`);
+    lines.push(`Body: ${this.truncateBody(originalEmail.body, 75)}`);
     lines.push('');
     lines.push('Requirements:');
     lines.push('1. Reference the original email');
@@ -128,7 +143,7 @@ export class EmailPromptBuilder {
       lines.push(`From: ${email.from}`);
       lines.push(`Date: ${email.timestamp.toISOString()}`);
       lines.push(`Subject: ${email.subject}`);
-      lines.push(`Body: ${this.truncateBody(email.body, 200)}`);
+      lines.push(`Body: ${this.truncateBody(email.body, 50)}`);
       lines.push('---');
     });
     
@@ -143,6 +158,57 @@ export class EmailPromptBuilder {
     return lines.join('\n');
   }
 
+  // One slice of a long thread; bodies arrive already cleaned and sized by ThreadSummarizer
+  buildThreadChunkPrompt(emails: Email[], firstIndex: number, totalEmails: number): string {
+    const lines: string[] = [];
+    
+    lines.push(`Summarize emails ${firstIndex + 1}-${firstIndex + emails.length} of a ${totalEmails}-email thread:`);
+    lines.push('');
+    
+    emails.forEach((email, index) => {
+      lines.push(`Email ${firstIndex + index + 1}:`);
+      lines.push(`From: ${email.from}`);
+      lines.push(`Date: ${email.timestamp.toISOString()}`);
+      lines.push(`Subject: ${email.subject}`);
+      lines.push(`Body: ${email.body}`);
+      lines.push('---');
+    });
+    
+    lines.push('');
+    lines.push('Write a compact summary of this part of the conversation covering:');
+    lines.push('1. What was discussed and by whom');
+    lines.push('2. Decisions made');
+    lines.push('3. Action items with owners and deadlines');
+    lines.push('4. Questions still open at the end of this part');
+    lines.push('Earlier and later emails are summarized separately; do not speculate about them.');
+    
+    return lines.join('\n');
+  }
+
+  buildSummaryMergePrompt(summaries: string[], totalEmails: number): string {
+    const lines: string[] = [];
+    
+    lines.push(`Combine these consecutive partial summaries of a ${totalEmails}-email thread into one summary:`);
+    lines.push('');
+    
+    summaries.forEach((summary, index) => {
+      lines.push(`Part ${index + 1}:`);
+      lines.push(summary);
+      lines.push('---');
+    });
+    
+    lines.push('');
+    lines.push('Provide a summary that includes:');
+    lines.push('1. Main topic and purpose of the conversation');
+    lines.push('2. Key decisions made');
+    lines.push('3. Action items identified');
+    lines.push('4. Unresolved questions or issues');
+    lines.push('5. Next steps agreed upon');
+    lines.push('Later parts supersede earlier ones when they disagree, e.g. a question answered later is no longer open.');
+    
+    return lines.join('\n');
+  }
+
   buildAutoReplyPrompt(
     context: EmailContext,
     reason: 'out_of_office' | 'vacation' | 'busy' | 'delayed_response',
@@ -201,11 +267,8 @@ export class EmailPromptBuilder {
     return lines.join('\n');
   }
 
-  private truncateBody(body: string, maxLength: number): string {
-    if (body.length <= maxLength) {
-      return body;
-    }
-    return body.substring(0, maxLength) + '...';
+  private truncateBody(body: string, maxTokens: number): string {
+    return PromptOptimizer.truncateToTokenLimit(body, maxTokens);
   }
 
   // Advanced prompt techniques
@@ -290,30 +353,17 @@ export class PromptOptimizer {
     return optimized;
   }
 
-  static estimateTokenCount(text: string): number {
-    // Rough estimation: ~4 characters per token for English
-    // More accurate would use a proper tokenizer
-    const wordCount = text.split(/\s+/).length;
-    const charCount = text.length;
-    
-    // Use average of word-based and char-based estimation
-    const wordBasedEstimate = wordCount * 1.3;
-    const charBasedEstimate = charCount / 4;
-    
-    return Math.ceil((wordBasedEstimate + charBasedEstimate) / 2);
+  // Without a model the count uses the cl100k_base vocabulary
+  static estimateTokenCount(text: string, model?: string): number {
+    return tokenizers.count(text, model);
   }
 
-  static truncateToTokenLimit(text: string, maxTokens: number): string {
-    const estimatedTokens = this.estimateTokenCount(text);
-    
-    if (estimatedTokens <= maxTokens) {
+  static truncateToTokenLimit(text: string, maxTokens: number, model?: string): string {
+    if (tokenizers.count(text, model) <= maxTokens) {
       return text;
     }
-    
-    // Calculate ratio to truncate
-    const ratio = maxTokens / estimatedTokens;
-    const targetLength = Math.floor(text.length * ratio * 0.95); // 95% to be safe
-    
-    return text.substring(0, targetLength) + '...';
+
+    // Leave room for the ellipsis marking the cut
+    return tokenizers.truncate(text, maxTokens - 1, model) + '...';
   }
 }
\ No newline at end of file
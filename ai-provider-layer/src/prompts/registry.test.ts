@@ -0,0 +1,96 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FilePromptSource, PromptRegistry, createDefaultPromptRegistry } from './registry';
+import { EmailPromptBuilder } from './email-response';
+
+function createRegistry(): PromptRegistry {
+  return createDefaultPromptRegistry()
+    .register({ id: 'email-reply.system.formal', version: 2, template: 'Be formal. {{extra}}' })
+    .register({ id: 'email-reply.system.formal', version: 3, template: 'Be very formal.' });
+}
+
+describe('PromptRegistry', () => {
+  it('renders the latest version when no experiment is running', () => {
+    const registry = createRegistry();
+
+    expect(registry.render('email-reply.system.formal', { extra: 'Sign as Ann.' }).ref).toEqual({
+      id: 'email-reply.system.formal',
+      version: 3,
+    });
+    expect(registry.render('email-reply.system.formal').text).toBe('Be very formal.');
+    expect(() => registry.render('missing')).toThrow("Prompt 'missing' not found");
+  });
+
+  it('assigns each user a stable variant and tags the prompt', () => {
+    const registry = createRegistry().addExperiment({
+      id: 'formal-wording',
+      promptId: 'email-reply.system.formal',
+      variants: [
+        { name: 'control', version: 1 },
+        { name: 'short', version: 2, weight: 3 },
+      ],
+    });
+    const builder = new EmailPromptBuilder(registry);
+
+    const first = builder.renderSystemPrompt('formal', 'user-1');
+    expect(builder.renderSystemPrompt('formal', 'user-1')).toEqual(first);
+    expect(first.ref.experimentId).toBe('formal-wording');
+
+    const counts = { control: 0, short: 0 };
+    for (let i = 0; i < 2000; i++) {
+      counts[registry.resolve('email-reply.system.formal', `user-${i}`).variant as 'control' | 'short']++;
+    }
+    expect(counts.short / 2000).toBeGreaterThan(0.7);
+    expect(counts.short / 2000).toBeLessThan(0.8);
+
+    // Calls without a user are not enrolled
+    expect(builder.renderSystemPrompt('formal').ref.version).toBe(3);
+  });
+
+  it('rejects experiments on unknown versions', () => {
+    expect(() => createRegistry().addExperiment({
+      id: 'bad',
+      promptId: 'email-reply.system.formal',
+      variants: [{ name: 'next', version: 9 }],
+    })).toThrow('unknown versions');
+  });
+
+  it('reports acceptance per variant', () => {
+    const registry = createRegistry().addExperiment({
+      id: 'formal-wording',
+      promptId: 'email-reply.system.formal',
+      variants: [{ name: 'control', version: 1 }, { name: 'short', version: 2 }],
+    });
+
+    const report = registry.report('formal-wording', [
+      { version: 1, variant: 'control', responses: 10, sent: 6, edited: 4, sentUnedited: 3 },
+    ]);
+
+    expect(report.variants[0]).toMatchObject({ acceptanceRate: 0.3, sendRate: 0.6, editRate: 0.4 });
+    expect(report.variants[1]).toMatchObject({ variant: 'short', responses: 0, acceptanceRate: 0 });
+  });
+
+  it('loads templates and experiments from JSON files', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-'));
+    await fs.writeFile(path.join(directory, 'a-template.json'), JSON.stringify({
+      id: 'analysis.sentiment',
+      version: 2,
+      template: 'Rate the mood of: {{email}}',
+    }));
+    await fs.writeFile(path.join(directory, 'b-experiments.json'), JSON.stringify({
+      experiments: [{
+        id: 'sentiment-wording',
+        promptId: 'analysis.sentiment',
+        variants: [{ name: 'control', version: 1 }, { name: 'mood', version: 2 }],
+      }],
+    }));
+
+    const registry = createDefaultPromptRegistry();
+    await registry.load(new FilePromptSource(directory));
+    await fs.rm(directory, { recursive: true });
+
+    expect(registry.render('analysis.sentiment', { email: 'Great work!' }).text).toBe('Rate the mood of: Great work!');
+    expect(registry.getExperiment('sentiment-wording')?.variants).toHaveLength(2);
+  });
+});
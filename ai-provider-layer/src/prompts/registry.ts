@@ -0,0 +1,237 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PromptRef } from '../interface';
+import { fnv1a } from '../embeddings';
+import { DEFAULT_PROMPTS } from './defaults';
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  // {{name}} placeholders are filled from the variables passed to render()
+  template: string;
+  description?: string;
+}
+
+export interface PromptVariant {
+  name: string;
+  version: number;
+  // Relative share of users; defaults to 1
+  weight?: number;
+}
+
+export interface PromptExperiment {
+  id: string;
+  promptId: string;
+  variants: PromptVariant[];
+  active?: boolean;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  ref: PromptRef;
+}
+
+export interface PromptSource {
+  loadPrompts(): Promise<{ templates: PromptTemplate[]; experiments: PromptExperiment[] }>;
+}
+
+// Response outcomes for one prompt version, e.g. counted from ai_responses
+export interface PromptOutcomeCounts {
+  version: number;
+  variant?: string;
+  responses: number;
+  sent: number;
+  edited: number;
+  sentUnedited: number;
+}
+
+export interface PromptVariantReport extends PromptOutcomeCounts {
+  // Drafts sent without edits, over all drafts
+  acceptanceRate: number;
+  sendRate: number;
+  editRate: number;
+}
+
+export interface ExperimentReport {
+  experimentId: string;
+  promptId: string;
+  variants: PromptVariantReport[];
+}
+
+/**
+ * Versioned prompt templates with optional A/B experiments. Without an active
+ * experiment, the latest version of a prompt is used; with one, each subject
+ * (usually a user) is assigned a variant deterministically, so a user keeps
+ * seeing the same wording.
+ */
+export class PromptRegistry {
+  private templates: Map<string, Map<number, PromptTemplate>> = new Map();
+  private experiments: Map<string, PromptExperiment> = new Map();
+
+  register(template: PromptTemplate): this {
+    if (!this.templates.has(template.id)) {
+      this.templates.set(template.id, new Map());
+    }
+    this.templates.get(template.id)!.set(template.version, template);
+    return this;
+  }
+
+  get(id: string, version?: number): PromptTemplate | undefined {
+    const versions = this.templates.get(id);
+    if (!versions) {
+      return undefined;
+    }
+    return versions.get(version ?? Math.max(...versions.keys()));
+  }
+
+  list(): PromptTemplate[] {
+    return Array.from(this.templates.values()).flatMap(versions => Array.from(versions.values()));
+  }
+
+  addExperiment(experiment: PromptExperiment): this {
+    if (experiment.variants.length === 0) {
+      throw new Error(`Experiment '${experiment.id}' has no variants`);
+    }
+
+    const missing = experiment.variants.filter(variant => !this.get(experiment.promptId, variant.version));
+    if (missing.length > 0) {
+      throw new Error(
+        `Experiment '${experiment.id}' references unknown versions of '${experiment.promptId}': ` +
+        missing.map(variant => variant.version).join(', ')
+      );
+    }
+
+    this.experiments.set(experiment.id, experiment);
+    return this;
+  }
+
+  removeExperiment(id: string): boolean {
+    return this.experiments.delete(id);
+  }
+
+  getExperiment(id: string): PromptExperiment | undefined {
+    return this.experiments.get(id);
+  }
+
+  listExperiments(): PromptExperiment[] {
+    return Array.from(this.experiments.values());
+  }
+
+  // Without a subject, experiments are skipped and the latest version is used
+  resolve(id: string, subject?: string): PromptRef {
+    const experiment = subject
+      ? this.listExperiments().find(candidate => candidate.promptId === id && candidate.active !== false)
+      : undefined;
+
+    if (experiment) {
+      const variant = assignVariant(experiment, subject!);
+      return { id, version: variant.version, experimentId: experiment.id, variant: variant.name };
+    }
+
+    const template = this.get(id);
+    if (!template) {
+      throw new Error(`Prompt '${id}' not found`);
+    }
+    return { id, version: template.version };
+  }
+
+  render(id: string, variables: Record<string, unknown> = {}, subject?: string): RenderedPrompt {
+    const ref = this.resolve(id, subject);
+    const template = this.get(id, ref.version)!;
+
+    return {
+      text: template.template.replace(/\{\{(\w+)\}\}/g, (_, name) =>
+        variables[name] !== undefined ? String(variables[name]) : ''
+      ),
+      ref,
+    };
+  }
+
+  // Templates are registered before experiments so variants can be validated
+  async load(source: PromptSource): Promise<void> {
+    const { templates, experiments } = await source.loadPrompts();
+    templates.forEach(template => this.register(template));
+    experiments.forEach(experiment => this.addExperiment(experiment));
+  }
+
+  report(experimentId: string, outcomes: PromptOutcomeCounts[]): ExperimentReport {
+    const experiment = this.experiments.get(experimentId);
+    if (!experiment) {
+      throw new Error(`Experiment '${experimentId}' not found`);
+    }
+
+    const ratio = (count: number, total: number): number => (total > 0 ? count / total : 0);
+
+    return {
+      experimentId,
+      promptId: experiment.promptId,
+      variants: experiment.variants.map(variant => {
+        const counts = outcomes.find(outcome => outcome.variant === variant.name) || {
+          version: variant.version,
+          variant: variant.name,
+          responses: 0,
+          sent: 0,
+          edited: 0,
+          sentUnedited: 0,
+        };
+
+        return {
+          ...counts,
+          acceptanceRate: ratio(counts.sentUnedited, counts.responses),
+          sendRate: ratio(counts.sent, counts.responses),
+          editRate: ratio(counts.edited, counts.responses),
+        };
+      }),
+    };
+  }
+}
+
+/**
+ * Reads prompts from JSON files in a directory. Each file holds one template,
+ * or an object with `templates` and `experiments` arrays.
+ */
+export class FilePromptSource implements PromptSource {
+  constructor(private directory: string) {}
+
+  async loadPrompts(): Promise<{ templates: PromptTemplate[]; experiments: PromptExperiment[] }> {
+    const files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json')).sort();
+    const templates: PromptTemplate[] = [];
+    const experiments: PromptExperiment[] = [];
+
+    for (const file of files) {
+      const content = JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf-8'));
+
+      if (Array.isArray(content.templates) || Array.isArray(content.experiments)) {
+        templates.push(...(content.templates || []));
+        experiments.push(...(content.experiments || []));
+      } else {
+        templates.push(content);
+      }
+    }
+
+    return { templates, experiments };
+  }
+}
+
+// Stable weighted pick from a hash of the subject and experiment
+function assignVariant(experiment: PromptExperiment, subject: string): PromptVariant {
+  const total = experiment.variants.reduce((sum, variant) => sum + (variant.weight ?? 1), 0);
+  let point = (fnv1a(`${experiment.id}:${subject}`) / 0x100000000) * total;
+
+  for (const variant of experiment.variants) {
+    point -= variant.weight ?? 1;
+    if (point < 0) {
+      return variant;
+    }
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+export function createDefaultPromptRegistry(): PromptRegistry {
+  const registry = new PromptRegistry();
+  DEFAULT_PROMPTS.forEach(template => registry.register(template));
+  return registry;
+}
+
+// Shared registry used by the prompt builders; load custom prompts into it at startup
+export const prompts = createDefaultPromptRegistry();
@@ -0,0 +1,180 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AnthropicProvider } from './anthropic';
+import { RateLimitError, TokenLimitError } from '../errors';
+
+function message(text: string, inputTokens: number, outputTokens: number): any {
+  return {
+    model: 'claude-3-5-haiku-20241022',
+    content: [{ type: 'text', text }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: inputTokens, output_tokens: outputTokens },
+  };
+}
+
+describe('AnthropicProvider', () => {
+  let provider: AnthropicProvider;
+  let create: jest.SpyInstance;
+
+  beforeEach(() => {
+    provider = new AnthropicProvider({
+      apiKey: 'test-key',
+      model: 'claude-3-5-haiku-20241022',
+      maxRetries: 1,
+    });
+    create = jest.spyOn((provider as any).client.messages, 'create');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('generateResponse', () => {
+    it('should return text and token usage from the message', async () => {
+      create.mockResolvedValue(message('Thanks for reaching out.', 12, 6));
+
+      const response = await provider.generateResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      expect(response.text).toBe('Thanks for reaching out.');
+      expect(response.tokensUsed).toBe(18);
+      expect(response.metadata?.provider).toBe('anthropic');
+      expect(response.metadata?.inputTokens).toBe(12);
+    });
+
+    it('should map 429 responses to RateLimitError', async () => {
+      create.mockRejectedValue(
+        new Anthropic.RateLimitError(429, { message: 'Rate limit reached' }, 'Rate limit reached', {
+          'retry-after': '2',
+        })
+      );
+
+      await expect(provider.generateResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      })).rejects.toThrow(RateLimitError);
+    });
+
+    it('should map context length errors to TokenLimitError', async () => {
+      create.mockRejectedValue(
+        new Anthropic.BadRequestError(
+          400,
+          { message: 'prompt is too long: 210000 tokens > 200000 maximum' },
+          'prompt is too long: 210000 tokens > 200000 maximum',
+          {}
+        )
+      );
+
+      await expect(provider.generateResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      })).rejects.toThrow(TokenLimitError);
+    });
+  });
+
+  describe('generateStreamingResponse', () => {
+    it('should yield text deltas and use reported usage', async () => {
+      create.mockResolvedValue((async function* () {
+        yield { type: 'message_start', message: { usage: { input_tokens: 5 } } };
+        yield { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi ' } };
+        yield { type: 'content_block_delta', delta: { type: 'text_delta', text: 'there' } };
+        yield { type: 'message_delta', usage: { output_tokens: 4 } };
+      })());
+
+      const chunks: string[] = [];
+      for await (const chunk of provider.generateStreamingResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      })) {
+        chunks.push(chunk);
+      }
+
+      const stats = await provider.getUsageStats();
+      expect(chunks.join('')).toBe('Hi there');
+      expect(stats.totalTokens).toBe(9);
+    });
+  });
+
+  describe('generateEmailResponse', () => {
+    it('should count the intent classification in the draft tokens', async () => {
+      // The classification asks for JSON, which is prefilled as an assistant turn
+      create.mockImplementation(async (request: any) => request.messages.some((turn: any) => turn.role === 'assistant')
+        ? message('"type":"meeting_request","confidence":0.9}', 30, 10)
+        : message('Tuesday at 10 works for me.', 100, 20));
+
+      const response = await provider.generateEmailResponse({
+        userId: 'user-1',
+        subject: 'Meeting',
+        from: 'bob@example.com',
+        to: ['me@acme.com'],
+        body: 'Can we meet on Tuesday?',
+      });
+
+      expect(response.text).toBe('Tuesday at 10 works for me.');
+      expect(response.detectedIntent?.type).toBe('meeting_request');
+      expect(response.tokensUsed).toBe(160);
+    });
+
+    describe('with tools', () => {
+      const context = {
+        userId: 'user-1',
+        subject: 'Meeting',
+        from: 'bob@example.com',
+        to: ['me@acme.com'],
+        body: 'Can we meet on Tuesday?',
+      };
+
+      function calendarTool(): any {
+        return {
+          name: 'check_calendar',
+          description: 'Lists busy slots',
+          parameters: { type: 'object', properties: {} },
+          execute: jest.fn(async () => ({ busy: ['Tuesday 09:00'] })),
+        };
+      }
+
+      it('should cache drafts that called none of the offered tools', async () => {
+        create.mockImplementation(async (request: any) => request.tools
+          ? message('Tuesday at 10 works for me.', 100, 20)
+          : message('"type":"meeting_request","confidence":0.9}', 30, 10));
+        const tool = calendarTool();
+
+        await provider.generateEmailResponse({ ...context, tools: [tool] });
+        const response = await provider.generateEmailResponse({ ...context, tools: [tool] });
+
+        expect(response.text).toBe('Tuesday at 10 works for me.');
+        expect(response.metadata?.cacheHit).toBe('exact');
+      });
+
+      it('should not cache drafts that used a tool', async () => {
+        create.mockImplementation(async (request: any) => {
+          if (!request.tools) {
+            return message('"type":"meeting_request","confidence":0.9}', 30, 10);
+          }
+          // The first round asks for the calendar, the next one answers with it
+          return request.messages.length === 1
+            ? {
+                ...message('', 100, 10),
+                content: [{ type: 'tool_use', id: 'call-1', name: 'check_calendar', input: {} }],
+                stop_reason: 'tool_use',
+              }
+            : message('Tuesday at 10 works for me.', 120, 20);
+        });
+        const tool = calendarTool();
+
+        await provider.generateEmailResponse({ ...context, tools: [tool] });
+        const response = await provider.generateEmailResponse({ ...context, tools: [tool] });
+
+        expect(response.metadata?.cacheHit).toBeUndefined();
+        expect(tool.execute).toHaveBeenCalledTimes(2);
+      });
+    });
+  });
+
+  describe('getModelInfo', () => {
+    it('should report per-model pricing', () => {
+      const info = provider.getModelInfo();
+
+      expect(info.provider).toBe('Anthropic');
+      expect(info.costPer1kTokens).toEqual({ input: 0.0008, output: 0.004 });
+      expect(info.contextWindow).toBe(200000);
+    });
+  });
+});
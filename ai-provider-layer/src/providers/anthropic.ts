@@ -0,0 +1,536 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { ZodType, ZodTypeDef } from 'zod';
+import {
+  AIProvider,
+  AIGenerationInput,
+  AIResponse,
+  EmailContext,
+  EmailResponse,
+  EmailIntent,
+  Email,
+  Message,
+  SentimentAnalysis,
+  RateLimitStatus,
+  UsageStats,
+  ModelInfo,
+  ProviderConfig,
+  CacheConfig,
+  RateLimits,
+  StructuredOutputOptions,
+  StructuredResponse,
+} from '../interface';
+import {
+  AIProviderError,
+  RateLimitError,
+  TokenLimitError,
+  ModelUnavailableError,
+  NetworkError,
+  ErrorHandler,
+} from '../errors';
+import { DistributedCache, ResponseCache, TieredCache } from '../cache';
+import { RateLimiter, AdaptiveRateLimiter, SharedRateLimiter } from '../rate-limiter';
+import { CacheStore } from '../stores/cache-store';
+import { UsageStore, UsageTracker } from '../usage-tracker';
+import { tokenizers } from '../tokenizer';
+import { EmailPromptBuilder, PromptOptimizer } from '../prompts/email-response';
+import { EmailAnalyzer } from '../analysis';
+import { EmailBodyParser, ThreadSummarizer } from '../summarizer';
+import { generateStructuredOutput } from '../structured';
+import { generateWithTools } from '../tools';
+import { ResponseHeuristics } from './heuristics';
+
+export interface AnthropicConfig extends ProviderConfig {
+  model?: string;
+  temperature?: number;
+  maxRetries?: number;
+  cacheConfig?: CacheConfig;
+  // Overrides cacheConfig, e.g. to share a SemanticCache between providers
+  cache?: ResponseCache;
+  // Cache entries and rate-limit counters shared with other instances (Redis, SQLite)
+  sharedStore?: CacheStore;
+  // Persists per-call usage so stats and billing exports survive restarts
+  usageStore?: UsageStore;
+  // Strips quoted replies and signatures before thread summarization, e.g. EmailParser
+  bodyParser?: EmailBodyParser;
+  rateLimits?: RateLimits;
+  useAdaptiveRateLimiting?: boolean;
+}
+
+type AnthropicModelSpec = Omit<ModelInfo, 'name' | 'provider' | 'capabilities'>;
+
+// Published list prices in USD per 1k tokens
+export const ANTHROPIC_MODELS: Record<string, AnthropicModelSpec> = {
+  'claude-3-5-sonnet-20241022': {
+    version: '20241022',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    costPer1kTokens: { input: 0.003, output: 0.015 },
+    recommendedUseCase: 'High-quality email drafting with nuanced tone',
+  },
+  'claude-3-5-haiku-20241022': {
+    version: '20241022',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    costPer1kTokens: { input: 0.0008, output: 0.004 },
+    recommendedUseCase: 'Fast classification, sentiment and short replies',
+  },
+  'claude-3-opus-20240229': {
+    version: '20240229',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    costPer1kTokens: { input: 0.015, output: 0.075 },
+    recommendedUseCase: 'Complex reasoning over long threads',
+  },
+  'claude-3-haiku-20240307': {
+    version: '20240307',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    costPer1kTokens: { input: 0.00025, output: 0.00125 },
+    recommendedUseCase: 'Lowest-cost high-volume analysis',
+  },
+};
+
+export class AnthropicProvider implements AIProvider {
+  private client: Anthropic;
+  private cache: ResponseCache;
+  private rateLimiter: RateLimiter;
+  private usageTracker: UsageTracker;
+  private promptBuilder: EmailPromptBuilder;
+  private analyzer: EmailAnalyzer;
+  private summarizer: ThreadSummarizer;
+  private model: string;
+  private temperature: number;
+  private maxRetries: number;
+
+  constructor(private config: AnthropicConfig) {
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+      timeout: config.timeout,
+      defaultHeaders: config.headers,
+      maxRetries: 0, // Retries are handled by ErrorHandler.withRetry
+    });
+
+    this.model = config.model || 'claude-3-5-haiku-20241022';
+    this.temperature = config.temperature ?? 0.7;
+    this.maxRetries = config.maxRetries ?? 3;
+
+    const cacheConfig = config.cacheConfig || {
+      ttl: 3600,
+      maxSize: 100,
+      enabled: true,
+    };
+    this.cache = config.cache || (config.sharedStore
+      ? new DistributedCache(cacheConfig, config.sharedStore)
+      : new TieredCache(cacheConfig));
+
+    const rateLimits = config.rateLimits || {
+      requestsPerMinute: 50,
+      tokensPerMinute: 50000,
+      requestsPerDay: 5000,
+      tokensPerDay: 1000000,
+    };
+
+    if (config.sharedStore) {
+      this.rateLimiter = new SharedRateLimiter(rateLimits, config.sharedStore, 'anthropic');
+    } else {
+      this.rateLimiter = config.useAdaptiveRateLimiting
+        ? new AdaptiveRateLimiter(rateLimits)
+        : new RateLimiter(rateLimits);
+    }
+
+    this.usageTracker = new UsageTracker({ store: config.usageStore, provider: 'anthropic' });
+    this.promptBuilder = new EmailPromptBuilder();
+    this.analyzer = new EmailAnalyzer(this);
+    this.summarizer = new ThreadSummarizer(this, { parser: config.bodyParser });
+  }
+
+  async generateResponse(input: AIGenerationInput): Promise<AIResponse> {
+    const startTime = Date.now();
+
+    try {
+      await this.rateLimiter.checkLimit();
+      await this.rateLimiter.checkTokenLimit(tokenizers.countMessages(input.messages, this.model));
+
+      const message = await ErrorHandler.withRetry(
+        () => this.client.messages.create({
+          ...this.buildRequest(input),
+          stream: false,
+        }).catch(error => {
+          throw this.mapError(error);
+        }),
+        this.maxRetries
+      );
+
+      const response = this.getPrefill(input) + message.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('');
+      const toolCalls = message.content
+        .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, arguments: block.input as Record<string, any> }));
+      const tokensUsed = message.usage.input_tokens + message.usage.output_tokens;
+
+      this.rateLimiter.recordUsage(tokensUsed);
+
+      const result: AIResponse = {
+        text: response,
+        model: message.model || this.model,
+        tokensUsed,
+        responseTimeMs: Date.now() - startTime,
+        confidence: ResponseHeuristics.calculateConfidence(response),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        metadata: {
+          provider: 'anthropic',
+          finishReason: message.stop_reason,
+          inputTokens: message.usage.input_tokens,
+          outputTokens: message.usage.output_tokens,
+        },
+      };
+
+      this.recordSuccess(
+        tokensUsed,
+        result.responseTimeMs,
+        message.usage.input_tokens,
+        message.usage.output_tokens,
+        input.userId
+      );
+
+      return result;
+    } catch (error) {
+      throw this.handleError(error, startTime, input.userId);
+    }
+  }
+
+  async *generateStreamingResponse(input: AIGenerationInput): AsyncGenerator<string> {
+    const startTime = Date.now();
+
+    try {
+      await this.rateLimiter.checkLimit();
+      await this.rateLimiter.checkTokenLimit(tokenizers.countMessages(input.messages, this.model));
+
+      const stream = await this.client.messages.create({
+        ...this.buildRequest(input),
+        stream: true,
+      });
+
+      const prefill = this.getPrefill(input);
+      if (prefill) {
+        yield prefill;
+      }
+
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          inputTokens = event.message.usage.input_tokens;
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage.output_tokens;
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield event.delta.text;
+        }
+      }
+
+      const tokensUsed = inputTokens + outputTokens;
+      this.rateLimiter.recordUsage(tokensUsed);
+      this.recordSuccess(tokensUsed, Date.now() - startTime, inputTokens, outputTokens, input.userId);
+    } catch (error) {
+      throw this.handleError(error, startTime, input.userId);
+    }
+  }
+
+  async generateEmailResponse(context: EmailContext): Promise<EmailResponse> {
+    const startTime = Date.now();
+
+    // Check cache first
+    const cached = await this.cache.lookup(context);
+    if (cached) {
+      this.usageTracker.record({
+        provider: 'anthropic',
+        model: 'cache',
+        userId: context.userId,
+        tokensUsed: 0,
+        responseTimeMs: Date.now() - startTime,
+        success: true,
+        timestamp: new Date(),
+        cacheHit: cached.source,
+      });
+      return {
+        ...cached.response,
+        metadata: {
+          ...cached.response.metadata,
+          cacheHit: cached.source,
+          cacheSimilarity: cached.similarity,
+        },
+      } as EmailResponse;
+    }
+
+    const systemTemplate = this.promptBuilder.renderSystemPrompt(context.responseStyle || 'formal', context.userId, context.styleProfile);
+    const systemPrompt = PromptOptimizer.optimize(systemTemplate.text);
+    const userPrompt = PromptOptimizer.optimize(this.promptBuilder.buildEmailPrompt(context));
+
+    // Classify the inbound email while drafting; heuristics on the draft are the fallback.
+    // A fresh analyzer counts only this classification, which is part of the draft's tokensUsed
+    const analyzer = new EmailAnalyzer(this, context.userId);
+    const [generated, intent] = await Promise.all([
+      generateWithTools(this, {
+        userId: context.userId,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        options: {
+          maxTokens: context.maxLength
+            ? Math.min(context.maxLength * 2, this.getModelInfo().maxOutputTokens)
+            : undefined,
+        },
+      }, context.tools || [], { maxSteps: context.maxToolSteps }),
+      analyzer.classifyIntent(context.body).catch((): EmailIntent | null => null),
+    ]);
+
+    const text = generated.text.trim();
+
+    const response: EmailResponse = {
+      ...generated,
+      text,
+      tokensUsed: generated.tokensUsed + analyzer.tokensUsed,
+      responseTimeMs: Date.now() - startTime,
+      prompt: systemTemplate.ref,
+      language: context.language,
+      metadata: {
+        ...generated.metadata,
+        style: context.responseStyle,
+        truncated: generated.metadata?.finishReason === 'max_tokens',
+      },
+      suggestedActions: intent?.requiredActions ?? ResponseHeuristics.extractActions(text),
+      detectedIntent: intent ?? ResponseHeuristics.extractIntent(text),
+      requiresFollowUp: ResponseHeuristics.detectFollowUpNeeded(text),
+    };
+
+    // Tool results are live data (calendar, CRM), so only drafts that called no tools are cached
+    if (!generated.toolSteps?.length) {
+      await this.cache.store(context, response);
+    }
+
+    return response;
+  }
+
+  async generateStructured<T>(
+    input: AIGenerationInput,
+    schema: ZodType<T, ZodTypeDef, any>,
+    options?: StructuredOutputOptions
+  ): Promise<StructuredResponse<T>> {
+    return generateStructuredOutput(this, input, schema, options);
+  }
+
+  async analyzeEmailSentiment(email: string): Promise<SentimentAnalysis> {
+    return this.analyzer.analyzeSentiment(email);
+  }
+
+  async summarizeEmailThread(thread: Email[]): Promise<string> {
+    return (await this.summarizer.summarize(thread)).summary;
+  }
+
+  getTokenCount(text: string): number {
+    return tokenizers.count(text, this.model);
+  }
+
+  async checkRateLimit(): Promise<RateLimitStatus> {
+    return this.rateLimiter.getStatus();
+  }
+
+  async getUsageStats(): Promise<UsageStats> {
+    return this.usageTracker.loadUsageStats();
+  }
+
+  getModelInfo(): ModelInfo {
+    const spec = ANTHROPIC_MODELS[this.model] || ANTHROPIC_MODELS['claude-3-5-haiku-20241022'];
+
+    return {
+      name: this.model,
+      provider: 'Anthropic',
+      ...spec,
+      capabilities: [
+        'chat',
+        'streaming',
+        'email_generation',
+        'sentiment_analysis',
+        'summarization',
+        'tool_calling',
+      ],
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      // Retrieving the model is free and confirms both the key and model access
+      const model = await this.client.models.retrieve(this.model);
+      return !!model?.id;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // The Messages API takes the system prompt separately and requires
+  // the conversation to start with a user turn
+  private buildRequest(input: AIGenerationInput) {
+    const system = input.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const messages: Anthropic.MessageParam[] = input.messages
+      .filter((message): message is Message & { role: 'user' | 'assistant' } =>
+        message.role !== 'system'
+      )
+      .map(message => ({ role: message.role, content: message.content }));
+
+    if (messages.length === 0 || messages[0].role !== 'user') {
+      messages.unshift({ role: 'user', content: 'Continue.' });
+    }
+
+    // Each tool round is an assistant turn with tool_use blocks, answered by a user turn of tool_result blocks
+    for (const step of input.toolSteps || []) {
+      messages.push({
+        role: 'assistant',
+        content: [
+          ...(step.text ? [{ type: 'text' as const, text: step.text }] : []),
+          ...step.calls.map(call => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.arguments })),
+        ],
+      });
+      messages.push({
+        role: 'user',
+        content: step.results.map(result => ({
+          type: 'tool_result' as const,
+          tool_use_id: result.toolCallId,
+          content: result.content,
+          is_error: result.isError,
+        })),
+      });
+    }
+
+    const prefill = this.getPrefill(input);
+    if (prefill) {
+      messages.push({ role: 'assistant', content: prefill });
+    }
+
+    return {
+      model: this.model,
+      system: system || undefined,
+      messages,
+      temperature: input.options?.temperature ?? this.temperature,
+      max_tokens: input.options?.maxTokens ?? this.getModelInfo().maxOutputTokens,
+      top_p: input.options?.topP,
+      stop_sequences: input.options?.stopSequences,
+      tools: input.tools?.length
+        ? input.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: { type: 'object' as const, ...tool.parameters },
+          }))
+        : undefined,
+      tool_choice: input.tools?.length ? { type: input.toolChoice || 'auto' } : undefined,
+    };
+  }
+
+  // Claude has no JSON mode; prefilling the reply with "{" keeps it from adding prose.
+  // The model continues the prefill, so it is also part of the answer.
+  private getPrefill(input: AIGenerationInput): string {
+    const lastMessage = input.messages[input.messages.length - 1];
+    return input.options?.responseFormat === 'json' && lastMessage?.role === 'user' && !input.toolSteps?.length
+      ? '{'
+      : '';
+  }
+
+  private recordSuccess(
+    tokensUsed: number,
+    responseTimeMs: number,
+    inputTokens?: number,
+    outputTokens?: number,
+    userId?: string
+  ): void {
+    this.usageTracker.record({
+      provider: 'anthropic',
+      model: this.model,
+      userId,
+      tokensUsed,
+      inputTokens,
+      outputTokens,
+      responseTimeMs,
+      success: true,
+      timestamp: new Date(),
+    });
+
+    if (this.config.useAdaptiveRateLimiting && this.rateLimiter instanceof AdaptiveRateLimiter) {
+      this.rateLimiter.recordSuccess();
+    }
+  }
+
+  // Records the failure and returns the error to throw
+  private handleError(error: any, startTime: number, userId?: string): AIProviderError {
+    this.usageTracker.record({
+      provider: 'anthropic',
+      model: this.model,
+      userId,
+      tokensUsed: 0,
+      responseTimeMs: Date.now() - startTime,
+      success: false,
+      error: error.message,
+      timestamp: new Date(),
+    });
+
+    if (this.config.useAdaptiveRateLimiting && this.rateLimiter instanceof AdaptiveRateLimiter) {
+      this.rateLimiter.recordError();
+    }
+
+    return this.mapError(error);
+  }
+
+  // Transform Anthropic SDK errors to our error types
+  private mapError(error: any): AIProviderError {
+    if (error instanceof AIProviderError) {
+      return error;
+    }
+
+    if (error instanceof Anthropic.APIError) {
+      if (error.status === 429) {
+        const limitType = error.headers?.['anthropic-ratelimit-tokens-remaining'] === '0'
+          ? 'tokens'
+          : 'requests';
+        return new RateLimitError(
+          'Anthropic rate limit exceeded',
+          ResponseHeuristics.getRetryAfter(error.headers),
+          limitType
+        );
+      }
+
+      if (error.status === 400 && /prompt is too long|max_tokens/i.test(error.message)) {
+        return new TokenLimitError(
+          'Anthropic context length exceeded',
+          0,
+          this.getModelInfo().contextWindow
+        );
+      }
+
+      if (error.status === 404) {
+        return new ModelUnavailableError(
+          `Anthropic model ${this.model} is not available`,
+          this.model,
+          Object.keys(ANTHROPIC_MODELS).filter(model => model !== this.model)
+        );
+      }
+
+      // 529 is Anthropic's "overloaded" status
+      if (error instanceof Anthropic.APIConnectionError || (error.status && error.status >= 500)) {
+        return new NetworkError(
+          'Anthropic service error',
+          error.status,
+          JSON.stringify(error.error ?? null),
+          error
+        );
+      }
+    }
+
+    return new AIProviderError('Anthropic provider error', error);
+  }
+}
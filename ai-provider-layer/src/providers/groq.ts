@@ -1,10 +1,12 @@
 import Groq from 'groq-sdk';
+import { ZodType, ZodTypeDef } from 'zod';
 import {
   AIProvider,
   AIGenerationInput,
   AIResponse,
   EmailContext,
   EmailResponse,
+  EmailIntent,
   Email,
   SentimentAnalysis,
   RateLimitStatus,
@@ -13,26 +15,42 @@ import {
   ProviderConfig,
   CacheConfig,
   RateLimits,
+  StructuredOutputOptions,
+  StructuredResponse,
+  Message,
 } from '../interface';
 import {
   AIProviderError,
   RateLimitError,
   TokenLimitError,
   NetworkError,
-  isRateLimitError,
   ErrorHandler,
 } from '../errors';
-import { ResponseCache, TieredCache } from '../cache';
-import { RateLimiter, AdaptiveRateLimiter } from '../rate-limiter';
-import { UsageTracker } from '../usage-tracker';
+import { DistributedCache, ResponseCache, TieredCache } from '../cache';
+import { RateLimiter, AdaptiveRateLimiter, SharedRateLimiter } from '../rate-limiter';
+import { CacheStore } from '../stores/cache-store';
+import { UsageStore, UsageTracker } from '../usage-tracker';
+import { tokenizers } from '../tokenizer';
 import { EmailPromptBuilder, PromptOptimizer } from '../prompts/email-response';
-import { EmailAnalysisPromptBuilder } from '../prompts/email-analysis';
+import { EmailAnalyzer } from '../analysis';
+import { EmailBodyParser, ThreadSummarizer } from '../summarizer';
+import { generateStructuredOutput } from '../structured';
+import { generateWithTools, parseToolArguments } from '../tools';
+import { ResponseHeuristics } from './heuristics';
 
 export interface GroqConfig extends ProviderConfig {
   model?: string;
   temperature?: number;
   maxRetries?: number;
   cacheConfig?: CacheConfig;
+  // Overrides cacheConfig, e.g. to share a SemanticCache between providers
+  cache?: ResponseCache;
+  // Cache entries and rate-limit counters shared with other instances (Redis, SQLite)
+  sharedStore?: CacheStore;
+  // Persists per-call usage so stats and billing exports survive restarts
+  usageStore?: UsageStore;
+  // Strips quoted replies and signatures before thread summarization, e.g. EmailParser
+  bodyParser?: EmailBodyParser;
   rateLimits?: RateLimits;
   useAdaptiveRateLimiting?: boolean;
 }
@@ -43,7 +61,8 @@ export class GroqProvider implements AIProvider {
   private rateLimiter: RateLimiter;
   private usageTracker: UsageTracker;
   private promptBuilder: EmailPromptBuilder;
-  private analysisPromptBuilder: EmailAnalysisPromptBuilder;
+  private analyzer: EmailAnalyzer;
+  private summarizer: ThreadSummarizer;
   private model: string;
   private temperature: number;
   private maxRetries: number;
@@ -63,7 +82,9 @@ export class GroqProvider implements AIProvider {
       maxSize: 100,
       enabled: true,
     };
-    this.cache = new TieredCache(cacheConfig);
+    this.cache = config.cache || (config.sharedStore
+      ? new DistributedCache(cacheConfig, config.sharedStore)
+      : new TieredCache(cacheConfig));
 
     // Initialize rate limiter (use adaptive if specified)
     const rateLimits = config.rateLimits || {
@@ -73,13 +94,18 @@ export class GroqProvider implements AIProvider {
       tokensPerDay: 200000,
     };
     
-    this.rateLimiter = config.useAdaptiveRateLimiting
-      ? new AdaptiveRateLimiter(rateLimits)
-      : new RateLimiter(rateLimits);
+    if (config.sharedStore) {
+      this.rateLimiter = new SharedRateLimiter(rateLimits, config.sharedStore, 'groq');
+    } else {
+      this.rateLimiter = config.useAdaptiveRateLimiting
+        ? new AdaptiveRateLimiter(rateLimits)
+        : new RateLimiter(rateLimits);
+    }
 
-    this.usageTracker = new UsageTracker();
+    this.usageTracker = new UsageTracker({ store: config.usageStore, provider: 'groq' });
     this.promptBuilder = new EmailPromptBuilder();
-    this.analysisPromptBuilder = new EmailAnalysisPromptBuilder();
+    this.analyzer = new EmailAnalyzer(this);
+    this.summarizer = new ThreadSummarizer(this, { parser: config.bodyParser });
   }
 
   async generateResponse(input: AIGenerationInput): Promise<AIResponse> {
@@ -87,18 +113,25 @@ export class GroqProvider implements AIProvider {
     
     try {
       await this.rateLimiter.checkLimit();
+      await this.rateLimiter.checkTokenLimit(tokenizers.countMessages(input.messages, this.model));
       
       const completion = await this.client.chat.completions.create({
-        messages: input.messages,
+        messages: this.buildMessages(input),
         model: this.model,
         temperature: input.options?.temperature ?? this.temperature,
         max_tokens: input.options?.maxTokens ?? 8192,
         top_p: input.options?.topP ?? 1,
         stream: false,
         stop: input.options?.stopSequences ?? null,
+        response_format: input.options?.responseFormat === 'json'
+          ? { type: 'json_object' }
+          : undefined,
+        tools: input.tools?.length ? this.buildTools(input) : undefined,
+        tool_choice: input.tools?.length ? input.toolChoice : undefined,
       });
 
       const response = completion.choices[0]?.message?.content || '';
+      const toolCalls = completion.choices[0]?.message?.tool_calls;
       const tokensUsed = completion.usage?.total_tokens || 0;
       
       this.rateLimiter.recordUsage(tokensUsed);
@@ -108,17 +141,29 @@ export class GroqProvider implements AIProvider {
         model: this.model,
         tokensUsed,
         responseTimeMs: Date.now() - startTime,
-        confidence: this.calculateConfidence(response),
+        confidence: ResponseHeuristics.calculateConfidence(response),
+        toolCalls: toolCalls?.length
+          ? toolCalls.map(call => ({
+              id: call.id,
+              name: call.function.name,
+              arguments: parseToolArguments(call.function.arguments),
+            }))
+          : undefined,
         metadata: {
           provider: 'groq',
           finishReason: completion.choices[0]?.finish_reason,
+          inputTokens: completion.usage?.prompt_tokens,
+          outputTokens: completion.usage?.completion_tokens,
         },
       };
 
       this.usageTracker.record({
         provider: 'groq',
         model: this.model,
+        userId: input.userId,
         tokensUsed,
+        inputTokens: completion.usage?.prompt_tokens,
+        outputTokens: completion.usage?.completion_tokens,
         responseTimeMs: result.responseTimeMs,
         success: true,
         timestamp: new Date(),
@@ -126,17 +171,18 @@ export class GroqProvider implements AIProvider {
 
       return result;
     } catch (error) {
-      this.handleError(error, startTime);
-      throw error;
+      throw this.handleError(error, startTime, input.userId);
     }
   }
 
   async *generateStreamingResponse(input: AIGenerationInput): AsyncGenerator<string> {
     try {
       await this.rateLimiter.checkLimit();
+      const inputTokens = tokenizers.countMessages(input.messages, this.model);
+      await this.rateLimiter.checkTokenLimit(inputTokens);
       
       const completion = await this.client.chat.completions.create({
-        messages: input.messages,
+        messages: this.buildMessages(input),
         model: this.model,
         temperature: input.options?.temperature ?? this.temperature,
         max_tokens: input.options?.maxTokens ?? 8192,
@@ -145,29 +191,32 @@ export class GroqProvider implements AIProvider {
         stop: input.options?.stopSequences ?? null,
       });
 
-      let tokensGenerated = 0;
+      let text = '';
       
       for await (const chunk of completion) {
         const content = chunk.choices[0]?.delta?.content || '';
         if (content) {
-          tokensGenerated += Math.ceil(content.length / 4);
+          text += content;
           yield content;
         }
       }
       
-      this.rateLimiter.recordUsage(tokensGenerated);
+      const outputTokens = tokenizers.count(text, this.model);
+      this.rateLimiter.recordUsage(inputTokens + outputTokens);
       
       this.usageTracker.record({
         provider: 'groq',
         model: this.model,
-        tokensUsed: tokensGenerated,
+        userId: input.userId,
+        tokensUsed: inputTokens + outputTokens,
+        inputTokens,
+        outputTokens,
         responseTimeMs: 0,
         success: true,
         timestamp: new Date(),
       });
     } catch (error) {
-      this.handleError(error, Date.now());
-      throw error;
+      throw this.handleError(error, Date.now(), input.userId);
     }
   }
 
@@ -175,38 +224,60 @@ export class GroqProvider implements AIProvider {
     const startTime = Date.now();
     
     // Check cache first
-    const cacheKey = this.cache.getCacheKey(context);
-    const cached = await this.cache.get(cacheKey);
+    const cached = await this.cache.lookup(context);
     if (cached) {
       this.usageTracker.record({
         provider: 'groq',
         model: 'cache',
+        userId: context.userId,
         tokensUsed: 0,
         responseTimeMs: Date.now() - startTime,
         success: true,
         timestamp: new Date(),
+        cacheHit: cached.source,
       });
-      return cached as EmailResponse;
+      return {
+        ...cached.response,
+        metadata: {
+          ...cached.response.metadata,
+          cacheHit: cached.source,
+          cacheSimilarity: cached.similarity,
+        },
+      } as EmailResponse;
+    }
+
+    if (context.tools?.length) {
+      return this.generateEmailResponseWithTools(context, startTime);
     }
 
     // Check rate limits
     await this.rateLimiter.checkLimit();
 
-    const systemPrompt = this.promptBuilder.buildSystemPrompt(context.responseStyle || 'formal');
+    const systemPrompt = this.promptBuilder.renderSystemPrompt(context.responseStyle || 'formal', context.userId, context.styleProfile);
     const userPrompt = this.promptBuilder.buildEmailPrompt(context);
     
     // Optimize prompts to save tokens
-    const optimizedSystemPrompt = PromptOptimizer.optimize(systemPrompt);
+    const optimizedSystemPrompt = PromptOptimizer.optimize(systemPrompt.text);
     const optimizedUserPrompt = PromptOptimizer.optimize(userPrompt);
+    const messages: Message[] = [
+      { role: 'system', content: optimizedSystemPrompt },
+      { role: 'user', content: optimizedUserPrompt },
+    ];
+    const inputTokens = tokenizers.countMessages(messages, this.model);
+    await this.rateLimiter.checkTokenLimit(inputTokens);
+
+    // Classify the inbound email while drafting; heuristics on the draft are the fallback.
+    // A fresh analyzer counts only this classification, which is part of the draft's tokensUsed
+    const analyzer = new EmailAnalyzer(this, context.userId);
+    const intentPromise = analyzer
+      .classifyIntent(context.body)
+      .catch((): EmailIntent | null => null);
 
     try {
       const completion = await ErrorHandler.withRetry(
         async () => {
           return await this.client.chat.completions.create({
-            messages: [
-              { role: 'system', content: optimizedSystemPrompt },
-              { role: 'user', content: optimizedUserPrompt },
-            ],
+            messages,
             model: this.model,
             temperature: this.temperature,
             max_tokens: context.maxLength ? Math.min(context.maxLength * 2, 8192) : 8192,
@@ -218,15 +289,11 @@ export class GroqProvider implements AIProvider {
       );
 
       let fullResponse = '';
-      let tokenCount = 0;
 
       for await (const chunk of completion) {
         const content = chunk.choices[0]?.delta?.content || '';
         fullResponse += content;
         
-        // Estimate tokens
-        tokenCount += Math.ceil(content.length / 4);
-        
         // Check length limit
         if (context.maxLength && fullResponse.split(' ').length > context.maxLength) {
           break;
@@ -234,90 +301,79 @@ export class GroqProvider implements AIProvider {
       }
 
       const responseTime = Date.now() - startTime;
+      const outputTokens = tokenizers.count(fullResponse, this.model);
+      const tokenCount = inputTokens + outputTokens;
       
-      // Analyze the generated response for intent and actions
-      const intent = this.extractIntent(fullResponse);
-      const suggestedActions = this.extractActions(fullResponse);
+      const classifiedIntent = await intentPromise;
+      const intent = classifiedIntent ?? ResponseHeuristics.extractIntent(fullResponse);
+      const suggestedActions = classifiedIntent?.requiredActions
+        ?? ResponseHeuristics.extractActions(fullResponse);
 
       const response: EmailResponse = {
         text: fullResponse.trim(),
         model: this.model,
-        tokensUsed: tokenCount,
+        tokensUsed: tokenCount + analyzer.tokensUsed,
         responseTimeMs: responseTime,
-        confidence: this.calculateConfidence(fullResponse),
+        confidence: ResponseHeuristics.calculateConfidence(fullResponse),
+        prompt: systemPrompt.ref,
+        language: context.language,
         metadata: {
           style: context.responseStyle,
           truncated: context.maxLength ? fullResponse.split(' ').length > context.maxLength : false,
           provider: 'groq',
+          inputTokens,
+          outputTokens,
         },
         suggestedActions,
         detectedIntent: intent,
-        requiresFollowUp: this.detectFollowUpNeeded(fullResponse),
+        requiresFollowUp: ResponseHeuristics.detectFollowUpNeeded(fullResponse),
       };
 
       // Cache the response
-      await this.cache.set(cacheKey, response);
+      await this.cache.store(context, response);
       
       // Record metrics
       this.rateLimiter.recordUsage(tokenCount);
       this.usageTracker.record({
         provider: 'groq',
         model: this.model,
+        userId: context.userId,
         tokensUsed: tokenCount,
+        inputTokens,
+        outputTokens,
         responseTimeMs: responseTime,
         success: true,
         timestamp: new Date(),
       });
 
-      if (this.config.useAdaptiveRateLimiting) {
-        (this.rateLimiter as AdaptiveRateLimiter).recordSuccess();
+      if (this.config.useAdaptiveRateLimiting && this.rateLimiter instanceof AdaptiveRateLimiter) {
+        this.rateLimiter.recordSuccess();
       }
 
       return response;
     } catch (error) {
-      this.handleError(error, startTime);
-      
-      // Return a fallback response if critical
-      if (this.shouldUseFallback(error)) {
-        return this.generateFallbackResponse(context);
-      }
-      
-      throw error;
+      throw this.handleError(error, startTime, context.userId);
     }
   }
 
-  async analyzeEmailSentiment(email: string): Promise<SentimentAnalysis> {
-    const prompt = this.analysisPromptBuilder.buildSentimentAnalysisPrompt(email);
-    
-    const response = await this.generateResponse({
-      messages: [
-        { role: 'system', content: 'You are an email sentiment analyzer.' },
-        { role: 'user', content: prompt },
-      ],
-    });
+  async generateStructured<T>(
+    input: AIGenerationInput,
+    schema: ZodType<T, ZodTypeDef, any>,
+    options?: StructuredOutputOptions
+  ): Promise<StructuredResponse<T>> {
+    return generateStructuredOutput(this, input, schema, options);
+  }
 
-    return this.analysisPromptBuilder.parseSentimentResponse(response.text);
+  async analyzeEmailSentiment(email: string): Promise<SentimentAnalysis> {
+    return this.analyzer.analyzeSentiment(email);
   }
 
   async summarizeEmailThread(thread: Email[]): Promise<string> {
-    const prompt = this.promptBuilder.buildSummaryPrompt(thread);
-    
-    const response = await this.generateResponse({
-      messages: [
-        { role: 'system', content: 'You are an email thread summarizer.' },
-        { role: 'user', content: prompt },
-      ],
-      options: {
-        temperature: 0.5, // Lower temperature for more consistent summaries
-        maxTokens: 500,
-      },
-    });
-
-    return response.text;
+    return (await this.summarizer.summarize(thread)).summary;
   }
 
   getTokenCount(text: string): number {
-    return PromptOptimizer.estimateTokenCount(text);
+    return tokenizers.count(text, this.model);
   }
 
   async checkRateLimit(): Promise<RateLimitStatus> {
@@ -325,7 +381,7 @@ export class GroqProvider implements AIProvider {
   }
 
   async getUsageStats(): Promise<UsageStats> {
-    return this.usageTracker.getUsageStats();
+    return this.usageTracker.loadUsageStats();
   }
 
   getModelInfo(): ModelInfo {
@@ -345,6 +401,7 @@ export class GroqProvider implements AIProvider {
         'email_generation',
         'sentiment_analysis',
         'summarization',
+        'tool_calling',
       ],
       recommendedUseCase: 'High-quality email responses with streaming support',
     };
@@ -366,93 +423,91 @@ export class GroqProvider implements AIProvider {
     }
   }
 
-  private calculateConfidence(response: string): number {
-    let confidence = 0.5;
-    
-    // Check for complete sentences
-    if (response.match(/[.!?]$/)) confidence += 0.1;
-    
-    // Check for reasonable length
-    const wordCount = response.split(' ').length;
-    if (wordCount > 20 && wordCount < 500) confidence += 0.2;
-    
-    // Check for professional language indicators
-    if (response.match(/\b(please|thank you|regards|sincerely)\b/i)) confidence += 0.1;
-    
-    // Check for action items or clear responses
-    if (response.match(/\b(will|would|can|could|should)\b/i)) confidence += 0.1;
-    
-    // Check for greeting and closing
-    if (response.match(/^(dear|hi|hello|good)/i)) confidence += 0.05;
-    if (response.match(/(regards|sincerely|best|thanks)[\s,]/i)) confidence += 0.05;
-    
-    return Math.min(confidence, 1.0);
-  }
-
-  private extractIntent(response: string): any {
-    // Simple intent detection based on response content
-    const intents = {
-      meeting_request: /\b(schedule|meeting|calendar|available|time)\b/i,
-      information_request: /\b(provide|send|share|need|require)\b/i,
-      task_assignment: /\b(assigned|complete|finish|deadline|due)\b/i,
-      thank_you: /\b(thank|appreciate|grateful|gratitude)\b/i,
-      follow_up: /\b(follow.?up|checking|reminder|status)\b/i,
+  // Tool rounds need complete responses, so unlike the default path this one does not stream
+  private async generateEmailResponseWithTools(context: EmailContext, startTime: number): Promise<EmailResponse> {
+    const systemPrompt = this.promptBuilder.renderSystemPrompt(context.responseStyle || 'formal', context.userId, context.styleProfile);
+    const analyzer = new EmailAnalyzer(this, context.userId);
+
+    const [generated, classifiedIntent] = await Promise.all([
+      generateWithTools(this, {
+        userId: context.userId,
+        messages: [
+          { role: 'system', content: PromptOptimizer.optimize(systemPrompt.text) },
+          { role: 'user', content: PromptOptimizer.optimize(this.promptBuilder.buildEmailPrompt(context)) },
+        ],
+        options: {
+          maxTokens: context.maxLength ? Math.min(context.maxLength * 2, 8192) : undefined,
+        },
+      }, context.tools || [], { maxSteps: context.maxToolSteps }),
+      analyzer.classifyIntent(context.body).catch((): EmailIntent | null => null),
+    ]);
+
+    const text = generated.text.trim();
+
+    const response: EmailResponse = {
+      ...generated,
+      text,
+      tokensUsed: generated.tokensUsed + analyzer.tokensUsed,
+      responseTimeMs: Date.now() - startTime,
+      prompt: systemPrompt.ref,
+      language: context.language,
+      metadata: {
+        ...generated.metadata,
+        style: context.responseStyle,
+        truncated: generated.metadata?.finishReason === 'length',
+      },
+      suggestedActions: classifiedIntent?.requiredActions ?? ResponseHeuristics.extractActions(text),
+      detectedIntent: classifiedIntent ?? ResponseHeuristics.extractIntent(text),
+      requiresFollowUp: ResponseHeuristics.detectFollowUpNeeded(text),
     };
 
-    for (const [type, pattern] of Object.entries(intents)) {
-      if (pattern.test(response)) {
-        return {
-          type,
-          confidence: 0.7,
-        };
-      }
+    // Tool results are live data (calendar, CRM), so only drafts that called no tools are cached
+    if (!generated.toolSteps?.length) {
+      await this.cache.store(context, response);
     }
 
-    return {
-      type: 'other',
-      confidence: 0.5,
-    };
+    return response;
   }
 
-  private extractActions(response: string): string[] {
-    const actions: string[] = [];
-    
-    // Look for action patterns
-    const actionPatterns = [
-      /I will (\w+.*?)(?:\.|,|and)/gi,
-      /I'll (\w+.*?)(?:\.|,|and)/gi,
-      /I am going to (\w+.*?)(?:\.|,|and)/gi,
-      /Please (\w+.*?)(?:\.|,|and)/gi,
-      /Could you (\w+.*?)(?:\.|,|and)/gi,
-    ];
-
-    actionPatterns.forEach(pattern => {
-      let match;
-      while ((match = pattern.exec(response)) !== null) {
-        actions.push(match[1].trim());
-      }
-    });
+  // Earlier tool rounds become assistant tool_calls followed by one tool message per result
+  private buildMessages(input: AIGenerationInput): Groq.Chat.ChatCompletionMessageParam[] {
+    const messages: Groq.Chat.ChatCompletionMessageParam[] = [...input.messages];
+
+    for (const step of input.toolSteps || []) {
+      messages.push({
+        role: 'assistant',
+        content: step.text || null,
+        tool_calls: step.calls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      });
+      messages.push(...step.results.map(result => ({
+        role: 'tool' as const,
+        tool_call_id: result.toolCallId,
+        content: result.content,
+      })));
+    }
 
-    return actions.slice(0, 5); // Limit to 5 actions
+    return messages;
   }
 
-  private detectFollowUpNeeded(response: string): boolean {
-    const followUpIndicators = [
-      /\b(follow.?up|get back|reach out|contact|update you)\b/i,
-      /\b(will send|will provide|will share)\b/i,
-      /\b(let me know|please confirm|please advise)\b/i,
-      /\b(next steps?|action items?)\b/i,
-    ];
-
-    return followUpIndicators.some(pattern => pattern.test(response));
+  private buildTools(input: AIGenerationInput): Groq.Chat.ChatCompletionTool[] {
+    return (input.tools || []).map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
   }
 
-  private handleError(error: any, startTime: number): void {
+  // Records the failure and returns the error to throw
+  private handleError(error: any, startTime: number, userId?: string): AIProviderError {
     const responseTime = Date.now() - startTime;
     
     this.usageTracker.record({
       provider: 'groq',
       model: this.model,
+      userId,
       tokensUsed: 0,
       responseTimeMs: responseTime,
       success: false,
@@ -460,20 +515,20 @@ export class GroqProvider implements AIProvider {
       timestamp: new Date(),
     });
 
-    if (this.config.useAdaptiveRateLimiting) {
-      (this.rateLimiter as AdaptiveRateLimiter).recordError();
+    if (this.config.useAdaptiveRateLimiting && this.rateLimiter instanceof AdaptiveRateLimiter) {
+      this.rateLimiter.recordError();
     }
 
     // Transform Groq errors to our error types
     if (this.isGroqRateLimitError(error)) {
-      throw new RateLimitError(
+      return new RateLimitError(
         'Groq rate limit exceeded',
-        this.getRetryAfter(error)
+        ResponseHeuristics.getRetryAfter(error.response?.headers)
       );
     }
 
     if (this.isGroqTokenError(error)) {
-      throw new TokenLimitError(
+      return new TokenLimitError(
         'Token limit exceeded',
         0,
         8192
@@ -481,14 +536,14 @@ export class GroqProvider implements AIProvider {
     }
 
     if (error.response?.status >= 500) {
-      throw new NetworkError(
+      return new NetworkError(
         'Groq service error',
         error.response.status,
         error.response.data
       );
     }
 
-    throw new AIProviderError('Groq provider error', error);
+    return new AIProviderError('Groq provider error', error);
   }
 
   private isGroqRateLimitError(error: any): boolean {
@@ -500,37 +555,4 @@ export class GroqProvider implements AIProvider {
     return error.message?.includes('token') || 
            error.message?.includes('context length');
   }
-
-  private getRetryAfter(error: any): number {
-    const retryAfter = error.response?.headers?.['retry-after'];
-    if (retryAfter) {
-      return parseInt(retryAfter) * 1000; // Convert to milliseconds
-    }
-    return 60000; // Default to 1 minute
-  }
-
-  private shouldUseFallback(error: any): boolean {
-    return isRateLimitError(error) || 
-           error instanceof NetworkError;
-  }
-
-  private generateFallbackResponse(context: EmailContext): EmailResponse {
-    const fallbackText = `Thank you for your email regarding "${context.subject}". 
-I've received your message and will review it carefully. 
-I'll get back to you as soon as possible with a detailed response.
-
-Best regards`;
-
-    return {
-      text: fallbackText,
-      model: 'fallback',
-      tokensUsed: 0,
-      responseTimeMs: 0,
-      confidence: 0.3,
-      metadata: {
-        fallback: true,
-        reason: 'Service temporarily unavailable',
-      },
-    };
-  }
-}
\ No newline at end of file
+}
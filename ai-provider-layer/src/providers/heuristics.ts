@@ -0,0 +1,93 @@
+import { EmailIntent } from '../interface';
+
+// Lightweight text heuristics shared by every provider implementation
+export class ResponseHeuristics {
+  static calculateConfidence(response: string): number {
+    let confidence = 0.5;
+
+    // Check for complete sentences
+    if (response.match(/[.!?]$/)) confidence += 0.1;
+
+    // Check for reasonable length
+    const wordCount = response.split(' ').length;
+    if (wordCount > 20 && wordCount < 500) confidence += 0.2;
+
+    // Check for professional language indicators
+    if (response.match(/\b(please|thank you|regards|sincerely)\b/i)) confidence += 0.1;
+
+    // Check for action items or clear responses
+    if (response.match(/\b(will|would|can|could|should)\b/i)) confidence += 0.1;
+
+    // Check for greeting and closing
+    if (response.match(/^(dear|hi|hello|good)/i)) confidence += 0.05;
+    if (response.match(/(regards|sincerely|best|thanks)[\s,]/i)) confidence += 0.05;
+
+    return Math.min(confidence, 1.0);
+  }
+
+  static extractIntent(response: string): EmailIntent {
+    // Simple intent detection based on response content
+    const intents: Record<string, RegExp> = {
+      meeting_request: /\b(schedule|meeting|calendar|available|time)\b/i,
+      information_request: /\b(provide|send|share|need|require)\b/i,
+      task_assignment: /\b(assigned|complete|finish|deadline|due)\b/i,
+      thank_you: /\b(thank|appreciate|grateful|gratitude)\b/i,
+      follow_up: /\b(follow.?up|checking|reminder|status)\b/i,
+    };
+
+    for (const [type, pattern] of Object.entries(intents)) {
+      if (pattern.test(response)) {
+        return {
+          type: type as EmailIntent['type'],
+          confidence: 0.7,
+        };
+      }
+    }
+
+    return {
+      type: 'other',
+      confidence: 0.5,
+    };
+  }
+
+  static extractActions(response: string): string[] {
+    const actions: string[] = [];
+
+    // Look for action patterns
+    const actionPatterns = [
+      /I will (\w+.*?)(?:\.|,|and)/gi,
+      /I'll (\w+.*?)(?:\.|,|and)/gi,
+      /I am going to (\w+.*?)(?:\.|,|and)/gi,
+      /Please (\w+.*?)(?:\.|,|and)/gi,
+      /Could you (\w+.*?)(?:\.|,|and)/gi,
+    ];
+
+    actionPatterns.forEach(pattern => {
+      let match;
+      while ((match = pattern.exec(response)) !== null) {
+        actions.push(match[1].trim());
+      }
+    });
+
+    return actions.slice(0, 5); // Limit to 5 actions
+  }
+
+  static detectFollowUpNeeded(response: string): boolean {
+    const followUpIndicators = [
+      /\b(follow.?up|get back|reach out|contact|update you)\b/i,
+      /\b(will send|will provide|will share)\b/i,
+      /\b(let me know|please confirm|please advise)\b/i,
+      /\b(next steps?|action items?)\b/i,
+    ];
+
+    return followUpIndicators.some(pattern => pattern.test(response));
+  }
+
+  static getRetryAfter(headers: Record<string, any> | undefined): number {
+    const retryAfter = headers?.['retry-after'];
+    if (retryAfter) {
+      return parseInt(retryAfter) * 1000; // Convert to milliseconds
+    }
+    return 60000; // Default to 1 minute
+  }
+}
@@ -0,0 +1,194 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { LocalProvider } from './local';
+import { ModelUnavailableError, NetworkError } from '../errors';
+
+// Minimal stand-in for an OpenAI-compatible server and Ollama's native API
+function startStubServer(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : {};
+
+      if (req.url === '/v1/models') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ data: [{ id: 'llama3.1:8b', max_model_len: 131072 }] }));
+        return;
+      }
+
+      if (req.url === '/api/tags') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          models: [{ name: 'qwen2.5:7b', details: { parameter_size: '7.6B' } }],
+        }));
+        return;
+      }
+
+      if (req.url === '/api/show') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ model_info: { 'qwen2.context_length': 32768 } }));
+        return;
+      }
+
+      if (req.url === '/v1/embeddings') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          data: body.input.map((_: string, index: number) => ({ index, embedding: [index, 1, 0] })).reverse(),
+          usage: { prompt_tokens: 8 },
+        }));
+        return;
+      }
+
+      if (body.model === 'missing') {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ error: { message: 'model not found' } }));
+        return;
+      }
+
+      if (req.url === '/v1/chat/completions' && body.stream) {
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.write('data: {"choices":[{"delta":{"content":"Hello "}}]}\n\n');
+        res.write('data: {"choices":[{"delta":{"content":"from SSE"}}]}\n\n');
+        res.write('data: {"choices":[],"usage":{"prompt_tokens":4,"completion_tokens":3}}\n\n');
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+
+      if (req.url === '/v1/chat/completions') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          model: body.model,
+          choices: [{ message: { content: 'Hello from a local model.' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 10, completion_tokens: 6 },
+        }));
+        return;
+      }
+
+      if (req.url === '/api/chat') {
+        res.setHeader('Content-Type', 'application/x-ndjson');
+        res.write('{"message":{"content":"Hello "},"done":false}\n');
+        res.write('{"message":{"content":"from NDJSON"},"done":false}\n');
+        res.end('{"message":{"content":""},"done":true,"prompt_eval_count":5,"eval_count":2}\n');
+        return;
+      }
+
+      res.statusCode = 500;
+      res.end();
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('LocalProvider', () => {
+  let server: http.Server;
+  let baseURL: string;
+
+  beforeAll(async () => {
+    server = await startStubServer();
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  describe('OpenAI-compatible API', () => {
+    it('should generate a response with zero cost', async () => {
+      const provider = new LocalProvider({ apiKey: '', baseURL: `${baseURL}/v1`, model: 'llama3.1:8b' });
+
+      const response = await provider.generateResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+      const stats = await provider.getUsageStats();
+
+      expect(response.text).toBe('Hello from a local model.');
+      expect(response.tokensUsed).toBe(16);
+      expect(stats.totalCost).toBe(0);
+    });
+
+    it('should stream SSE deltas', async () => {
+      const provider = new LocalProvider({ apiKey: '', baseURL: `${baseURL}/v1`, model: 'llama3.1:8b' });
+
+      const chunks: string[] = [];
+      for await (const chunk of provider.generateStreamingResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      })) {
+        chunks.push(chunk);
+      }
+      const stats = await provider.getUsageStats();
+
+      expect(chunks.join('')).toBe('Hello from SSE');
+      expect(stats.totalTokens).toBe(7);
+    });
+
+    it('should discover models and fill in ModelInfo', async () => {
+      const provider = new LocalProvider({ apiKey: '', baseURL: `${baseURL}/v1` });
+
+      const response = await provider.generateResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+      const info = provider.getModelInfo();
+
+      expect(response.model).toBe('llama3.1:8b');
+      expect(info.contextWindow).toBe(131072);
+      expect(info.costPer1kTokens).toEqual({ input: 0, output: 0 });
+    });
+
+    it('should return embeddings in input order and learn their width', async () => {
+      const provider = new LocalProvider({ apiKey: '', baseURL: `${baseURL}/v1` });
+
+      const response = await provider.generateEmbeddings(['first', 'second']);
+
+      expect(response.embeddings).toEqual([[0, 1, 0], [1, 1, 0]]);
+      expect(response.tokensUsed).toBe(8);
+      expect(provider.embeddingDimensions).toBe(3);
+    });
+
+    it('should map a missing model to ModelUnavailableError', async () => {
+      const provider = new LocalProvider({
+        apiKey: '',
+        baseURL: `${baseURL}/v1`,
+        model: 'missing',
+        maxRetries: 1,
+      });
+
+      await expect(provider.generateResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      })).rejects.toThrow(ModelUnavailableError);
+    });
+  });
+
+  describe('Ollama native API', () => {
+    it('should stream NDJSON lines and discover models', async () => {
+      const provider = new LocalProvider({ apiKey: '', baseURL, api: 'ollama' });
+
+      const chunks: string[] = [];
+      for await (const chunk of provider.generateStreamingResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      })) {
+        chunks.push(chunk);
+      }
+      const info = provider.getModelInfo();
+
+      expect(chunks.join('')).toBe('Hello from NDJSON');
+      expect(info.name).toBe('qwen2.5:7b');
+      expect(info.contextWindow).toBe(32768);
+    });
+  });
+
+  it('should report unreachable servers as NetworkError', async () => {
+    const provider = new LocalProvider({
+      apiKey: '',
+      baseURL: 'http://127.0.0.1:1',
+      model: 'llama3.1:8b',
+      maxRetries: 1,
+    });
+
+    await expect(provider.generateResponse({
+      messages: [{ role: 'user', content: 'Hello' }],
+    })).rejects.toThrow(NetworkError);
+    expect(await provider.isAvailable()).toBe(false);
+  });
+});
@@ -0,0 +1,711 @@
+import { ZodType, ZodTypeDef } from 'zod';
+import {
+  AIProvider,
+  AIGenerationInput,
+  EmbeddingProvider,
+  EmbeddingResponse,
+  AIResponse,
+  EmailContext,
+  EmailResponse,
+  EmailIntent,
+  Email,
+  SentimentAnalysis,
+  RateLimitStatus,
+  UsageStats,
+  ModelInfo,
+  ProviderConfig,
+  CacheConfig,
+  RateLimits,
+  StructuredOutputOptions,
+  StructuredResponse,
+} from '../interface';
+import {
+  AIProviderError,
+  RateLimitError,
+  TokenLimitError,
+  ModelUnavailableError,
+  NetworkError,
+  ErrorHandler,
+} from '../errors';
+import { DistributedCache, ResponseCache, TieredCache } from '../cache';
+import { RateLimiter, SharedRateLimiter } from '../rate-limiter';
+import { CacheStore } from '../stores/cache-store';
+import { UsageStore, UsageTracker } from '../usage-tracker';
+import { tokenizers } from '../tokenizer';
+import { EmailPromptBuilder, PromptOptimizer } from '../prompts/email-response';
+import { EmailAnalyzer } from '../analysis';
+import { EmailBodyParser, ThreadSummarizer } from '../summarizer';
+import { generateStructuredOutput } from '../structured';
+import { ResponseHeuristics } from './heuristics';
+
+// 'openai' speaks /v1/chat/completions (llama.cpp, vLLM, LM Studio, Ollama's /v1),
+// 'ollama' speaks Ollama's native /api/chat
+export type LocalAPIFlavor = 'openai' | 'ollama';
+
+export interface LocalConfig extends ProviderConfig {
+  model?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+  api?: LocalAPIFlavor;
+  temperature?: number;
+  maxRetries?: number;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  cacheConfig?: CacheConfig;
+  // Overrides cacheConfig, e.g. to share a SemanticCache between providers
+  cache?: ResponseCache;
+  // Cache entries and rate-limit counters shared with other instances (Redis, SQLite)
+  sharedStore?: CacheStore;
+  // Persists per-call usage so stats and billing exports survive restarts
+  usageStore?: UsageStore;
+  // Strips quoted replies and signatures before thread summarization, e.g. EmailParser
+  bodyParser?: EmailBodyParser;
+  rateLimits?: RateLimits;
+}
+
+interface LocalCompletion {
+  text: string;
+  model: string;
+  finishReason?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+const DEFAULT_BASE_URLS: Record<LocalAPIFlavor, string> = {
+  openai: 'http://localhost:11434/v1',
+  ollama: 'http://localhost:11434',
+};
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const DEFAULT_MAX_OUTPUT_TOKENS = 2048;
+const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+const DEFAULT_EMBEDDING_DIMENSIONS = 768;
+
+export class LocalProvider implements AIProvider, EmbeddingProvider {
+  private cache: ResponseCache;
+  private rateLimiter: RateLimiter;
+  private usageTracker: UsageTracker;
+  private promptBuilder: EmailPromptBuilder;
+  private analyzer: EmailAnalyzer;
+  private summarizer: ThreadSummarizer;
+  private api: LocalAPIFlavor;
+  private baseURL: string;
+  private model: string;
+  private temperature: number;
+  private maxRetries: number;
+  private discoveredModels: Map<string, ModelInfo> = new Map();
+  readonly embeddingModel: string;
+  embeddingDimensions: number;
+
+  constructor(private config: LocalConfig) {
+    this.api = config.api || 'openai';
+    this.baseURL = (config.baseURL || DEFAULT_BASE_URLS[this.api]).replace(/\/+$/, '');
+    this.model = config.model || '';
+    this.temperature = config.temperature ?? 0.7;
+    this.maxRetries = config.maxRetries ?? 2;
+    this.embeddingModel = config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+    this.embeddingDimensions = config.embeddingDimensions ?? DEFAULT_EMBEDDING_DIMENSIONS;
+
+    const cacheConfig = config.cacheConfig || {
+      ttl: 3600,
+      maxSize: 100,
+      enabled: true,
+    };
+    this.cache = config.cache || (config.sharedStore
+      ? new DistributedCache(cacheConfig, config.sharedStore)
+      : new TieredCache(cacheConfig));
+
+    // Self-hosted servers have no quota; the limiter only protects the host
+    const rateLimits = config.rateLimits || {
+      requestsPerMinute: 120,
+      tokensPerMinute: 1000000,
+    };
+    this.rateLimiter = config.sharedStore
+      ? new SharedRateLimiter(rateLimits, config.sharedStore, 'local')
+      : new RateLimiter(rateLimits);
+
+    this.usageTracker = new UsageTracker({ store: config.usageStore, provider: 'local' });
+    this.promptBuilder = new EmailPromptBuilder();
+    this.analyzer = new EmailAnalyzer(this);
+    this.summarizer = new ThreadSummarizer(this, { parser: config.bodyParser });
+  }
+
+  async generateResponse(input: AIGenerationInput): Promise<AIResponse> {
+    const startTime = Date.now();
+
+    try {
+      await this.rateLimiter.checkLimit();
+      const model = await this.resolveModel();
+
+      const completion = await ErrorHandler.withRetry(
+        () => this.complete(input, model).catch(error => {
+          throw this.mapError(error);
+        }),
+        this.maxRetries
+      );
+
+      const tokensUsed = (completion.inputTokens || 0) + (completion.outputTokens || 0)
+        || this.getTokenCount(completion.text);
+
+      this.rateLimiter.recordUsage(tokensUsed);
+
+      const result: AIResponse = {
+        text: completion.text,
+        model: completion.model || model,
+        tokensUsed,
+        responseTimeMs: Date.now() - startTime,
+        confidence: ResponseHeuristics.calculateConfidence(completion.text),
+        metadata: {
+          provider: 'local',
+          baseURL: this.baseURL,
+          finishReason: completion.finishReason,
+          inputTokens: completion.inputTokens,
+          outputTokens: completion.outputTokens,
+        },
+      };
+
+      this.recordSuccess(tokensUsed, result.responseTimeMs, completion.inputTokens, completion.outputTokens, input.userId);
+
+      return result;
+    } catch (error) {
+      throw this.handleError(error, startTime, input.userId);
+    }
+  }
+
+  async *generateStreamingResponse(input: AIGenerationInput): AsyncGenerator<string> {
+    const startTime = Date.now();
+
+    try {
+      await this.rateLimiter.checkLimit();
+      const model = await this.resolveModel();
+
+      const response = await this.request(this.chatPath(), this.buildChatBody(input, model, true));
+
+      let inputTokens: number | undefined;
+      let outputTokens: number | undefined;
+      let text = '';
+
+      for await (const event of this.readEvents(response)) {
+        const parsed = this.parseStreamEvent(event);
+
+        // Usage arrives on the final event for both flavors
+        if (parsed.inputTokens || parsed.outputTokens) {
+          inputTokens = parsed.inputTokens;
+          outputTokens = parsed.outputTokens;
+        }
+
+        if (parsed.content) {
+          text += parsed.content;
+          yield parsed.content;
+        }
+      }
+
+      // Some servers omit usage on streams; count with the model's tokenizer instead
+      inputTokens = inputTokens ?? tokenizers.countMessages(input.messages, model);
+      outputTokens = outputTokens ?? tokenizers.count(text, model);
+
+      const tokensUsed = inputTokens + outputTokens;
+      this.rateLimiter.recordUsage(tokensUsed);
+      this.recordSuccess(tokensUsed, Date.now() - startTime, inputTokens, outputTokens, input.userId);
+    } catch (error) {
+      throw this.handleError(error, startTime, input.userId);
+    }
+  }
+
+  async generateEmailResponse(emailContext: EmailContext): Promise<EmailResponse> {
+    const startTime = Date.now();
+    // Local servers get no tools, so the draft relies on the email alone and the prompt must not offer them
+    const context: EmailContext = { ...emailContext, tools: undefined };
+
+    // Check cache first
+    const cached = await this.cache.lookup(context);
+    if (cached) {
+      this.usageTracker.record({
+        provider: 'local',
+        model: 'cache',
+        userId: context.userId,
+        tokensUsed: 0,
+        responseTimeMs: Date.now() - startTime,
+        success: true,
+        timestamp: new Date(),
+        cacheHit: cached.source,
+        cost: 0,
+      });
+      return {
+        ...cached.response,
+        metadata: {
+          ...cached.response.metadata,
+          cacheHit: cached.source,
+          cacheSimilarity: cached.similarity,
+        },
+      } as EmailResponse;
+    }
+
+    const systemTemplate = this.promptBuilder.renderSystemPrompt(context.responseStyle || 'formal', context.userId, context.styleProfile);
+    const systemPrompt = PromptOptimizer.optimize(systemTemplate.text);
+    const userPrompt = PromptOptimizer.optimize(this.promptBuilder.buildEmailPrompt(context));
+
+    // Classify the inbound email while drafting; heuristics on the draft are the fallback.
+    // A fresh analyzer counts only this classification, which is part of the draft's tokensUsed
+    const analyzer = new EmailAnalyzer(this, context.userId);
+    const [generated, intent] = await Promise.all([
+      this.generateResponse({
+        userId: context.userId,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        options: {
+          maxTokens: context.maxLength
+            ? Math.min(context.maxLength * 2, this.getModelInfo().maxOutputTokens)
+            : undefined,
+        },
+      }),
+      analyzer.classifyIntent(context.body).catch((): EmailIntent | null => null),
+    ]);
+
+    const text = generated.text.trim();
+
+    const response: EmailResponse = {
+      ...generated,
+      text,
+      tokensUsed: generated.tokensUsed + analyzer.tokensUsed,
+      responseTimeMs: Date.now() - startTime,
+      prompt: systemTemplate.ref,
+      language: context.language,
+      metadata: {
+        ...generated.metadata,
+        style: context.responseStyle,
+        truncated: generated.metadata?.finishReason === 'length',
+      },
+      suggestedActions: intent?.requiredActions ?? ResponseHeuristics.extractActions(text),
+      detectedIntent: intent ?? ResponseHeuristics.extractIntent(text),
+      requiresFollowUp: ResponseHeuristics.detectFollowUpNeeded(text),
+    };
+
+    // Tool results are live data (calendar, CRM), so only drafts that called no tools are cached
+    if (!generated.toolSteps?.length) {
+      await this.cache.store(context, response);
+    }
+
+    return response;
+  }
+
+  async generateStructured<T>(
+    input: AIGenerationInput,
+    schema: ZodType<T, ZodTypeDef, any>,
+    options?: StructuredOutputOptions
+  ): Promise<StructuredResponse<T>> {
+    return generateStructuredOutput(this, input, schema, options);
+  }
+
+  async analyzeEmailSentiment(email: string): Promise<SentimentAnalysis> {
+    return this.analyzer.analyzeSentiment(email);
+  }
+
+  async summarizeEmailThread(thread: Email[]): Promise<string> {
+    return (await this.summarizer.summarize(thread)).summary;
+  }
+
+  getTokenCount(text: string): number {
+    return tokenizers.count(text, this.model);
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<EmbeddingResponse> {
+    const startTime = Date.now();
+
+    try {
+      await this.rateLimiter.checkLimit();
+
+      const result = await ErrorHandler.withRetry(
+        () => this.embed(texts).catch(error => {
+          throw this.mapError(error);
+        }),
+        this.maxRetries
+      );
+
+      const tokensUsed = result.tokensUsed
+        || texts.reduce((sum, text) => sum + this.getTokenCount(text), 0);
+
+      // The real width is only known once the server has answered
+      if (result.embeddings[0]) {
+        this.embeddingDimensions = result.embeddings[0].length;
+      }
+
+      this.rateLimiter.recordUsage(tokensUsed);
+      this.usageTracker.record({
+        provider: 'local',
+        model: this.embeddingModel,
+        tokensUsed,
+        responseTimeMs: Date.now() - startTime,
+        success: true,
+        timestamp: new Date(),
+        cost: 0,
+      });
+
+      return { embeddings: result.embeddings, model: this.embeddingModel, tokensUsed };
+    } catch (error) {
+      throw this.handleError(error, startTime);
+    }
+  }
+
+  async checkRateLimit(): Promise<RateLimitStatus> {
+    return this.rateLimiter.getStatus();
+  }
+
+  async getUsageStats(): Promise<UsageStats> {
+    return this.usageTracker.loadUsageStats();
+  }
+
+  getModelInfo(): ModelInfo {
+    const discovered = this.discoveredModels.get(this.model);
+    if (discovered) {
+      return discovered;
+    }
+
+    return this.buildModelInfo(this.model || 'unknown');
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const models = await this.discoverModels();
+      return this.model ? models.some(model => model.name === this.model) : models.length > 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Query the server for installed models and cache their ModelInfo
+  async discoverModels(): Promise<ModelInfo[]> {
+    const models = this.api === 'ollama'
+      ? await this.discoverOllamaModels()
+      : await this.discoverOpenAIModels();
+
+    this.discoveredModels = new Map(models.map(model => [model.name, model]));
+    return models;
+  }
+
+  private async discoverOpenAIModels(): Promise<ModelInfo[]> {
+    const response = await this.request('/models');
+    const body: any = await response.json();
+
+    return (body.data || []).map((model: any) =>
+      this.buildModelInfo(
+        model.id,
+        // vLLM reports max_model_len, llama.cpp reports meta.n_ctx_train
+        model.max_model_len || model.meta?.n_ctx_train
+      )
+    );
+  }
+
+  private async discoverOllamaModels(): Promise<ModelInfo[]> {
+    const response = await this.request('/api/tags');
+    const body: any = await response.json();
+
+    const models: ModelInfo[] = [];
+    for (const model of body.models || []) {
+      models.push(
+        this.buildModelInfo(
+          model.name,
+          await this.fetchOllamaContextLength(model.name),
+          model.details?.parameter_size
+        )
+      );
+    }
+
+    return models;
+  }
+
+  private async fetchOllamaContextLength(model: string): Promise<number | undefined> {
+    try {
+      const response = await this.request('/api/show', { model });
+      const body: any = await response.json();
+      const key = Object.keys(body.model_info || {}).find(k => k.endsWith('.context_length'));
+      return key ? body.model_info[key] : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private buildModelInfo(name: string, contextWindow?: number, version?: string): ModelInfo {
+    const window = this.config.contextWindow || contextWindow || DEFAULT_CONTEXT_WINDOW;
+
+    return {
+      name,
+      provider: 'Local',
+      version: version || 'local',
+      contextWindow: window,
+      maxOutputTokens: Math.min(
+        this.config.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS,
+        window
+      ),
+      // Self-hosted inference has no per-token charge
+      costPer1kTokens: { input: 0, output: 0 },
+      capabilities: [
+        'chat',
+        'streaming',
+        'email_generation',
+        'sentiment_analysis',
+        'summarization',
+        'offline',
+      ],
+      recommendedUseCase: 'Self-hosted processing where mail must not leave the network',
+    };
+  }
+
+  private async resolveModel(): Promise<string> {
+    if (this.model) {
+      return this.model;
+    }
+
+    // Fall back to the first model the server has installed
+    const models = await this.discoverModels();
+    if (models.length === 0) {
+      throw new ModelUnavailableError(`No models are installed at ${this.baseURL}`, 'unknown');
+    }
+
+    this.model = models[0].name;
+    return this.model;
+  }
+
+  private async complete(input: AIGenerationInput, model: string): Promise<LocalCompletion> {
+    const response = await this.request(this.chatPath(), this.buildChatBody(input, model, false));
+    const body: any = await response.json();
+
+    if (this.api === 'ollama') {
+      return {
+        text: body.message?.content || '',
+        model: body.model,
+        finishReason: body.done_reason,
+        inputTokens: body.prompt_eval_count,
+        outputTokens: body.eval_count,
+      };
+    }
+
+    return {
+      text: body.choices?.[0]?.message?.content || '',
+      model: body.model,
+      finishReason: body.choices?.[0]?.finish_reason,
+      inputTokens: body.usage?.prompt_tokens,
+      outputTokens: body.usage?.completion_tokens,
+    };
+  }
+
+  private async embed(texts: string[]): Promise<{ embeddings: number[][]; tokensUsed: number }> {
+    if (this.api === 'ollama') {
+      const response = await this.request('/api/embed', { model: this.embeddingModel, input: texts });
+      const body: any = await response.json();
+      return { embeddings: body.embeddings || [], tokensUsed: body.prompt_eval_count || 0 };
+    }
+
+    const response = await this.request('/embeddings', { model: this.embeddingModel, input: texts });
+    const body: any = await response.json();
+    const ordered = [...(body.data || [])].sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0));
+    return {
+      embeddings: ordered.map((item: any) => item.embedding),
+      tokensUsed: body.usage?.prompt_tokens || 0,
+    };
+  }
+
+  private chatPath(): string {
+    return this.api === 'ollama' ? '/api/chat' : '/chat/completions';
+  }
+
+  private buildChatBody(input: AIGenerationInput, model: string, stream: boolean): Record<string, any> {
+    const temperature = input.options?.temperature ?? this.temperature;
+    const maxTokens = input.options?.maxTokens ?? this.getModelInfo().maxOutputTokens;
+
+    if (this.api === 'ollama') {
+      return {
+        model,
+        messages: input.messages,
+        stream,
+        format: input.options?.responseFormat === 'json' ? 'json' : undefined,
+        options: {
+          temperature,
+          num_predict: maxTokens,
+          top_p: input.options?.topP,
+          stop: input.options?.stopSequences,
+        },
+      };
+    }
+
+    return {
+      model,
+      messages: input.messages,
+      temperature,
+      max_tokens: maxTokens,
+      top_p: input.options?.topP ?? 1,
+      stop: input.options?.stopSequences,
+      response_format: input.options?.responseFormat === 'json' ? { type: 'json_object' } : undefined,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+    };
+  }
+
+  private async request(path: string, body?: Record<string, any>): Promise<Response> {
+    let response: Response;
+
+    try {
+      response = await fetch(`${this.baseURL}${path}`, {
+        method: body ? 'POST' : 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+          ...this.config.headers,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.config.timeout ?? 120000),
+      });
+    } catch (error) {
+      throw new NetworkError(`Local model server unreachable at ${this.baseURL}`, undefined, undefined, error);
+    }
+
+    if (!response.ok) {
+      throw this.mapHttpError(response.status, await response.text());
+    }
+
+    return response;
+  }
+
+  // Yields one decoded payload per SSE "data:" line or NDJSON line
+  private async *readEvents(response: Response): AsyncGenerator<any> {
+    if (!response.body) {
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() || '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith(':') || line.startsWith('event:')) {
+          continue;
+        }
+
+        const payload = line.startsWith('data:') ? line.slice(5).trim() : line;
+        if (payload === '[DONE]') {
+          return;
+        }
+
+        try {
+          yield JSON.parse(payload);
+        } catch (error) {
+          throw new NetworkError('Malformed stream event from local model server', undefined, payload, error);
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  }
+
+  private parseStreamEvent(event: any): { content: string; inputTokens?: number; outputTokens?: number } {
+    if (event.error) {
+      throw new AIProviderError(`Local model stream error: ${event.error.message || event.error}`);
+    }
+
+    // Ollama native NDJSON
+    if (event.message !== undefined || event.done !== undefined) {
+      return {
+        content: event.message?.content || '',
+        inputTokens: event.done ? event.prompt_eval_count : undefined,
+        outputTokens: event.done ? event.eval_count : undefined,
+      };
+    }
+
+    // OpenAI-compatible SSE
+    return {
+      content: event.choices?.[0]?.delta?.content || '',
+      inputTokens: event.usage?.prompt_tokens,
+      outputTokens: event.usage?.completion_tokens,
+    };
+  }
+
+  private recordSuccess(
+    tokensUsed: number,
+    responseTimeMs: number,
+    inputTokens?: number,
+    outputTokens?: number,
+    userId?: string
+  ): void {
+    this.usageTracker.record({
+      provider: 'local',
+      model: this.model,
+      userId,
+      tokensUsed,
+      inputTokens,
+      outputTokens,
+      responseTimeMs,
+      success: true,
+      timestamp: new Date(),
+      cost: 0,
+    });
+  }
+
+  // Records the failure and returns the error to throw
+  private handleError(error: any, startTime: number, userId?: string): AIProviderError {
+    this.usageTracker.record({
+      provider: 'local',
+      model: this.model,
+      userId,
+      tokensUsed: 0,
+      responseTimeMs: Date.now() - startTime,
+      success: false,
+      error: error.message,
+      timestamp: new Date(),
+      cost: 0,
+    });
+
+    return this.mapError(error);
+  }
+
+  private mapHttpError(status: number, body: string): AIProviderError {
+    if (status === 429) {
+      return new RateLimitError('Local model server is overloaded', 1000, 'requests');
+    }
+
+    if (status === 404) {
+      return new ModelUnavailableError(
+        `Model ${this.model} is not installed at ${this.baseURL}`,
+        this.model,
+        Array.from(this.discoveredModels.keys()).filter(model => model !== this.model)
+      );
+    }
+
+    if (status === 400 && /context|too long|exceeds/i.test(body)) {
+      return new TokenLimitError(
+        'Local model context length exceeded',
+        0,
+        this.getModelInfo().contextWindow
+      );
+    }
+
+    if (status >= 500) {
+      return new NetworkError('Local model server error', status, body);
+    }
+
+    return new AIProviderError(`Local model server returned ${status}: ${body}`);
+  }
+
+  private mapError(error: any): AIProviderError {
+    if (error instanceof AIProviderError) {
+      return error;
+    }
+
+    if (error?.name === 'TimeoutError' || error?.name === 'AbortError') {
+      return new NetworkError('Local model server timed out', undefined, undefined, error);
+    }
+
+    return new AIProviderError('Local provider error', error);
+  }
+}
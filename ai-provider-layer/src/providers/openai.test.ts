@@ -0,0 +1,98 @@
+import OpenAI from 'openai';
+import { OpenAIProvider } from './openai';
+import { RateLimitError, TokenLimitError } from '../errors';
+
+describe('OpenAIProvider', () => {
+  let provider: OpenAIProvider;
+  let create: jest.SpyInstance;
+
+  beforeEach(() => {
+    provider = new OpenAIProvider({
+      apiKey: 'test-key',
+      model: 'gpt-4o-mini',
+      maxRetries: 1,
+    });
+    create = jest.spyOn((provider as any).client.chat.completions, 'create');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('generateResponse', () => {
+    it('should return text and token usage from the completion', async () => {
+      create.mockResolvedValue({
+        model: 'gpt-4o-mini',
+        choices: [{ message: { content: 'Thanks for reaching out.' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 6, total_tokens: 18 },
+      });
+
+      const response = await provider.generateResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      expect(response.text).toBe('Thanks for reaching out.');
+      expect(response.tokensUsed).toBe(18);
+      expect(response.metadata?.provider).toBe('openai');
+      expect(response.metadata?.inputTokens).toBe(12);
+    });
+
+    it('should map 429 responses to RateLimitError', async () => {
+      create.mockRejectedValue(
+        new OpenAI.RateLimitError(429, { message: 'Rate limit reached' }, 'Rate limit reached', {
+          'retry-after': '2',
+        })
+      );
+
+      await expect(provider.generateResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      })).rejects.toThrow(RateLimitError);
+    });
+
+    it('should map context length errors to TokenLimitError', async () => {
+      create.mockRejectedValue(
+        new OpenAI.BadRequestError(
+          400,
+          { code: 'context_length_exceeded', message: 'too long' },
+          'too long',
+          {}
+        )
+      );
+
+      await expect(provider.generateResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      })).rejects.toThrow(TokenLimitError);
+    });
+  });
+
+  describe('generateStreamingResponse', () => {
+    it('should yield deltas and use reported usage', async () => {
+      create.mockResolvedValue((async function* () {
+        yield { choices: [{ delta: { content: 'Hi ' } }] };
+        yield { choices: [{ delta: { content: 'there' } }] };
+        yield { choices: [] as any[], usage: { total_tokens: 9 } };
+      })());
+
+      const chunks: string[] = [];
+      for await (const chunk of provider.generateStreamingResponse({
+        messages: [{ role: 'user', content: 'Hello' }],
+      })) {
+        chunks.push(chunk);
+      }
+
+      const stats = await provider.getUsageStats();
+      expect(chunks.join('')).toBe('Hi there');
+      expect(stats.totalTokens).toBe(9);
+    });
+  });
+
+  describe('getModelInfo', () => {
+    it('should report per-model pricing', () => {
+      const info = provider.getModelInfo();
+
+      expect(info.provider).toBe('OpenAI');
+      expect(info.costPer1kTokens).toEqual({ input: 0.00015, output: 0.0006 });
+      expect(info.contextWindow).toBe(128000);
+    });
+  });
+});
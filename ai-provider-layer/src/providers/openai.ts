@@ -0,0 +1,585 @@
+import OpenAI from 'openai';
+import { ZodType, ZodTypeDef } from 'zod';
+import {
+  AIProvider,
+  AIGenerationInput,
+  EmbeddingProvider,
+  EmbeddingResponse,
+  AIResponse,
+  EmailContext,
+  EmailResponse,
+  EmailIntent,
+  Email,
+  SentimentAnalysis,
+  RateLimitStatus,
+  UsageStats,
+  ModelInfo,
+  ProviderConfig,
+  CacheConfig,
+  RateLimits,
+  StructuredOutputOptions,
+  StructuredResponse,
+} from '../interface';
+import {
+  AIProviderError,
+  RateLimitError,
+  TokenLimitError,
+  ModelUnavailableError,
+  NetworkError,
+  ErrorHandler,
+} from '../errors';
+import { DistributedCache, ResponseCache, TieredCache } from '../cache';
+import { RateLimiter, AdaptiveRateLimiter, SharedRateLimiter } from '../rate-limiter';
+import { CacheStore } from '../stores/cache-store';
+import { UsageStore, UsageTracker } from '../usage-tracker';
+import { tokenizers } from '../tokenizer';
+import { EmailPromptBuilder, PromptOptimizer } from '../prompts/email-response';
+import { EmailAnalyzer } from '../analysis';
+import { EmailBodyParser, ThreadSummarizer } from '../summarizer';
+import { generateStructuredOutput } from '../structured';
+import { generateWithTools, parseToolArguments } from '../tools';
+import { ResponseHeuristics } from './heuristics';
+
+export interface OpenAIConfig extends ProviderConfig {
+  model?: string;
+  embeddingModel?: string;
+  organization?: string;
+  temperature?: number;
+  maxRetries?: number;
+  cacheConfig?: CacheConfig;
+  // Overrides cacheConfig, e.g. to share a SemanticCache between providers
+  cache?: ResponseCache;
+  // Cache entries and rate-limit counters shared with other instances (Redis, SQLite)
+  sharedStore?: CacheStore;
+  // Persists per-call usage so stats and billing exports survive restarts
+  usageStore?: UsageStore;
+  // Strips quoted replies and signatures before thread summarization, e.g. EmailParser
+  bodyParser?: EmailBodyParser;
+  rateLimits?: RateLimits;
+  useAdaptiveRateLimiting?: boolean;
+}
+
+type OpenAIModelSpec = Omit<ModelInfo, 'name' | 'provider' | 'capabilities'>;
+
+// Published list prices in USD per 1k tokens
+export const OPENAI_MODELS: Record<string, OpenAIModelSpec> = {
+  'gpt-4o': {
+    version: '2024-08-06',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    costPer1kTokens: { input: 0.0025, output: 0.01 },
+    recommendedUseCase: 'High-quality email drafting and complex reasoning',
+  },
+  'gpt-4o-mini': {
+    version: '2024-07-18',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    costPer1kTokens: { input: 0.00015, output: 0.0006 },
+    recommendedUseCase: 'Low-cost classification, sentiment and short replies',
+  },
+  'gpt-4-turbo': {
+    version: '2024-04-09',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    costPer1kTokens: { input: 0.01, output: 0.03 },
+    recommendedUseCase: 'Long-context thread analysis',
+  },
+  'gpt-4': {
+    version: '0613',
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    costPer1kTokens: { input: 0.03, output: 0.06 },
+    recommendedUseCase: 'Legacy high-quality generation',
+  },
+  'gpt-3.5-turbo': {
+    version: '0125',
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    costPer1kTokens: { input: 0.0005, output: 0.0015 },
+    recommendedUseCase: 'Legacy low-cost generation',
+  },
+};
+
+// Output dimensions and USD per 1k input tokens
+export const OPENAI_EMBEDDING_MODELS: Record<string, { dimensions: number; costPer1kTokens: number }> = {
+  'text-embedding-3-small': { dimensions: 1536, costPer1kTokens: 0.00002 },
+  'text-embedding-3-large': { dimensions: 3072, costPer1kTokens: 0.00013 },
+  'text-embedding-ada-002': { dimensions: 1536, costPer1kTokens: 0.0001 },
+};
+
+// The embeddings endpoint accepts up to 2048 inputs; smaller batches keep requests fast
+const EMBEDDING_BATCH_SIZE = 256;
+
+export class OpenAIProvider implements AIProvider, EmbeddingProvider {
+  private client: OpenAI;
+  private cache: ResponseCache;
+  private rateLimiter: RateLimiter;
+  private usageTracker: UsageTracker;
+  private promptBuilder: EmailPromptBuilder;
+  private analyzer: EmailAnalyzer;
+  private summarizer: ThreadSummarizer;
+  private model: string;
+  private temperature: number;
+  private maxRetries: number;
+  readonly embeddingModel: string;
+
+  constructor(private config: OpenAIConfig) {
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+      organization: config.organization,
+      timeout: config.timeout,
+      defaultHeaders: config.headers,
+      maxRetries: 0, // Retries are handled by ErrorHandler.withRetry
+    });
+
+    this.model = config.model || 'gpt-4o-mini';
+    this.embeddingModel = config.embeddingModel || 'text-embedding-3-small';
+    this.temperature = config.temperature ?? 0.7;
+    this.maxRetries = config.maxRetries ?? 3;
+
+    const cacheConfig = config.cacheConfig || {
+      ttl: 3600,
+      maxSize: 100,
+      enabled: true,
+    };
+    this.cache = config.cache || (config.sharedStore
+      ? new DistributedCache(cacheConfig, config.sharedStore)
+      : new TieredCache(cacheConfig));
+
+    const rateLimits = config.rateLimits || {
+      requestsPerMinute: 500,
+      tokensPerMinute: 200000,
+      requestsPerDay: 10000,
+      tokensPerDay: 2000000,
+    };
+
+    if (config.sharedStore) {
+      this.rateLimiter = new SharedRateLimiter(rateLimits, config.sharedStore, 'openai');
+    } else {
+      this.rateLimiter = config.useAdaptiveRateLimiting
+        ? new AdaptiveRateLimiter(rateLimits)
+        : new RateLimiter(rateLimits);
+    }
+
+    this.usageTracker = new UsageTracker({ store: config.usageStore, provider: 'openai' });
+    this.promptBuilder = new EmailPromptBuilder();
+    this.analyzer = new EmailAnalyzer(this);
+    this.summarizer = new ThreadSummarizer(this, { parser: config.bodyParser });
+  }
+
+  async generateResponse(input: AIGenerationInput): Promise<AIResponse> {
+    const startTime = Date.now();
+
+    try {
+      await this.rateLimiter.checkLimit();
+      await this.rateLimiter.checkTokenLimit(tokenizers.countMessages(input.messages, this.model));
+
+      const completion = await ErrorHandler.withRetry(
+        () => this.client.chat.completions.create({
+          messages: this.buildMessages(input),
+          model: this.model,
+          temperature: input.options?.temperature ?? this.temperature,
+          max_tokens: input.options?.maxTokens ?? this.getModelInfo().maxOutputTokens,
+          top_p: input.options?.topP ?? 1,
+          stop: input.options?.stopSequences ?? null,
+          response_format: input.options?.responseFormat === 'json'
+            ? { type: 'json_object' }
+            : undefined,
+          tools: input.tools?.length ? this.buildTools(input) : undefined,
+          tool_choice: input.tools?.length ? input.toolChoice : undefined,
+          stream: false,
+        }).catch(error => {
+          throw this.mapError(error);
+        }),
+        this.maxRetries
+      );
+
+      const response = completion.choices[0]?.message?.content || '';
+      const toolCalls = completion.choices[0]?.message?.tool_calls;
+      const tokensUsed = completion.usage?.total_tokens || 0;
+
+      this.rateLimiter.recordUsage(tokensUsed);
+
+      const result: AIResponse = {
+        text: response,
+        model: completion.model || this.model,
+        tokensUsed,
+        responseTimeMs: Date.now() - startTime,
+        confidence: ResponseHeuristics.calculateConfidence(response),
+        toolCalls: toolCalls?.length
+          ? toolCalls.map(call => ({
+              id: call.id,
+              name: call.function.name,
+              arguments: parseToolArguments(call.function.arguments),
+            }))
+          : undefined,
+        metadata: {
+          provider: 'openai',
+          finishReason: completion.choices[0]?.finish_reason,
+          inputTokens: completion.usage?.prompt_tokens,
+          outputTokens: completion.usage?.completion_tokens,
+        },
+      };
+
+      this.recordSuccess(
+        tokensUsed,
+        result.responseTimeMs,
+        completion.usage?.prompt_tokens,
+        completion.usage?.completion_tokens,
+        input.userId
+      );
+
+      return result;
+    } catch (error) {
+      throw this.handleError(error, startTime, input.userId);
+    }
+  }
+
+  async *generateStreamingResponse(input: AIGenerationInput): AsyncGenerator<string> {
+    const startTime = Date.now();
+
+    try {
+      await this.rateLimiter.checkLimit();
+      await this.rateLimiter.checkTokenLimit(tokenizers.countMessages(input.messages, this.model));
+
+      const stream = await this.client.chat.completions.create({
+        messages: this.buildMessages(input),
+        model: this.model,
+        temperature: input.options?.temperature ?? this.temperature,
+        max_tokens: input.options?.maxTokens ?? this.getModelInfo().maxOutputTokens,
+        top_p: input.options?.topP ?? 1,
+        stop: input.options?.stopSequences ?? null,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+      let usage: OpenAI.CompletionUsage | undefined;
+      let text = '';
+
+      for await (const chunk of stream) {
+        // The final chunk carries exact usage and no choices
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+
+        const content = chunk.choices[0]?.delta?.content || '';
+        if (content) {
+          text += content;
+          yield content;
+        }
+      }
+
+      // Compatible servers may ignore include_usage, so count locally as a fallback
+      const inputTokens = usage ? usage.prompt_tokens : tokenizers.countMessages(input.messages, this.model);
+      const outputTokens = usage ? usage.completion_tokens : tokenizers.count(text, this.model);
+      const tokensUsed = usage ? usage.total_tokens : inputTokens + outputTokens;
+
+      this.rateLimiter.recordUsage(tokensUsed);
+      this.recordSuccess(tokensUsed, Date.now() - startTime, inputTokens, outputTokens, input.userId);
+    } catch (error) {
+      throw this.handleError(error, startTime, input.userId);
+    }
+  }
+
+  async generateEmailResponse(context: EmailContext): Promise<EmailResponse> {
+    const startTime = Date.now();
+
+    // Check cache first
+    const cached = await this.cache.lookup(context);
+    if (cached) {
+      this.usageTracker.record({
+        provider: 'openai',
+        model: 'cache',
+        userId: context.userId,
+        tokensUsed: 0,
+        responseTimeMs: Date.now() - startTime,
+        success: true,
+        timestamp: new Date(),
+        cacheHit: cached.source,
+      });
+      return {
+        ...cached.response,
+        metadata: {
+          ...cached.response.metadata,
+          cacheHit: cached.source,
+          cacheSimilarity: cached.similarity,
+        },
+      } as EmailResponse;
+    }
+
+    const systemTemplate = this.promptBuilder.renderSystemPrompt(context.responseStyle || 'formal', context.userId, context.styleProfile);
+    const systemPrompt = PromptOptimizer.optimize(systemTemplate.text);
+    const userPrompt = PromptOptimizer.optimize(this.promptBuilder.buildEmailPrompt(context));
+
+    // Classify the inbound email while drafting; heuristics on the draft are the fallback.
+    // A fresh analyzer counts only this classification, which is part of the draft's tokensUsed
+    const analyzer = new EmailAnalyzer(this, context.userId);
+    const [generated, intent] = await Promise.all([
+      generateWithTools(this, {
+        userId: context.userId,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        options: {
+          maxTokens: context.maxLength
+            ? Math.min(context.maxLength * 2, this.getModelInfo().maxOutputTokens)
+            : undefined,
+        },
+      }, context.tools || [], { maxSteps: context.maxToolSteps }),
+      analyzer.classifyIntent(context.body).catch((): EmailIntent | null => null),
+    ]);
+
+    const text = generated.text.trim();
+
+    const response: EmailResponse = {
+      ...generated,
+      text,
+      tokensUsed: generated.tokensUsed + analyzer.tokensUsed,
+      responseTimeMs: Date.now() - startTime,
+      prompt: systemTemplate.ref,
+      language: context.language,
+      metadata: {
+        ...generated.metadata,
+        style: context.responseStyle,
+        truncated: generated.metadata?.finishReason === 'length',
+      },
+      suggestedActions: intent?.requiredActions ?? ResponseHeuristics.extractActions(text),
+      detectedIntent: intent ?? ResponseHeuristics.extractIntent(text),
+      requiresFollowUp: ResponseHeuristics.detectFollowUpNeeded(text),
+    };
+
+    // Tool results are live data (calendar, CRM), so only drafts that called no tools are cached
+    if (!generated.toolSteps?.length) {
+      await this.cache.store(context, response);
+    }
+
+    return response;
+  }
+
+  async generateStructured<T>(
+    input: AIGenerationInput,
+    schema: ZodType<T, ZodTypeDef, any>,
+    options?: StructuredOutputOptions
+  ): Promise<StructuredResponse<T>> {
+    return generateStructuredOutput(this, input, schema, options);
+  }
+
+  async analyzeEmailSentiment(email: string): Promise<SentimentAnalysis> {
+    return this.analyzer.analyzeSentiment(email);
+  }
+
+  async summarizeEmailThread(thread: Email[]): Promise<string> {
+    return (await this.summarizer.summarize(thread)).summary;
+  }
+
+  getTokenCount(text: string): number {
+    return tokenizers.count(text, this.model);
+  }
+
+  get embeddingDimensions(): number {
+    return (OPENAI_EMBEDDING_MODELS[this.embeddingModel]
+      || OPENAI_EMBEDDING_MODELS['text-embedding-3-small']).dimensions;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<EmbeddingResponse> {
+    const startTime = Date.now();
+    const embeddings: number[][] = [];
+    let tokensUsed = 0;
+
+    try {
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        await this.rateLimiter.checkLimit();
+
+        const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const response = await ErrorHandler.withRetry(
+          () => this.client.embeddings.create({
+            model: this.embeddingModel,
+            input: batch,
+          }).catch(error => {
+            throw this.mapError(error);
+          }),
+          this.maxRetries
+        );
+
+        // Results carry their input index; don't rely on response order
+        const ordered = [...response.data].sort((a, b) => a.index - b.index);
+        embeddings.push(...ordered.map(item => item.embedding));
+
+        tokensUsed += response.usage?.total_tokens || 0;
+        this.rateLimiter.recordUsage(response.usage?.total_tokens || 0);
+      }
+
+      const spec = OPENAI_EMBEDDING_MODELS[this.embeddingModel];
+      this.usageTracker.record({
+        provider: 'openai',
+        model: this.embeddingModel,
+        tokensUsed,
+        responseTimeMs: Date.now() - startTime,
+        success: true,
+        timestamp: new Date(),
+        cost: spec ? (tokensUsed / 1000) * spec.costPer1kTokens : undefined,
+      });
+
+      return { embeddings, model: this.embeddingModel, tokensUsed };
+    } catch (error) {
+      throw this.handleError(error, startTime);
+    }
+  }
+
+  async checkRateLimit(): Promise<RateLimitStatus> {
+    return this.rateLimiter.getStatus();
+  }
+
+  async getUsageStats(): Promise<UsageStats> {
+    return this.usageTracker.loadUsageStats();
+  }
+
+  getModelInfo(): ModelInfo {
+    const spec = OPENAI_MODELS[this.model] || OPENAI_MODELS['gpt-4o-mini'];
+
+    return {
+      name: this.model,
+      provider: 'OpenAI',
+      ...spec,
+      capabilities: [
+        'chat',
+        'streaming',
+        'email_generation',
+        'sentiment_analysis',
+        'summarization',
+        'tool_calling',
+      ],
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      // Retrieving the model is free and confirms both the key and model access
+      const model = await this.client.models.retrieve(this.model);
+      return !!model?.id;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Earlier tool rounds become assistant tool_calls followed by one tool message per result
+  private buildMessages(input: AIGenerationInput): OpenAI.ChatCompletionMessageParam[] {
+    const messages: OpenAI.ChatCompletionMessageParam[] = [...input.messages];
+
+    for (const step of input.toolSteps || []) {
+      messages.push({
+        role: 'assistant',
+        content: step.text || null,
+        tool_calls: step.calls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      });
+      messages.push(...step.results.map(result => ({
+        role: 'tool' as const,
+        tool_call_id: result.toolCallId,
+        content: result.content,
+      })));
+    }
+
+    return messages;
+  }
+
+  private buildTools(input: AIGenerationInput): OpenAI.ChatCompletionTool[] {
+    return (input.tools || []).map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+  }
+
+  private recordSuccess(
+    tokensUsed: number,
+    responseTimeMs: number,
+    inputTokens?: number,
+    outputTokens?: number,
+    userId?: string
+  ): void {
+    this.usageTracker.record({
+      provider: 'openai',
+      model: this.model,
+      userId,
+      tokensUsed,
+      inputTokens,
+      outputTokens,
+      responseTimeMs,
+      success: true,
+      timestamp: new Date(),
+    });
+
+    if (this.config.useAdaptiveRateLimiting && this.rateLimiter instanceof AdaptiveRateLimiter) {
+      this.rateLimiter.recordSuccess();
+    }
+  }
+
+  // Records the failure and returns the error to throw
+  private handleError(error: any, startTime: number, userId?: string): AIProviderError {
+    this.usageTracker.record({
+      provider: 'openai',
+      model: this.model,
+      userId,
+      tokensUsed: 0,
+      responseTimeMs: Date.now() - startTime,
+      success: false,
+      error: error.message,
+      timestamp: new Date(),
+    });
+
+    if (this.config.useAdaptiveRateLimiting && this.rateLimiter instanceof AdaptiveRateLimiter) {
+      this.rateLimiter.recordError();
+    }
+
+    return this.mapError(error);
+  }
+
+  // Transform OpenAI SDK errors to our error types
+  private mapError(error: any): AIProviderError {
+    if (error instanceof AIProviderError) {
+      return error;
+    }
+
+    if (error instanceof OpenAI.APIError) {
+      if (error.status === 429 && error.code !== 'insufficient_quota') {
+        return new RateLimitError(
+          'OpenAI rate limit exceeded',
+          ResponseHeuristics.getRetryAfter(error.headers),
+          error.message?.includes('tokens') ? 'tokens' : 'requests'
+        );
+      }
+
+      if (error.code === 'context_length_exceeded') {
+        return new TokenLimitError(
+          'OpenAI context length exceeded',
+          0,
+          this.getModelInfo().contextWindow
+        );
+      }
+
+      if (error.status === 404 || error.code === 'model_not_found') {
+        return new ModelUnavailableError(
+          `OpenAI model ${this.model} is not available`,
+          this.model,
+          Object.keys(OPENAI_MODELS).filter(model => model !== this.model)
+        );
+      }
+
+      if (error instanceof OpenAI.APIConnectionError || (error.status && error.status >= 500)) {
+        return new NetworkError(
+          'OpenAI service error',
+          error.status,
+          JSON.stringify(error.error ?? null),
+          error
+        );
+      }
+    }
+
+    return new AIProviderError('OpenAI provider error', error);
+  }
+}
@@ -0,0 +1,205 @@
+import { ZodType, ZodTypeDef } from 'zod';
+import {
+  AIProvider,
+  AIGenerationInput,
+  AIResponse,
+  EmailContext,
+  EmailResponse,
+  Email,
+  SentimentAnalysis,
+  RateLimitStatus,
+  UsageStats,
+  ModelInfo,
+  StructuredOutputOptions,
+  StructuredResponse,
+  Tool,
+  ToolStep,
+} from '../interface';
+import { generateStructuredOutput } from '../structured';
+import { EmailAnalyzer } from '../analysis';
+import { RedactionPolicy, RedactionSession } from '../redaction';
+
+export interface RedactingConfig {
+  // Used when there is no user or the resolver has nothing for them
+  policy?: RedactionPolicy;
+  // Per-user policy, e.g. the user's settings merged with their organization's
+  resolvePolicy?: (userId: string) => Promise<RedactionPolicy | undefined>;
+}
+
+/**
+ * Wraps an AIProvider so PII in prompts is replaced with placeholders before
+ * the request is sent, and the originals are restored in the generated text.
+ * Every response carries a RedactionAudit of what was replaced.
+ *
+ * generateEmailResponse uses the policy of context.userId; for the other
+ * methods, scope the provider with forUser().
+ */
+export class RedactingProvider implements AIProvider {
+  private analyzer: EmailAnalyzer;
+
+  constructor(
+    private provider: AIProvider,
+    private config: RedactingConfig = {},
+    private userId?: string
+  ) {
+    // Structured output and analysis go through generateResponse, so they are redacted too
+    this.analyzer = new EmailAnalyzer(this);
+  }
+
+  forUser(userId: string): RedactingProvider {
+    return new RedactingProvider(this.provider, this.config, userId);
+  }
+
+  async generateResponse(input: AIGenerationInput): Promise<AIResponse> {
+    const session = await this.session();
+    const response = await this.provider.generateResponse(this.redactInput(input, session));
+
+    return this.restoreResponse(response, session);
+  }
+
+  async *generateStreamingResponse(input: AIGenerationInput): AsyncGenerator<string> {
+    const session = await this.session();
+    yield* session.restoreStream(this.provider.generateStreamingResponse(this.redactInput(input, session)));
+  }
+
+  async generateStructured<T>(
+    input: AIGenerationInput,
+    schema: ZodType<T, ZodTypeDef, any>,
+    options?: StructuredOutputOptions
+  ): Promise<StructuredResponse<T>> {
+    return generateStructuredOutput(this, input, schema, options);
+  }
+
+  async analyzeEmailSentiment(email: string): Promise<SentimentAnalysis> {
+    return this.analyzer.analyzeSentiment(email);
+  }
+
+  async generateEmailResponse(context: EmailContext): Promise<EmailResponse> {
+    const session = await this.session(context.userId);
+
+    // Headers stay as they are; the reply has to address the sender
+    const redacted: EmailContext = {
+      ...context,
+      subject: session.redact(context.subject),
+      body: session.redact(context.body),
+      thread: context.thread?.map(email => this.redactEmail(email, session)),
+      tools: context.tools?.map(tool => this.redactTool(tool, session)),
+      // Examples are real emails, often with the user's phone number in the signature
+      styleProfile: context.styleProfile && {
+        ...context.styleProfile,
+        examples: context.styleProfile.examples.map(example => ({
+          subject: session.redact(example.subject),
+          body: session.redact(example.body),
+        })),
+      },
+    };
+    const response = await this.provider.generateEmailResponse({ ...redacted, redactionKey: session.fingerprint });
+
+    return {
+      ...this.restoreResponse(response, session),
+      suggestedActions: response.suggestedActions?.map(action => session.restore(action)),
+    };
+  }
+
+  async summarizeEmailThread(thread: Email[]): Promise<string> {
+    const session = await this.session();
+    const summary = await this.provider.summarizeEmailThread(thread.map(email => this.redactEmail(email, session)));
+
+    return session.restore(summary);
+  }
+
+  // For inputs that leave the server without a prompt, e.g. texts sent for embedding
+  async redactTexts(texts: string[]): Promise<string[]> {
+    const session = await this.session();
+    return texts.map(text => session.redact(text));
+  }
+
+  getTokenCount(text: string): number {
+    return this.provider.getTokenCount(text);
+  }
+
+  async checkRateLimit(): Promise<RateLimitStatus> {
+    return this.provider.checkRateLimit();
+  }
+
+  async getUsageStats(): Promise<UsageStats> {
+    return this.provider.getUsageStats();
+  }
+
+  getModelInfo(): ModelInfo {
+    return this.provider.getModelInfo();
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+
+  private async session(userId: string | undefined = this.userId): Promise<RedactionSession> {
+    const policy = userId && this.config.resolvePolicy
+      ? (await this.config.resolvePolicy(userId)) || this.config.policy
+      : this.config.policy;
+
+    return new RedactionSession(policy);
+  }
+
+  private redactInput(input: AIGenerationInput, session: RedactionSession): AIGenerationInput {
+    return {
+      ...input,
+      userId: input.userId ?? this.userId,
+      messages: input.messages.map(message => ({ ...message, content: session.redact(message.content) })),
+      toolSteps: input.toolSteps?.map(step => mapToolStep(step, text => session.redact(text))),
+    };
+  }
+
+  // Tools run with the real values and their output is redacted before the model sees it
+  private redactTool(tool: Tool, session: RedactionSession): Tool {
+    return {
+      ...tool,
+      execute: async args => {
+        const output = await tool.execute(mapStrings(args, text => session.restore(text)));
+        return session.redact(typeof output === 'string' ? output : JSON.stringify(output ?? null));
+      },
+    };
+  }
+
+  private redactEmail(email: Email, session: RedactionSession): Email {
+    return { ...email, subject: session.redact(email.subject), body: session.redact(email.body) };
+  }
+
+  private restoreResponse<T extends AIResponse>(response: T, session: RedactionSession): T {
+    const restore = (text: string) => session.restore(text);
+    const restored = {
+      ...response,
+      text: restore(response.text),
+      toolCalls: response.toolCalls?.map(call => ({ ...call, arguments: mapStrings(call.arguments, restore) })),
+      toolSteps: response.toolSteps?.map(step => mapToolStep(step, restore)),
+    };
+
+    // Responses without any PII carry no audit
+    return session.redacted ? { ...restored, redaction: session.audit } : restored;
+  }
+}
+
+function mapToolStep(step: ToolStep, map: (text: string) => string): ToolStep {
+  return {
+    text: step.text === undefined ? undefined : map(step.text),
+    calls: step.calls.map(call => ({ ...call, arguments: mapStrings(call.arguments, map) })),
+    results: step.results.map(result => ({ ...result, content: map(result.content) })),
+  };
+}
+
+// Applies map to every string in a JSON-like value, e.g. tool call arguments
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') {
+    return map(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, map)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)])
+    ) as T;
+  }
+  return value;
+}
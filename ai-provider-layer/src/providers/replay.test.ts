@@ -0,0 +1,132 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { RecordingProvider, ReplayProvider, normalizeRequest } from './replay';
+import { AIProvider, AIResponse } from '../interface';
+import { CassetteMissError } from '../errors';
+import { AIProviderFactory, ProviderType } from '../index';
+
+function createFakeProvider(): AIProvider {
+  return {
+    generateResponse: jest.fn(async (input): Promise<AIResponse> => ({
+      text: input.options?.responseFormat === 'json' ? '{"rating": 4}' : `echo ${input.messages[0].content}`,
+      tokensUsed: 10,
+      model: 'fake-model',
+      responseTimeMs: 1,
+    })),
+    generateStreamingResponse: jest.fn(async function* () {
+      yield 'Hello';
+      await new Promise(resolve => setTimeout(resolve, 30));
+      yield ' world';
+    }),
+    generateEmailResponse: jest.fn(async () => ({
+      text: 'Thanks, Tuesday works.',
+      tokensUsed: 20,
+      model: 'fake-model',
+      responseTimeMs: 1,
+      prompt: { id: 'email-reply.system.formal', version: 1 },
+    })),
+    summarizeEmailThread: jest.fn(async () => 'A short summary'),
+    getTokenCount: jest.fn((text: string) => text.length),
+    getModelInfo: jest.fn(() => ({
+      name: 'gpt-4o-mini',
+      provider: 'fake',
+      version: '1',
+      contextWindow: 8192,
+      maxOutputTokens: 1024,
+      costPer1kTokens: { input: 0, output: 0 },
+      capabilities: ['chat'],
+      recommendedUseCase: 'tests',
+    })),
+    isAvailable: jest.fn(async () => true),
+  } as unknown as AIProvider;
+}
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('RecordingProvider and ReplayProvider', () => {
+  let directory: string;
+  let cassette: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+    cassette = path.join(directory, 'provider.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true });
+  });
+
+  it('replays recorded calls without the wrapped provider', async () => {
+    const recorder = new RecordingProvider(createFakeProvider(), { cassette });
+    const input = { messages: [{ role: 'user' as const, content: 'Hello' }] };
+    const context = {
+      userId: 'user-1',
+      subject: 'Roadmap',
+      from: 'maria@acme.com',
+      to: ['me@example.com'],
+      body: 'Can we meet on Tuesday?',
+    };
+    const schema = z.object({ rating: z.number() });
+
+    const recorded = await recorder.generateResponse(input);
+    const recordedReply = await recorder.generateEmailResponse(context);
+    const recordedRating = await recorder.generateStructured(input, schema);
+    await recorder.summarizeEmailThread([]);
+
+    const replay = AIProviderFactory.create({ type: ProviderType.REPLAY, apiKey: '', config: { cassette } });
+
+    expect(await replay.generateResponse(input)).toEqual(recorded);
+    // A different user asking the same thing gets the same recording
+    expect(await replay.generateEmailResponse({ ...context, userId: 'user-2' })).toEqual(recordedReply);
+    expect((await replay.generateStructured(input, schema)).data).toEqual(recordedRating.data);
+    expect(await replay.summarizeEmailThread([])).toBe('A short summary');
+    expect(replay.getModelInfo().name).toBe('gpt-4o-mini');
+    expect((await replay.getUsageStats()).totalRequests).toBe(3);
+  });
+
+  it('replays streams with their recorded chunk timing', async () => {
+    const recorder = new RecordingProvider(createFakeProvider(), { cassette });
+    const input = { messages: [{ role: 'user' as const, content: 'Stream please' }] };
+
+    expect(await collect(recorder.generateStreamingResponse(input))).toEqual(['Hello', ' world']);
+
+    const content = JSON.parse(await fs.readFile(cassette, 'utf-8'));
+    const [interaction] = Object.values(content.interactions) as any[];
+    expect(interaction.chunks[1].delayMs).toBeGreaterThanOrEqual(25);
+
+    const started = Date.now();
+    expect(await collect(new ReplayProvider({ cassette }).generateStreamingResponse(input))).toEqual(['Hello', ' world']);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(25);
+
+    const instant = Date.now();
+    await collect(new ReplayProvider({ cassette, timingScale: 0 }).generateStreamingResponse(input));
+    expect(Date.now() - instant).toBeLessThan(25);
+  });
+
+  it('fails on requests that were never recorded', async () => {
+    const recorder = new RecordingProvider(createFakeProvider(), { cassette });
+    await recorder.generateResponse({ messages: [{ role: 'user', content: 'Hello' }] });
+
+    const replay = new ReplayProvider({ cassette });
+
+    await expect(replay.generateResponse({ messages: [{ role: 'user', content: 'Goodbye' }] }))
+      .rejects.toBeInstanceOf(CassetteMissError);
+    expect(() => new ReplayProvider({ cassette: path.join(directory, 'missing.json') })).toThrow('Cassette not found');
+  });
+
+  it('normalizes key order, whitespace and dates', () => {
+    expect(normalizeRequest({ b: 'text  \r\nmore ', a: new Date(Date.UTC(2024, 0, 1)), c: undefined })).toEqual({
+      a: '2024-01-01T00:00:00.000Z',
+      b: 'text\nmore',
+    });
+    expect(JSON.stringify(normalizeRequest({ b: 1, a: 2 }))).toBe('{"a":2,"b":1}');
+  });
+});
@@ -0,0 +1,370 @@
+import * as crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ZodType, ZodTypeDef } from 'zod';
+import {
+  AIProvider,
+  AIGenerationInput,
+  AIResponse,
+  EmailContext,
+  EmailResponse,
+  Email,
+  SentimentAnalysis,
+  RateLimitStatus,
+  UsageStats,
+  ModelInfo,
+  StructuredOutputOptions,
+  StructuredResponse,
+} from '../interface';
+import { CassetteMissError } from '../errors';
+import { generateStructuredOutput } from '../structured';
+import { EmailAnalyzer } from '../analysis';
+import { UsageTracker } from '../usage-tracker';
+import { tokenizers } from '../tokenizer';
+
+// Structured output and sentiment analysis are built on generateResponse, so only these are recorded
+export type CassetteMethod =
+  | 'generateResponse'
+  | 'generateStreamingResponse'
+  | 'generateEmailResponse'
+  | 'summarizeEmailThread';
+
+export interface StreamChunk {
+  text: string;
+  // Time since the previous chunk, or since the call for the first one
+  delayMs: number;
+}
+
+export interface CassetteInteraction {
+  method: CassetteMethod;
+  // Normalized request, kept so cassette diffs show what changed
+  request: unknown;
+  response?: unknown;
+  chunks?: StreamChunk[];
+}
+
+export interface RecordingConfig {
+  cassette: string;
+}
+
+export interface ReplayConfig {
+  cassette: string;
+  // Multiplies recorded stream delays; 0 replays streams without waiting
+  timingScale?: number;
+}
+
+interface CassetteFile {
+  version: number;
+  modelInfo?: ModelInfo;
+  interactions: Record<string, CassetteInteraction>;
+}
+
+const CASSETTE_VERSION = 1;
+
+// Fields that differ between runs without changing what the model is asked
+const VOLATILE_FIELDS = new Set(['userId']);
+
+/**
+ * Request/response pairs for one provider, stored as a single JSON file keyed
+ * by the normalized request hash. Keys are written in sorted order so a
+ * re-recorded cassette only shows real changes in a diff.
+ */
+export class Cassette {
+  modelInfo?: ModelInfo;
+  private interactions: Map<string, CassetteInteraction> = new Map();
+  private writing: Promise<void> = Promise.resolve();
+
+  private constructor(readonly file: string) {}
+
+  // Loaded synchronously so providers can be built by the synchronous factory
+  static open(file: string, options: { create: boolean }): Cassette {
+    const cassette = new Cassette(file);
+
+    if (!fs.existsSync(file)) {
+      if (!options.create) {
+        throw new Error(`Cassette not found: ${file}`);
+      }
+      return cassette;
+    }
+
+    const content: CassetteFile = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (content.version !== CASSETTE_VERSION) {
+      throw new Error(`Unsupported cassette version ${content.version} in ${file}`);
+    }
+    cassette.modelInfo = content.modelInfo;
+    cassette.interactions = new Map(Object.entries(content.interactions));
+    return cassette;
+  }
+
+  get(key: string): CassetteInteraction | undefined {
+    return this.interactions.get(key);
+  }
+
+  get size(): number {
+    return this.interactions.size;
+  }
+
+  // Writes are chained so concurrent recordings never interleave in the file
+  record(key: string, interaction: CassetteInteraction): Promise<void> {
+    this.interactions.set(key, interaction);
+    this.writing = this.writing.catch((): void => undefined).then(() => this.save());
+    return this.writing;
+  }
+
+  private async save(): Promise<void> {
+    const interactions: Record<string, CassetteInteraction> = {};
+    Array.from(this.interactions.keys()).sort().forEach(key => {
+      interactions[key] = this.interactions.get(key)!;
+    });
+
+    const content: CassetteFile = { version: CASSETTE_VERSION, modelInfo: this.modelInfo, interactions };
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.writeFile(this.file, JSON.stringify(content, null, 2) + '\n');
+  }
+}
+
+/**
+ * Normalizes a request so incidental differences do not change its key: object
+ * keys are sorted, undefined values and volatile fields dropped, dates written
+ * as ISO strings, and line endings and surrounding whitespace in text unified.
+ */
+export function normalizeRequest(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalizeRequest);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'string') {
+    return value.replace(/\r\n/g, '\n').replace(/[ \t]+$/gm, '').trim();
+  }
+  if (value && typeof value === 'object') {
+    const normalized: Record<string, unknown> = {};
+    Object.keys(value)
+      .filter(key => (value as any)[key] !== undefined && !VOLATILE_FIELDS.has(key))
+      .sort()
+      .forEach(key => {
+        normalized[key] = normalizeRequest((value as any)[key]);
+      });
+    return normalized;
+  }
+  return value;
+}
+
+export function requestHash(request: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(normalizeRequest(request))).digest('hex');
+}
+
+function interactionKey(method: CassetteMethod, request: unknown): string {
+  return requestHash({ method, request });
+}
+
+/**
+ * Wraps any AIProvider and records every call to a cassette on disk, including
+ * the timing of streamed chunks. Failed calls are not recorded, so recording
+ * again retries them.
+ */
+export class RecordingProvider implements AIProvider {
+  private cassette: Cassette;
+  private analyzer: EmailAnalyzer;
+
+  constructor(private provider: AIProvider, config: RecordingConfig) {
+    this.cassette = Cassette.open(config.cassette, { create: true });
+    this.analyzer = new EmailAnalyzer(this);
+  }
+
+  async generateResponse(input: AIGenerationInput): Promise<AIResponse> {
+    return this.record('generateResponse', input, () => this.provider.generateResponse(input));
+  }
+
+  async *generateStreamingResponse(input: AIGenerationInput): AsyncGenerator<string> {
+    const chunks: StreamChunk[] = [];
+    let last = Date.now();
+
+    for await (const chunk of this.provider.generateStreamingResponse(input)) {
+      const now = Date.now();
+      chunks.push({ text: chunk, delayMs: now - last });
+      last = now;
+      yield chunk;
+    }
+
+    // Only complete streams are recorded; a consumer that stops early never gets here
+    await this.save('generateStreamingResponse', input, { chunks });
+  }
+
+  async generateStructured<T>(
+    input: AIGenerationInput,
+    schema: ZodType<T, ZodTypeDef, any>,
+    options?: StructuredOutputOptions
+  ): Promise<StructuredResponse<T>> {
+    return generateStructuredOutput(this, input, schema, options);
+  }
+
+  async analyzeEmailSentiment(email: string): Promise<SentimentAnalysis> {
+    return this.analyzer.analyzeSentiment(email);
+  }
+
+  async generateEmailResponse(context: EmailContext): Promise<EmailResponse> {
+    return this.record('generateEmailResponse', context, () => this.provider.generateEmailResponse(context));
+  }
+
+  async summarizeEmailThread(thread: Email[]): Promise<string> {
+    return this.record('summarizeEmailThread', thread, () => this.provider.summarizeEmailThread(thread));
+  }
+
+  getTokenCount(text: string): number {
+    return this.provider.getTokenCount(text);
+  }
+
+  async checkRateLimit(): Promise<RateLimitStatus> {
+    return this.provider.checkRateLimit();
+  }
+
+  async getUsageStats(): Promise<UsageStats> {
+    return this.provider.getUsageStats();
+  }
+
+  getModelInfo(): ModelInfo {
+    return this.provider.getModelInfo();
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+
+  private async record<T>(method: CassetteMethod, request: unknown, call: () => Promise<T>): Promise<T> {
+    const response = await call();
+    await this.save(method, request, { response });
+    return response;
+  }
+
+  private save(
+    method: CassetteMethod,
+    request: unknown,
+    result: Pick<CassetteInteraction, 'response' | 'chunks'>
+  ): Promise<void> {
+    this.cassette.modelInfo = this.provider.getModelInfo();
+    return this.cassette.record(interactionKey(method, request), {
+      method,
+      request: normalizeRequest(request),
+      ...result,
+    });
+  }
+}
+
+/**
+ * Serves recorded responses by normalized request hash without any network.
+ * Streams are replayed with their recorded chunk timing (see timingScale).
+ * A request that was never recorded fails with CassetteMissError.
+ */
+export class ReplayProvider implements AIProvider {
+  private cassette: Cassette;
+  private analyzer: EmailAnalyzer;
+  private usageTracker = new UsageTracker();
+  private timingScale: number;
+
+  constructor(config: ReplayConfig) {
+    this.cassette = Cassette.open(config.cassette, { create: false });
+    this.analyzer = new EmailAnalyzer(this);
+    this.timingScale = config.timingScale ?? 1;
+  }
+
+  async generateResponse(input: AIGenerationInput): Promise<AIResponse> {
+    return this.track(this.replay('generateResponse', input).response as AIResponse, input.userId);
+  }
+
+  async *generateStreamingResponse(input: AIGenerationInput): AsyncGenerator<string> {
+    const { chunks = [] } = this.replay('generateStreamingResponse', input);
+
+    for (const chunk of chunks) {
+      const delay = chunk.delayMs * this.timingScale;
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      yield chunk.text;
+    }
+  }
+
+  async generateStructured<T>(
+    input: AIGenerationInput,
+    schema: ZodType<T, ZodTypeDef, any>,
+    options?: StructuredOutputOptions
+  ): Promise<StructuredResponse<T>> {
+    return generateStructuredOutput(this, input, schema, options);
+  }
+
+  async analyzeEmailSentiment(email: string): Promise<SentimentAnalysis> {
+    return this.analyzer.analyzeSentiment(email);
+  }
+
+  async generateEmailResponse(context: EmailContext): Promise<EmailResponse> {
+    return this.track(this.replay('generateEmailResponse', context).response as EmailResponse, context.userId);
+  }
+
+  async summarizeEmailThread(thread: Email[]): Promise<string> {
+    return this.replay('summarizeEmailThread', thread).response as string;
+  }
+
+  getTokenCount(text: string): number {
+    return tokenizers.count(text, this.getModelInfo().name);
+  }
+
+  async checkRateLimit(): Promise<RateLimitStatus> {
+    return {
+      requestsRemaining: Number.MAX_SAFE_INTEGER,
+      tokensRemaining: Number.MAX_SAFE_INTEGER,
+      resetTime: new Date(),
+      isLimited: false,
+    };
+  }
+
+  async getUsageStats(): Promise<UsageStats> {
+    return this.usageTracker.getUsageStats();
+  }
+
+  getModelInfo(): ModelInfo {
+    return this.cassette.modelInfo || {
+      name: 'replay',
+      provider: 'replay',
+      version: '1.0',
+      contextWindow: 128000,
+      maxOutputTokens: 4096,
+      costPer1kTokens: { input: 0, output: 0 },
+      capabilities: ['chat', 'streaming'],
+      recommendedUseCase: 'Deterministic tests',
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  private replay(method: CassetteMethod, request: unknown): CassetteInteraction {
+    const key = interactionKey(method, request);
+    const interaction = this.cassette.get(key);
+
+    if (!interaction) {
+      throw new CassetteMissError(
+        `No recorded ${method} call matches this request in ${this.cassette.file}; record it again`,
+        method,
+        key
+      );
+    }
+    return interaction;
+  }
+
+  // Replayed calls count as free requests so usage endpoints still have data
+  private track<T extends AIResponse>(response: T, userId?: string): T {
+    this.usageTracker.record({
+      provider: 'replay',
+      model: response.model,
+      userId,
+      tokensUsed: response.tokensUsed,
+      responseTimeMs: 0,
+      success: true,
+      timestamp: new Date(),
+      cost: 0,
+    });
+    return response;
+  }
+}
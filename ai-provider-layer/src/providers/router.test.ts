@@ -0,0 +1,155 @@
+import { RouterProvider } from './router';
+import { AIProvider, AIResponse, RateLimitStatus } from '../interface';
+import { InvalidPromptError, ModelUnavailableError, NetworkError } from '../errors';
+
+function createFakeProvider(name: string, cost: number, limited: boolean = false): AIProvider {
+  const status: RateLimitStatus = {
+    requestsRemaining: limited ? 0 : 10,
+    tokensRemaining: limited ? 0 : 1000,
+    resetTime: new Date(),
+    isLimited: limited,
+  };
+
+  return {
+    generateResponse: jest.fn(async (): Promise<AIResponse> => ({
+      text: `from ${name}`,
+      tokensUsed: 10,
+      model: name,
+      responseTimeMs: 1,
+    })),
+    generateStreamingResponse: jest.fn(async function* () {
+      yield `from ${name}`;
+    }),
+    generateEmailResponse: jest.fn(),
+    analyzeEmailSentiment: jest.fn(async () => ({
+      sentiment: 'neutral' as const,
+      score: 0,
+      confidence: 1,
+      emotions: [] as string[],
+      tokensUsed: 5,
+    })),
+    summarizeEmailThread: jest.fn(),
+    getTokenCount: jest.fn((text: string) => text.length),
+    checkRateLimit: jest.fn(async () => status),
+    getUsageStats: jest.fn(),
+    getModelInfo: jest.fn(() => ({
+      name,
+      provider: name,
+      contextWindow: 8192,
+      maxOutputTokens: 1024,
+      costPer1kTokens: { input: cost, output: cost },
+      capabilities: ['chat'],
+    })),
+    isAvailable: jest.fn(async () => true),
+  } as unknown as AIProvider;
+}
+
+describe('RouterProvider', () => {
+  const input = { messages: [{ role: 'user' as const, content: 'Hello' }] };
+
+  it('should use the first provider and record it in metadata', async () => {
+    const router = new RouterProvider({
+      providers: [
+        { name: 'primary', provider: createFakeProvider('primary', 0.01) },
+        { name: 'secondary', provider: createFakeProvider('secondary', 0.001) },
+      ],
+    });
+
+    const response = await router.generateResponse(input);
+
+    expect(response.text).toBe('from primary');
+    expect(response.metadata?.routedProvider).toBe('primary');
+  });
+
+  it('should fail over on ModelUnavailableError and NetworkError', async () => {
+    const primary = createFakeProvider('primary', 0.01);
+    const secondary = createFakeProvider('secondary', 0.01);
+    const tertiary = createFakeProvider('tertiary', 0.01);
+    (primary.generateResponse as jest.Mock).mockRejectedValue(
+      new ModelUnavailableError('down', 'primary')
+    );
+    (secondary.generateResponse as jest.Mock).mockRejectedValue(new NetworkError('timeout', 503));
+
+    const router = new RouterProvider({
+      providers: [
+        { name: 'primary', provider: primary },
+        { name: 'secondary', provider: secondary },
+        { name: 'tertiary', provider: tertiary },
+      ],
+    });
+
+    const response = await router.generateResponse(input);
+
+    expect(response.metadata?.routedProvider).toBe('tertiary');
+    expect(response.metadata?.routing.attempts).toHaveLength(2);
+    expect(router.getHealth().primary.healthy).toBe(false);
+  });
+
+  it('should not fail over on non-retryable errors', async () => {
+    const primary = createFakeProvider('primary', 0.01);
+    const secondary = createFakeProvider('secondary', 0.01);
+    (primary.generateResponse as jest.Mock).mockRejectedValue(
+      new InvalidPromptError('bad', 'Hello', 'empty')
+    );
+
+    const router = new RouterProvider({
+      providers: [
+        { name: 'primary', provider: primary },
+        { name: 'secondary', provider: secondary },
+      ],
+    });
+
+    await expect(router.generateResponse(input)).rejects.toThrow(InvalidPromptError);
+    expect(secondary.generateResponse).not.toHaveBeenCalled();
+  });
+
+  it('should route by cost and skip rate-limited providers per task', async () => {
+    const expensive = createFakeProvider('expensive', 0.03);
+    const cheapLimited = createFakeProvider('cheap-limited', 0.0001, true);
+    const cheap = createFakeProvider('cheap', 0.001);
+
+    const router = new RouterProvider({
+      providers: [
+        { name: 'expensive', provider: expensive },
+        { name: 'cheap-limited', provider: cheapLimited },
+        { name: 'cheap', provider: cheap },
+      ],
+    });
+
+    await router.analyzeEmailSentiment('I love it');
+    const reply = await router.generateResponse({ ...input, task: 'reply' });
+
+    expect(cheap.analyzeEmailSentiment).toHaveBeenCalled();
+    expect(cheapLimited.analyzeEmailSentiment).not.toHaveBeenCalled();
+    expect(reply.metadata?.routedProvider).toBe('expensive');
+  });
+
+  it('should throw ModelUnavailableError when every provider fails', async () => {
+    const only = createFakeProvider('only', 0.01);
+    (only.generateResponse as jest.Mock).mockRejectedValue(new NetworkError('offline'));
+
+    const router = new RouterProvider({ providers: [{ name: 'only', provider: only }] });
+
+    await expect(router.generateResponse(input)).rejects.toThrow(ModelUnavailableError);
+  });
+
+  it('should try unhealthy providers in order when none is healthy', async () => {
+    const primary = createFakeProvider('primary', 0.01);
+    const secondary = createFakeProvider('secondary', 0.01);
+    (primary.generateResponse as jest.Mock).mockRejectedValueOnce(new NetworkError('offline'));
+    (secondary.generateResponse as jest.Mock).mockRejectedValueOnce(new NetworkError('offline'));
+
+    const router = new RouterProvider({
+      providers: [
+        { name: 'primary', provider: primary },
+        { name: 'secondary', provider: secondary },
+      ],
+    });
+
+    await expect(router.generateResponse(input)).rejects.toThrow(ModelUnavailableError);
+    const response = await router.generateResponse(input);
+
+    expect(response.metadata?.routedProvider).toBe('primary');
+    expect(primary.generateResponse).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,393 @@
+import { ZodType, ZodTypeDef } from 'zod';
+import {
+  AIProvider,
+  AIGenerationInput,
+  AIResponse,
+  AITask,
+  EmailContext,
+  EmailResponse,
+  Email,
+  SentimentAnalysis,
+  RateLimitStatus,
+  UsageStats,
+  ModelInfo,
+  ModelUsage,
+  StructuredOutputOptions,
+  StructuredResponse,
+} from '../interface';
+import {
+  AIProviderError,
+  ModelUnavailableError,
+  isNetworkError,
+  isRateLimitError,
+} from '../errors';
+
+export interface RoutedProvider {
+  name: string;
+  provider: AIProvider;
+}
+
+export interface RoutingPolicy {
+  // Restrict and order the candidates for this task by provider name
+  providers?: string[];
+  // Sort candidates by blended cost instead of configured order
+  preferCheapest?: boolean;
+  // Skip providers whose blended cost per 1k tokens exceeds this value
+  maxCostPer1kTokens?: number;
+}
+
+export interface RouterConfig {
+  providers: RoutedProvider[];
+  policies?: Partial<Record<AITask, RoutingPolicy>>;
+  healthCheckIntervalMs?: number;
+}
+
+interface ProviderHealth {
+  healthy: boolean;
+  checkedAt: number;
+}
+
+interface RoutingAttempt {
+  provider: string;
+  error: string;
+}
+
+// Cheap model for classification, configured order for everything else
+export const DEFAULT_ROUTING_POLICIES: Partial<Record<AITask, RoutingPolicy>> = {
+  sentiment: { preferCheapest: true },
+  summary: { preferCheapest: true },
+  extraction: { preferCheapest: true },
+};
+
+export class RouterProvider implements AIProvider {
+  private providers: RoutedProvider[];
+  private policies: Partial<Record<AITask, RoutingPolicy>>;
+  private health: Map<string, ProviderHealth> = new Map();
+  private healthCheckIntervalMs: number;
+
+  constructor(config: RouterConfig) {
+    if (config.providers.length === 0) {
+      throw new AIProviderError('RouterProvider requires at least one provider');
+    }
+
+    this.providers = config.providers;
+    this.policies = { ...DEFAULT_ROUTING_POLICIES, ...config.policies };
+    this.healthCheckIntervalMs = config.healthCheckIntervalMs ?? 60000;
+  }
+
+  async generateResponse(input: AIGenerationInput): Promise<AIResponse> {
+    const task = input.task || 'general';
+    return this.route(task, provider => provider.generateResponse(input));
+  }
+
+  async *generateStreamingResponse(input: AIGenerationInput): AsyncGenerator<string> {
+    const task = input.task || 'general';
+    const attempts: RoutingAttempt[] = [];
+
+    for (const candidate of await this.selectProviders(task)) {
+      let started = false;
+
+      try {
+        for await (const chunk of candidate.provider.generateStreamingResponse(input)) {
+          started = true;
+          yield chunk;
+        }
+        this.markHealthy(candidate.name);
+        return;
+      } catch (error) {
+        // Once text has reached the caller we cannot transparently switch providers
+        if (started || !this.shouldFailOver(error)) {
+          throw error;
+        }
+        this.recordFailure(candidate.name, error, attempts);
+      }
+    }
+
+    throw this.exhausted(task, attempts);
+  }
+
+  async generateEmailResponse(context: EmailContext): Promise<EmailResponse> {
+    return this.route('reply', provider => provider.generateEmailResponse(context));
+  }
+
+  async generateStructured<T>(
+    input: AIGenerationInput,
+    schema: ZodType<T, ZodTypeDef, any>,
+    options?: StructuredOutputOptions
+  ): Promise<StructuredResponse<T>> {
+    const task = input.task || 'general';
+    return this.route(task, provider => provider.generateStructured(input, schema, options));
+  }
+
+  async analyzeEmailSentiment(email: string): Promise<SentimentAnalysis> {
+    const { result } = await this.routeRaw('sentiment', provider =>
+      provider.analyzeEmailSentiment(email)
+    );
+    return result;
+  }
+
+  async summarizeEmailThread(thread: Email[]): Promise<string> {
+    const { result } = await this.routeRaw('summary', provider =>
+      provider.summarizeEmailThread(thread)
+    );
+    return result;
+  }
+
+  getTokenCount(text: string): number {
+    return this.providers[0].provider.getTokenCount(text);
+  }
+
+  async checkRateLimit(): Promise<RateLimitStatus> {
+    const statuses = await Promise.all(
+      this.providers.map(({ provider }) => provider.checkRateLimit())
+    );
+
+    // The router is only limited when every provider is
+    return {
+      requestsRemaining: statuses.reduce((sum, s) => sum + s.requestsRemaining, 0),
+      tokensRemaining: statuses.reduce((sum, s) => sum + s.tokensRemaining, 0),
+      resetTime: new Date(Math.min(...statuses.map(s => s.resetTime.getTime()))),
+      isLimited: statuses.every(s => s.isLimited),
+    };
+  }
+
+  async getUsageStats(): Promise<UsageStats> {
+    const allStats = await Promise.all(
+      this.providers.map(({ provider }) => provider.getUsageStats())
+    );
+
+    const merged: UsageStats = {
+      totalRequests: 0,
+      totalTokens: 0,
+      totalCost: 0,
+      averageResponseTime: 0,
+      cacheHitRate: 0,
+      semanticCacheHitRate: 0,
+      errorRate: 0,
+      byModel: {},
+      byDay: {},
+    };
+
+    for (const stats of allStats) {
+      merged.totalRequests += stats.totalRequests;
+      merged.totalTokens += stats.totalTokens;
+      merged.totalCost += stats.totalCost;
+      merged.averageResponseTime += stats.averageResponseTime * stats.totalRequests;
+      merged.cacheHitRate += stats.cacheHitRate * stats.totalRequests;
+      merged.semanticCacheHitRate += stats.semanticCacheHitRate * stats.totalRequests;
+      merged.errorRate += stats.errorRate * stats.totalRequests;
+
+      for (const [model, usage] of Object.entries(stats.byModel)) {
+        merged.byModel[model] = this.mergeModelUsage(merged.byModel[model], usage);
+      }
+
+      for (const [day, usage] of Object.entries(stats.byDay)) {
+        const existing = merged.byDay[day];
+        merged.byDay[day] = existing
+          ? {
+              date: day,
+              requests: existing.requests + usage.requests,
+              tokens: existing.tokens + usage.tokens,
+              cost: existing.cost + usage.cost,
+              errors: existing.errors + usage.errors,
+            }
+          : { ...usage };
+      }
+    }
+
+    if (merged.totalRequests > 0) {
+      merged.averageResponseTime /= merged.totalRequests;
+      merged.cacheHitRate /= merged.totalRequests;
+      merged.semanticCacheHitRate /= merged.totalRequests;
+      merged.errorRate /= merged.totalRequests;
+    }
+
+    return merged;
+  }
+
+  getModelInfo(): ModelInfo {
+    const primary = this.providers[0].provider.getModelInfo();
+
+    return {
+      ...primary,
+      provider: `Router(${this.providers.map(p => p.name).join(', ')})`,
+      capabilities: [...primary.capabilities, 'failover'],
+      recommendedUseCase: 'Multi-provider routing with automatic failover',
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    const results = await Promise.all(
+      this.providers.map(candidate => this.checkHealth(candidate, true))
+    );
+    return results.some(Boolean);
+  }
+
+  getHealth(): Record<string, ProviderHealth> {
+    return Object.fromEntries(this.health);
+  }
+
+  private async route<T extends AIResponse>(
+    task: AITask,
+    operation: (provider: AIProvider) => Promise<T>
+  ): Promise<T> {
+    const { result, provider, attempts } = await this.routeRaw(task, operation);
+
+    return {
+      ...result,
+      metadata: {
+        ...result.metadata,
+        routedProvider: provider,
+        routing: {
+          task,
+          attempts,
+        },
+      },
+    };
+  }
+
+  private async routeRaw<T>(
+    task: AITask,
+    operation: (provider: AIProvider) => Promise<T>
+  ): Promise<{ result: T; provider: string; attempts: RoutingAttempt[] }> {
+    const attempts: RoutingAttempt[] = [];
+
+    for (const candidate of await this.selectProviders(task)) {
+      try {
+        const result = await operation(candidate.provider);
+        this.markHealthy(candidate.name);
+        return { result, provider: candidate.name, attempts };
+      } catch (error) {
+        if (!this.shouldFailOver(error)) {
+          throw error;
+        }
+        this.recordFailure(candidate.name, error, attempts);
+      }
+    }
+
+    throw this.exhausted(task, attempts);
+  }
+
+  private async selectProviders(task: AITask): Promise<RoutedProvider[]> {
+    const policy = this.policies[task] || {};
+
+    let candidates = policy.providers
+      ? policy.providers
+          .map(name => this.providers.find(p => p.name === name))
+          .filter((p): p is RoutedProvider => !!p)
+      : [...this.providers];
+
+    if (policy.maxCostPer1kTokens !== undefined) {
+      candidates = candidates.filter(
+        p => this.getBlendedCost(p.provider) <= policy.maxCostPer1kTokens!
+      );
+    }
+
+    if (policy.preferCheapest) {
+      // Array.prototype.sort is stable, so configured order breaks ties
+      candidates.sort((a, b) => this.getBlendedCost(a.provider) - this.getBlendedCost(b.provider));
+    }
+
+    const eligible: RoutedProvider[] = [];
+    const limited: RoutedProvider[] = [];
+    const unhealthy: RoutedProvider[] = [];
+
+    for (const candidate of candidates) {
+      if (!(await this.checkHealth(candidate))) {
+        unhealthy.push(candidate);
+        continue;
+      }
+
+      const status = await candidate.provider.checkRateLimit();
+      if (status.isLimited || status.requestsRemaining <= 0) {
+        limited.push(candidate);
+      } else {
+        eligible.push(candidate);
+      }
+    }
+
+    // Rate-limited providers are still tried last in case their window has reset
+    const available = [...eligible, ...limited];
+
+    // With every provider marked down, trying them beats failing until the next health check
+    return available.length > 0 ? available : unhealthy;
+  }
+
+  private async checkHealth(candidate: RoutedProvider, force: boolean = false): Promise<boolean> {
+    const cached = this.health.get(candidate.name);
+    const now = Date.now();
+
+    if (!force && cached && now - cached.checkedAt < this.healthCheckIntervalMs) {
+      return cached.healthy;
+    }
+
+    // Never checked: assume healthy and let the first call decide
+    if (!force && !cached) {
+      return true;
+    }
+
+    let healthy = false;
+    try {
+      healthy = await candidate.provider.isAvailable();
+    } catch {
+      healthy = false;
+    }
+
+    this.health.set(candidate.name, { healthy, checkedAt: now });
+    return healthy;
+  }
+
+  private markHealthy(name: string): void {
+    this.health.set(name, { healthy: true, checkedAt: Date.now() });
+  }
+
+  private recordFailure(name: string, error: any, attempts: RoutingAttempt[]): void {
+    attempts.push({ provider: name, error: error?.message || String(error) });
+
+    // Rate limits are transient per provider, outages mark the provider unhealthy
+    if (!isRateLimitError(error)) {
+      this.health.set(name, { healthy: false, checkedAt: Date.now() });
+    }
+  }
+
+  private shouldFailOver(error: any): boolean {
+    return (
+      error instanceof ModelUnavailableError ||
+      error?.name === 'ModelUnavailableError' ||
+      isNetworkError(error) ||
+      isRateLimitError(error)
+    );
+  }
+
+  private exhausted(task: AITask, attempts: RoutingAttempt[]): ModelUnavailableError {
+    const tried = attempts.map(a => `${a.provider}: ${a.error}`).join('; ');
+
+    return new ModelUnavailableError(
+      `All providers failed for task "${task}"${tried ? ` (${tried})` : ''}`,
+      'router',
+      []
+    );
+  }
+
+  private getBlendedCost(provider: AIProvider): number {
+    const { costPer1kTokens } = provider.getModelInfo();
+    return (costPer1kTokens.input + costPer1kTokens.output) / 2;
+  }
+
+  private mergeModelUsage(existing: ModelUsage | undefined, usage: ModelUsage): ModelUsage {
+    if (!existing) {
+      return { ...usage };
+    }
+
+    const requests = existing.requests + usage.requests;
+    return {
+      requests,
+      tokens: existing.tokens + usage.tokens,
+      cost: existing.cost + usage.cost,
+      averageLatency: requests > 0
+        ? (existing.averageLatency * existing.requests + usage.averageLatency * usage.requests) /
+          requests
+        : 0,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { RateLimitError } from './errors';
 import { RateLimits, RateLimitStatus } from './interface';
+import type { CacheStore } from './stores/cache-store';
 
 export interface RateLimitWindow {
   requestCount: number;
@@ -266,4 +267,130 @@ export class AdaptiveRateLimiter extends RateLimiter {
     
     return tempLimiter.checkLimit();
   }
-}
\ No newline at end of file
+}
+
+const MINUTE_MS = 60000;
+const DAY_MS = 86400000;
+
+/**
+ * RateLimiter whose counters live in a CacheStore, so every instance sharing the
+ * store enforces the same limits. Windows are fixed and aligned to the clock
+ * (UTC minute and day) so instances agree on when they reset. The inherited
+ * windows mirror the last counts seen, which keeps getStatus() synchronous.
+ */
+export class SharedRateLimiter extends RateLimiter {
+  constructor(
+    limits: RateLimits,
+    private store: CacheStore,
+    private namespace: string = 'default'
+  ) {
+    super(limits);
+  }
+
+  async checkLimit(): Promise<void> {
+    const now = Date.now();
+    const [minuteTokens, dayTokens] = await Promise.all([
+      this.readCounter(this.counterKey('minute', 'tokens', now), MINUTE_MS / 1000),
+      this.readCounter(this.counterKey('day', 'tokens', now), DAY_MS / 1000),
+    ]);
+
+    this.updateWindows(now, { minuteTokens, dayTokens });
+
+    if (minuteTokens >= this.limits.tokensPerMinute) {
+      throw new RateLimitError(
+        `Token limit exceeded. ${this.limits.tokensPerMinute} tokens per minute allowed.`,
+        this.waitTime(now, MINUTE_MS),
+        'tokens'
+      );
+    }
+
+    if (this.limits.tokensPerDay && dayTokens >= this.limits.tokensPerDay) {
+      throw new RateLimitError(
+        `Daily token limit exceeded. ${this.limits.tokensPerDay} tokens per day allowed.`,
+        this.waitTime(now, DAY_MS),
+        'tokens'
+      );
+    }
+
+    // Incrementing first makes the check atomic across instances; rejected calls still count
+    const [minuteRequests, dayRequests] = await Promise.all([
+      this.store.increment(this.counterKey('minute', 'requests', now), 1, MINUTE_MS / 1000),
+      this.store.increment(this.counterKey('day', 'requests', now), 1, DAY_MS / 1000),
+    ]);
+
+    this.updateWindows(now, { minuteRequests, dayRequests });
+
+    if (minuteRequests > this.limits.requestsPerMinute) {
+      throw new RateLimitError(
+        `Rate limit exceeded. ${this.limits.requestsPerMinute} requests per minute allowed.`,
+        this.waitTime(now, MINUTE_MS),
+        'requests'
+      );
+    }
+
+    if (this.limits.requestsPerDay && dayRequests > this.limits.requestsPerDay) {
+      throw new RateLimitError(
+        `Daily request limit exceeded. ${this.limits.requestsPerDay} requests per day allowed.`,
+        this.waitTime(now, DAY_MS),
+        'requests'
+      );
+    }
+  }
+
+  recordUsage(tokens: number): void {
+    super.recordUsage(tokens);
+
+    const now = Date.now();
+    Promise.all([
+      this.store.increment(this.counterKey('minute', 'tokens', now), tokens, MINUTE_MS / 1000),
+      this.store.increment(this.counterKey('day', 'tokens', now), tokens, DAY_MS / 1000),
+    ]).catch(error => {
+      console.error('Failed to record shared token usage:', error);
+    });
+  }
+
+  async checkTokenLimit(estimatedTokens: number): Promise<void> {
+    const now = Date.now();
+    const [minuteTokens, dayTokens] = await Promise.all([
+      this.readCounter(this.counterKey('minute', 'tokens', now), MINUTE_MS / 1000),
+      this.readCounter(this.counterKey('day', 'tokens', now), DAY_MS / 1000),
+    ]);
+
+    this.updateWindows(now, { minuteTokens, dayTokens });
+    return super.checkTokenLimit(estimatedTokens);
+  }
+
+  private counterKey(window: 'minute' | 'day', metric: 'requests' | 'tokens', now: number): string {
+    const bucket = Math.floor(now / (window === 'minute' ? MINUTE_MS : DAY_MS));
+    return `ratelimit:${this.namespace}:${window}:${bucket}:${metric}`;
+  }
+
+  private readCounter(key: string, ttlSeconds: number): Promise<number> {
+    return this.store.increment(key, 0, ttlSeconds);
+  }
+
+  private waitTime(now: number, windowMs: number): number {
+    return windowMs - (now % windowMs);
+  }
+
+  private updateWindows(now: number, counts: {
+    minuteRequests?: number;
+    minuteTokens?: number;
+    dayRequests?: number;
+    dayTokens?: number;
+  }): void {
+    const minuteStart = now - (now % MINUTE_MS);
+    const dayStart = now - (now % DAY_MS);
+
+    this.currentWindow = {
+      requestCount: counts.minuteRequests ?? (this.currentWindow.windowStart === minuteStart ? this.currentWindow.requestCount : 0),
+      tokenCount: counts.minuteTokens ?? (this.currentWindow.windowStart === minuteStart ? this.currentWindow.tokenCount : 0),
+      windowStart: minuteStart,
+    };
+    this.dailyWindow = {
+      requestCount: counts.dayRequests ?? (this.dailyWindow.windowStart === dayStart ? this.dailyWindow.requestCount : 0),
+      tokenCount: counts.dayTokens ?? (this.dailyWindow.windowStart === dayStart ? this.dailyWindow.tokenCount : 0),
+      windowStart: dayStart,
+    };
+  }
+}
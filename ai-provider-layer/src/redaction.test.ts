@@ -0,0 +1,180 @@
+import { RedactionSession, mergeRedactionPolicies } from './redaction';
+import { RedactingProvider } from './providers/redacting';
+import { SemanticCache } from './cache';
+import { HashEmbeddingProvider } from './embeddings';
+import { AIProvider, AIResponse, EmailContext } from './interface';
+
+const EMAIL = `Hi team,
+
+Please call me on +44 20 7946 0958 or write to jane.doe@acme.com.
+Pay the invoice to GB82 WEST 1234 5698 7654 32, or by card 4111 1111 1111 1111.
+Our office moved to 221 Baker Street, Suite 4. The launch is on 2024-05-01.
+
+Best regards,
+Jane Doe
+Head of Finance, Acme Ltd
+`;
+
+async function collect(stream: AsyncGenerator<string>): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe('RedactionSession', () => {
+  it('replaces PII with stable placeholders and restores it', () => {
+    const session = new RedactionSession();
+    const redacted = session.redact(EMAIL);
+
+    expect(redacted).toContain('[PHONE_1]');
+    expect(redacted).toContain('[EMAIL_1]');
+    expect(redacted).toContain('[IBAN_1]');
+    expect(redacted).toContain('[CARD_1]');
+    expect(redacted).toContain('[ADDRESS_1]');
+    expect(redacted).toContain('[SIGNATURE_1]');
+    expect(redacted).toContain('2024-05-01');
+    expect(redacted).not.toMatch(/jane\.doe|7946|4111|Baker|Head of Finance/);
+
+    // The same value keeps its placeholder in later messages of the request
+    expect(session.redact('Reach jane.doe@acme.com')).toBe('Reach [EMAIL_1]');
+    expect(session.restore(redacted)).toBe(EMAIL);
+    expect(session.restore('Call EMAIL_1 today')).toBe('Call jane.doe@acme.com today');
+  });
+
+  it('ignores numbers that fail the IBAN and card checksums', () => {
+    const session = new RedactionSession({ detectors: ['iban', 'card'] });
+
+    expect(session.redact('Ref GB00 WEST 1234 5698 7654 32 and 4111 1111 1111 1112')).toBe(
+      'Ref GB00 WEST 1234 5698 7654 32 and 4111 1111 1111 1112'
+    );
+    expect(session.redacted).toBe(false);
+  });
+
+  it('applies custom rules, allowed values and disabled policies', () => {
+    const session = new RedactionSession({
+      detectors: ['email'],
+      customRules: [{ name: 'customer-id', pattern: 'CUST-\\d{6}' }],
+      allow: ['support@acme.com'],
+    });
+
+    expect(session.redact('CUST-123456 wrote to support@acme.com from bob@example.com')).toBe(
+      '[CUSTOMER_ID_1] wrote to support@acme.com from [EMAIL_1]'
+    );
+    expect(session.audit.redactions).toEqual([
+      { type: 'CUSTOMER_ID', placeholder: '[CUSTOMER_ID_1]', count: 1 },
+      { type: 'EMAIL', placeholder: '[EMAIL_1]', count: 1 },
+    ]);
+    expect(new RedactionSession({ enabled: false }).redact(EMAIL)).toBe(EMAIL);
+  });
+
+  it('restores placeholders split across stream chunks', async () => {
+    const session = new RedactionSession();
+    session.redact('bob@example.com');
+
+    async function* chunks() {
+      yield 'Forwarded to [EM';
+      yield 'AIL_';
+      yield '1] and [unrelated] text';
+    }
+
+    expect(await collect(session.restoreStream(chunks()))).toBe('Forwarded to bob@example.com and [unrelated] text');
+    expect(session.audit.restored).toBe(1);
+  });
+
+  it('merges policies so the stricter setting wins', () => {
+    expect(mergeRedactionPolicies({ enabled: false, detectors: ['email'] }, { enabled: true, detectors: ['phone'], allow: ['x'] })).toEqual({
+      enabled: true,
+      detectors: ['email', 'phone'],
+      customRules: [],
+      allow: ['x'],
+    });
+    expect(mergeRedactionPolicies({ enabled: false }, undefined).enabled).toBe(false);
+  });
+});
+
+describe('RedactingProvider', () => {
+  function createFakeProvider(): AIProvider {
+    return {
+      generateResponse: jest.fn(async (input): Promise<AIResponse> => ({
+        text: `I will reply to ${input.messages[0].content.match(/\[EMAIL_1\]/)?.[0]}`,
+        tokensUsed: 10,
+        model: 'fake-model',
+        responseTimeMs: 1,
+      })),
+      generateEmailResponse: jest.fn(async context => ({
+        text: `Noted, I will call ${context.body.match(/\[PHONE_1\]/)?.[0]}`,
+        tokensUsed: 20,
+        model: 'fake-model',
+        responseTimeMs: 1,
+      })),
+    } as unknown as AIProvider;
+  }
+
+  it('redacts requests and restores responses with an audit', async () => {
+    const fake = createFakeProvider();
+    const provider = new RedactingProvider(fake);
+
+    const response = await provider.generateResponse({ messages: [{ role: 'user', content: 'From bob@example.com' }] });
+
+    expect((fake.generateResponse as jest.Mock).mock.calls[0][0].messages[0].content).toBe('From [EMAIL_1]');
+    expect(response.text).toBe('I will reply to bob@example.com');
+    expect(response.redaction).toEqual({
+      redactions: [{ type: 'EMAIL', placeholder: '[EMAIL_1]', count: 1 }],
+      restored: 1,
+    });
+  });
+
+  it('uses the policy resolved for the user of an email reply', async () => {
+    const fake = createFakeProvider();
+    const resolvePolicy = jest.fn(async (userId: string) => (userId === 'user-2' ? { enabled: false } : undefined));
+    const provider = new RedactingProvider(fake, { resolvePolicy });
+    const context = {
+      subject: 'Call',
+      from: 'bob@example.com',
+      to: ['me@example.com'],
+      body: 'Ring me on 020 7946 0958',
+    };
+
+    expect((await provider.generateEmailResponse({ ...context, userId: 'user-1' })).text).toBe('Noted, I will call 020 7946 0958');
+    expect((fake.generateEmailResponse as jest.Mock).mock.calls[0][0].from).toBe('bob@example.com');
+
+    const unredacted = await provider.generateEmailResponse({ ...context, userId: 'user-2' });
+    expect((fake.generateEmailResponse as jest.Mock).mock.calls[1][0].body).toBe('Ring me on 020 7946 0958');
+    expect(unredacted.redaction).toBeUndefined();
+    expect(resolvePolicy).toHaveBeenCalledWith('user-2');
+  });
+
+  it('only reuses cached drafts whose placeholders stand for the same values', async () => {
+    const fake = createFakeProvider();
+    const cache = new SemanticCache({ ttl: 3600, maxSize: 10, enabled: true, similarityThreshold: 0.8 }, new HashEmbeddingProvider());
+    (fake.generateEmailResponse as jest.Mock).mockImplementation(async (context: EmailContext) => {
+      const cached = await cache.lookup(context);
+      if (cached) {
+        return cached.response;
+      }
+      const response = { text: `I will get back to you at ${context.body.match(/\[[A-Z]+_\d+\]/)?.[0]}`, tokensUsed: 20 };
+      await cache.store(context, response as AIResponse);
+      return response;
+    });
+    const provider = new RedactingProvider(fake);
+    const context = { userId: 'user-1', subject: 'Refund', from: 'sam@example.com', to: ['me@example.com'] };
+    const body = 'Hi, I was charged twice for order 1234 last week. Could you please refund the duplicate charge? Thanks, Sam.';
+
+    await provider.generateEmailResponse({ ...context, body: `${body} Call me on 020 7946 0958` });
+    const response = await provider.generateEmailResponse({ ...context, body: `${body} Mail me at sam@example.org` });
+
+    expect(response.text).toBe('I will get back to you at sam@example.org');
+    expect(cache.getSemanticStats().hits).toBe(0);
+  });
+
+  it('redacts plain texts with the policy of the scoped user', async () => {
+    const resolvePolicy = jest.fn(async (userId: string) => (userId === 'user-2' ? { enabled: false } : undefined));
+    const provider = new RedactingProvider(createFakeProvider(), { resolvePolicy });
+    const texts = ['From bob@example.com', 'Ring 020 7946 0958'];
+
+    expect(await provider.forUser('user-1').redactTexts(texts)).toEqual(['From [EMAIL_1]', 'Ring [PHONE_1]']);
+    expect(await provider.forUser('user-2').redactTexts(texts)).toEqual(texts);
+  });
+});
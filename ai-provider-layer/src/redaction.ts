@@ -0,0 +1,250 @@
+import * as crypto from 'crypto';
+import { RedactionAudit } from './interface';
+
+export type RedactionDetector = 'email' | 'phone' | 'iban' | 'card' | 'address' | 'signature';
+
+export interface CustomRedactionRule {
+  // Used for the placeholder, e.g. 'customer-id' becomes [CUSTOMER_ID_1]
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
+export interface RedactionPolicy {
+  // Defaults to true
+  enabled?: boolean;
+  // Built-in detectors to run; defaults to all of them
+  detectors?: RedactionDetector[];
+  customRules?: CustomRedactionRule[];
+  // Values that are never redacted, e.g. the company's public phone number
+  allow?: string[];
+}
+
+interface RedactionRule {
+  type: string;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+}
+
+export const REDACTION_DETECTORS: RedactionDetector[] = ['email', 'iban', 'card', 'phone', 'address', 'signature'];
+
+const SIGN_OFF = '(?:--|(?:best |kind |warm )?regards|sincerely|thanks|thank you|cheers|best)';
+
+// Ordered so longer numbers are claimed as IBANs and cards before the phone rule sees them
+const BUILT_IN_RULES: Record<RedactionDetector, RedactionRule> = {
+  email: {
+    type: 'EMAIL',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  iban: {
+    type: 'IBAN',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: isValidIban,
+  },
+  card: {
+    type: 'CARD',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: passesLuhn,
+  },
+  phone: {
+    type: 'PHONE',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){2,4}\b/g,
+    validate: match => {
+      const digits = match.replace(/\D/g, '').length;
+      // ISO dates and short numbers are not phone numbers
+      return digits >= 7 && digits <= 15 && !/^\d{4}-\d{2}-\d{2}$/.test(match.trim());
+    },
+  },
+  address: {
+    type: 'ADDRESS',
+    pattern: /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Square|Sq)\b\.?(?:,?\s+(?:Suite|Apt|Unit|Floor)\s*\w+)?/g,
+  },
+  // The lines under a sign-off, up to the next blank line
+  signature: {
+    type: 'SIGNATURE',
+    pattern: new RegExp(`(?<=^${SIGN_OFF},?[ \\t]*\\n)(?:[^\\n]+\\n?){1,6}`, 'gim'),
+  },
+};
+
+/**
+ * Combines org and user policies; the stricter setting wins. Redaction stays
+ * on unless every policy that sets it turns it off, and detectors, custom
+ * rules and allowed values are merged.
+ */
+export function mergeRedactionPolicies(...policies: Array<RedactionPolicy | undefined>): RedactionPolicy {
+  const present = policies.filter((policy): policy is RedactionPolicy => !!policy);
+  const enabled = present.map(policy => policy.enabled).filter(value => value !== undefined);
+  const detectors = present.filter(policy => policy.detectors).flatMap(policy => policy.detectors!);
+
+  return {
+    enabled: enabled.length === 0 || enabled.includes(true),
+    detectors: detectors.length > 0 ? Array.from(new Set(detectors)) : undefined,
+    customRules: present.flatMap(policy => policy.customRules || []),
+    allow: Array.from(new Set(present.flatMap(policy => policy.allow || []))),
+  };
+}
+
+/**
+ * One request's redactions. The same value always gets the same placeholder,
+ * across every message of the request, so the model can still refer to it and
+ * restore() can put the original back.
+ */
+export class RedactionSession {
+  private rules: RedactionRule[];
+  private allow: Set<string>;
+  private placeholders: Map<string, string> = new Map();
+  private originals: Map<string, string> = new Map();
+  private counts: Map<string, number> = new Map();
+  private restoredCount = 0;
+
+  constructor(policy: RedactionPolicy = {}) {
+    this.rules = policy.enabled === false ? [] : compileRules(policy);
+    this.allow = new Set((policy.allow || []).map(value => value.toLowerCase()));
+  }
+
+  redact(text: string): string {
+    if (!text) {
+      return text;
+    }
+
+    return this.rules.reduce((current, rule) =>
+      current.replace(rule.pattern, match => {
+        const value = match.trim();
+        if (!value || this.allow.has(value.toLowerCase()) || (rule.validate && !rule.validate(value))) {
+          return match;
+        }
+        // Keep surrounding whitespace, e.g. the newline after a signature
+        return match.replace(value, this.placeholderFor(rule.type, value));
+      }), text);
+  }
+
+  restore(text: string): string {
+    if (!text || this.originals.size === 0) {
+      return text;
+    }
+
+    // Models sometimes drop the brackets around a placeholder
+    return text.replace(/\[?\b([A-Z][A-Z0-9_]*_\d+)\b\]?/g, (match, name) => {
+      const original = this.originals.get(`[${name}]`);
+      if (original === undefined) {
+        return match;
+      }
+      this.restoredCount++;
+      return original;
+    });
+  }
+
+  /**
+   * Restores placeholders in streamed text. A chunk ending inside a possible
+   * placeholder is held back until the placeholder is complete.
+   */
+  async *restoreStream(stream: AsyncIterable<string>): AsyncGenerator<string> {
+    let pending = '';
+
+    for await (const chunk of stream) {
+      pending += chunk;
+      const open = pending.lastIndexOf('[');
+      const held = open >= 0 && !pending.includes(']', open) && pending.length - open < 40 ? open : pending.length;
+
+      if (held > 0) {
+        yield this.restore(pending.slice(0, held));
+        pending = pending.slice(held);
+      }
+    }
+
+    if (pending) {
+      yield this.restore(pending);
+    }
+  }
+
+  get audit(): RedactionAudit {
+    return {
+      redactions: Array.from(this.placeholders.entries()).map(([, placeholder]) => ({
+        type: placeholder.slice(1, placeholder.lastIndexOf('_')),
+        placeholder,
+        count: this.counts.get(placeholder) || 0,
+      })),
+      restored: this.restoredCount,
+    };
+  }
+
+  // Identifies the values behind the placeholders without revealing them; undefined when nothing was redacted
+  get fingerprint(): string | undefined {
+    if (this.originals.size === 0) {
+      return undefined;
+    }
+
+    const pairs = Array.from(this.originals.entries()).sort(([a], [b]) => a.localeCompare(b));
+    return crypto.createHash('sha256').update(JSON.stringify(pairs)).digest('hex');
+  }
+
+  get redacted(): boolean {
+    return this.placeholders.size > 0;
+  }
+
+  private placeholderFor(type: string, value: string): string {
+    const key = `${type}:${value}`;
+    let placeholder = this.placeholders.get(key);
+
+    if (!placeholder) {
+      const index = Array.from(this.placeholders.values()).filter(existing => existing.startsWith(`[${type}_`)).length + 1;
+      placeholder = `[${type}_${index}]`;
+      this.placeholders.set(key, placeholder);
+      this.originals.set(placeholder, value);
+    }
+
+    this.counts.set(placeholder, (this.counts.get(placeholder) || 0) + 1);
+    return placeholder;
+  }
+}
+
+function compileRules(policy: RedactionPolicy): RedactionRule[] {
+  const enabled = new Set(policy.detectors || REDACTION_DETECTORS);
+  const builtIn = REDACTION_DETECTORS.filter(name => enabled.has(name)).map(name => BUILT_IN_RULES[name]);
+
+  const custom = (policy.customRules || []).map(rule => ({
+    type: rule.name.toUpperCase().replace(/[^A-Z0-9]+/g, '_'),
+    pattern: new RegExp(rule.pattern, (rule.flags || '').includes('g') ? rule.flags : `${rule.flags || ''}g`),
+  }));
+
+  // Custom rules run first so they can claim values a built-in rule would also match
+  return [...custom, ...builtIn];
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616 mod-97 check
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, '');
+  if (iban.length < 15 || iban.length > 34) {
+    return false;
+  }
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
@@ -0,0 +1,55 @@
+import { reviseEmailResponse } from './revision';
+import { AIGenerationInput, AIResponse, EmailContext } from './interface';
+import { ValidationError } from './errors';
+
+function createProvider() {
+  const calls: AIGenerationInput[] = [];
+  const provider = {
+    generateResponse: async (input: AIGenerationInput): Promise<AIResponse> => {
+      calls.push(input);
+      return { text: 'Sorry, I cannot make it.', model: 'test', tokensUsed: 42, responseTimeMs: 1 };
+    },
+  };
+  return { provider, calls };
+}
+
+const email: EmailContext = {
+  userId: 'user-1',
+  subject: 'Dinner on Friday?',
+  from: 'sam@example.com',
+  to: ['me@example.com'],
+  body: 'Would you like to join us for dinner on Friday?',
+  language: 'de',
+};
+
+describe('reviseEmailResponse', () => {
+  it('replays the draft as the assistant turn and asks for the requested changes', async () => {
+    const { provider, calls } = createProvider();
+    const response = await reviseEmailResponse(provider, email, 'I would love to come!', {
+      presets: ['shorter', 'decline_politely'],
+      feedback: 'Mention that I am travelling',
+    });
+
+    expect(response.text).toBe('Sorry, I cannot make it.');
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({ task: 'reply', userId: 'user-1' });
+
+    const [system, original, draft, revision] = calls[0].messages;
+    expect(system.role).toBe('system');
+    expect(original.content).toContain('Would you like to join us for dinner');
+    expect(original.content).toContain('Write the reply in German.');
+    expect(draft).toEqual({ role: 'assistant', content: 'I would love to come!' });
+    expect(revision.role).toBe('user');
+    expect(revision.content).toContain('Make it noticeably shorter.');
+    expect(revision.content).toContain('polite decline');
+    expect(revision.content).toContain('- Mention that I am travelling');
+  });
+
+  it('needs feedback or a preset', async () => {
+    const { provider, calls } = createProvider();
+
+    await expect(reviseEmailResponse(provider, email, 'Draft', { feedback: '  ' }))
+      .rejects.toBeInstanceOf(ValidationError);
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,40 @@
+import { AIProvider, AIResponse, EmailContext, RevisionPreset, RevisionRequest } from './interface';
+import { ValidationError } from './errors';
+import { EmailPromptBuilder } from './prompts/email-response';
+
+export const REVISION_PRESETS: readonly RevisionPreset[] = ['shorter', 'warmer', 'add_apology', 'decline_politely'];
+
+/**
+ * Revises an earlier draft for the same email. The original conversation is
+ * replayed with the draft as the model's answer, followed by the requested
+ * changes, so the revision stays close to the draft instead of starting over.
+ */
+export async function reviseEmailResponse(
+  provider: Pick<AIProvider, 'generateResponse'>,
+  email: EmailContext,
+  draft: string,
+  request: RevisionRequest,
+  promptBuilder: EmailPromptBuilder = new EmailPromptBuilder()
+): Promise<AIResponse> {
+  if (!request.presets?.length && !request.feedback?.trim()) {
+    throw new ValidationError(
+      'A revision needs feedback or at least one preset',
+      'request',
+      request,
+      { presets: REVISION_PRESETS }
+    );
+  }
+
+  const systemPrompt = promptBuilder.renderSystemPrompt(email.responseStyle || 'formal', email.userId, email.styleProfile);
+
+  return provider.generateResponse({
+    messages: [
+      { role: 'system', content: systemPrompt.text },
+      { role: 'user', content: promptBuilder.buildEmailPrompt({ ...email, tools: undefined }) },
+      { role: 'assistant', content: draft },
+      { role: 'user', content: promptBuilder.buildRevisionPrompt(request) },
+    ],
+    task: 'reply',
+    userId: email.userId,
+  });
+}
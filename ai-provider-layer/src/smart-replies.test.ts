@@ -0,0 +1,35 @@
+import { suggestSmartReplies } from './smart-replies';
+import { SmartReply } from './interface';
+import { analyzerReturning } from './testing/analyzer';
+
+describe('suggestSmartReplies', () => {
+  it('removes quotes, duplicates and overlong suggestions', async () => {
+    const analyzer = analyzerReturning('suggestReplies', [
+      { text: '"Sounds good, see you Friday!"', intent: 'accept' },
+      { text: 'Sounds good - see you Friday', intent: 'accept' },
+      { text: 'Thanks, I will check and get back to you.', intent: 'acknowledge' },
+      { text: 'x'.repeat(300), intent: 'decline' },
+      { text: 'Sorry, Friday does not work for me.', intent: 'decline' },
+    ]);
+
+    const replies = await suggestSmartReplies(analyzer, 'Can we meet Friday?');
+
+    expect(replies).toEqual([
+      { text: 'Sounds good, see you Friday!', intent: 'accept' },
+      { text: 'Thanks, I will check and get back to you.', intent: 'acknowledge' },
+      { text: 'Sorry, Friday does not work for me.', intent: 'decline' },
+    ]);
+  });
+
+  it('asks for three to five replies and returns no more than asked for', async () => {
+    const many = Array.from({ length: 8 }, (_, i): SmartReply => ({ text: `Reply ${i}`, intent: 'acknowledge' }));
+    const analyzer = analyzerReturning('suggestReplies', many);
+
+    await suggestSmartReplies(analyzer, 'Hi', 1);
+    expect(analyzer.suggestReplies).toHaveBeenLastCalledWith('Hi', 3);
+
+    const replies = await suggestSmartReplies(analyzer, 'Hi', 10);
+    expect(analyzer.suggestReplies).toHaveBeenLastCalledWith('Hi', 5);
+    expect(replies).toHaveLength(5);
+  });
+});
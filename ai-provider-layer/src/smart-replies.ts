@@ -0,0 +1,36 @@
+import { SmartReply } from './interface';
+import { EmailAnalyzer } from './analysis';
+
+export const MIN_SMART_REPLIES = 3;
+export const MAX_SMART_REPLIES = 5;
+// Chips are one tap; longer suggestions belong in a draft
+const MAX_REPLY_LENGTH = 200;
+
+/**
+ * Suggests short replies to an email. The model's suggestions are cleaned
+ * up: quotes around them and duplicates are removed, overlong ones dropped,
+ * and at most `count` (3-5) are returned.
+ */
+export async function suggestSmartReplies(
+  analyzer: Pick<EmailAnalyzer, 'suggestReplies'>,
+  email: string,
+  count: number = MIN_SMART_REPLIES
+): Promise<SmartReply[]> {
+  const wanted = Math.max(MIN_SMART_REPLIES, Math.min(MAX_SMART_REPLIES, count));
+  const suggestions = await analyzer.suggestReplies(email, wanted);
+
+  const seen = new Set<string>();
+  const replies: SmartReply[] = [];
+  for (const suggestion of suggestions) {
+    const text = suggestion.text.trim().replace(/^["“']+|["”']+$/g, '').trim();
+    const key = text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    if (!text || text.length > MAX_REPLY_LENGTH || seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+    replies.push({ text, intent: suggestion.intent });
+  }
+
+  return replies.slice(0, wanted);
+}
@@ -0,0 +1,189 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import { RedisCacheStore } from './redis';
+import { SqliteCacheStore } from './sqlite';
+import { CacheStore } from './cache-store';
+import { SharedRateLimiter } from '../rate-limiter';
+import { RateLimitError } from '../errors';
+
+// In-memory stand-in for the handful of Redis commands RedisCacheStore sends
+function startStubRedis(): Promise<net.Server> {
+  const strings = new Map<string, string>();
+  const zsets = new Map<string, Map<string, number>>();
+
+  const zset = (key: string): Map<string, number> => {
+    if (!zsets.has(key)) {
+      zsets.set(key, new Map());
+    }
+    return zsets.get(key)!;
+  };
+
+  const bulk = (value: string | null): string =>
+    value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  const array = (values: string[]): string => `*${values.length}\r\n${values.map(bulk).join('')}`;
+
+  const execute = (args: string[]): string => {
+    const [command, key, ...rest] = args;
+
+    switch (command.toUpperCase()) {
+      case 'GET':
+        return bulk(strings.get(key) ?? null);
+      case 'SET':
+        if (rest.includes('NX') && strings.has(key)) {
+          return '$-1\r\n';
+        }
+        strings.set(key, rest[0]);
+        return '+OK\r\n';
+      case 'INCRBY': {
+        const value = Number(strings.get(key) || 0) + Number(rest[0]);
+        strings.set(key, String(value));
+        return `:${value}\r\n`;
+      }
+      case 'DEL': {
+        const removed = [key, ...rest].filter(name => strings.delete(name)).length;
+        return `:${removed}\r\n`;
+      }
+      case 'ZADD':
+        zset(key).set(rest[1], Number(rest[0]));
+        return ':1\r\n';
+      case 'ZREM': {
+        const removed = rest.filter(member => zset(key).delete(member)).length;
+        return `:${removed}\r\n`;
+      }
+      case 'ZCARD':
+        return `:${zset(key).size}\r\n`;
+      case 'ZRANGE': {
+        const members = Array.from(zset(key).entries())
+          .sort((a, b) => a[1] - b[1])
+          .map(([member]) => member);
+        return array(members.slice(Number(rest[0]), Number(rest[1]) + 1));
+      }
+      case 'SCAN': {
+        const prefix = rest[1].replace(/\*$/, '');
+        const keys = [...strings.keys(), ...zsets.keys()].filter(name => name.startsWith(prefix));
+        keys.forEach(name => {
+          strings.delete(name);
+          zsets.delete(name);
+        });
+        return `*2\r\n${bulk('0')}${array(keys)}`;
+      }
+      case 'QUIT':
+        return '+OK\r\n';
+      default:
+        return `-ERR unknown command '${command}'\r\n`;
+    }
+  };
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+
+      // Commands arrive as RESP arrays of bulk strings
+      let match: RegExpMatchArray | null;
+      while ((match = buffer.match(/^\*(\d+)\r\n/))) {
+        let offset = match[0].length;
+        const args: string[] = [];
+        for (let i = 0; i < Number(match[1]); i++) {
+          const header = buffer.slice(offset).match(/^\$(\d+)\r\n/);
+          if (!header) {
+            return;
+          }
+          offset += header[0].length;
+          args.push(buffer.slice(offset, offset + Number(header[1])));
+          offset += Number(header[1]) + 2;
+        }
+        if (offset > buffer.length) {
+          return;
+        }
+        buffer = buffer.slice(offset);
+        socket.write(execute(args));
+      }
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('CacheStore backends', () => {
+  let server: net.Server;
+  const stores: CacheStore[] = [];
+
+  beforeAll(async () => {
+    server = await startStubRedis();
+  });
+
+  afterAll(async () => {
+    await Promise.all(stores.map(store => store.close()));
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const backends: Array<[string, (maxEntries: number) => CacheStore]> = [
+    ['RedisCacheStore', maxEntries => new RedisCacheStore({
+      url: `redis://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      keyPrefix: `test:${maxEntries}:`,
+      maxEntries,
+    })],
+    ['SqliteCacheStore', maxEntries => new SqliteCacheStore({ path: ':memory:', maxEntries })],
+  ];
+
+  describe.each(backends)('%s', (_name, createStore) => {
+    const open = (maxEntries: number = 100): CacheStore => {
+      const store = createStore(maxEntries);
+      stores.push(store);
+      return store;
+    };
+
+    it('stores, reads and deletes values', async () => {
+      const store = open();
+
+      await store.set('greeting', 'hello', 60);
+      expect(await store.get('greeting')).toBe('hello');
+      expect(await store.delete('greeting')).toBe(true);
+      expect(await store.get('greeting')).toBeNull();
+
+      const stats = await store.getStats();
+      expect(stats.hits).toBe(1);
+      expect(stats.misses).toBe(1);
+    });
+
+    it('evicts the least recently used entry past maxEntries', async () => {
+      const store = open(2);
+
+      await store.set('a', '1', 60);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await store.set('b', '2', 60);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await store.get('a');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await store.set('c', '3', 60);
+
+      expect(await store.get('b')).toBeNull();
+      expect(await store.get('a')).toBe('1');
+      expect((await store.getStats()).evictions).toBe(1);
+    });
+
+    it('increments counters atomically', async () => {
+      const store = open();
+
+      expect(await store.increment('counter', 1, 60)).toBe(1);
+      expect(await store.increment('counter', 5, 60)).toBe(6);
+    });
+  });
+});
+
+describe('SharedRateLimiter', () => {
+  it('enforces one request budget across instances sharing a store', async () => {
+    const store = new SqliteCacheStore({ path: ':memory:' });
+    const limits = { requestsPerMinute: 2, tokensPerMinute: 1000 };
+    const first = new SharedRateLimiter(limits, store, 'test');
+    const second = new SharedRateLimiter(limits, store, 'test');
+
+    await first.checkLimit();
+    await second.checkLimit();
+    await expect(first.checkLimit()).rejects.toBeInstanceOf(RateLimitError);
+    expect(second.getStatus().requestsRemaining).toBe(0);
+
+    await store.close();
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Shared key/value backend for DistributedCache and SharedRateLimiter.
+ * Values are opaque strings; TTLs are in seconds like CacheConfig.ttl.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<boolean>;
+
+  // Counters are exempt from LRU eviction and invisible to get(); an amount of 0 reads one.
+  // The TTL only applies when the counter is created.
+  increment(key: string, amount: number, ttlSeconds: number): Promise<number>;
+
+  clear(): Promise<void>;
+  getStats(): Promise<CacheStoreStats>;
+  close(): Promise<void>;
+}
+
+export interface CacheStoreStats {
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+}
+
+export interface CacheStoreOptions {
+  // Cached entries kept before the least recently used are evicted
+  maxEntries?: number;
+  keyPrefix?: string;
+}
+
+export const DEFAULT_MAX_ENTRIES = 10000;
+
+export function computeHitRate(hits: number, misses: number): number {
+  return hits + misses > 0 ? hits / (hits + misses) : 0;
+}
@@ -0,0 +1,113 @@
+import {
+  CacheStore,
+  CacheStoreOptions,
+  CacheStoreStats,
+  DEFAULT_MAX_ENTRIES,
+  computeHitRate,
+} from './cache-store';
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number | null;
+}
+
+/**
+ * Process-local CacheStore for single-instance deployments and tests. Map
+ * insertion order doubles as the recency list, so eviction is LRU.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries: Map<string, MemoryEntry> = new Map();
+  private counters: Map<string, { value: number; expiresAt: number }> = new Map();
+  private prefix: string;
+  private maxEntries: number;
+  private stats = { hits: 0, misses: 0, evictions: 0 };
+
+  constructor(options: CacheStoreOptions = {}) {
+    this.prefix = options.keyPrefix ?? '';
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  get(key: string): Promise<string | null> {
+    const fullKey = this.prefix + key;
+    const entry = this.entries.get(fullKey);
+
+    if (!entry || (entry.expiresAt !== null && entry.expiresAt <= Date.now())) {
+      this.entries.delete(fullKey);
+      this.stats.misses++;
+      return Promise.resolve(null);
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(fullKey);
+    this.entries.set(fullKey, entry);
+    this.stats.hits++;
+    return Promise.resolve(entry.value);
+  }
+
+  set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    const fullKey = this.prefix + key;
+
+    this.entries.delete(fullKey);
+    this.entries.set(fullKey, {
+      value,
+      expiresAt: ttlSeconds > 0 ? Date.now() + ttlSeconds * 1000 : null,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.stats.evictions++;
+    }
+
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<boolean> {
+    return Promise.resolve(this.entries.delete(this.prefix + key));
+  }
+
+  increment(key: string, amount: number, ttlSeconds: number): Promise<number> {
+    const fullKey = this.prefix + key;
+    const now = Date.now();
+    const counter = this.counters.get(fullKey);
+
+    if (!counter || counter.expiresAt <= now) {
+      this.pruneCounters(now);
+      this.counters.set(fullKey, { value: amount, expiresAt: now + ttlSeconds * 1000 });
+      return Promise.resolve(amount);
+    }
+
+    counter.value += amount;
+    return Promise.resolve(counter.value);
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    this.counters.clear();
+    this.stats = { hits: 0, misses: 0, evictions: 0 };
+    return Promise.resolve();
+  }
+
+  getStats(): Promise<CacheStoreStats> {
+    return Promise.resolve({
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.stats.hits,
+      misses: this.stats.misses,
+      hitRate: computeHitRate(this.stats.hits, this.stats.misses),
+      evictions: this.stats.evictions,
+    });
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  private pruneCounters(now: number): void {
+    this.counters.forEach((counter, key) => {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,330 @@
+import * as net from 'net';
+import { CacheError } from '../errors';
+import {
+  CacheStore,
+  CacheStoreOptions,
+  CacheStoreStats,
+  DEFAULT_MAX_ENTRIES,
+  computeHitRate,
+} from './cache-store';
+
+export interface RedisCacheStoreConfig extends CacheStoreOptions {
+  // redis://[:password@]host[:port][/db]; individual fields override the URL
+  url?: string;
+  host?: string;
+  port?: number;
+  password?: string;
+  db?: number;
+  connectTimeoutMs?: number;
+}
+
+type RespValue = string | number | null | Error | RespValue[];
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Minimal RESP2 client: pipelined commands over one socket, reconnecting lazily
+ * after the connection drops. Only the reply types Redis actually sends are parsed.
+ */
+class RespConnection {
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private pending: PendingReply[] = [];
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(private options: {
+    host: string;
+    port: number;
+    password?: string;
+    db?: number;
+    connectTimeoutMs: number;
+  }) {}
+
+  async command(args: Array<string | number>): Promise<RespValue> {
+    const socket = this.socket || await this.connect();
+    return this.send(socket, args);
+  }
+
+  async close(): Promise<void> {
+    if (!this.socket) {
+      return;
+    }
+
+    const socket = this.socket;
+    await this.send(socket, ['QUIT']).catch((): null => null);
+    socket.destroy();
+    this.socket = null;
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.createConnection({ host: this.options.host, port: this.options.port });
+      const timer = setTimeout(() => {
+        socket.destroy(new Error(`Timed out connecting to ${this.options.host}:${this.options.port}`));
+      }, this.options.connectTimeoutMs);
+
+      socket.once('connect', async () => {
+        clearTimeout(timer);
+        socket.setNoDelay(true);
+
+        try {
+          if (this.options.password) {
+            await this.send(socket, ['AUTH', this.options.password]);
+          }
+          if (this.options.db) {
+            await this.send(socket, ['SELECT', this.options.db]);
+          }
+          this.socket = socket;
+          resolve(socket);
+        } catch (error) {
+          socket.destroy();
+          reject(error);
+        }
+      });
+
+      socket.on('data', chunk => this.onData(chunk));
+      socket.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+        this.onClose(error);
+      });
+      socket.once('close', () => this.onClose(new Error('Redis connection closed')));
+    }).finally(() => {
+      this.connecting = null;
+    });
+
+    return this.connecting;
+  }
+
+  private send(socket: net.Socket, args: Array<string | number>): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (this.buffer.length > 0) {
+      const parsed = parseReply(this.buffer, 0);
+      if (!parsed) {
+        return;
+      }
+
+      this.buffer = this.buffer.subarray(parsed.offset);
+      const reply = this.pending.shift();
+      if (!reply) {
+        continue;
+      }
+
+      if (parsed.value instanceof Error) {
+        reply.reject(parsed.value);
+      } else {
+        reply.resolve(parsed.value);
+      }
+    }
+  }
+
+  private onClose(error: Error): void {
+    this.socket = null;
+    this.buffer = Buffer.alloc(0);
+
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(reply => reply.reject(error));
+  }
+}
+
+function encodeCommand(args: Array<string | number>): string {
+  let encoded = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const value = String(arg);
+    encoded += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return encoded;
+}
+
+// Returns null when the buffer does not yet hold a complete reply
+function parseReply(buffer: Buffer, start: number): { value: RespValue; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', start);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[start]);
+  const line = buffer.toString('utf8', start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new Error(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) {
+        return { value: null, offset: next };
+      }
+      const items: RespValue[] = [];
+      let offset = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, offset);
+        if (!item) {
+          return null;
+        }
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    default:
+      return { value: new Error(`Unexpected RESP reply type "${type}"`), offset: next };
+  }
+}
+
+/**
+ * CacheStore on any server speaking the Redis protocol (Redis, Valkey, KeyDB,
+ * Memorystore). Recency is tracked in a sorted set so the entry limit is
+ * enforced by LRU rather than relying on the server's maxmemory policy.
+ */
+export class RedisCacheStore implements CacheStore {
+  private connection: RespConnection;
+  private prefix: string;
+  private lruKey: string;
+  private maxEntries: number;
+  private stats = { hits: 0, misses: 0, evictions: 0 };
+
+  constructor(config: RedisCacheStoreConfig = {}) {
+    const url = config.url ? new URL(config.url) : null;
+
+    this.connection = new RespConnection({
+      host: config.host || url?.hostname || '127.0.0.1',
+      port: config.port || (url?.port ? Number(url.port) : 6379),
+      password: config.password || (url?.password ? decodeURIComponent(url.password) : undefined),
+      db: config.db ?? (url && url.pathname.length > 1 ? Number(url.pathname.slice(1)) : undefined),
+      connectTimeoutMs: config.connectTimeoutMs ?? 5000,
+    });
+
+    this.prefix = config.keyPrefix ?? 'vivier:';
+    this.lruKey = `${this.prefix}__lru`;
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const fullKey = this.prefix + key;
+    const value = await this.run('read', ['GET', fullKey]);
+
+    if (value === null) {
+      this.stats.misses++;
+      // The entry expired on the server; drop it from the recency index too
+      await this.run('read', ['ZREM', this.lruKey, fullKey]);
+      return null;
+    }
+
+    this.stats.hits++;
+    await this.run('read', ['ZADD', this.lruKey, Date.now(), fullKey]);
+    return value as string;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    const fullKey = this.prefix + key;
+    const expiry = ttlSeconds > 0 ? ['EX', Math.ceil(ttlSeconds)] : [];
+
+    await this.run('write', ['SET', fullKey, value, ...expiry]);
+    await this.run('write', ['ZADD', this.lruKey, Date.now(), fullKey]);
+    await this.enforceLimit();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const fullKey = this.prefix + key;
+    const removed = await this.run('delete', ['DEL', fullKey]);
+    await this.run('delete', ['ZREM', this.lruKey, fullKey]);
+    return removed === 1;
+  }
+
+  async increment(key: string, amount: number, ttlSeconds: number): Promise<number> {
+    const fullKey = this.prefix + key;
+
+    // NX leaves an existing counter and its expiry untouched
+    await this.run('write', ['SET', fullKey, 0, 'EX', Math.max(1, Math.ceil(ttlSeconds)), 'NX']);
+    return await this.run('write', ['INCRBY', fullKey, amount]) as number;
+  }
+
+  async clear(): Promise<void> {
+    let cursor = '0';
+
+    do {
+      const reply = await this.run('clear', ['SCAN', cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 500]) as RespValue[];
+      cursor = reply[0] as string;
+      const keys = reply[1] as string[];
+      if (keys.length > 0) {
+        await this.run('clear', ['DEL', ...keys]);
+      }
+    } while (cursor !== '0');
+
+    this.stats = { hits: 0, misses: 0, evictions: 0 };
+  }
+
+  async getStats(): Promise<CacheStoreStats> {
+    const size = await this.run('read', ['ZCARD', this.lruKey]) as number;
+
+    return {
+      size,
+      maxEntries: this.maxEntries,
+      hits: this.stats.hits,
+      misses: this.stats.misses,
+      hitRate: computeHitRate(this.stats.hits, this.stats.misses),
+      evictions: this.stats.evictions,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.connection.close();
+  }
+
+  private async enforceLimit(): Promise<void> {
+    const size = await this.run('write', ['ZCARD', this.lruKey]) as number;
+    const excess = size - this.maxEntries;
+    if (excess <= 0) {
+      return;
+    }
+
+    const oldest = await this.run('write', ['ZRANGE', this.lruKey, 0, excess - 1]) as string[];
+    if (oldest.length > 0) {
+      await this.run('write', ['DEL', ...oldest]);
+      await this.run('write', ['ZREM', this.lruKey, ...oldest]);
+      this.stats.evictions += oldest.length;
+    }
+  }
+
+  private async run(
+    operation: 'read' | 'write' | 'delete' | 'clear',
+    args: Array<string | number>
+  ): Promise<RespValue> {
+    try {
+      return await this.connection.command(args);
+    } catch (error) {
+      throw new CacheError(`Redis ${args[0]} failed: ${(error as Error).message}`, operation, error);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { CacheError } from '../errors';
+import {
+  CacheStore,
+  CacheStoreOptions,
+  CacheStoreStats,
+  DEFAULT_MAX_ENTRIES,
+  computeHitRate,
+} from './cache-store';
+
+export interface SqliteCacheStoreConfig extends CacheStoreOptions {
+  // File path, or ':memory:' for a throwaway store
+  path: string;
+}
+
+/**
+ * CacheStore in a local SQLite file. Survives restarts on a persistent volume
+ * and can be shared by processes on the same host; WAL mode keeps readers from
+ * blocking the writer.
+ */
+export class SqliteCacheStore implements CacheStore {
+  private db: Database.Database;
+  private prefix: string;
+  private maxEntries: number;
+  private stats = { hits: 0, misses: 0, evictions: 0 };
+
+  constructor(config: SqliteCacheStoreConfig) {
+    try {
+      if (config.path !== ':memory:') {
+        fs.mkdirSync(path.dirname(config.path), { recursive: true });
+      }
+      this.db = new Database(config.path);
+      this.db.pragma('journal_mode = WAL');
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS cache_entries (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          expires_at INTEGER,
+          accessed_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_cache_entries_accessed_at ON cache_entries(accessed_at);
+        CREATE TABLE IF NOT EXISTS cache_counters (
+          key TEXT PRIMARY KEY,
+          value INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL
+        );
+      `);
+    } catch (error) {
+      throw new CacheError(`Failed to open SQLite cache at ${config.path}`, 'read', error);
+    }
+
+    this.prefix = config.keyPrefix ?? '';
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.run('read', () => {
+      const now = Date.now();
+      const row = this.db
+        .prepare('SELECT value, expires_at FROM cache_entries WHERE key = ?')
+        .get(this.prefix + key) as { value: string; expires_at: number | null } | undefined;
+
+      if (!row || (row.expires_at !== null && row.expires_at <= now)) {
+        if (row) {
+          this.db.prepare('DELETE FROM cache_entries WHERE key = ?').run(this.prefix + key);
+        }
+        this.stats.misses++;
+        return null;
+      }
+
+      this.db.prepare('UPDATE cache_entries SET accessed_at = ? WHERE key = ?').run(now, this.prefix + key);
+      this.stats.hits++;
+      return row.value;
+    });
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    return this.run('write', () => {
+      const now = Date.now();
+      const expiresAt = ttlSeconds > 0 ? now + ttlSeconds * 1000 : null;
+
+      this.db.transaction(() => {
+        this.db
+          .prepare(`
+            INSERT INTO cache_entries (key, value, expires_at, accessed_at) VALUES (?, ?, ?, ?)
+            ON CONFLICT(key) DO UPDATE SET value = excluded.value,
+              expires_at = excluded.expires_at, accessed_at = excluded.accessed_at
+          `)
+          .run(this.prefix + key, value, expiresAt, now);
+        this.enforceLimit(now);
+      })();
+    });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.run('delete', () =>
+      this.db.prepare('DELETE FROM cache_entries WHERE key = ?').run(this.prefix + key).changes > 0
+    );
+  }
+
+  async increment(key: string, amount: number, ttlSeconds: number): Promise<number> {
+    return this.run('write', () => {
+      const now = Date.now();
+      const row = this.db
+        .prepare(`
+          INSERT INTO cache_counters (key, value, expires_at) VALUES (?, ?, ?)
+          ON CONFLICT(key) DO UPDATE SET
+            value = CASE WHEN cache_counters.expires_at <= ? THEN excluded.value ELSE cache_counters.value + excluded.value END,
+            expires_at = CASE WHEN cache_counters.expires_at <= ? THEN excluded.expires_at ELSE cache_counters.expires_at END
+          RETURNING value
+        `)
+        .get(this.prefix + key, amount, now + ttlSeconds * 1000, now, now) as { value: number };
+
+      return row.value;
+    });
+  }
+
+  async clear(): Promise<void> {
+    return this.run('clear', () => {
+      this.db.exec('DELETE FROM cache_entries; DELETE FROM cache_counters;');
+      this.stats = { hits: 0, misses: 0, evictions: 0 };
+    });
+  }
+
+  async getStats(): Promise<CacheStoreStats> {
+    return this.run('read', () => {
+      const { size } = this.db
+        .prepare('SELECT COUNT(*) AS size FROM cache_entries WHERE expires_at IS NULL OR expires_at > ?')
+        .get(Date.now()) as { size: number };
+
+      return {
+        size,
+        maxEntries: this.maxEntries,
+        hits: this.stats.hits,
+        misses: this.stats.misses,
+        hitRate: computeHitRate(this.stats.hits, this.stats.misses),
+        evictions: this.stats.evictions,
+      };
+    });
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  // Expired rows go first, then the least recently read ones
+  private enforceLimit(now: number): void {
+    this.db.prepare('DELETE FROM cache_entries WHERE expires_at IS NOT NULL AND expires_at <= ?').run(now);
+    this.db.prepare('DELETE FROM cache_counters WHERE expires_at <= ?').run(now);
+
+    const { size } = this.db.prepare('SELECT COUNT(*) AS size FROM cache_entries').get() as { size: number };
+    const excess = size - this.maxEntries;
+    if (excess > 0) {
+      this.db
+        .prepare('DELETE FROM cache_entries WHERE key IN (SELECT key FROM cache_entries ORDER BY accessed_at ASC LIMIT ?)')
+        .run(excess);
+      this.stats.evictions += excess;
+    }
+  }
+
+  private run<T>(operation: 'read' | 'write' | 'delete' | 'clear', fn: () => T): Promise<T> {
+    try {
+      return Promise.resolve(fn());
+    } catch (error) {
+      return Promise.reject(new CacheError(`SQLite cache ${operation} failed`, operation, error));
+    }
+  }
+}
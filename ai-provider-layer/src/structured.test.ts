@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { generateStructuredOutput, extractJson, describeSchema } from './structured';
+import { AIGenerationInput, AIResponse } from './interface';
+import { StructuredOutputError } from './errors';
+
+function createProvider(outputs: string[]) {
+  const calls: AIGenerationInput[] = [];
+  const provider = {
+    generateResponse: async (input: AIGenerationInput): Promise<AIResponse> => {
+      calls.push(input);
+      return {
+        text: outputs[calls.length - 1],
+        model: 'test',
+        tokensUsed: 10,
+        responseTimeMs: 1,
+      };
+    },
+  };
+  return { provider, calls };
+}
+
+describe('generateStructuredOutput', () => {
+  const schema = z.object({
+    sentiment: z.enum(['positive', 'negative']),
+    score: z.number(),
+  });
+  const input: AIGenerationInput = {
+    messages: [{ role: 'user', content: 'Analyze: great work!' }],
+  };
+
+  it('should request JSON and return validated data', async () => {
+    const { provider, calls } = createProvider(['{"sentiment":"positive","score":0.9}']);
+
+    const response = await generateStructuredOutput(provider, input, schema);
+
+    expect(response.data).toEqual({ sentiment: 'positive', score: 0.9 });
+    expect(response.repairAttempts).toBe(0);
+    expect(calls[0].options?.responseFormat).toBe('json');
+    expect(calls[0].messages[0].content).toContain('"sentiment": "positive" | "negative"');
+  });
+
+  it('should retry with a repair prompt when validation fails', async () => {
+    const { provider, calls } = createProvider([
+      'Sure! {"sentiment":"happy","score":0.9}',
+      '```json\n{"sentiment":"positive","score":0.9}\n```',
+    ]);
+
+    const response = await generateStructuredOutput(provider, input, schema);
+
+    expect(response.data.sentiment).toBe('positive');
+    expect(response.repairAttempts).toBe(1);
+    expect(response.tokensUsed).toBe(20);
+    expect(calls[1].messages[calls[1].messages.length - 1].content).toContain('sentiment');
+  });
+
+  it('should throw StructuredOutputError after the repair attempts run out', async () => {
+    const { provider } = createProvider(['not json', 'still not json']);
+
+    await expect(
+      generateStructuredOutput(provider, input, schema, { maxRepairAttempts: 1 })
+    ).rejects.toThrow(StructuredOutputError);
+  });
+
+  it('should extract JSON wrapped in prose', () => {
+    expect(extractJson('Here you go: {"a": [1, 2]} Thanks')).toBe('{"a": [1, 2]}');
+  });
+
+  it('should describe nullable fields as allowing null', () => {
+    const assignment = z.object({ category: z.string().nullable(), confidence: z.number() });
+
+    expect(describeSchema(assignment)).toBe('{ "category": string | null, "confidence": number }');
+  });
+});
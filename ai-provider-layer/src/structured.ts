@@ -0,0 +1,187 @@
+import { ZodType, ZodTypeAny, ZodTypeDef, ZodFirstPartyTypeKind } from 'zod';
+import {
+  AIProvider,
+  AIGenerationInput,
+  Message,
+  StructuredOutputOptions,
+  StructuredResponse,
+} from './interface';
+import { StructuredOutputError } from './errors';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+export interface StructuredParseResult<T> {
+  success: boolean;
+  data?: T;
+  issues: string[];
+}
+
+/**
+ * Shared implementation of AIProvider.generateStructured: asks the provider for
+ * JSON, validates it against the schema and feeds validation errors back as a
+ * repair prompt until the output parses or the attempts run out.
+ */
+export async function generateStructuredOutput<T>(
+  provider: Pick<AIProvider, 'generateResponse'>,
+  input: AIGenerationInput,
+  schema: ZodType<T, ZodTypeDef, any>,
+  options: StructuredOutputOptions = {}
+): Promise<StructuredResponse<T>> {
+  const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  const messages = withSchemaInstructions(input.messages, schema, options.schemaName);
+
+  let totalTokens = 0;
+  let lastOutput = '';
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    const response = await provider.generateResponse({
+      ...input,
+      messages,
+      options: {
+        ...input.options,
+        temperature: input.options?.temperature ?? 0.2,
+        responseFormat: 'json',
+      },
+    });
+
+    totalTokens += response.tokensUsed;
+    lastOutput = response.text;
+
+    const result = parseStructuredOutput(response.text, schema);
+    if (result.success) {
+      return {
+        ...response,
+        tokensUsed: totalTokens,
+        data: result.data,
+        repairAttempts: attempt,
+      };
+    }
+
+    issues = result.issues;
+    messages.push(
+      { role: 'assistant', content: response.text },
+      { role: 'user', content: buildRepairPrompt(issues) }
+    );
+  }
+
+  throw new StructuredOutputError(
+    `Model output did not match the ${options.schemaName || 'expected'} schema`,
+    lastOutput,
+    issues,
+    maxRepairAttempts + 1
+  );
+}
+
+export function parseStructuredOutput<T>(
+  text: string,
+  schema: ZodType<T, ZodTypeDef, any>
+): StructuredParseResult<T> {
+  let json: unknown;
+
+  try {
+    json = JSON.parse(extractJson(text));
+  } catch (error) {
+    return { success: false, issues: [`Output is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data, issues: [] };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue =>
+      `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`
+    ),
+  };
+}
+
+// Models often wrap JSON in markdown fences or add a sentence around it
+export function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  const start = candidate.search(/[{[]/);
+  if (start === -1) {
+    return candidate;
+  }
+
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  return end > start ? candidate.slice(start, end + 1) : candidate.slice(start);
+}
+
+/**
+ * Renders a zod schema as a compact TypeScript-like shape for the prompt.
+ * Only the types used by our analysis schemas are described precisely.
+ */
+export function describeSchema(schema: ZodTypeAny): string {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = def.shape();
+      const fields = Object.entries(shape).map(([key, value]) => {
+        const field = value as ZodTypeAny;
+        const optional = field.isOptional() ? '?' : '';
+        const description = field.description ? ` // ${field.description}` : '';
+        return `"${key}"${optional}: ${describeSchema(field)}${description}`;
+      });
+      return `{ ${fields.join(', ')} }`;
+    }
+    case ZodFirstPartyTypeKind.ZodArray:
+      return `Array<${describeSchema(def.type)}>`;
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return def.values.map((value: string) => `"${value}"`).join(' | ');
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return JSON.stringify(def.value);
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return def.options.map((option: ZodTypeAny) => describeSchema(option)).join(' | ');
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return `Record<string, ${describeSchema(def.valueType)}>`;
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return describeSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return `${describeSchema(def.innerType)} | null`;
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return describeSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return describeSchema(def.schema);
+    case ZodFirstPartyTypeKind.ZodString:
+      return 'string';
+    case ZodFirstPartyTypeKind.ZodNumber:
+      return 'number';
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return 'boolean';
+    default:
+      return 'any';
+  }
+}
+
+function withSchemaInstructions(
+  messages: Message[],
+  schema: ZodTypeAny,
+  schemaName?: string
+): Message[] {
+  const instructions = `Respond with a single JSON object${schemaName ? ` (${schemaName})` : ''} and nothing else. ` +
+    `It must match this shape:\n${describeSchema(schema)}`;
+
+  const systemIndex = messages.findIndex(message => message.role === 'system');
+  if (systemIndex === -1) {
+    return [{ role: 'system', content: instructions }, ...messages];
+  }
+
+  return messages.map((message, index) =>
+    index === systemIndex
+      ? { ...message, content: `${message.content}\n\n${instructions}` }
+      : message
+  );
+}
+
+function buildRepairPrompt(issues: string[]): string {
+  return `Your previous response could not be used:
+- ${issues.join('\n- ')}
+
+Reply again with only the corrected JSON object.`;
+}
@@ -0,0 +1,53 @@
+import { SentMailSample, StyleProfileBuilder, formatStyleProfile } from './style-profile';
+import { EmailPromptBuilder } from './prompts/email-response';
+
+function sent(subject: string, text: string, extra: Partial<SentMailSample> = {}): SentMailSample {
+  return { subject, body: { text }, ...extra };
+}
+
+const casualMailbox: SentMailSample[] = [
+  sent('Re: Friday', 'Hey Tom,\nSounds good, let me know if anything changes before Friday. I\'ll bring the slides and we can go through them together!\nCheers,\nAnna\n\nOn Mon, Tom wrote:\n> Can we meet Friday?'),
+  sent('Re: Budget', 'Hey Sarah,\nThanks for the numbers. Let me know if the budget moves again, I\'ll update the plan.\nCheers,\nAnna'),
+  sent('Lunch', 'Hey team,\nLunch is on me today. Let me know if you have any allergies!\nCheers,\nAnna'),
+  sent('Re: Contract', 'Hi Mark,\nGot it, I\'ll sign it tonight. Let me know if you need the scan too.\nCheers,\nAnna\n--\nAnna Berg | +49 30 1234567'),
+  sent('Re: Offsite', 'Hey Jo,\nLove the venue. Can you send me the quote so I can approve it?\nThanks,\nAnna'),
+  sent('Fwd: Invoice', 'Hey, see below.'),
+  sent('Draft', 'Hey Ben,\nNot done yet.', { isDraft: true }),
+];
+
+describe('StyleProfileBuilder', () => {
+  it('learns greetings, sign-offs, length, tone and phrases from sent mail', async () => {
+    const fetchEmails = jest.fn(async () => casualMailbox);
+    const profile = await new StyleProfileBuilder().fromMailbox({ fetchEmails });
+
+    expect(fetchEmails).toHaveBeenCalledWith({ folder: 'sent', limit: 50 });
+    expect(profile).toMatchObject({
+      greetings: ['Hey {name},', 'Hey team,', 'Hi {name},'],
+      signOffs: ['Cheers,', 'Thanks,'],
+      formality: 'casual',
+      commonPhrases: ['let me know if'],
+      sampleSize: 5,
+    });
+    expect(profile!.typicalLength).toBeGreaterThan(5);
+
+    // Quoted history and signatures are not part of the examples
+    const bodies = profile!.examples.map(example => example.body).join('\n');
+    expect(bodies).not.toContain('Can we meet Friday');
+    expect(bodies).not.toContain('+49');
+  });
+
+  it('needs a few usable emails before building a profile', () => {
+    expect(new StyleProfileBuilder().build(casualMailbox.slice(0, 3))).toBeNull();
+  });
+
+  it('adds the profile to the system prompt as instructions and examples', () => {
+    const profile = new StyleProfileBuilder({ maxExamples: 1 }).build(casualMailbox)!;
+    const builder = new EmailPromptBuilder();
+    const prompt = builder.buildSystemPrompt('casual', profile);
+
+    expect(prompt.startsWith(builder.buildSystemPrompt('casual'))).toBe(true);
+    expect(prompt).toContain(formatStyleProfile(profile));
+    expect(prompt).toContain('- Greetings they use: "Hey {name},"');
+    expect(prompt.match(/<example>/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,286 @@
+import { StyleProfile } from './interface';
+import { EmailBodyParser } from './summarizer';
+
+// Structurally matches EmailProvider and Email from the email-providers package,
+// so a connected mailbox can be passed in directly
+export interface SentMailSource {
+  fetchEmails(options?: { folder?: string; limit?: number }): Promise<SentMailSample[]>;
+}
+
+export interface SentMailSample {
+  subject: string;
+  body: { text: string };
+  isDraft?: boolean;
+}
+
+export interface StyleProfileBuilderOptions {
+  // Strips quoted history; without one, common reply markers are cut instead
+  parser?: Pick<EmailBodyParser, 'extractQuotedText'>;
+  // Sent emails fetched per build (default: 50)
+  sampleSize?: number;
+  maxExamples?: number;
+}
+
+interface AnalyzedEmail {
+  subject: string;
+  text: string;
+  greeting?: string;
+  signOff?: string;
+  words: string[];
+  formality: number;
+}
+
+// Fewer usable emails than this say more about the emails than about the user
+const MIN_SAMPLES = 5;
+const MAX_PHRASES = 8;
+const MAX_HABITS = 3;
+const EXAMPLE_MIN_WORDS = 15;
+const EXAMPLE_MAX_WORDS = 150;
+const EXAMPLE_MAX_LENGTH = 1200;
+
+const GREETING = /^(good (?:morning|afternoon|evening)|hi|hello|hey|dear|morning|greetings|hallo|bonjour|hola|ciao)\b(\s+(?:all|team|everyone|both|there|folks|guys))?(.*?)([,!:.]?)$/i;
+const SIGN_OFF = /^(best|best regards|kind regards|warm regards|regards|many thanks|thanks|thank you|thx|cheers|sincerely|yours|all the best|talk soon|speak soon|take care)\b[^.?]{0,20}[,!.]?$/i;
+const QUOTE_MARKERS = [/^On .+ wrote:$/m, /^-{2,}\s*Original Message\s*-{2,}$/mi, /^From:\s.*$/m, /^>/m];
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'i', 'in', 'is', 'it', 'me',
+  'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'we', 'with', 'you', 'your',
+]);
+
+/**
+ * Learns greeting and sign-off habits, typical length, formality and
+ * recurring phrases from the user's sent mail. The resulting profile is
+ * passed as EmailContext.styleProfile so drafts sound like the user.
+ */
+export class StyleProfileBuilder {
+  constructor(private options: StyleProfileBuilderOptions = {}) {}
+
+  // Null when the mailbox has too little sent mail to learn from
+  async fromMailbox(source: SentMailSource): Promise<StyleProfile | null> {
+    const emails = await source.fetchEmails({ folder: 'sent', limit: this.options.sampleSize ?? 50 });
+    return this.build(emails);
+  }
+
+  build(emails: SentMailSample[]): StyleProfile | null {
+    const analyzed = emails
+      .filter(email => !email.isDraft && !/^\s*(fwd?|fw):/i.test(email.subject))
+      .map(email => this.analyze(email))
+      .filter((email): email is AnalyzedEmail => email !== null);
+
+    if (analyzed.length < MIN_SAMPLES) {
+      return null;
+    }
+
+    const lengths = analyzed.map(email => email.words.length).sort((a, b) => a - b);
+    const typicalLength = lengths[Math.floor(lengths.length / 2)];
+    const formality = analyzed.reduce((sum, email) => sum + email.formality, 0) / analyzed.length;
+
+    return {
+      greetings: mostFrequent(analyzed.map(email => email.greeting), MAX_HABITS),
+      signOffs: mostFrequent(analyzed.map(email => email.signOff), MAX_HABITS),
+      typicalLength,
+      formality: formality >= 0.75 ? 'formal' : formality <= -0.75 ? 'casual' : 'neutral',
+      commonPhrases: commonPhrases(analyzed),
+      examples: this.pickExamples(analyzed, typicalLength),
+      sampleSize: analyzed.length,
+    };
+  }
+
+  private analyze(email: SentMailSample): AnalyzedEmail | null {
+    const lines = this.stripQuoted(email.body?.text || '')
+      .split(/\r?\n/)
+      .map(line => line.trim());
+
+    // Signature delimiters and mobile footers end the message
+    const end = lines.findIndex(line => line === '--' || /^sent from my /i.test(line));
+    const content = (end >= 0 ? lines.slice(0, end) : lines).filter(line => line.length > 0);
+    if (content.length === 0) {
+      return null;
+    }
+
+    const greeting = normalizeGreeting(content[0]);
+    const signOffIndex = findSignOff(content);
+    const body = content.slice(greeting ? 1 : 0, signOffIndex >= 0 ? signOffIndex : undefined).join(' ');
+    const words = body.split(/\s+/).filter(word => /\w/.test(word));
+
+    if (words.length < 3) {
+      return null;
+    }
+
+    return {
+      subject: email.subject,
+      text: content.join('\n'),
+      greeting,
+      signOff: signOffIndex >= 0 ? content[signOffIndex] : undefined,
+      words,
+      formality: scoreFormality(body, greeting, signOffIndex >= 0 ? content[signOffIndex] : undefined),
+    };
+  }
+
+  private stripQuoted(text: string): string {
+    if (this.options.parser) {
+      return this.options.parser.extractQuotedText(text).content;
+    }
+
+    let end = text.length;
+    for (const marker of QUOTE_MARKERS) {
+      const match = text.match(marker);
+      if (match?.index !== undefined && match.index < end) {
+        end = match.index;
+      }
+    }
+    return text.slice(0, end);
+  }
+
+  // Emails of typical length that show the user's greeting or sign-off
+  private pickExamples(emails: AnalyzedEmail[], typicalLength: number): StyleProfile['examples'] {
+    const subjects = new Set<string>();
+
+    return emails
+      .filter(email => email.words.length >= EXAMPLE_MIN_WORDS && email.words.length <= EXAMPLE_MAX_WORDS)
+      .filter(email => email.greeting || email.signOff)
+      .sort((a, b) => Math.abs(a.words.length - typicalLength) - Math.abs(b.words.length - typicalLength))
+      .filter(email => {
+        const subject = email.subject.replace(/^\s*re:\s*/i, '').toLowerCase();
+        if (subjects.has(subject)) {
+          return false;
+        }
+        subjects.add(subject);
+        return true;
+      })
+      .slice(0, this.options.maxExamples ?? 3)
+      .map(email => ({ subject: email.subject, body: email.text.slice(0, EXAMPLE_MAX_LENGTH) }));
+  }
+}
+
+/**
+ * Renders a profile as instructions plus few-shot examples for the system
+ * prompt. Examples show the voice; their content must not be reused.
+ */
+export function formatStyleProfile(profile: StyleProfile): string {
+  const lines: string[] = ['Write the way the user writes. From their sent emails:'];
+
+  if (profile.greetings.length > 0) {
+    lines.push(`- Greetings they use: ${profile.greetings.map(quote).join(', ')}`);
+  }
+  if (profile.signOffs.length > 0) {
+    lines.push(`- Sign-offs they use: ${profile.signOffs.map(quote).join(', ')}`);
+  }
+  lines.push(`- Typical length: about ${profile.typicalLength} words`);
+  lines.push(`- Tone: ${profile.formality}`);
+  if (profile.commonPhrases.length > 0) {
+    lines.push(`- Phrases they often use: ${profile.commonPhrases.map(quote).join(', ')}`);
+  }
+
+  if (profile.examples.length > 0) {
+    lines.push('');
+    lines.push('Emails they wrote. Match the voice, not the content:');
+    for (const example of profile.examples) {
+      lines.push('<example>');
+      lines.push(`Subject: ${example.subject}`);
+      lines.push(example.body);
+      lines.push('</example>');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// "Hi Sarah," and "Hi Tom," are the same habit: "Hi {name},"
+function normalizeGreeting(line: string): string | undefined {
+  if (line.length > 60) {
+    return undefined;
+  }
+
+  const match = line.match(GREETING);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, word, group = '', rest, punctuation] = match;
+  return `${word}${group}${rest.trim() ? ' {name}' : ''}${punctuation}`;
+}
+
+// The sign-off is the last or second to last line, the latter followed by the user's name
+function findSignOff(lines: string[]): number {
+  for (const index of [lines.length - 1, lines.length - 2]) {
+    if (index > 0 && lines[index].length <= 40 && SIGN_OFF.test(lines[index])) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+// Positive for formal writing, negative for casual
+function scoreFormality(body: string, greeting?: string, signOff?: string): number {
+  let score = 0;
+
+  if (greeting && /^(dear|good (morning|afternoon|evening))/i.test(greeting)) score += 1;
+  if (greeting && /^(hey|morning)\b/i.test(greeting)) score -= 1;
+  if (signOff && /^(kind regards|best regards|warm regards|regards|sincerely|yours)/i.test(signOff)) score += 1;
+  if (signOff && /^(cheers|thx|talk soon|speak soon)/i.test(signOff)) score -= 1;
+  if (/\b\w+'(s|re|ll|ve|d|m|t)\b/i.test(body)) score -= 0.5;
+  if (/!|\p{Extended_Pictographic}/u.test(body)) score -= 0.5;
+  if (/\b(lol|haha|btw|gonna|wanna)\b/i.test(body)) score -= 1;
+  if (/\b(please find|i would like to|kindly|further to)\b/i.test(body)) score += 1;
+
+  return score;
+}
+
+// Three- and four-word phrases that recur across several emails
+function commonPhrases(emails: AnalyzedEmail[]): string[] {
+  const counts = new Map<string, number>();
+
+  for (const email of emails) {
+    const words = email.words.map(word => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '')).filter(Boolean);
+    const seen = new Set<string>();
+
+    for (const size of [3, 4]) {
+      for (let i = 0; i + size <= words.length; i++) {
+        const phrase = words.slice(i, i + size);
+        if (phrase.every(word => STOPWORDS.has(word))) {
+          continue;
+        }
+        seen.add(phrase.join(' '));
+      }
+    }
+
+    for (const phrase of seen) {
+      counts.set(phrase, (counts.get(phrase) || 0) + 1);
+    }
+  }
+
+  const minCount = Math.max(3, Math.ceil(emails.length * 0.1));
+  const candidates = Array.from(counts.entries())
+    .filter(([, count]) => count >= minCount)
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length);
+
+  // Overlapping phrases are reported once; on equal counts the longer one wins
+  const phrases: string[] = [];
+  for (const [phrase] of candidates) {
+    if (!phrases.some(chosen => chosen.includes(phrase) || phrase.includes(chosen))) {
+      phrases.push(phrase);
+    }
+    if (phrases.length >= MAX_PHRASES) {
+      break;
+    }
+  }
+  return phrases;
+}
+
+function mostFrequent(values: Array<string | undefined>, limit: number): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+function quote(value: string): string {
+  return `"${value}"`;
+}
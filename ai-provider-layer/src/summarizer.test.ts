@@ -0,0 +1,108 @@
+import { AIGenerationInput, Email } from './interface';
+import { ThreadSummarizer } from './summarizer';
+import { tokenizers } from './tokenizer';
+
+// Stands in for EmailParser from the email-providers package
+const parser = {
+  extractQuotedText: (body: string) => ({ content: body.split(/^On .+ wrote:$/m)[0].trim() }),
+  extractSignature: (body: string) => ({ content: body.split(/^--\s*$/m)[0].trim() }),
+};
+
+function createProvider() {
+  const prompts: string[] = [];
+  const provider = {
+    generateResponse: jest.fn(async (input: AIGenerationInput) => {
+      const prompt = input.messages[1].content;
+      prompts.push(prompt);
+      return {
+        text: prompt.startsWith('Combine') ? 'merged summary' : `summary of ${prompt.split(':')[0]}`,
+        model: 'test-model',
+        tokensUsed: 0,
+        responseTimeMs: 0,
+      };
+    }),
+    getModelInfo: jest.fn(() => ({
+      name: 'gpt-4',
+      provider: 'test',
+      version: '1',
+      contextWindow: 8192,
+      maxOutputTokens: 1000,
+      costPer1kTokens: { input: 0, output: 0 },
+      capabilities: [] as string[],
+      recommendedUseCase: 'tests',
+    })),
+    getTokenCount: jest.fn((text: string) => tokenizers.count(text, 'gpt-4')),
+  };
+  return { provider, prompts };
+}
+
+function createThread(length: number): Email[] {
+  return Array.from({ length }, (_, i) => ({
+    id: `email-${i + 1}`,
+    from: `person${i % 3}@example.com`,
+    to: ['team@example.com'],
+    subject: 'Re: Q3 launch plan',
+    body: `Update ${i + 1}: the launch checklist item ${i + 1} is done.\n\nOn Mon, Jan 1, 2024 someone wrote:\n> ${'earlier reply '.repeat(40)}\n--\nJane Doe\nProduct Lead`,
+    timestamp: new Date(Date.UTC(2024, 0, 1, i)),
+  }));
+}
+
+describe('ThreadSummarizer', () => {
+  it('summarizes a short thread in a single call', async () => {
+    const { provider, prompts } = createProvider();
+    const summarizer = new ThreadSummarizer(provider, { parser });
+
+    const result = await summarizer.summarize(createThread(3));
+
+    expect(provider.generateResponse).toHaveBeenCalledTimes(1);
+    expect(result.summary).toBe('summary of Summarize emails 1-3 of a 3-email thread');
+    expect(prompts[0]).toContain('checklist item 3 is done');
+    expect(prompts[0]).not.toContain('earlier reply');
+    expect(prompts[0]).not.toContain('Product Lead');
+  });
+
+  it('chunks long threads by token budget and merges the chunk summaries', async () => {
+    const { provider, prompts } = createProvider();
+    const summarizer = new ThreadSummarizer(provider, { chunkTokens: 1500 });
+
+    const result = await summarizer.summarize(createThread(50));
+
+    expect(result.chunks.length).toBeGreaterThan(1);
+    expect(result.chunks.flatMap(chunk => chunk.emailIds)).toHaveLength(50);
+    expect(result.summary).toBe('merged summary');
+    prompts.forEach(prompt => expect(tokenizers.count(prompt, 'gpt-4')).toBeLessThanOrEqual(1500));
+  });
+
+  it('only re-summarizes the tail when a reply arrives', async () => {
+    const { provider } = createProvider();
+    const summarizer = new ThreadSummarizer(provider, { parser, maxEmailsPerChunk: 10 });
+    const thread = createThread(30);
+
+    const previous = await summarizer.summarize(thread);
+    expect(previous.chunks).toHaveLength(3);
+    provider.generateResponse.mockClear();
+
+    const updated = await summarizer.update(previous, thread.concat(createThread(31).slice(30)));
+
+    // The last chunk is rebuilt with the reply, then merged with the two kept chunks
+    expect(provider.generateResponse).toHaveBeenCalledTimes(3);
+    expect(updated.chunks.slice(0, 2)).toEqual(previous.chunks.slice(0, 2));
+    expect(updated.chunks.slice(2).flatMap(chunk => chunk.emailIds)).toEqual(
+      thread.slice(20).map(email => email.id).concat('email-31')
+    );
+    expect(updated.emailCount).toBe(31);
+  });
+
+  it('starts over when earlier emails changed', async () => {
+    const { provider } = createProvider();
+    const summarizer = new ThreadSummarizer(provider, { maxEmailsPerChunk: 10 });
+    const thread = createThread(20);
+
+    const previous = await summarizer.summarize(thread);
+    provider.generateResponse.mockClear();
+
+    await summarizer.update(previous, thread.slice(1));
+
+    expect(provider.generateResponse).toHaveBeenCalledTimes(3);
+  });
+});
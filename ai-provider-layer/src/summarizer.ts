@@ -0,0 +1,214 @@
+import { AIProvider, Email } from './interface';
+import { EmailPromptBuilder, PromptOptimizer } from './prompts/email-response';
+
+// Structurally matches EmailParser from the email-providers package, so it can be
+// passed in directly without this package depending on it
+export interface EmailBodyParser {
+  extractQuotedText(body: string): { content: string };
+  extractSignature(body: string): { content: string };
+}
+
+export interface ThreadSummarizerOptions {
+  // Strips quoted history and signatures before counting tokens; without one, bodies are used as-is
+  parser?: EmailBodyParser;
+  // Prompt budget for each map or reduce call; defaults to half the context window, capped at 8k
+  chunkTokens?: number;
+  maxEmailsPerChunk?: number;
+  summaryTokens?: number;
+}
+
+export interface ThreadChunkSummary {
+  emailIds: string[];
+  summary: string;
+}
+
+// Keep the whole object between calls: update() reuses every chunk but the last
+export interface ThreadSummary {
+  summary: string;
+  chunks: ThreadChunkSummary[];
+  emailCount: number;
+}
+
+type SummarizerProvider = Pick<AIProvider, 'generateResponse' | 'getModelInfo' | 'getTokenCount'>;
+
+const MAX_CHUNK_TOKENS = 8000;
+const DEFAULT_MAX_EMAILS_PER_CHUNK = 20;
+const DEFAULT_SUMMARY_TOKENS = 500;
+// Instructions around the emails or summaries in each prompt
+const PROMPT_OVERHEAD_TOKENS = 200;
+// From/Date/Subject lines and separators around each body
+const EMAIL_HEADER_TOKENS = 30;
+
+/**
+ * Map-reduce summarizer for threads too long for one prompt. Emails are grouped
+ * into chunks by count and token budget, each chunk is summarized, and the chunk
+ * summaries are merged, in several rounds if they do not fit one prompt.
+ */
+export class ThreadSummarizer {
+  private promptBuilder = new EmailPromptBuilder();
+
+  constructor(private provider: SummarizerProvider, private options: ThreadSummarizerOptions = {}) {}
+
+  async summarize(thread: Email[]): Promise<ThreadSummary> {
+    const chunks = await this.summarizeChunks(thread, 0, thread.length);
+
+    return {
+      summary: await this.merge(chunks.map(chunk => chunk.summary), thread.length),
+      chunks,
+      emailCount: thread.length,
+    };
+  }
+
+  /**
+   * Brings a previous summary up to date with new replies. Only the last chunk
+   * and the new emails are summarized again before the merge; a thread whose
+   * earlier emails changed is summarized from scratch.
+   */
+  async update(previous: ThreadSummary, thread: Email[]): Promise<ThreadSummary> {
+    const previousIds = previous.chunks.flatMap(chunk => chunk.emailIds);
+
+    if (!previousIds.every((id, index) => thread[index]?.id === id)) {
+      return this.summarize(thread);
+    }
+
+    if (thread.length === previousIds.length) {
+      return previous;
+    }
+
+    // The last chunk may have room for the new replies, so it is rebuilt with them
+    const kept = previous.chunks.slice(0, -1);
+    const start = kept.reduce((count, chunk) => count + chunk.emailIds.length, 0);
+    const chunks = kept.concat(await this.summarizeChunks(thread.slice(start), start, thread.length));
+
+    return {
+      summary: await this.merge(chunks.map(chunk => chunk.summary), thread.length),
+      chunks,
+      emailCount: thread.length,
+    };
+  }
+
+  private async summarizeChunks(emails: Email[], firstIndex: number, totalEmails: number): Promise<ThreadChunkSummary[]> {
+    const groups = this.chunk(emails.map(email => this.prepare(email)));
+    const starts = groups.map((_, i) => firstIndex + groups.slice(0, i).reduce((sum, group) => sum + group.length, 0));
+
+    return Promise.all(groups.map(async (group, i) => ({
+      emailIds: group.map(email => email.id),
+      summary: await this.generate(this.promptBuilder.buildThreadChunkPrompt(group, starts[i], totalEmails)),
+    })));
+  }
+
+  private async merge(summaries: string[], totalEmails: number): Promise<string> {
+    if (summaries.length <= 1) {
+      return summaries[0] || '';
+    }
+
+    const budget = this.chunkTokens() - PROMPT_OVERHEAD_TOKENS;
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let used = 0;
+
+    for (const summary of summaries) {
+      const tokens = this.provider.getTokenCount(summary);
+      // At least two per batch so every round shrinks the list
+      if (current.length >= 2 && used + tokens > budget) {
+        batches.push(current);
+        current = [];
+        used = 0;
+      }
+      current.push(summary);
+      used += tokens;
+    }
+    batches.push(current);
+
+    if (batches.length === 1) {
+      return this.generate(this.promptBuilder.buildSummaryMergePrompt(summaries, totalEmails));
+    }
+
+    const merged = await Promise.all(batches.map(batch =>
+      batch.length > 1
+        ? this.generate(this.promptBuilder.buildSummaryMergePrompt(batch, totalEmails))
+        : Promise.resolve(batch[0])
+    ));
+    return this.merge(merged, totalEmails);
+  }
+
+  private chunk(emails: Email[]): Email[][] {
+    const budget = this.chunkTokens() - PROMPT_OVERHEAD_TOKENS;
+    const maxEmails = this.options.maxEmailsPerChunk ?? DEFAULT_MAX_EMAILS_PER_CHUNK;
+    const chunks: Email[][] = [];
+    let current: Email[] = [];
+    let used = 0;
+
+    for (const email of emails) {
+      const tokens = this.emailTokens(email);
+      if (current.length > 0 && (used + tokens > budget || current.length >= maxEmails)) {
+        chunks.push(current);
+        current = [];
+        used = 0;
+      }
+      current.push(email);
+      used += tokens;
+    }
+
+    if (current.length > 0) {
+      chunks.push(current);
+    }
+    return chunks;
+  }
+
+  private prepare(email: Email): Email {
+    const body = this.clean(email.body);
+    const maxBodyTokens = this.chunkTokens() - PROMPT_OVERHEAD_TOKENS - EMAIL_HEADER_TOKENS
+      - this.provider.getTokenCount(`${email.from}${email.subject}`);
+    const model = this.provider.getModelInfo().name;
+
+    // A single oversized email still has to fit a chunk on its own
+    return { ...email, body: PromptOptimizer.truncateToTokenLimit(body, Math.max(1, maxBodyTokens), model) };
+  }
+
+  private clean(body: string): string {
+    const { parser } = this.options;
+    if (!parser) {
+      return body.trim();
+    }
+
+    // Quotes go first so a sign-off inside the quoted history is not taken for this email's signature
+    const content = parser.extractSignature(parser.extractQuotedText(body).content).content;
+
+    // A bare forward is all quoted text; keep it rather than summarizing nothing
+    return content.trim() || body.trim();
+  }
+
+  private emailTokens(email: Email): number {
+    return EMAIL_HEADER_TOKENS + this.provider.getTokenCount(`${email.from}${email.subject}${email.body}`);
+  }
+
+  private chunkTokens(): number {
+    if (this.options.chunkTokens) {
+      return this.options.chunkTokens;
+    }
+
+    const info = this.provider.getModelInfo();
+    return Math.min(MAX_CHUNK_TOKENS, Math.floor((info.contextWindow - this.summaryTokens()) / 2));
+  }
+
+  private summaryTokens(): number {
+    return this.options.summaryTokens ?? DEFAULT_SUMMARY_TOKENS;
+  }
+
+  private async generate(prompt: string): Promise<string> {
+    const response = await this.provider.generateResponse({
+      messages: [
+        { role: 'system', content: 'You are an email thread summarizer.' },
+        { role: 'user', content: prompt },
+      ],
+      task: 'summary',
+      options: {
+        temperature: 0.5,
+        maxTokens: this.summaryTokens(),
+      },
+    });
+
+    return response.text.trim();
+  }
+}
@@ -0,0 +1,74 @@
+import { extractTasks } from './tasks';
+import { ActionItem, ExtractedEntities } from './interface';
+
+const entities: ExtractedEntities = {
+  people: [],
+  dates: [
+    { text: 'Friday', date: '2026-03-06', context: 'contract deadline' },
+    { text: 'next quarter' },
+  ],
+  locations: [],
+  projects: [],
+  amounts: [
+    { text: '$12,500', value: 12500, currency: 'USD' },
+    { text: '€300', value: 300, currency: 'EUR' },
+  ],
+  contacts: [],
+  documents: [],
+  urls: [],
+};
+
+function createAnalyzer(actionItems: ActionItem[], extracted: ExtractedEntities | Error = entities) {
+  return {
+    extractActionItems: jest.fn(async () => actionItems),
+    extractEntities: jest.fn(async () => {
+      if (extracted instanceof Error) throw extracted;
+      return extracted;
+    }),
+  };
+}
+
+describe('extractTasks', () => {
+  it('attaches the due dates and amounts mentioned with each action item', async () => {
+    const analyzer = createAnalyzer([
+      { description: 'Sign the $12,500 contract', owner: 'me', deadline: 'Friday', priority: 'high', type: 'request' },
+      { description: 'Book the venue', deadline: '2026-04-01', priority: 'medium', type: 'commitment' },
+      { description: 'Plan the budget', deadline: 'next quarter', priority: 'low', type: 'request' },
+    ]);
+
+    const tasks = await extractTasks(analyzer, 'email body');
+
+    expect(analyzer.extractActionItems).toHaveBeenCalledWith('email body');
+    expect(tasks).toEqual([
+      {
+        description: 'Sign the $12,500 contract',
+        owner: 'me',
+        dueDate: '2026-03-06',
+        amounts: [{ text: '$12,500', value: 12500, currency: 'USD' }],
+        priority: 'high',
+        type: 'request',
+      },
+      expect.objectContaining({ description: 'Book the venue', dueDate: '2026-04-01', amounts: [] }),
+      expect.objectContaining({ description: 'Plan the budget', dueDate: undefined, amounts: [] }),
+    ]);
+  });
+
+  it('gives the only task of an email all of its amounts', async () => {
+    const analyzer = createAnalyzer([{ description: 'Pay the invoices', priority: 'medium', type: 'request' }]);
+
+    const [task] = await extractTasks(analyzer, 'email body');
+
+    expect(task.amounts).toHaveLength(2);
+  });
+
+  it('keeps the action items when entity extraction fails', async () => {
+    const analyzer = createAnalyzer(
+      [{ description: 'Reply to Sam', deadline: 'Friday', priority: 'low', type: 'commitment' }],
+      new Error('invalid JSON')
+    );
+
+    const tasks = await extractTasks(analyzer, 'email body');
+
+    expect(tasks).toEqual([expect.objectContaining({ description: 'Reply to Sam', dueDate: undefined, amounts: [] })]);
+  });
+});
@@ -0,0 +1,50 @@
+import { ActionItem, ExtractedEntities, ExtractedTask } from './interface';
+import { EmailAnalyzer } from './analysis';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * Extracts trackable tasks from an email: its action items, with due dates
+ * and amounts taken from the entities mentioned alongside them. Entities only
+ * add detail, so the action items are returned even when their extraction fails.
+ */
+export async function extractTasks(
+  analyzer: Pick<EmailAnalyzer, 'extractActionItems' | 'extractEntities'>,
+  email: string
+): Promise<ExtractedTask[]> {
+  const [actionItems, entities] = await Promise.all([
+    analyzer.extractActionItems(email),
+    analyzer.extractEntities(email).catch((): ExtractedEntities | null => null),
+  ]);
+
+  return mergeTaskDetails(actionItems, entities);
+}
+
+export function mergeTaskDetails(actionItems: ActionItem[], entities: ExtractedEntities | null): ExtractedTask[] {
+  return actionItems.map(item => {
+    const mentions = `${item.description} ${item.deadline || ''}`.toLowerCase();
+    const amounts = (entities?.amounts || []).filter(amount => mentions.includes(amount.text.toLowerCase()));
+
+    return {
+      description: item.description,
+      owner: item.owner,
+      dueDate: resolveDueDate(item, entities, mentions),
+      // An email with a single task is about that task, so its amounts belong to it
+      amounts: actionItems.length === 1 && amounts.length === 0 ? entities?.amounts || [] : amounts,
+      priority: item.priority,
+      type: item.type,
+    };
+  });
+}
+
+// The model writes ISO dates when it can; otherwise a date entity may resolve "by Friday"
+function resolveDueDate(item: ActionItem, entities: ExtractedEntities | null, mentions: string): string | undefined {
+  if (item.deadline && ISO_DATE.test(item.deadline) && !isNaN(Date.parse(item.deadline))) {
+    return item.deadline;
+  }
+
+  const date = (entities?.dates || []).find(candidate =>
+    candidate.date && ISO_DATE.test(candidate.date) && mentions.includes(candidate.text.toLowerCase())
+  );
+  return date?.date;
+}
@@ -0,0 +1,18 @@
+import { EmailAnalyzer } from '../analysis';
+
+type AnalyzerMethod = {
+  [K in keyof EmailAnalyzer]: EmailAnalyzer[K] extends (...args: any[]) => Promise<any> ? K : never;
+}[keyof EmailAnalyzer];
+
+type AnalyzerMock<K extends AnalyzerMethod> = {
+  [P in K]: jest.Mock<ReturnType<EmailAnalyzer[K]>, Parameters<EmailAnalyzer[K]>>;
+};
+
+// Stands in for the one EmailAnalyzer method a helper calls, answering every call with result
+export function analyzerReturning<K extends AnalyzerMethod>(
+  method: K,
+  result: Awaited<ReturnType<EmailAnalyzer[K]>>
+): AnalyzerMock<K> {
+  const mock = jest.fn(async (..._args: Parameters<EmailAnalyzer[K]>) => result);
+  return { [method]: mock } as unknown as AnalyzerMock<K>;
+}
@@ -0,0 +1,337 @@
+export type ThreatFlagType =
+  | 'prompt_injection'
+  | 'hidden_text'
+  | 'link_mismatch'
+  | 'lookalike_domain'
+  | 'urgent_payment';
+
+export type ThreatSeverity = 'low' | 'medium' | 'high';
+
+export interface ThreatFlag {
+  type: ThreatFlagType;
+  severity: ThreatSeverity;
+  // Human-readable reason, shown when asking the user to confirm
+  detail: string;
+}
+
+export interface ThreatReport {
+  risk: ThreatSeverity;
+  score: number;
+  flags: ThreatFlag[];
+}
+
+export interface ThreatScanInput {
+  from: string;
+  subject: string;
+  body: string;
+  html?: string;
+  // Domains a lookalike would imitate, e.g. the recipient's own; well-known brands are always checked
+  trustedDomains?: string[];
+}
+
+const SEVERITY_SCORES: Record<ThreatSeverity, number> = { low: 1, medium: 2, high: 4 };
+
+// Score at which several weaker signals together make a message high risk
+const HIGH_RISK_SCORE = 5;
+
+const PROTECTED_DOMAINS = [
+  'paypal.com', 'microsoft.com', 'office.com', 'outlook.com', 'google.com', 'gmail.com',
+  'apple.com', 'icloud.com', 'amazon.com', 'netflix.com', 'facebook.com', 'linkedin.com',
+  'dropbox.com', 'docusign.com', 'stripe.com', 'chase.com', 'wellsfargo.com', 'bankofamerica.com',
+];
+
+// Instructions aimed at the model that drafts the reply rather than at the reader
+const INJECTION_PATTERNS: Array<{ pattern: RegExp; severity: ThreatSeverity }> = [
+  { pattern: /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}\b(?:previous|prior|above|earlier|all|your|system)\b[^.\n]{0,20}\b(?:instructions?|prompts?|rules|guidelines)\b/i, severity: 'high' },
+  { pattern: /\b(?:system prompt|developer mode|jailbreak)\b/i, severity: 'high' },
+  { pattern: /<\|?(?:im_start|im_end|system|endoftext)\|?>|\[\/?INST\]|^#{2,}\s*(?:system|instruction)s?\b/im, severity: 'high' },
+  { pattern: /\b(?:you are now|from now on,? you|act as|pretend to be)\b[^.\n]{0,40}\b(?:assistant|ai|model|bot|admin)\b/i, severity: 'high' },
+  { pattern: /\b(?:forward|send|reply with)\b[^.\n]{0,40}\b(?:all|every|previous|other|last|recent)\b[^.\n]{0,20}\b(?:emails?|messages?|conversations?|passwords?|credentials?)\b/i, severity: 'medium' },
+  { pattern: /\b(?:ai|assistant|language model|llm)\b[^.\n]{0,30}\b(?:must|should|will)\b[^.\n]{0,40}\b(?:reply|respond|include|say)\b/i, severity: 'medium' },
+];
+
+const HIDDEN_STYLE = /display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0(?:\.\d+)?(?:px|pt|em|rem)?\s*(?:;|$)|opacity\s*:\s*0(?:\.0+)?\s*(?:;|$)|(?:^|;)\s*color\s*:\s*(?:#fff(?:fff)?|white|transparent)\b|max-height\s*:\s*0|(?:^|;)\s*(?:width|height)\s*:\s*0(?:px)?\s*(?:;|$)/i;
+
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF]/g;
+
+const PAYMENT_TERMS = /\b(?:wire transfer|bank transfer|bank details|account (?:number|details)|iban|swift|routing number|invoice|payment|gift cards?|bitcoin|crypto(?:currency)?|western union)\b/i;
+const URGENCY_TERMS = /\b(?:urgent(?:ly)?|immediately|right away|asap|today|within (?:\d+|twenty-four|one) hours?|final (?:notice|warning)|overdue|suspended|locked|act now|time.sensitive|confidential)\b/i;
+const PAYMENT_REQUEST = /\b(?:pay|send|transfer|wire|make|process|settle|remit|buy|purchase)\b/i;
+const PAYMENT_CONFIRMATION = /\b(?:payment (?:received|confirmed|successful)|received your payment|thank you for your payment|receipt)\b/i;
+// Characters between an urgency term and a payment term for them to count as one request
+const PAYMENT_PROXIMITY = 80;
+const CHANGED_BANK_DETAILS = /\b(?:new|updated|changed|different)\b[^.\n]{0,30}\b(?:bank (?:details|account)|account (?:number|details)|iban|payment details)\b/i;
+
+/**
+ * Scans an inbound email for prompt injection, hidden HTML text and phishing
+ * indicators. Purely local pattern checks, so it runs before any content is
+ * sent to a model; the report decides whether a human has to confirm first.
+ */
+export function scanEmailThreats(input: ThreatScanInput): ThreatReport {
+  const hidden = input.html ? extractHiddenText(input.html) : [];
+  const text = [input.subject, input.body, ...hidden].join('\n');
+
+  const flags: ThreatFlag[] = [
+    ...detectInjection(text),
+    ...detectHiddenText(input.body, hidden),
+    ...(input.html ? detectLinkMismatch(input.html) : []),
+    ...detectLookalikeDomains(input, input.html ? extractLinks(input.html).map(link => link.href) : extractUrls(input.body)),
+    ...detectUrgentPayment(`${input.subject}\n${input.body}`),
+  ];
+
+  const score = flags.reduce((total, flag) => total + SEVERITY_SCORES[flag.severity], 0);
+  const risk: ThreatSeverity = flags.some(flag => flag.severity === 'high') || score >= HIGH_RISK_SCORE
+    ? 'high'
+    : score >= SEVERITY_SCORES.medium ? 'medium' : 'low';
+
+  return { risk, score, flags };
+}
+
+function detectInjection(text: string): ThreatFlag[] {
+  return INJECTION_PATTERNS
+    .map(({ pattern, severity }) => ({ match: text.match(pattern), severity }))
+    .filter(({ match }) => match)
+    .map(({ match, severity }) => ({
+      type: 'prompt_injection' as const,
+      severity,
+      detail: `Instruction aimed at the AI assistant: "${truncate(match![0])}"`,
+    }));
+}
+
+function detectHiddenText(body: string, hidden: string[]): ThreatFlag[] {
+  const flags: ThreatFlag[] = [];
+  const hiddenText = hidden.join(' ').trim();
+
+  if (hiddenText.length > 0) {
+    flags.push({
+      type: 'hidden_text',
+      // Hidden instructions are the classic way to smuggle a prompt past the reader
+      severity: detectInjection(hiddenText).length > 0 ? 'high' : 'medium',
+      detail: `HTML contains text the reader cannot see: "${truncate(hiddenText)}"`,
+    });
+  }
+
+  const zeroWidth = body.match(ZERO_WIDTH)?.length || 0;
+  if (zeroWidth >= 3) {
+    flags.push({ type: 'hidden_text', severity: 'low', detail: `Body contains ${zeroWidth} zero-width characters` });
+  }
+
+  return flags;
+}
+
+function detectLinkMismatch(html: string): ThreatFlag[] {
+  const flags: ThreatFlag[] = [];
+
+  for (const link of extractLinks(html)) {
+    const hrefDomain = domainOf(link.href);
+    if (!hrefDomain) {
+      continue;
+    }
+
+    // Only link text that itself looks like an address can mismatch
+    const shown = link.text.match(/(?:https?:\/\/)?(?:[a-z0-9-]+\.)+[a-z]{2,}(?:\/\S*)?/i)?.[0];
+    const shownDomain = shown ? domainOf(shown.includes('://') ? shown : `http://${shown}`) : undefined;
+
+    if (shownDomain && !sameSite(shownDomain, hrefDomain)) {
+      flags.push({
+        type: 'link_mismatch',
+        severity: 'high',
+        detail: `Link shows ${shownDomain} but opens ${hrefDomain}`,
+      });
+    } else if (/^\d{1,3}(?:\.\d{1,3}){3}$/.test(hrefDomain)) {
+      flags.push({ type: 'link_mismatch', severity: 'medium', detail: `Link opens a bare IP address (${hrefDomain})` });
+    }
+  }
+
+  return flags;
+}
+
+function detectLookalikeDomains(input: ThreatScanInput, urls: string[]): ThreatFlag[] {
+  const protectedDomains = [...PROTECTED_DOMAINS, ...(input.trustedDomains || []).map(domain => domain.toLowerCase())];
+  const senderDomain = input.from.match(/@([^\s>]+)/)?.[1]?.toLowerCase();
+  const candidates = new Map<string, string>();
+
+  if (senderDomain) {
+    candidates.set(senderDomain, 'Sender');
+  }
+  urls.map(domainOf).forEach(domain => {
+    if (domain && !candidates.has(domain)) {
+      candidates.set(domain, 'Link');
+    }
+  });
+
+  const flags: ThreatFlag[] = [];
+  candidates.forEach((source, domain) => {
+    if (domain.split('.').some(label => label.startsWith('xn--'))) {
+      flags.push({ type: 'lookalike_domain', severity: 'medium', detail: `${source} domain ${domain} uses internationalized characters` });
+      return;
+    }
+
+    const imitated = protectedDomains.find(trusted => isLookalike(registrableDomain(domain), trusted));
+    if (imitated) {
+      flags.push({ type: 'lookalike_domain', severity: 'high', detail: `${source} domain ${domain} imitates ${imitated}` });
+    }
+  });
+
+  return flags;
+}
+
+// Invoices and receipts mention payment and dates all the time; only an urgent ask to pay is high
+function detectUrgentPayment(text: string): ThreatFlag[] {
+  if (CHANGED_BANK_DETAILS.test(text)) {
+    return [{ type: 'urgent_payment', severity: 'high', detail: 'Asks to pay to new or changed bank details' }];
+  }
+
+  const payments = Array.from(text.matchAll(new RegExp(PAYMENT_TERMS.source, 'gi')));
+  const urgencies = Array.from(text.matchAll(new RegExp(URGENCY_TERMS.source, 'gi')));
+  if (payments.length === 0 || urgencies.length === 0) {
+    return [];
+  }
+
+  for (const urgency of urgencies) {
+    const payment = payments.find(candidate => Math.abs(candidate.index! - urgency.index!) <= PAYMENT_PROXIMITY);
+    if (!payment) {
+      continue;
+    }
+
+    const start = Math.min(payment.index!, urgency.index!);
+    const end = Math.max(payment.index! + payment[0].length, urgency.index! + urgency[0].length);
+    const context = text.slice(Math.max(0, start - PAYMENT_PROXIMITY), end + PAYMENT_PROXIMITY);
+    if (PAYMENT_REQUEST.test(context) && !PAYMENT_CONFIRMATION.test(context)) {
+      return [{
+        type: 'urgent_payment',
+        severity: 'high',
+        detail: `Urgent payment request ("${urgency[0]}", "${payment[0]}")`,
+      }];
+    }
+  }
+
+  return [{
+    type: 'urgent_payment',
+    severity: 'medium',
+    detail: `Mentions payment and urgency ("${urgencies[0][0]}", "${payments[0][0]}")`,
+  }];
+}
+
+// Text inside elements styled to be invisible, plus HTML comments
+function extractHiddenText(html: string): string[] {
+  const hidden: string[] = [];
+  const elements = /<([a-z][a-z0-9]*)\b[^>]*\bstyle\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/\1>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = elements.exec(html)) !== null) {
+    if (HIDDEN_STYLE.test(match[2])) {
+      const text = stripTags(match[3]);
+      if (text) {
+        hidden.push(text);
+      }
+    }
+  }
+
+  for (const comment of html.match(/<!--([\s\S]*?)-->/g) || []) {
+    const text = comment.slice(4, -3).trim();
+    // Conditional comments and empty markers are normal in mail templates
+    if (text && !/^\[if\b|^\[endif\]/i.test(text)) {
+      hidden.push(text);
+    }
+  }
+
+  return hidden;
+}
+
+function extractLinks(html: string): Array<{ href: string; text: string }> {
+  const links: Array<{ href: string; text: string }> = [];
+  const anchors = /<a\b[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = anchors.exec(html)) !== null) {
+    links.push({ href: decodeEntities(match[1]), text: stripTags(match[2]) });
+  }
+  return links;
+}
+
+function extractUrls(text: string): string[] {
+  return text.match(/https?:\/\/[^\s<>"')]+/gi) || [];
+}
+
+function domainOf(url: string): string | undefined {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? hostname.toLowerCase().replace(/^www\./, '') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Last two labels, or three for country code second-level domains such as co.uk
+function registrableDomain(domain: string): string {
+  const labels = domain.split('.');
+  const count = labels.length > 2 && /^(?:co|com|org|net|gov|ac)$/.test(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-count).join('.');
+}
+
+function sameSite(a: string, b: string): boolean {
+  return registrableDomain(a) === registrableDomain(b);
+}
+
+// Close to, but not the same as, a trusted domain once common character swaps are undone
+function isLookalike(domain: string, trusted: string): boolean {
+  if (domain === trusted) {
+    return false;
+  }
+
+  const name = domain.split('.')[0];
+  const trustedName = trusted.split('.')[0];
+  if (skeleton(name) === skeleton(trustedName)) {
+    return true;
+  }
+  // Brand plus filler, e.g. paypal-secure.com
+  if (trustedName.length >= 5 && name !== trustedName && name.split(/[-.]/).includes(trustedName)) {
+    return true;
+  }
+  return trustedName.length >= 6 && levenshtein(name, trustedName) === 1;
+}
+
+function skeleton(value: string): string {
+  return value
+    .replace(/rn/g, 'm')
+    .replace(/vv/g, 'w')
+    .replace(/[0]/g, 'o')
+    .replace(/[1il|]/g, 'l')
+    .replace(/3/g, 'e')
+    .replace(/5/g, 's')
+    .replace(/-/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
+
+function truncate(text: string, length: number = 80): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
@@ -0,0 +1,69 @@
+import { BpeTokenizer, TokenizerRegistry, createDefaultTokenizerRegistry } from './tokenizer';
+import { UsageMetric, UsageTracker } from './usage-tracker';
+
+describe('TokenizerRegistry', () => {
+  const registry = createDefaultTokenizerRegistry();
+
+  it('maps model names to their tokenizer', () => {
+    expect(registry.get('gpt-4o-mini').name).toBe('o200k_base');
+    expect(registry.get('gpt-4-turbo-preview').name).toBe('cl100k_base');
+    expect(registry.get('claude-3-sonnet-20240229').name).toBe('claude-approx');
+    expect(registry.get('llama-3.3-70b-versatile').name).toBe('llama3-approx');
+    expect(registry.get('mixtral-8x7b-32768').name).toBe('sentencepiece-approx');
+    expect(registry.get('unknown-model').exact).toBe(false);
+  });
+
+  it('counts tokens with the model vocabulary', () => {
+    expect(registry.count('Hello world', 'gpt-4')).toBe(2);
+    expect(registry.count('', 'gpt-4o')).toBe(0);
+    // Special-token markers in mail bodies are plain text
+    expect(registry.count('<|endoftext|>', 'gpt-4')).toBeGreaterThan(1);
+  });
+
+  it('counts chat message overhead', () => {
+    const messages = [
+      { role: 'system' as const, content: 'Hello world' },
+      { role: 'user' as const, content: 'Hello world' },
+    ];
+
+    expect(registry.countMessages(messages, 'gpt-4')).toBe(2 + 4 + 2 + 4 + 3);
+  });
+
+  it('truncates to a token limit', () => {
+    const text = 'The quarterly report is attached for your review. '.repeat(20);
+    const truncated = registry.truncate(text, 10, 'gpt-4');
+
+    expect(registry.count(truncated, 'gpt-4')).toBeLessThanOrEqual(10);
+    expect(text.startsWith(truncated)).toBe(true);
+    expect(registry.truncate('Short text', 10, 'gpt-4')).toBe('Short text');
+  });
+
+  it('lets registered rules override the defaults', () => {
+    const custom = new TokenizerRegistry(new BpeTokenizer('fallback', 'cl100k_base', false))
+      .register('my-model', new BpeTokenizer('custom', 'o200k_base'));
+
+    expect(custom.get('my-model').name).toBe('custom');
+    expect(custom.get('my-model-2').name).toBe('fallback');
+  });
+});
+
+describe('UsageTracker cost', () => {
+  it('prices input and output tokens separately when known', () => {
+    const tracker = new UsageTracker();
+    const base = {
+      provider: 'openai',
+      model: 'gpt-4',
+      tokensUsed: 2000,
+      responseTimeMs: 100,
+      success: true,
+      timestamp: new Date(),
+    };
+
+    const split: UsageMetric = { ...base, inputTokens: 1000, outputTokens: 1000 };
+    const inputHeavy: UsageMetric = { ...base, inputTokens: 1900, outputTokens: 100 };
+    tracker.record(split);
+    tracker.record(inputHeavy);
+
+    expect(inputHeavy.cost).toBeLessThan(split.cost!);
+  });
+});
@@ -0,0 +1,130 @@
+import type { Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+import { Message } from './interface';
+
+// OpenAI chat format: every message is wrapped in role/separator tokens and the
+// reply is primed with three more; other chat templates are close enough
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+export interface Tokenizer {
+  readonly name: string;
+  // False when counts come from a related vocabulary rather than the model's own
+  readonly exact: boolean;
+  count(text: string): number;
+  truncate(text: string, maxTokens: number): string;
+}
+
+// The BPE ranks are several MB, so they are only loaded once something is counted
+let tiktoken: typeof import('js-tiktoken') | null = null;
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+function loadEncoding(name: TiktokenEncoding): Tiktoken {
+  if (!encodings.has(name)) {
+    tiktoken = tiktoken || require('js-tiktoken');
+    encodings.set(name, tiktoken.getEncoding(name));
+  }
+  return encodings.get(name)!;
+}
+
+/**
+ * BPE tokenizer over a tiktoken vocabulary. Models with their own vocabulary
+ * (Claude, Llama 2, Mistral) are approximated with a related encoding and a
+ * scale factor measured on English email text.
+ */
+export class BpeTokenizer implements Tokenizer {
+  constructor(
+    readonly name: string,
+    private encoding: TiktokenEncoding,
+    readonly exact: boolean = true,
+    private scale: number = 1
+  ) {}
+
+  count(text: string): number {
+    if (!text) {
+      return 0;
+    }
+    return Math.ceil(this.encode(text).length * this.scale);
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    const tokens = this.encode(text);
+    const limit = Math.floor(maxTokens / this.scale);
+
+    if (tokens.length <= limit) {
+      return text;
+    }
+    return loadEncoding(this.encoding).decode(tokens.slice(0, Math.max(0, limit)));
+  }
+
+  private encode(text: string): number[] {
+    // Special-token markers inside email text are counted as plain text, not rejected
+    return loadEncoding(this.encoding).encode(text, [], []);
+  }
+}
+
+/**
+ * Maps ModelInfo.name to the tokenizer for that model. Rules are checked
+ * newest first, so register() can override the defaults.
+ */
+export class TokenizerRegistry {
+  private rules: Array<{ pattern: RegExp; tokenizer: Tokenizer }> = [];
+  private resolved: Map<string, Tokenizer> = new Map();
+
+  constructor(private fallback: Tokenizer) {}
+
+  // A string matches the model name exactly; a RegExp matches any part of it
+  register(pattern: string | RegExp, tokenizer: Tokenizer): this {
+    const regex = typeof pattern === 'string'
+      ? new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`)
+      : pattern;
+
+    this.rules.unshift({ pattern: regex, tokenizer });
+    this.resolved.clear();
+    return this;
+  }
+
+  get(model?: string): Tokenizer {
+    if (!model) {
+      return this.fallback;
+    }
+
+    if (!this.resolved.has(model)) {
+      const rule = this.rules.find(candidate => candidate.pattern.test(model));
+      this.resolved.set(model, rule ? rule.tokenizer : this.fallback);
+    }
+    return this.resolved.get(model)!;
+  }
+
+  count(text: string, model?: string): number {
+    return this.get(model).count(text);
+  }
+
+  countMessages(messages: Message[], model?: string): number {
+    const tokenizer = this.get(model);
+    return messages.reduce(
+      (sum, message) => sum + TOKENS_PER_MESSAGE + tokenizer.count(message.content),
+      TOKENS_PER_REPLY
+    );
+  }
+
+  truncate(text: string, maxTokens: number, model?: string): string {
+    return this.get(model).truncate(text, maxTokens);
+  }
+}
+
+export function createDefaultTokenizerRegistry(): TokenizerRegistry {
+  const cl100k = new BpeTokenizer('cl100k_base', 'cl100k_base');
+  const o200k = new BpeTokenizer('o200k_base', 'o200k_base');
+
+  // Registered least specific first; later rules win
+  return new TokenizerRegistry(new BpeTokenizer('cl100k_base-approx', 'cl100k_base', false))
+    .register(/llama|mistral|mixtral|codellama|phi/i, new BpeTokenizer('sentencepiece-approx', 'cl100k_base', false, 1.2))
+    .register(/llama-?3|qwen|deepseek/i, new BpeTokenizer('llama3-approx', 'cl100k_base', false))
+    .register(/llama-?4|gemma/i, new BpeTokenizer('o200k-approx', 'o200k_base', false))
+    .register(/claude/i, new BpeTokenizer('claude-approx', 'cl100k_base', false, 1.1))
+    .register(/^(gpt-4|gpt-3\.5|text-embedding)/, cl100k)
+    .register(/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o)|gpt-oss/, o200k);
+}
+
+// Shared registry used by providers, PromptOptimizer and UsageTracker
+export const tokenizers = createDefaultTokenizerRegistry();
@@ -0,0 +1,103 @@
+import { generateWithTools, parseToolArguments } from './tools';
+import { AIGenerationInput, AIResponse, Tool, ToolCall } from './interface';
+
+function createProvider(turns: Array<{ text?: string; toolCalls?: ToolCall[] }>) {
+  const calls: AIGenerationInput[] = [];
+  const provider = {
+    generateResponse: async (input: AIGenerationInput): Promise<AIResponse> => {
+      calls.push({ ...input, toolSteps: [...(input.toolSteps || [])] });
+      const turn = turns[calls.length - 1];
+      return {
+        text: turn.text || '',
+        model: 'test',
+        tokensUsed: 10,
+        responseTimeMs: 1,
+        toolCalls: turn.toolCalls,
+      };
+    },
+  };
+  return { provider, calls };
+}
+
+const freeSlots: Tool = {
+  name: 'list_free_slots',
+  description: 'Free calendar slots',
+  parameters: { type: 'object', properties: { days: { type: 'number' } } },
+  execute: async args => ({ days: args.days, slots: ['2026-03-03T10:00:00Z'] }),
+};
+
+const input: AIGenerationInput = {
+  messages: [{ role: 'user', content: 'Can we meet next week?' }],
+};
+
+describe('generateWithTools', () => {
+  it('runs requested tools and feeds their results back until the model answers', async () => {
+    const { provider, calls } = createProvider([
+      { toolCalls: [{ id: 'call-1', name: 'list_free_slots', arguments: { days: 5 } }] },
+      { text: 'How about Tuesday at 10:00?' },
+    ]);
+
+    const response = await generateWithTools(provider, input, [freeSlots]);
+
+    expect(response.text).toBe('How about Tuesday at 10:00?');
+    expect(response.tokensUsed).toBe(20);
+    expect(calls[0].tools).toEqual([{
+      name: 'list_free_slots',
+      description: 'Free calendar slots',
+      parameters: { type: 'object', properties: { days: { type: 'number' } } },
+    }]);
+    expect(calls[1].toolSteps).toEqual([{
+      text: undefined,
+      calls: [{ id: 'call-1', name: 'list_free_slots', arguments: { days: 5 } }],
+      results: [{
+        toolCallId: 'call-1',
+        name: 'list_free_slots',
+        content: '{"days":5,"slots":["2026-03-03T10:00:00Z"]}',
+      }],
+    }]);
+    expect(response.toolSteps).toHaveLength(1);
+  });
+
+  it('reports failing and unknown tools to the model as errors', async () => {
+    const failing: Tool = { ...freeSlots, execute: async () => { throw new Error('Calendar feed unreachable'); } };
+    const { provider, calls } = createProvider([
+      {
+        toolCalls: [
+          { id: 'call-1', name: 'list_free_slots', arguments: {} },
+          { id: 'call-2', name: 'book_meeting', arguments: {} },
+        ],
+      },
+      { text: 'Which times work for you?' },
+    ]);
+
+    await generateWithTools(provider, input, [failing]);
+
+    expect(calls[1].toolSteps![0].results).toEqual([
+      { toolCallId: 'call-1', name: 'list_free_slots', content: 'Calendar feed unreachable', isError: true },
+      { toolCallId: 'call-2', name: 'book_meeting', content: 'Unknown tool: book_meeting', isError: true },
+    ]);
+  });
+
+  it('makes the model answer without tools once the step limit is reached', async () => {
+    const execute = jest.fn(freeSlots.execute);
+    const call = { id: 'call', name: 'list_free_slots', arguments: {} };
+    const { provider, calls } = createProvider([
+      { toolCalls: [call] },
+      { toolCalls: [call] },
+      { text: 'I will send some times shortly.', toolCalls: [call] },
+    ]);
+
+    const response = await generateWithTools(provider, input, [{ ...freeSlots, execute }], { maxSteps: 2 });
+
+    expect(calls.map(sent => sent.toolChoice)).toEqual(['auto', 'auto', 'none']);
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(response.text).toBe('I will send some times shortly.');
+    expect(response.toolCalls).toBeUndefined();
+  });
+
+  it('parses tool arguments defensively', () => {
+    expect(parseToolArguments('{"email":"a@b.com"}')).toEqual({ email: 'a@b.com' });
+    expect(parseToolArguments('{"email":')).toEqual({});
+    expect(parseToolArguments('[1]')).toEqual({});
+  });
+});
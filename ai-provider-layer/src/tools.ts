@@ -0,0 +1,108 @@
+import {
+  AIProvider,
+  AIGenerationInput,
+  AIResponse,
+  Tool,
+  ToolCall,
+  ToolDefinition,
+  ToolResult,
+  ToolStep,
+} from './interface';
+
+const DEFAULT_MAX_TOOL_STEPS = 3;
+
+// Results go back into the prompt; a large one must not crowd out the email itself
+const MAX_RESULT_LENGTH = 4000;
+
+export interface ToolLoopOptions {
+  // Tool rounds before the model has to answer with what it has
+  maxSteps?: number;
+}
+
+/**
+ * Runs generateResponse with tools until the model answers without asking for
+ * more, executing the requested calls in between. Once maxSteps rounds have
+ * run, the model is asked to answer without tools. A failing tool is reported
+ * to the model as an error result instead of failing the generation.
+ */
+export async function generateWithTools(
+  provider: Pick<AIProvider, 'generateResponse'>,
+  input: AIGenerationInput,
+  tools: Tool[],
+  options: ToolLoopOptions = {}
+): Promise<AIResponse> {
+  if (tools.length === 0) {
+    return provider.generateResponse(input);
+  }
+
+  const startTime = Date.now();
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_TOOL_STEPS;
+  const definitions = tools.map(toDefinition);
+  const steps: ToolStep[] = [...(input.toolSteps || [])];
+  let tokensUsed = 0;
+
+  for (let step = 0; ; step++) {
+    const response = await provider.generateResponse({
+      ...input,
+      tools: definitions,
+      toolChoice: step < maxSteps ? 'auto' : 'none',
+      toolSteps: steps,
+    });
+    tokensUsed += response.tokensUsed;
+
+    if (!response.toolCalls?.length || step >= maxSteps) {
+      return {
+        ...response,
+        tokensUsed,
+        responseTimeMs: Date.now() - startTime,
+        toolCalls: undefined,
+        toolSteps: steps.length > 0 ? steps : undefined,
+      };
+    }
+
+    steps.push({
+      text: response.text || undefined,
+      calls: response.toolCalls,
+      results: await Promise.all(response.toolCalls.map(call => executeToolCall(tools, call))),
+    });
+  }
+}
+
+export async function executeToolCall(tools: Tool[], call: ToolCall): Promise<ToolResult> {
+  const tool = tools.find(candidate => candidate.name === call.name);
+  if (!tool) {
+    return { toolCallId: call.id, name: call.name, content: `Unknown tool: ${call.name}`, isError: true };
+  }
+
+  try {
+    const output = await tool.execute(call.arguments);
+    const content = typeof output === 'string' ? output : JSON.stringify(output ?? null);
+
+    return {
+      toolCallId: call.id,
+      name: call.name,
+      content: content.length > MAX_RESULT_LENGTH ? `${content.slice(0, MAX_RESULT_LENGTH)}…` : content,
+    };
+  } catch (error) {
+    return {
+      toolCallId: call.id,
+      name: call.name,
+      content: error instanceof Error ? error.message : String(error),
+      isError: true,
+    };
+  }
+}
+
+// Models occasionally send malformed JSON; the tool then sees no arguments and can say so
+export function parseToolArguments(json: string | undefined): Record<string, any> {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toDefinition({ name, description, parameters }: Tool): ToolDefinition {
+  return { name, description, parameters };
+}
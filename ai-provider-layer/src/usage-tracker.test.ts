@@ -0,0 +1,116 @@
+import { UsageMetric, UsageQuery, UsageRollup, UsageStore, UsageTracker, rollupMetrics } from './usage-tracker';
+
+class MemoryUsageStore implements UsageStore {
+  metrics: UsageMetric[] = [];
+  failNext = false;
+
+  async saveUsageMetrics(metrics: UsageMetric[]): Promise<void> {
+    if (this.failNext) {
+      this.failNext = false;
+      throw new Error('database unavailable');
+    }
+    this.metrics.push(...metrics);
+  }
+
+  async getUsageRollups(query: UsageQuery): Promise<UsageRollup[]> {
+    return rollupMetrics(this.metrics.filter(metric => !query.provider || metric.provider === query.provider));
+  }
+
+  async *streamUsageMetrics(): AsyncIterable<UsageMetric> {
+    yield* this.metrics;
+  }
+}
+
+function metric(overrides: Partial<UsageMetric> = {}): UsageMetric {
+  return {
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    tokensUsed: 150,
+    inputTokens: 100,
+    outputTokens: 50,
+    responseTimeMs: 400,
+    success: true,
+    timestamp: new Date('2026-03-02T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+  let output = '';
+  for await (const chunk of stream) {
+    output += chunk;
+  }
+  return output;
+}
+
+describe('UsageTracker', () => {
+  beforeEach(() => {
+    // In-memory metrics older than 90 days are dropped
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-04T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('persists recorded metrics and keeps them when a flush fails', async () => {
+    const store = new MemoryUsageStore();
+    const tracker = new UsageTracker({ store, provider: 'openai' });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    store.failNext = true;
+    tracker.record(metric({ userId: 'user-1' }));
+    await tracker.flush();
+    expect(store.metrics).toEqual([]);
+
+    tracker.record(metric({ userId: 'user-2' }));
+    await tracker.flush();
+    expect(store.metrics.map(saved => saved.userId)).toEqual(['user-1', 'user-2']);
+    expect(consoleError).toHaveBeenCalledTimes(1);
+
+    // A fresh tracker, as after a deploy, still sees the history
+    const stats = await new UsageTracker({ store, provider: 'openai' }).loadUsageStats();
+    expect(stats.totalRequests).toBe(2);
+    expect(stats.totalTokens).toBe(300);
+
+    consoleError.mockRestore();
+  });
+
+  it('rolls usage up by day, model and user', async () => {
+    const tracker = new UsageTracker();
+    tracker.record(metric({ userId: 'user-1' }));
+    tracker.record(metric({ userId: 'user-2', model: 'gpt-4o' }));
+    tracker.record(metric({ userId: 'user-1', timestamp: new Date('2026-03-03T09:00:00Z') }));
+    tracker.record(metric({ userId: 'user-1', success: false, tokensUsed: 0, inputTokens: 0, outputTokens: 0 }));
+
+    const byUser = await tracker.getRollups(['user']);
+    expect(byUser.map(rollup => [rollup.userId, rollup.requests, rollup.tokens, rollup.errors])).toEqual([
+      ['user-1', 3, 300, 1],
+      ['user-2', 1, 150, 0],
+    ]);
+
+    const byDayAndModel = await tracker.getRollups(['day', 'model'], { userId: 'user-1' });
+    expect(byDayAndModel.map(rollup => [rollup.day, rollup.model, rollup.requests])).toEqual([
+      ['2026-03-02', 'gpt-4o-mini', 2],
+      ['2026-03-03', 'gpt-4o-mini', 1],
+    ]);
+    expect(byDayAndModel[0]).not.toHaveProperty('userId');
+  });
+
+  it('exports metrics as CSV and JSON', async () => {
+    const tracker = new UsageTracker();
+    tracker.record(metric({ userId: 'user-1', cost: 0.5 }));
+    tracker.record(metric({ success: false, error: 'Rate limited, "retry" later', tokensUsed: 0 }));
+
+    const csv = (await collect(tracker.exportMetrics('csv'))).trim().split('\n');
+    expect(csv).toEqual([
+      'timestamp,provider,model,user_id,input_tokens,output_tokens,tokens,response_time_ms,cost,cache_hit,success,error',
+      '2026-03-02T10:00:00.000Z,openai,gpt-4o-mini,user-1,100,50,150,400,0.5,,true,',
+      expect.stringMatching(/,false,"Rate limited, ""retry"" later"$/),
+    ]);
+
+    const json = JSON.parse(await collect(tracker.exportMetrics('json', { userId: 'user-1' })));
+    expect(json).toEqual([expect.objectContaining({ userId: 'user-1', tokensUsed: 150, cost: 0.5 })]);
+    expect(JSON.parse(await collect(tracker.exportMetrics('json', { userId: 'nobody' })))).toEqual([]);
+  });
+});
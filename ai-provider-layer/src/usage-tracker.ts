@@ -1,14 +1,21 @@
 import { UsageStats, ModelUsage, DailyUsage } from './interface';
+import type { CacheHitSource } from './cache';
 
 export interface UsageMetric {
   provider: string;
   model: string;
+  // The user the call was made for, when known
+  userId?: string;
   tokensUsed: number;
+  // Prompt/completion split of tokensUsed, when known
+  inputTokens?: number;
+  outputTokens?: number;
   responseTimeMs: number;
   success: boolean;
   error?: string;
   timestamp: Date;
   cost?: number;
+  cacheHit?: CacheHitSource;
 }
 
 export interface UsageSummary {
@@ -21,17 +28,72 @@ export interface UsageSummary {
   periodEnd: Date;
 }
 
-export interface UsageExport {
-  version: string;
-  exportDate: Date;
-  metrics: UsageMetric[];
-  summary: UsageSummary;
-  byModel: Record<string, ModelUsage>;
-  byDay: Record<string, DailyUsage>;
+export interface UsageQuery {
+  start?: Date;
+  end?: Date;
+  userId?: string;
+  provider?: string;
+  model?: string;
 }
 
+export type UsageDimension = 'day' | 'provider' | 'model' | 'user';
+
+// Totals for one combination of the grouped dimensions; the others are left out
+export interface UsageRollup {
+  day?: string;
+  provider?: string;
+  model?: string;
+  userId?: string;
+  requests: number;
+  tokens: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  errors: number;
+  cacheHits: number;
+  semanticCacheHits: number;
+  // Summed over successful requests, so averages can be recombined across rollups
+  totalResponseTimeMs: number;
+}
+
+export type UsageExportFormat = 'csv' | 'json';
+
+/**
+ * Durable storage for usage metrics, so stats survive restarts and can be
+ * reconciled with provider invoices. getUsageRollups returns one row per
+ * day, provider, model and user; the tracker merges them to coarser groups.
+ */
+export interface UsageStore {
+  saveUsageMetrics(metrics: UsageMetric[]): Promise<void>;
+  getUsageRollups(query: UsageQuery): Promise<UsageRollup[]>;
+  // Ordered by timestamp; read in pages so exports never hold everything in memory
+  streamUsageMetrics(query: UsageQuery): AsyncIterable<UsageMetric>;
+}
+
+export interface UsageTrackerOptions {
+  store?: UsageStore;
+  // Scopes stats loaded from a shared store to one provider
+  provider?: string;
+}
+
+// Metrics are written in batches, at most this long after they were recorded
+const FLUSH_DELAY_MS = 1000;
+
+// Unsaved metrics kept while the store is unavailable
+const MAX_PENDING_METRICS = 10000;
+
+const CSV_COLUMNS = [
+  'timestamp', 'provider', 'model', 'user_id', 'input_tokens', 'output_tokens', 'tokens',
+  'response_time_ms', 'cost', 'cache_hit', 'success', 'error',
+];
+
 export class UsageTracker {
   private metrics: Map<string, UsageMetric[]>;
+  private store?: UsageStore;
+  private provider?: string;
+  private pending: UsageMetric[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private flushing: Promise<void> = Promise.resolve();
   private costRates: Map<string, { input: number; output: number }> = new Map();
   private freeTierLimits: {
     daily: { requests: number; tokens: number };
@@ -41,8 +103,10 @@ export class UsageTracker {
     monthly: { requests: 0, tokens: 0 }
   };
 
-  constructor() {
+  constructor(options: UsageTrackerOptions = {}) {
     this.metrics = new Map();
+    this.store = options.store;
+    this.provider = options.provider;
     this.initializeCostRates();
     this.initializeFreeTierLimits();
   }
@@ -51,8 +115,15 @@ export class UsageTracker {
     // Cost per 1k tokens (in USD)
     this.costRates = new Map([
       ['openai/gpt-oss-120b', { input: 0.015, output: 0.06 }],
+      ['gpt-4o', { input: 0.0025, output: 0.01 }],
+      ['gpt-4o-mini', { input: 0.00015, output: 0.0006 }],
+      ['gpt-4-turbo', { input: 0.01, output: 0.03 }],
       ['gpt-4', { input: 0.03, output: 0.06 }],
-      ['gpt-3.5-turbo', { input: 0.0015, output: 0.002 }],
+      ['gpt-3.5-turbo', { input: 0.0005, output: 0.0015 }],
+      ['claude-3-5-sonnet-20241022', { input: 0.003, output: 0.015 }],
+      ['claude-3-5-haiku-20241022', { input: 0.0008, output: 0.004 }],
+      ['claude-3-opus-20240229', { input: 0.015, output: 0.075 }],
+      ['claude-3-haiku-20240307', { input: 0.00025, output: 0.00125 }],
       ['claude-3-opus', { input: 0.015, output: 0.075 }],
       ['claude-3-sonnet', { input: 0.003, output: 0.015 }],
     ]);
@@ -73,20 +144,76 @@ export class UsageTracker {
       this.metrics.set(dayKey, []);
     }
     
-    // Calculate cost if not provided
-    if (metric.tokensUsed && !metric.cost) {
-      metric.cost = this.calculateCost(metric.model, metric.tokensUsed);
+    // Calculate cost if not provided (an explicit 0 marks self-hosted usage)
+    if (metric.tokensUsed && metric.cost === undefined) {
+      metric.cost = this.calculateCost(metric);
     }
     
-    this.metrics.get(dayKey)!.push({
-      ...metric,
-      timestamp: date,
-    });
+    const recorded = { ...metric, timestamp: date };
+    this.metrics.get(dayKey)!.push(recorded);
+    
+    if (this.store) {
+      this.pending.push(recorded);
+      this.scheduleFlush();
+    }
     
     // Cleanup old metrics (keep last 90 days)
     this.cleanupOldMetrics();
   }
 
+  /**
+   * Writes recorded metrics to the store. Failures are logged and the metrics
+   * kept for the next flush, so a store outage never fails an AI call.
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    this.flushing = this.flushing.then(async () => {
+      const batch = this.pending.splice(0);
+      if (!this.store || batch.length === 0) {
+        return;
+      }
+
+      try {
+        await this.store.saveUsageMetrics(batch);
+      } catch (error) {
+        console.error('Failed to persist usage metrics:', error);
+        this.pending = [...batch, ...this.pending].slice(-MAX_PENDING_METRICS);
+      }
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Totals grouped by the given dimensions, e.g. ['day', 'model'] for a cost
+   * chart or ['user'] for billing. Reads the store when there is one, so the
+   * history survives restarts; otherwise the last 90 days kept in memory.
+   */
+  async getRollups(groupBy: UsageDimension[], query: UsageQuery = {}): Promise<UsageRollup[]> {
+    const rollups = this.store
+      ? await this.store.getUsageRollups(query)
+      : rollupMetrics(this.queryMemory(query));
+
+    return mergeRollups(rollups, groupBy);
+  }
+
+  /**
+   * Stats for this tracker's provider. Same shape as getUsageStats, but read
+   * from the store when there is one.
+   */
+  async loadUsageStats(): Promise<UsageStats> {
+    if (!this.store) {
+      return this.getUsageStats();
+    }
+
+    await this.flush();
+    const rollups = await this.store.getUsageRollups({ provider: this.provider });
+    return statsFromRollups(rollups);
+  }
+
   getDaily(date: Date = new Date()): UsageSummary {
     const dayKey = this.getDayKey(date);
     const dayMetrics = this.metrics.get(dayKey) || [];
@@ -222,8 +349,12 @@ export class UsageTracker {
       ? successfulMetrics.reduce((sum, m) => sum + m.responseTimeMs, 0) / successfulMetrics.length
       : 0;
     
-    // Calculate cache hit rate (would need cache metrics integration)
-    const cacheHitRate = 0; // Placeholder - integrate with cache stats
+    // Cache hits are recorded as zero-token requests tagged with their source
+    const cacheHits = allMetrics.filter(m => m.cacheHit);
+    const cacheHitRate = totalRequests > 0 ? cacheHits.length / totalRequests : 0;
+    const semanticCacheHitRate = totalRequests > 0
+      ? cacheHits.filter(m => m.cacheHit === 'semantic').length / totalRequests
+      : 0;
     
     const errorRate = totalRequests > 0 
       ? (failedMetrics.length / totalRequests) * 100 
@@ -235,39 +366,45 @@ export class UsageTracker {
       totalCost,
       averageResponseTime,
       cacheHitRate,
+      semanticCacheHitRate,
       errorRate,
       byModel,
       byDay,
     };
   }
 
-  exportMetrics(startDate?: Date, endDate?: Date): UsageExport {
-    const start = startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // Last 30 days
-    const end = endDate || new Date();
-    
-    const exportMetrics: UsageMetric[] = [];
-    
-    for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-      const dayKey = this.getDayKey(d);
-      const dayMetrics = this.metrics.get(dayKey) || [];
-      exportMetrics.push(...dayMetrics);
+  /**
+   * Streams every metric in the query as CSV (one row per call, with a header)
+   * or as a JSON array, for billing reconciliation. Rows come from the store
+   * when there is one, so long ranges are never loaded at once.
+   */
+  async *exportMetrics(format: UsageExportFormat, query: UsageQuery = {}): AsyncGenerator<string> {
+    if (this.store) {
+      await this.flush();
+    }
+    const metrics: AsyncIterable<UsageMetric> | Iterable<UsageMetric> = this.store
+      ? this.store.streamUsageMetrics(query)
+      : this.queryMemory(query);
+
+    let first = true;
+    yield format === 'csv' ? `${CSV_COLUMNS.join(',')}\n` : '[';
+
+    for await (const metric of metrics) {
+      if (format === 'csv') {
+        yield `${toCsvRow(metric)}\n`;
+      } else {
+        yield `${first ? '\n' : ',\n'}${JSON.stringify(metric)}`;
+      }
+      first = false;
+    }
+
+    if (format === 'json') {
+      yield first ? ']\n' : '\n]\n';
     }
-    
-    const summary = this.calculateSummary(exportMetrics, start, end);
-    const stats = this.getUsageStats();
-    
-    return {
-      version: '1.0.0',
-      exportDate: new Date(),
-      metrics: exportMetrics,
-      summary,
-      byModel: stats.byModel,
-      byDay: stats.byDay,
-    };
   }
 
-  importMetrics(data: UsageExport): void {
-    data.metrics.forEach(metric => {
+  importMetrics(metrics: UsageMetric[]): void {
+    metrics.forEach(metric => {
       this.record(metric);
     });
   }
@@ -328,15 +465,46 @@ export class UsageTracker {
     };
   }
 
-  private calculateCost(model: string, tokens: number): number {
-    const rates = this.costRates.get(model);
+  private calculateCost(metric: UsageMetric): number {
+    const rates = this.costRates.get(metric.model);
     if (!rates) {
       return 0;
     }
     
-    // Simplified cost calculation (assuming equal input/output)
+    if (metric.inputTokens !== undefined || metric.outputTokens !== undefined) {
+      return ((metric.inputTokens || 0) / 1000) * rates.input
+        + ((metric.outputTokens || 0) / 1000) * rates.output;
+    }
+    
+    // Without a split, assume equal input/output
     const avgRate = (rates.input + rates.output) / 2;
-    return (tokens / 1000) * avgRate;
+    return (metric.tokensUsed / 1000) * avgRate;
+  }
+
+  private queryMemory(query: UsageQuery): UsageMetric[] {
+    const metrics: UsageMetric[] = [];
+    this.metrics.forEach(dayMetrics => metrics.push(...dayMetrics));
+
+    return metrics
+      .filter(metric =>
+        (!query.start || metric.timestamp >= query.start) &&
+        (!query.end || metric.timestamp <= query.end) &&
+        (!query.userId || metric.userId === query.userId) &&
+        (!query.provider || metric.provider === query.provider) &&
+        (!query.model || metric.model === query.model))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      void this.flush();
+    }, FLUSH_DELAY_MS);
+    // Pending metrics alone should not keep the process alive
+    this.flushTimer.unref?.();
   }
 
   private getDayKey(date: Date): string {
@@ -402,4 +570,154 @@ export class UsageTracker {
     
     return totalCost;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Totals per day (UTC), provider, model and user; the grain a UsageStore
+ * returns, computed here for metrics held in memory.
+ */
+export function rollupMetrics(metrics: UsageMetric[]): UsageRollup[] {
+  const rollups = new Map<string, UsageRollup>();
+
+  for (const metric of metrics) {
+    const day = metric.timestamp.toISOString().slice(0, 10);
+    const key = [day, metric.provider, metric.model, metric.userId || ''].join('\u0000');
+    let rollup = rollups.get(key);
+
+    if (!rollup) {
+      rollup = { ...emptyRollup(), day, provider: metric.provider, model: metric.model, userId: metric.userId };
+      rollups.set(key, rollup);
+    }
+
+    rollup.requests++;
+    rollup.tokens += metric.tokensUsed;
+    rollup.inputTokens += metric.inputTokens || 0;
+    rollup.outputTokens += metric.outputTokens || 0;
+    rollup.cost += metric.cost || 0;
+    rollup.errors += metric.success ? 0 : 1;
+    rollup.cacheHits += metric.cacheHit ? 1 : 0;
+    rollup.semanticCacheHits += metric.cacheHit === 'semantic' ? 1 : 0;
+    rollup.totalResponseTimeMs += metric.success ? metric.responseTimeMs : 0;
+  }
+
+  return Array.from(rollups.values());
+}
+
+// Regroups rollups by fewer dimensions, summing the totals; sorted by the group keys
+export function mergeRollups(rollups: UsageRollup[], groupBy: UsageDimension[]): UsageRollup[] {
+  const fields: Record<UsageDimension, 'day' | 'provider' | 'model' | 'userId'> = {
+    day: 'day',
+    provider: 'provider',
+    model: 'model',
+    user: 'userId',
+  };
+  const merged = new Map<string, UsageRollup>();
+
+  for (const rollup of rollups) {
+    const key = groupBy.map(dimension => rollup[fields[dimension]] || '').join('\u0000');
+    let target = merged.get(key);
+
+    if (!target) {
+      target = emptyRollup();
+      groupBy.forEach(dimension => {
+        target![fields[dimension]] = rollup[fields[dimension]];
+      });
+      merged.set(key, target);
+    }
+
+    target.requests += rollup.requests;
+    target.tokens += rollup.tokens;
+    target.inputTokens += rollup.inputTokens;
+    target.outputTokens += rollup.outputTokens;
+    target.cost += rollup.cost;
+    target.errors += rollup.errors;
+    target.cacheHits += rollup.cacheHits;
+    target.semanticCacheHits += rollup.semanticCacheHits;
+    target.totalResponseTimeMs += rollup.totalResponseTimeMs;
+  }
+
+  return Array.from(merged.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, rollup]) => rollup);
+}
+
+function statsFromRollups(rollups: UsageRollup[]): UsageStats {
+  const [total = emptyRollup()] = mergeRollups(rollups, []);
+  const byModel: Record<string, ModelUsage> = {};
+  const byDay: Record<string, DailyUsage> = {};
+
+  mergeRollups(rollups, ['model']).forEach(rollup => {
+    byModel[rollup.model!] = {
+      requests: rollup.requests,
+      tokens: rollup.tokens,
+      cost: rollup.cost,
+      averageLatency: averageResponseTime(rollup),
+    };
+  });
+  mergeRollups(rollups, ['day']).forEach(rollup => {
+    byDay[rollup.day!] = {
+      date: rollup.day!,
+      requests: rollup.requests,
+      tokens: rollup.tokens,
+      cost: rollup.cost,
+      errors: rollup.errors,
+    };
+  });
+
+  const requests = total.requests;
+  return {
+    totalRequests: requests,
+    totalTokens: total.tokens,
+    totalCost: total.cost,
+    averageResponseTime: averageResponseTime(total),
+    cacheHitRate: requests > 0 ? total.cacheHits / requests : 0,
+    semanticCacheHitRate: requests > 0 ? total.semanticCacheHits / requests : 0,
+    errorRate: requests > 0 ? (total.errors / requests) * 100 : 0,
+    byModel,
+    byDay,
+  };
+}
+
+function averageResponseTime(rollup: UsageRollup): number {
+  const successful = rollup.requests - rollup.errors;
+  return successful > 0 ? rollup.totalResponseTimeMs / successful : 0;
+}
+
+function emptyRollup(): UsageRollup {
+  return {
+    requests: 0,
+    tokens: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    errors: 0,
+    cacheHits: 0,
+    semanticCacheHits: 0,
+    totalResponseTimeMs: 0,
+  };
+}
+
+function toCsvRow(metric: UsageMetric): string {
+  return [
+    metric.timestamp.toISOString(),
+    metric.provider,
+    metric.model,
+    metric.userId,
+    metric.inputTokens,
+    metric.outputTokens,
+    metric.tokensUsed,
+    metric.responseTimeMs,
+    metric.cost,
+    metric.cacheHit,
+    metric.success,
+    metric.error,
+  ].map(csvField).join(',');
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
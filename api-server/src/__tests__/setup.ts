@@ -55,6 +55,7 @@ jest.mock('../lib/ai', () => ({
     generateEmailResponse: jest.fn(),
     generate: jest.fn(),
     streamGenerate: jest.fn(),
+    countTokens: jest.fn((text: string) => Math.ceil(text.length / 4)),
     analyzeEmail: jest.fn(),
     getTemplates: jest.fn(),
   },
@@ -14,13 +14,52 @@ const envSchema = z.object({
   SUPABASE_ANON_KEY: z.string().optional(),
   
   // AI
-  AI_PROVIDER: z.enum(['groq', 'openai']).default('groq'),
-  GROQ_API_KEY: z.string(),
+  AI_PROVIDER: z.enum(['groq', 'openai', 'anthropic', 'local', 'replay']).default('groq'),
+  AI_MODEL: z.string().optional(),
+  GROQ_API_KEY: z.string().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  ANTHROPIC_API_KEY: z.string().optional(),
+  LOCAL_AI_BASE_URL: z.string().url().optional(),
+  LOCAL_AI_API: z.enum(['openai', 'ollama']).default('openai'),
+  LOCAL_AI_API_KEY: z.string().optional(),
+  // Cassette served by AI_PROVIDER=replay, or written to when AI_RECORD=true
+  AI_CASSETTE: z.string().default('./data/ai-cassette.json'),
+  AI_RECORD: z.enum(['true', 'false']).default('false'),
+  EMBEDDING_PROVIDER: z.enum(['openai', 'local', 'hash']).optional(),
+  EMBEDDING_MODEL: z.string().optional(),
+  SEMANTIC_CACHE_ENABLED: z.enum(['true', 'false']).default('true'),
+  SEMANTIC_CACHE_THRESHOLD: z.string().default('0.95'),
+  CACHE_STORE: z.enum(['memory', 'redis', 'sqlite']).default('memory'),
+  REDIS_URL: z.string().default('redis://localhost:6379'),
+  CACHE_SQLITE_PATH: z.string().default('./data/cache.db'),
+  PROMPTS_DIR: z.string().optional(),
+  // Replace PII in prompts with placeholders, per the user's and organization's redaction settings
+  PII_REDACTION: z.enum(['true', 'false']).default('true'),
+  // Let the AI look up calendar availability, contact notes and past threads while drafting
+  AI_TOOLS: z.enum(['true', 'false']).default('true'),
+  AI_MAX_TOOL_STEPS: z.string().default('3'),
+  // Learn each user's writing style from their sent mail; users can opt out in their settings
+  STYLE_LEARNING: z.enum(['true', 'false']).default('true'),
+  STYLE_PROFILE_MAX_AGE_DAYS: z.string().default('7'),
+  STYLE_REFRESH_INTERVAL_MS: z.string().default('3600000'),
+  // Extract action items, due dates and amounts from processed emails into tasks
+  TASK_EXTRACTION: z.enum(['true', 'false']).default('true'),
+  // Score inbox priority from urgency, sender history, VIPs, recipients and deadlines
+  PRIORITY_SCORING: z.enum(['true', 'false']).default('true'),
+  // Check AI drafts against the compliance policies of the user's organization
+  COMPLIANCE_CHECKS: z.enum(['true', 'false']).default('true'),
+  // Smart replies generated per email, 3 to 5
+  SMART_REPLY_COUNT: z.string().regex(/^[3-5]$/).default('3'),
+  // Sort emails into the user's own categories; less confident answers leave an email uncategorized
+  AUTO_CATEGORIZATION: z.enum(['true', 'false']).default('true'),
+  CATEGORY_MIN_CONFIDENCE: z.string().regex(/^(0(\.\d+)?|1(\.0+)?)$/).default('0.6'),
   
   // Auth
   JWT_SECRET: z.string().min(32),
   JWT_EXPIRES_IN: z.string().default('15m'),
   REFRESH_TOKEN_EXPIRES_IN: z.string().default('7d'),
+  // Comma-separated emails allowed to manage prompts, experiments and organization settings
+  ADMIN_EMAILS: z.string().default(''),
   
   // CORS
   FRONTEND_URL: z.string().default('http://localhost:3000'),
@@ -37,6 +76,28 @@ const envSchema = z.object({
   
   // Logging
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
+}).superRefine((env, ctx) => {
+  if (env.EMBEDDING_PROVIDER === 'openai' && !env.OPENAI_API_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['OPENAI_API_KEY'],
+      message: 'OPENAI_API_KEY is required when EMBEDDING_PROVIDER=openai',
+    });
+  }
+
+  // Only the key for the selected AI provider is required; self-hosted servers and replays need none
+  if (env.AI_PROVIDER === 'local' || env.AI_PROVIDER === 'replay') {
+    return;
+  }
+  const keyName = `${env.AI_PROVIDER.toUpperCase()}_API_KEY` as
+    'GROQ_API_KEY' | 'OPENAI_API_KEY' | 'ANTHROPIC_API_KEY';
+  if (!env[keyName]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [keyName],
+      message: `${keyName} is required when AI_PROVIDER=${env.AI_PROVIDER}`,
+    });
+  }
 });
 
 export type Config = z.infer<typeof envSchema>;
@@ -9,6 +9,8 @@ import { config } from './config';
 import { errorHandler } from './middleware/error-handler';
 import routes from './routes';
 import { db } from './lib/database';
+import { promptService } from './services/prompt-service';
+import { styleService } from './services/style-service';
 
 const logger = pino({
   level: config.LOG_LEVEL,
@@ -173,6 +175,8 @@ const gracefulShutdown = async (signal: string) => {
     });
   }
   
+  styleService.stopRefreshJob();
+  
   // Close database connection
   try {
     await db.disconnect();
@@ -192,6 +196,16 @@ const startServer = async () => {
     await db.connect();
     logger.info('Database connected');
     
+    // Built-in prompts keep working if custom ones fail to load
+    try {
+      await promptService.load();
+    } catch (error) {
+      logger.error('Failed to load prompts:', error);
+    }
+    
+    // Keeps learned writing styles current as users send more mail
+    styleService.startRefreshJob();
+    
     // Start server
     const PORT = parseInt(config.PORT);
     const server = app.listen(PORT, '0.0.0.0', () => {
@@ -1,63 +1,257 @@
-import { GroqProvider, AIProvider, AIProviderFactory, ProviderType } from '@email-ai/ai-provider';
+import {
+  AIProvider,
+  AIProviderFactory,
+  CategoryAssignment,
+  CompliancePolicy,
+  ComplianceViolation,
+  Email,
+  EmailAnalyzer,
+  EmailCategoryDefinition,
+  ExtractedTask,
+  EmbeddingProvider,
+  LanguageDetection,
+  PriorityAssessment,
+  ProviderFactoryConfig,
+  ProviderType,
+  Message,
+  RedactingProvider,
+  RevisionRequest,
+  SemanticCache,
+  SmartReply,
+  categorizeThread,
+  checkCompliance,
+  extractTasks,
+  reviseEmailResponse,
+  suggestSmartReplies,
+  tokenizers,
+} from '@email-ai/ai-provider';
 import { config } from '../config';
+import { sharedStore } from './cache-store';
+import { usageStore } from './usage-store';
+import { redactionService } from '../services/redaction-service';
 
 // Initialize AI provider based on configuration
-let aiProvider: AIProvider;
-
-if (config.AI_PROVIDER === 'groq') {
-  aiProvider = new GroqProvider({
-    apiKey: config.GROQ_API_KEY,
-  });
-} else {
-  // Fallback to Groq if no other provider available
-  aiProvider = new GroqProvider({
-    apiKey: config.GROQ_API_KEY,
-  });
+const providerKeys: Record<string, string | undefined> = {
+  [ProviderType.GROQ]: config.GROQ_API_KEY,
+  [ProviderType.OPENAI]: config.OPENAI_API_KEY,
+  [ProviderType.ANTHROPIC]: config.ANTHROPIC_API_KEY,
+};
+
+const localConfig = {
+  baseURL: config.LOCAL_AI_BASE_URL,
+  api: config.LOCAL_AI_API,
+};
+
+// Embeddings follow the chat provider so mail stays on the same backend; sending them anywhere else
+// takes an explicit EMBEDDING_PROVIDER. The hash embedder keeps semantic search working without an API
+const embeddingType = config.EMBEDDING_PROVIDER
+  || (config.AI_PROVIDER === ProviderType.LOCAL ? 'local'
+    : config.AI_PROVIDER === ProviderType.OPENAI ? 'openai' : 'hash');
+
+const embeddingProvider: EmbeddingProvider = AIProviderFactory.createEmbeddingProvider(
+  embeddingType === 'local'
+    ? {
+        type: ProviderType.LOCAL,
+        apiKey: config.LOCAL_AI_API_KEY || '',
+        config: { ...localConfig, embeddingModel: config.EMBEDDING_MODEL },
+      }
+    : embeddingType === 'openai'
+      ? {
+          type: ProviderType.OPENAI,
+          apiKey: config.OPENAI_API_KEY!,
+          config: { embeddingModel: config.EMBEDDING_MODEL },
+        }
+      : { type: 'hash', apiKey: '' }
+);
+
+// One semantic cache is shared by every provider so a failover still finds earlier drafts.
+// Hash embeddings only compare words, too crude to hand one email's draft to another,
+// so without a model embedder each provider keeps its exact-match cache
+const responseCache = config.SEMANTIC_CACHE_ENABLED === 'true' && embeddingType !== 'hash'
+  ? new SemanticCache(
+      {
+        ttl: 3600,
+        maxSize: 1000,
+        enabled: true,
+        similarityThreshold: Number(config.SEMANTIC_CACHE_THRESHOLD),
+      },
+      embeddingProvider
+    )
+  : undefined;
+
+// The configured provider is primary; any other provider with a key becomes a failover target.
+// A local provider never fails over, so mail bodies stay on the self-hosted server.
+const providerConfigs: ProviderFactoryConfig[] = config.AI_PROVIDER === ProviderType.LOCAL
+  ? [{
+      type: ProviderType.LOCAL,
+      apiKey: config.LOCAL_AI_API_KEY || '',
+      config: { ...localConfig, model: config.AI_MODEL, cache: responseCache, sharedStore, usageStore },
+    }]
+  : [
+      config.AI_PROVIDER,
+      ...Object.keys(providerKeys).filter(type => type !== config.AI_PROVIDER && providerKeys[type]),
+    ].map(type => ({
+      type: type as ProviderType,
+      apiKey: providerKeys[type]!,
+      config: {
+        ...(type === config.AI_PROVIDER && config.AI_MODEL ? { model: config.AI_MODEL } : {}),
+        cache: responseCache,
+        sharedStore,
+        usageStore,
+      },
+    }));
+
+const createLiveProvider = (): AIProvider => providerConfigs.length > 1
+  ? AIProviderFactory.createRouter(providerConfigs)
+  : AIProviderFactory.create(providerConfigs[0]);
+
+// Replays need no network or keys, for deterministic e2e runs; AI_RECORD captures the cassette they serve
+const aiProvider: AIProvider = config.AI_PROVIDER === ProviderType.REPLAY
+  ? AIProviderFactory.create({ type: ProviderType.REPLAY, apiKey: '', config: { cassette: config.AI_CASSETTE } })
+  : config.AI_RECORD === 'true'
+    ? AIProviderFactory.createRecording(createLiveProvider(), config.AI_CASSETTE)
+    : createLiveProvider();
+
+// PII is replaced before a prompt leaves the server, using the user's and organization's rules.
+// Outermost, so cassettes and cached drafts never hold the original values either.
+const redactingProvider = new RedactingProvider(
+  aiProvider,
+  config.PII_REDACTION === 'true'
+    ? { resolvePolicy: userId => redactionService.getPolicy(userId) }
+    : { policy: { enabled: false } }
+);
+
+// An analysis result with the tokens its calls used, so callers can charge it against the user's budget
+export interface Metered<T> {
+  result: T;
+  tokensUsed: number;
 }
 
 // Create a wrapper with convenience methods
 class AIWrapper {
-  constructor(private aiProvider: AIProvider) {}
+  constructor(private aiProvider: RedactingProvider, private embeddingProvider: EmbeddingProvider) {}
   
-  async generate(prompt: string, options?: any): Promise<any> {
-    const response = await this.aiProvider.generateResponse({
+  async generate(prompt: string, options?: any, userId?: string): Promise<any> {
+    const { task, ...generationOptions } = options || {};
+    const response = await this.forUser(userId).generateResponse({
       messages: [
         { role: 'system', content: 'You are a helpful AI assistant.' },
         { role: 'user', content: prompt }
       ],
-      options
+      task,
+      options: generationOptions
     });
     return response;
   }
   
-  async streamGenerate(prompt: string, options?: any): Promise<any> {
-    const generator = this.aiProvider.generateStreamingResponse({
-      messages: [
-        { role: 'system', content: 'You are a helpful AI assistant.' },
-        { role: 'user', content: prompt }
-      ],
-      options
-    });
+  async streamGenerate(prompt: string, options?: any, userId?: string): Promise<any> {
+    const messages: Message[] = [
+      { role: 'system', content: 'You are a helpful AI assistant.' },
+      { role: 'user', content: prompt }
+    ];
+    const generator = this.forUser(userId).generateStreamingResponse({ messages, options });
     
     let fullText = '';
     for await (const chunk of generator) {
       fullText += chunk;
     }
     
+    const model = this.aiProvider.getModelInfo().name;
+    const inputTokens = tokenizers.countMessages(messages, model);
+    const outputTokens = this.aiProvider.getTokenCount(fullText);
+
     return {
       text: fullText,
-      model: this.aiProvider.getModelInfo().name,
-      tokensUsed: Math.ceil(fullText.length / 4)
+      model,
+      tokensUsed: inputTokens + outputTokens,
+      metadata: { inputTokens, outputTokens },
     };
   }
+
+  // Counted with the active model's tokenizer
+  countTokens(text: string): number {
+    return this.aiProvider.getTokenCount(text);
+  }
   
-  async analyzeEmail(email: { subject: string; body: string }): Promise<any> {
-    return this.aiProvider.analyzeEmailSentiment(email.body);
+  async analyzeEmail(email: { subject: string; body: string }, userId?: string): Promise<any> {
+    const provider = this.forUser(userId);
+    const analyzer = new EmailAnalyzer(provider);
+    const [sentiment, intent, actionItems, entities] = await Promise.all([
+      provider.analyzeEmailSentiment(email.body),
+      analyzer.classifyIntent(email.body),
+      analyzer.extractActionItems(email.body),
+      analyzer.extractEntities(email.body),
+    ]);
+
+    return { ...sentiment, intent, actionItems, entities };
+  }
+
+  async extractActionItems(body: string, userId?: string): Promise<any[]> {
+    return new EmailAnalyzer(this.forUser(userId)).extractActionItems(body);
+  }
+
+  async extractEntities(body: string, userId?: string): Promise<any> {
+    return new EmailAnalyzer(this.forUser(userId)).extractEntities(body);
+  }
+
+  async extractTasks(body: string, userId?: string): Promise<Metered<ExtractedTask[]>> {
+    return this.metered(userId, analyzer => extractTasks(analyzer, body));
+  }
+
+  async assessPriority(body: string, userId?: string): Promise<Metered<PriorityAssessment>> {
+    return this.metered(userId, analyzer => analyzer.assessPriority(body));
+  }
+  
+  async suggestSmartReplies(body: string, count: number, userId?: string): Promise<Metered<SmartReply[]>> {
+    return this.metered(userId, analyzer => suggestSmartReplies(analyzer, body, count));
+  }
+  
+  async checkCompliance(
+    draft: string,
+    policies: CompliancePolicy[],
+    userId?: string
+  ): Promise<Metered<ComplianceViolation[]>> {
+    return this.metered(userId, analyzer => checkCompliance(analyzer, draft, policies));
+  }
+  
+  async categorizeThread(
+    thread: Email[],
+    categories: EmailCategoryDefinition[],
+    minConfidence: number,
+    userId?: string
+  ): Promise<Metered<CategoryAssignment>> {
+    return this.metered(userId, analyzer => categorizeThread(analyzer, thread, categories, minConfidence));
+  }
+  
+  async detectLanguage(body: string, userId?: string): Promise<LanguageDetection> {
+    return new EmailAnalyzer(this.forUser(userId)).detectLanguage(body);
+  }
+
+  async translate(text: string, language: string, userId?: string): Promise<string> {
+    return new EmailAnalyzer(this.forUser(userId)).translate(text, language);
+  }
+  
+  // Inputs are redacted like prompts, with the user's policy
+  async embed(texts: string[], userId?: string): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    const redacted = await this.forUser(userId).redactTexts(texts);
+    const response = await this.embeddingProvider.generateEmbeddings(redacted);
+    return response.embeddings;
+  }
+
+  get embeddingModel(): string {
+    return this.embeddingProvider.embeddingModel;
   }
   
   async generateEmailResponse(context: any): Promise<any> {
     return this.aiProvider.generateEmailResponse(context);
   }
+
+  async reviseEmailResponse(context: any, draft: string, request: RevisionRequest): Promise<any> {
+    return reviseEmailResponse(this.forUser(context.userId), context, draft, request);
+  }
   
   async getTemplates(): Promise<any[]> {
     // Return default templates
@@ -87,9 +281,21 @@ class AIWrapper {
   get provider(): AIProvider {
     return this.aiProvider;
   }
+
+  // Calls without a user get the default policy
+  private forUser(userId?: string): RedactingProvider {
+    return userId ? this.aiProvider.forUser(userId) : this.aiProvider;
+  }
+
+  // A fresh analyzer counts only the calls of this analysis
+  private async metered<T>(userId: string | undefined, analyze: (analyzer: EmailAnalyzer) => Promise<T>): Promise<Metered<T>> {
+    const analyzer = new EmailAnalyzer(this.forUser(userId));
+    const result = await analyze(analyzer);
+    return { result, tokensUsed: analyzer.tokensUsed };
+  }
 }
 
-export const ai = new AIWrapper(aiProvider);
+export const ai = new AIWrapper(redactingProvider, embeddingProvider);
 
 // Export types from AI provider package
 export type {
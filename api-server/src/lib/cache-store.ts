@@ -0,0 +1,19 @@
+import {
+  CacheStore,
+  RedisCacheStore,
+  SqliteCacheStore,
+} from '@email-ai/ai-provider';
+import { config } from '../config';
+import { db } from './database';
+
+// Responses and rate-limit counters are shared between API instances through this store
+export const sharedStore: CacheStore | undefined = config.CACHE_STORE === 'redis'
+  ? new RedisCacheStore({ url: config.REDIS_URL })
+  : config.CACHE_STORE === 'sqlite'
+    ? new SqliteCacheStore({ path: config.CACHE_SQLITE_PATH })
+    : undefined;
+
+// Budgets and request limits must hold across instances, so without a shared store they are counted in the database
+export const counterStore: Pick<CacheStore, 'increment'> = sharedStore || {
+  increment: (key, amount, ttlSeconds) => db.incrementCounter(key, amount, ttlSeconds),
+};
@@ -1,4 +1,4 @@
-import { SupabaseAdapter } from '@email-ai/database';
+import { PromptStore, SupabaseAdapter, VectorStore } from '@email-ai/database';
 import { FixedSupabaseAdapter } from './database-adapter-fix';
 import { config } from '../config';
 
@@ -9,6 +9,12 @@ export const db = new FixedSupabaseAdapter({
   serviceKey: config.SUPABASE_SERVICE_KEY,
 }) as any;
 
+// Email embeddings live alongside the rest of the data in Postgres (pgvector)
+export const vectorStore: VectorStore = db;
+
+// Prompt templates, experiments and their response outcomes
+export const promptStore: PromptStore = db;
+
 // Export types from database package
 export type { 
   User,
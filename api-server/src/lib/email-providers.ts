@@ -0,0 +1,12 @@
+import { EmailProvider, EmailProviderFactory } from '@vivier/email-providers';
+import { EmailAccount } from '@email-ai/database';
+
+// Connects to an account's mailbox with its stored credentials
+export async function connectProvider(account: EmailAccount): Promise<EmailProvider> {
+  const provider = EmailProviderFactory.create({ provider: account.provider, email: account.email_address });
+  const auth = await provider.authenticate(JSON.parse(account.encrypted_credentials));
+  if (!auth.success) {
+    throw new Error(`Failed to connect to ${account.email_address}: ${auth.error}`);
+  }
+  return provider;
+}
@@ -0,0 +1,413 @@
+// Minimal iCalendar (RFC 5545) reader for free/busy lookups. Handles what
+// calendar feeds commonly contain: time zones, all-day events, daily and
+// weekly recurrence with exceptions. Anything else counts as a single event.
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface WorkingHours {
+  start: string;
+  end: string;
+  days?: number[];
+}
+
+export interface FreeSlot {
+  date: string;
+  weekday: string;
+  start: string;
+  end: string;
+}
+
+export interface FreeSlotOptions {
+  from: Date;
+  days: number;
+  durationMinutes: number;
+  timeZone: string;
+  workingHours?: WorkingHours;
+}
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface CalendarTime {
+  wall: WallTime;
+  // Undefined for UTC times
+  timeZone?: string;
+  allDay: boolean;
+}
+
+interface CalendarEvent {
+  uid?: string;
+  start: CalendarTime;
+  end?: CalendarTime;
+  durationMs?: number;
+  rrule?: Record<string, string>;
+  exdates: number[];
+  recurrenceId?: number;
+}
+
+const DEFAULT_WORKING_HOURS: Required<WorkingHours> = { start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5] };
+const SLOT_STEP_MS = 30 * 60 * 1000;
+const MAX_SLOTS_PER_DAY = 3;
+const MAX_SLOTS = 12;
+// Bounds the expansion of old or unbounded daily rules
+const MAX_RECURRENCE_DAYS = 20000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Returns the busy intervals of an ICS feed that overlap [from, to).
+ * Floating times and unknown TZIDs are read in the user's time zone.
+ * Cancelled and transparent ("show as free") events are ignored.
+ */
+export function parseBusyIntervals(ics: string, from: Date, to: Date, timeZone: string): BusyInterval[] {
+  const events = parseEvents(ics, timeZone);
+
+  // Modified occurrences replace the instance of their recurring event
+  for (const event of events) {
+    if (event.recurrenceId !== undefined) {
+      const master = events.find(candidate => candidate.uid === event.uid && candidate.rrule);
+      master?.exdates.push(event.recurrenceId);
+    }
+  }
+
+  const busy: BusyInterval[] = [];
+  for (const event of events) {
+    for (const interval of expandEvent(event, from.getTime(), to.getTime())) {
+      busy.push(interval);
+    }
+  }
+
+  return busy.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Free slots of durationMinutes within working hours, on a 30-minute grid,
+ * starting no earlier than options.from. Returns a few per day so the
+ * suggestions spread over several days.
+ */
+export function findFreeSlots(busy: BusyInterval[], options: FreeSlotOptions): FreeSlot[] {
+  const hours = { ...DEFAULT_WORKING_HOURS, ...options.workingHours };
+  const durationMs = options.durationMinutes * 60 * 1000;
+  const earliest = Math.ceil(options.from.getTime() / SLOT_STEP_MS) * SLOT_STEP_MS;
+  const firstDay = toWallTime(options.from.getTime(), options.timeZone);
+  const slots: FreeSlot[] = [];
+
+  for (let offset = 0; offset < options.days && slots.length < MAX_SLOTS; offset++) {
+    const date = addDays(firstDay, offset);
+    if (!hours.days.includes(weekday(date))) {
+      continue;
+    }
+
+    const dayStart = toEpoch({ ...date, ...parseClock(hours.start) }, options.timeZone);
+    const dayEnd = toEpoch({ ...date, ...parseClock(hours.end) }, options.timeZone);
+    let found = 0;
+
+    for (let start = Math.max(dayStart, earliest); start + durationMs <= dayEnd; start += SLOT_STEP_MS) {
+      const end = start + durationMs;
+      if (busy.some(interval => interval.start.getTime() < end && interval.end.getTime() > start)) {
+        continue;
+      }
+
+      slots.push({
+        date: formatDate(date),
+        weekday: WEEKDAY_NAMES[weekday(date)],
+        start: formatClock(toWallTime(start, options.timeZone)),
+        end: formatClock(toWallTime(end, options.timeZone)),
+      });
+
+      // The next suggestion starts after this one instead of overlapping it
+      start = end - SLOT_STEP_MS;
+      if (++found >= MAX_SLOTS_PER_DAY || slots.length >= MAX_SLOTS) {
+        break;
+      }
+    }
+  }
+
+  return slots;
+}
+
+// Civil date of an instant in a time zone, as YYYY-MM-DD
+export function formatDateInZone(date: Date, timeZone: string): string {
+  return formatDate(toWallTime(date.getTime(), timeZone));
+}
+
+// Midnight of a YYYY-MM-DD date in a time zone
+export function startOfDateInZone(date: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(toEpoch({ year, month, day, hour: 0, minute: 0, second: 0 }, timeZone));
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseEvents(ics: string, defaultTimeZone: string): CalendarEvent[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let properties: Array<{ name: string; params: Record<string, string>; value: string }> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      properties = [];
+    } else if (line === 'END:VEVENT' && properties) {
+      const event = toEvent(properties, defaultTimeZone);
+      if (event) {
+        events.push(event);
+      }
+      properties = null;
+    } else if (properties) {
+      const property = parseProperty(line);
+      if (property) {
+        properties.push(property);
+      }
+    }
+  }
+
+  return events;
+}
+
+function parseProperty(line: string): { name: string; params: Record<string, string>; value: string } | null {
+  const match = line.match(/^([A-Za-z0-9-]+)((?:;[^:;=]+=(?:"[^"]*"|[^:;]*))*):(.*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const param of match[2].split(';').slice(1)) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+}
+
+function toEvent(
+  properties: Array<{ name: string; params: Record<string, string>; value: string }>,
+  defaultTimeZone: string
+): CalendarEvent | null {
+  const get = (name: string) => properties.find(property => property.name === name);
+
+  if (get('STATUS')?.value.toUpperCase() === 'CANCELLED' || get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') {
+    return null;
+  }
+
+  const dtstart = get('DTSTART');
+  const start = dtstart && parseTime(dtstart.value, dtstart.params, defaultTimeZone);
+  if (!start) {
+    return null;
+  }
+
+  const dtend = get('DTEND');
+  const duration = get('DURATION');
+  const rrule = get('RRULE');
+  const recurrenceId = get('RECURRENCE-ID');
+  const recurrenceTime = recurrenceId && parseTime(recurrenceId.value, recurrenceId.params, defaultTimeZone);
+
+  const exdates: number[] = [];
+  for (const exdate of properties.filter(property => property.name === 'EXDATE')) {
+    for (const value of exdate.value.split(',')) {
+      const time = parseTime(value, exdate.params, defaultTimeZone);
+      if (time) {
+        exdates.push(epochOf(time));
+      }
+    }
+  }
+
+  return {
+    uid: get('UID')?.value,
+    start,
+    end: (dtend && parseTime(dtend.value, dtend.params, defaultTimeZone)) || undefined,
+    durationMs: duration ? parseDuration(duration.value) : undefined,
+    rrule: rrule ? parseRule(rrule.value) : undefined,
+    exdates,
+    recurrenceId: recurrenceTime ? epochOf(recurrenceTime) : undefined,
+  };
+}
+
+function parseTime(value: string, params: Record<string, string>, defaultTimeZone: string): CalendarTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const wall: WallTime = {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] || 0),
+    minute: Number(match[5] || 0),
+    second: Number(match[6] || 0),
+  };
+
+  if (match[7]) {
+    return { wall, allDay: false };
+  }
+
+  // Feeds from Outlook often carry Windows zone names, which Intl does not know
+  const timeZone = params.TZID && isValidTimeZone(params.TZID) ? params.TZID : defaultTimeZone;
+  return { wall, timeZone, allDay: !match[4] };
+}
+
+function parseDuration(value: string): number | undefined {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map(part => part || '0');
+  const ms = ((Number(weeks) * 7 + Number(days)) * 24 * 3600 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function parseRule(value: string): Record<string, string> {
+  const rule: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, ruleValue] = part.split('=');
+    if (key && ruleValue) {
+      rule[key.toUpperCase()] = ruleValue.toUpperCase();
+    }
+  }
+  return rule;
+}
+
+function expandEvent(event: CalendarEvent, from: number, to: number): BusyInterval[] {
+  const startMs = epochOf(event.start);
+  const durationMs = event.end
+    ? epochOf(event.end) - startMs
+    : event.durationMs ?? (event.start.allDay ? DAY_MS : 0);
+
+  if (durationMs <= 0) {
+    return [];
+  }
+
+  const frequency = event.rrule?.FREQ;
+  if (!event.rrule || (frequency !== 'DAILY' && frequency !== 'WEEKLY')) {
+    return startMs < to && startMs + durationMs > from
+      ? [{ start: new Date(startMs), end: new Date(startMs + durationMs) }]
+      : [];
+  }
+
+  const interval = Math.max(1, Number(event.rrule.INTERVAL) || 1);
+  const count = event.rrule.COUNT ? Number(event.rrule.COUNT) : Infinity;
+  const until = event.rrule.UNTIL ? parseTime(event.rrule.UNTIL, {}, event.start.timeZone || 'UTC') : null;
+  const untilMs = until ? epochOf(until) : Infinity;
+  const byDay = event.rrule.BYDAY
+    ? event.rrule.BYDAY.split(',').map(day => WEEKDAYS.indexOf(day.slice(-2))).filter(day => day >= 0)
+    : frequency === 'WEEKLY' ? [weekday(event.start.wall)] : null;
+
+  const intervals: BusyInterval[] = [];
+  const firstWeek = weekStart(event.start.wall);
+  let occurrences = 0;
+
+  for (let offset = 0; offset < MAX_RECURRENCE_DAYS && occurrences < count; offset++) {
+    const wall = addDays(event.start.wall, offset);
+    const matches = frequency === 'DAILY'
+      ? offset % interval === 0 && (!byDay || byDay.includes(weekday(wall)))
+      : byDay!.includes(weekday(wall)) && Math.round((weekStart(wall) - firstWeek) / (7 * DAY_MS)) % interval === 0;
+
+    if (!matches) {
+      continue;
+    }
+
+    const occurrenceStart = epochOf({ ...event.start, wall });
+    if (occurrenceStart > untilMs || occurrenceStart >= to) {
+      break;
+    }
+
+    occurrences++;
+    if (occurrenceStart + durationMs > from && !event.exdates.includes(occurrenceStart)) {
+      intervals.push({ start: new Date(occurrenceStart), end: new Date(occurrenceStart + durationMs) });
+    }
+  }
+
+  return intervals;
+}
+
+function epochOf(time: CalendarTime): number {
+  return time.timeZone ? toEpoch(time.wall, time.timeZone) : wallToUtc(time.wall);
+}
+
+function wallToUtc(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+// The instant a wall-clock time occurs in a time zone; two passes settle DST transitions
+function toEpoch(wall: WallTime, timeZone: string): number {
+  const guess = wallToUtc(wall);
+  const first = guess - zoneOffset(guess, timeZone);
+  const second = guess - zoneOffset(first, timeZone);
+  return second;
+}
+
+function zoneOffset(epoch: number, timeZone: string): number {
+  return wallToUtc(toWallTime(epoch, timeZone)) - Math.floor(epoch / 1000) * 1000;
+}
+
+function toWallTime(epoch: number, timeZone: string): WallTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(epoch));
+  const part = (type: string) => Number(parts.find(candidate => candidate.type === type)?.value);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+}
+
+function addDays(wall: WallTime, days: number): WallTime {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+  return { ...wall, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekday(wall: WallTime): number {
+  return new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+}
+
+// Monday of the wall date's week (RFC 5545 default WKST), as a UTC day number for comparisons
+function weekStart(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day - ((weekday(wall) + 6) % 7));
+}
+
+function parseClock(clock: string): Pick<WallTime, 'hour' | 'minute' | 'second'> {
+  const [hour, minute] = clock.split(':').map(Number);
+  return { hour, minute, second: 0 };
+}
+
+function formatDate(wall: WallTime): string {
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}`;
+}
+
+function formatClock(wall: WallTime): string {
+  return `${pad(wall.hour)}:${pad(wall.minute)}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
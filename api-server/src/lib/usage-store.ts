@@ -0,0 +1,86 @@
+import { UsageMetric, UsageQuery, UsageStore, UsageTracker } from '@email-ai/ai-provider';
+import { AIUsageEvent, AIUsageEventPage, AIUsageQuery, AIUsageRollup } from '@email-ai/database';
+import { db } from './database';
+
+// Events are read back in pages of this size, so exports never hold a whole range in memory
+const EXPORT_PAGE_SIZE = 1000;
+
+// Every provider call is stored in ai_usage_events, so usage stats survive deploys
+export const usageStore: UsageStore = {
+  async saveUsageMetrics(metrics) {
+    await db.saveAIUsageEvents(metrics.map(metric => ({
+      user_id: metric.userId,
+      provider: metric.provider,
+      model: metric.model,
+      input_tokens: metric.inputTokens,
+      output_tokens: metric.outputTokens,
+      total_tokens: metric.tokensUsed,
+      response_time_ms: Math.round(metric.responseTimeMs),
+      cost: metric.cost,
+      cache_hit: metric.cacheHit,
+      success: metric.success,
+      error: metric.error,
+      created_at: metric.timestamp,
+    })));
+  },
+
+  async getUsageRollups(query) {
+    const rollups: AIUsageRollup[] = await db.getAIUsageRollups(toDatabaseQuery(query));
+
+    return rollups.map(rollup => ({
+      day: rollup.day,
+      provider: rollup.provider,
+      model: rollup.model,
+      userId: rollup.user_id,
+      requests: rollup.requests,
+      tokens: rollup.tokens,
+      inputTokens: rollup.input_tokens,
+      outputTokens: rollup.output_tokens,
+      cost: rollup.cost,
+      errors: rollup.errors,
+      cacheHits: rollup.cache_hits,
+      semanticCacheHits: rollup.semantic_cache_hits,
+      totalResponseTimeMs: rollup.total_response_time_ms,
+    }));
+  },
+
+  async *streamUsageMetrics(query) {
+    let after: string | undefined;
+
+    do {
+      const page: AIUsageEventPage = await db.getAIUsageEvents(toDatabaseQuery(query), after, EXPORT_PAGE_SIZE);
+      yield* page.data.map(toMetric);
+      after = page.next;
+    } while (after);
+  },
+};
+
+// Reads usage of all providers, e.g. for per-user reports and billing exports
+export const usageTracker = new UsageTracker({ store: usageStore });
+
+function toDatabaseQuery(query: UsageQuery): AIUsageQuery {
+  return {
+    start: query.start,
+    end: query.end,
+    user_id: query.userId,
+    provider: query.provider,
+    model: query.model,
+  };
+}
+
+function toMetric(event: AIUsageEvent): UsageMetric {
+  return {
+    provider: event.provider,
+    model: event.model,
+    userId: event.user_id,
+    tokensUsed: event.total_tokens,
+    inputTokens: event.input_tokens,
+    outputTokens: event.output_tokens,
+    responseTimeMs: event.response_time_ms,
+    success: event.success,
+    error: event.error,
+    timestamp: event.created_at,
+    cost: event.cost,
+    cacheHit: event.cache_hit,
+  };
+}
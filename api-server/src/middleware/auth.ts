@@ -1,7 +1,7 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '../config';
-import { AuthRequest, UnauthorizedError } from '../types';
+import { AuthRequest, ForbiddenError, UnauthorizedError } from '../types';
 
 export async function authMiddleware(
   req: AuthRequest,
@@ -67,4 +67,21 @@ export async function optionalAuthMiddleware(
     // Invalid token is OK for optional auth, just continue without user
     next();
   }
-}
\ No newline at end of file
+}
+
+// Use after authMiddleware; admins are listed by email in ADMIN_EMAILS
+export function adminMiddleware(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const admins = config.ADMIN_EMAILS.split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!req.user || !admins.includes(req.user.email.toLowerCase())) {
+    return next(new ForbiddenError('Admin access required'));
+  }
+
+  next();
+}
@@ -34,6 +34,10 @@ export function errorHandler(
     message = err.message;
     code = err.code;
     details = err.details;
+    
+    if (details?.retryAfter) {
+      res.setHeader('Retry-After', details.retryAfter);
+    }
   } else if (err instanceof ZodError) {
     status = 400;
     message = 'Validation error';
@@ -1,47 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
 import { rateLimit } from 'express-rate-limit';
 import { config } from '../config';
-import { RateLimitError } from '../types';
+import { counterStore } from '../lib/cache-store';
 
+// Fixed windows counted in the shared store, so limits hold across API instances
 class RateLimiter {
-  private counts: Map<string, { count: number; resetAt: number }> = new Map();
-  
   constructor(
     private windowMs: number,
     private max: number
   ) {}
   
-  async checkLimit(key: string): Promise<boolean> {
-    const now = Date.now();
-    const record = this.counts.get(key);
-    
-    if (!record || record.resetAt < now) {
-      // New window
-      this.counts.set(key, {
-        count: 1,
-        resetAt: now + this.windowMs,
-      });
-      return true;
-    }
-    
-    if (record.count >= this.max) {
-      return false;
-    }
+  async checkLimit(key: string): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
+    const windowStart = Math.floor(Date.now() / this.windowMs) * this.windowMs;
+    const count = await counterStore.increment(
+      `ratelimit:${key}:${windowStart}`,
+      1,
+      Math.ceil(this.windowMs / 1000)
+    );
     
-    record.count++;
-    return true;
-  }
-  
-  getRemaining(key: string): number {
-    const record = this.counts.get(key);
-    if (!record) return this.max;
-    return Math.max(0, this.max - record.count);
-  }
-  
-  getResetTime(key: string): number {
-    const record = this.counts.get(key);
-    if (!record) return Date.now() + this.windowMs;
-    return record.resetAt;
+    return {
+      allowed: count <= this.max,
+      remaining: Math.max(0, this.max - count),
+      resetAt: windowStart + this.windowMs,
+    };
   }
 }
 
@@ -61,15 +42,23 @@ export function createRateLimiter(
     }
     
     const limiter = limiters.get(name)!;
-    const allowed = await limiter.checkLimit(key);
+    let result;
+    try {
+      result = await limiter.checkLimit(key);
+    } catch (error) {
+      // Fail open: an unreachable store must not take the API down
+      console.error('Rate limit store unavailable:', error);
+      next();
+      return;
+    }
     
-    if (!allowed) {
+    if (!result.allowed) {
       res.status(429).json({
         error: {
           code: 'RATE_LIMIT',
           message: 'Too many requests',
         },
-        retryAfter: Math.ceil((limiter.getResetTime(key) - Date.now()) / 1000),
+        retryAfter: Math.ceil((result.resetAt - Date.now()) / 1000),
         timestamp: new Date().toISOString(),
       });
       return;
@@ -77,8 +66,8 @@ export function createRateLimiter(
     
     // Add rate limit headers
     res.setHeader('X-RateLimit-Limit', max);
-    res.setHeader('X-RateLimit-Remaining', limiter.getRemaining(key));
-    res.setHeader('X-RateLimit-Reset', new Date(limiter.getResetTime(key)).toISOString());
+    res.setHeader('X-RateLimit-Remaining', result.remaining);
+    res.setHeader('X-RateLimit-Reset', new Date(result.resetAt).toISOString());
     
     next();
   };
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { db } from '../lib/database';
+import { connectProvider } from '../lib/email-providers';
 import { authMiddleware } from '../middleware/auth';
 import { validate, validateParams } from '../middleware/validation';
+import { categoryService } from '../services/category-service';
 import { NotFoundError, ForbiddenError, ConflictError } from '../types';
 
 const router = Router();
@@ -28,6 +30,8 @@ const updateAccountSchema = z.object({
   syncEnabled: z.boolean().optional(),
   autoReply: z.boolean().optional(),
   folders: z.array(z.string()).optional(),
+  // Sort synced emails into the user's categories
+  autoCategorize: z.boolean().optional(),
   credentials: z.object({
     accessToken: z.string().optional(),
     refreshToken: z.string().optional(),
@@ -85,7 +89,7 @@ router.post(
         email,
         provider,
         credentials: credentials ? JSON.stringify(credentials) : null,
-        settings: settings ? JSON.stringify(settings) : null,
+        settings: settings ?? {},
         is_active: true,
       });
       
@@ -135,12 +139,12 @@ router.patch(
         updates.auto_reply = req.body.autoReply;
       }
       
-      if (req.body.folders) {
-        const currentSettings = account.settings ? JSON.parse(account.settings) : {};
-        updates.settings = JSON.stringify({
-          ...currentSettings,
-          folders: req.body.folders,
-        });
+      if (req.body.folders || req.body.autoCategorize !== undefined) {
+        updates.settings = {
+          ...account.settings,
+          folders: req.body.folders ?? account.settings.folders,
+          auto_categorize: req.body.autoCategorize ?? account.settings.auto_categorize,
+        };
       }
       
       if (req.body.credentials) {
@@ -223,6 +227,24 @@ router.post(
         last_sync: new Date(),
       });
       
+      // Newly synced emails are sorted into the user's categories in the background,
+      // then categories still waiting for the provider are written there as labels
+      categoryService.backfill(req.user.userId, account.id)
+        .then(async () => {
+          if (!categoryService.supportsLabels(account)) {
+            return;
+          }
+          const provider = await connectProvider(account);
+          try {
+            await categoryService.syncLabels(req.user.userId, account.id, provider);
+          } finally {
+            await provider.disconnect();
+          }
+        })
+        .catch(error => {
+          console.error('Failed to categorize synced emails or write their labels:', error);
+        });
+      
       res.json({
         message: 'Sync initiated successfully',
         data: {
@@ -1,8 +1,13 @@
+import { once } from 'events';
 import { Router } from 'express';
+import { UsageQuery } from '@email-ai/ai-provider';
 import { z } from 'zod';
 import { aiService } from '../services/ai-service';
-import { authMiddleware } from '../middleware/auth';
-import { validate, validateParams } from '../middleware/validation';
+import { revisionService } from '../services/revision-service';
+import { complianceService } from '../services/compliance-service';
+import { usageService } from '../services/usage-service';
+import { adminMiddleware, authMiddleware } from '../middleware/auth';
+import { validate, validateParams, validateQuery } from '../middleware/validation';
 import { aiRateLimit } from '../middleware/rate-limit';
 
 const router = Router();
@@ -33,6 +38,34 @@ const templateIdSchema = z.object({
   id: z.string().uuid(),
 });
 
+const responseIdSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const improveSchema = z.object({
+  feedback: z.string().max(2000).optional(),
+  presets: z.array(z.enum(['shorter', 'warmer', 'add_apology', 'decline_politely'])).max(4).optional(),
+}).refine(
+  body => !!body.feedback?.trim() || !!body.presets?.length,
+  'Provide feedback or at least one preset'
+);
+
+const usageQuerySchema = z.object({
+  start: z.string().datetime().optional(),
+  end: z.string().datetime().optional(),
+});
+
+const usageReportSchema = usageQuerySchema.extend({
+  groupBy: z.string().regex(/^(day|provider|model|user)(,(day|provider|model|user))*$/).optional(),
+  userId: z.string().uuid().optional(),
+  provider: z.string().max(50).optional(),
+  model: z.string().max(100).optional(),
+});
+
+const usageExportSchema = usageReportSchema.omit({ groupBy: true }).extend({
+  format: z.enum(['csv', 'json']).optional(),
+});
+
 // POST /api/ai/generate - Generate AI response
 router.post(
   '/generate',
@@ -107,6 +140,85 @@ router.post(
   }
 );
 
+// POST /api/ai/responses/:id/improve - Revise a response into a new version
+router.post(
+  '/responses/:id/improve',
+  authMiddleware,
+  aiRateLimit,
+  validateParams(responseIdSchema),
+  validate(improveSchema),
+  async (req: any, res, next) => {
+    try {
+      const response = await revisionService.improve(req.user.userId, req.params.id, {
+        feedback: req.body.feedback,
+        presets: req.body.presets,
+      });
+      
+      res.json({
+        data: response,
+        message: 'Response improved successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/ai/responses/:id/versions - Version history of the response's email, oldest first
+router.get(
+  '/responses/:id/versions',
+  authMiddleware,
+  validateParams(responseIdSchema),
+  async (req: any, res, next) => {
+    try {
+      const versions = await revisionService.getVersions(req.user.userId, req.params.id);
+      
+      res.json({
+        data: versions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/ai/responses/:id/rollback - Restore a version as the newest one
+router.post(
+  '/responses/:id/rollback',
+  authMiddleware,
+  validateParams(responseIdSchema),
+  async (req: any, res, next) => {
+    try {
+      const response = await revisionService.rollback(req.user.userId, req.params.id);
+      
+      res.json({
+        data: response,
+        message: 'Response restored successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/ai/responses/:id/sent - Record that a response was sent; refused while it awaits compliance approval
+router.post(
+  '/responses/:id/sent',
+  authMiddleware,
+  validateParams(responseIdSchema),
+  async (req: any, res, next) => {
+    try {
+      await complianceService.markSent(req.user.userId, req.params.id);
+      
+      res.json({
+        message: 'Response marked as sent',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // GET /api/ai/templates - Get templates
 router.get(
   '/templates',
@@ -168,19 +280,42 @@ router.delete(
   }
 );
 
-// GET /api/ai/usage - Get AI usage stats
+// GET /api/ai/usage - Get the user's AI usage per day and model (current month by default)
 router.get(
   '/usage',
   authMiddleware,
+  validateQuery(usageQuerySchema),
+  async (req: any, res, next) => {
+    try {
+      const { start, end } = req.query;
+      const usage = await usageService.getUserUsage(
+        req.user.userId,
+        start ? new Date(start) : undefined,
+        end ? new Date(end) : undefined
+      );
+
+      res.json({
+        data: usage,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/ai/usage/report - Usage of all users, grouped e.g. by user and model (admins only)
+router.get(
+  '/usage/report',
+  authMiddleware,
+  adminMiddleware,
+  validateQuery(usageReportSchema),
   async (req: any, res, next) => {
     try {
-      // This would need to be implemented in the service
+      const groupBy = (req.query.groupBy || 'day,model,user').split(',');
+      const report = await usageService.getReport(groupBy, toUsageQuery(req.query));
+
       res.json({
-        data: {
-          used: 10,
-          limit: 50,
-          resetAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
-        },
+        data: report,
       });
     } catch (error) {
       next(error);
@@ -188,4 +323,46 @@ router.get(
   }
 );
 
+// GET /api/ai/usage/export - Stream every AI call as CSV or JSON for billing reconciliation (admins only)
+router.get(
+  '/usage/export',
+  authMiddleware,
+  adminMiddleware,
+  validateQuery(usageExportSchema),
+  async (req: any, res, next) => {
+    try {
+      const format = req.query.format || 'csv';
+      const chunks = usageService.exportUsage(format, toUsageQuery(req.query));
+
+      res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json');
+      res.setHeader('Content-Disposition', `attachment; filename="ai-usage.${format}"`);
+
+      for await (const chunk of chunks) {
+        // Wait for the client instead of buffering the whole export
+        if (!res.write(chunk)) {
+          await once(res, 'drain');
+        }
+      }
+      res.end();
+    } catch (error) {
+      // Once rows have been sent the status can no longer change; cut the download short instead
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+function toUsageQuery(query: any): UsageQuery {
+  return {
+    start: query.start ? new Date(query.start) : undefined,
+    end: query.end ? new Date(query.end) : undefined,
+    userId: query.userId,
+    provider: query.provider,
+    model: query.model,
+  };
+}
+
 export default router;
\ No newline at end of file
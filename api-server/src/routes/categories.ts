@@ -0,0 +1,121 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { categoryService } from '../services/category-service';
+import { authMiddleware } from '../middleware/auth';
+import { validate, validateParams } from '../middleware/validation';
+
+const router = Router();
+
+// Validation schemas
+const exampleSchema = z.object({
+  subject: z.string().min(1).max(500),
+  from: z.string().max(255).optional(),
+  snippet: z.string().max(1000),
+});
+
+const createCategorySchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().min(1).max(1000),
+  examples: z.array(exampleSchema).max(10).optional(),
+  // Write the category back to Gmail or Outlook as a label
+  syncToProvider: z.boolean().optional(),
+});
+
+const updateCategorySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().min(1).max(1000).optional(),
+  syncToProvider: z.boolean().optional(),
+});
+
+const categoryIdSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// GET /api/categories - List the user's categories with their examples
+router.get(
+  '/',
+  authMiddleware,
+  async (req: any, res, next) => {
+    try {
+      const categories = await categoryService.listCategories(req.user.userId);
+      
+      res.json({
+        data: categories,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/categories - Create a category
+router.post(
+  '/',
+  authMiddleware,
+  validate(createCategorySchema),
+  async (req: any, res, next) => {
+    try {
+      const { name, description, examples, syncToProvider } = req.body;
+      
+      const category = await categoryService.createCategory(req.user.userId, {
+        name,
+        description,
+        examples,
+        sync_to_provider: syncToProvider,
+      });
+      
+      res.status(201).json({
+        data: category,
+        message: 'Category created successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/categories/:id - Rename or describe a category
+router.patch(
+  '/:id',
+  authMiddleware,
+  validateParams(categoryIdSchema),
+  validate(updateCategorySchema),
+  async (req: any, res, next) => {
+    try {
+      const { name, description, syncToProvider } = req.body;
+      
+      const category = await categoryService.updateCategory(req.user.userId, req.params.id, {
+        name,
+        description,
+        sync_to_provider: syncToProvider,
+      });
+      
+      res.json({
+        data: category,
+        message: 'Category updated successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/categories/:id - Delete a category
+router.delete(
+  '/:id',
+  authMiddleware,
+  validateParams(categoryIdSchema),
+  async (req: any, res, next) => {
+    try {
+      await categoryService.deleteCategory(req.user.userId, req.params.id);
+      
+      res.json({
+        message: 'Category deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,132 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { adminMiddleware, authMiddleware } from '../middleware/auth';
+import { validate, validateQuery, validateParams } from '../middleware/validation';
+import { aiRateLimit } from '../middleware/rate-limit';
+import { complianceService } from '../services/compliance-service';
+
+const router = Router();
+
+// Validation schemas
+const complianceSettingsSchema = z.object({
+  policies: z.array(z.object({
+    id: z.string().regex(/^[a-z0-9_-]{1,50}$/),
+    name: z.string().min(1).max(100),
+    description: z.string().min(1).max(1000),
+    type: z.enum(['forbidden', 'required', 'llm']),
+    pattern: z.string().min(1).max(500).optional(),
+    flags: z.string().regex(/^[imsu]*$/).optional(),
+    severity: z.enum(['low', 'medium', 'high']),
+  })).max(50).optional(),
+  require_approval: z.boolean().optional(),
+  reviewers: z.array(z.string().email()).max(100).optional(),
+});
+
+const listReviewsSchema = z.object({
+  page: z.string().regex(/^\d+$/).optional(),
+  pageSize: z.string().regex(/^\d+$/).optional(),
+});
+
+const responseIdSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// GET /api/compliance - Get the compliance policies that apply to the user's drafts
+router.get(
+  '/',
+  authMiddleware,
+  async (req: any, res, next) => {
+    try {
+      const settings = await complianceService.getSettingsForUser(req.user.userId);
+
+      res.json({
+        data: settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/compliance/reviews - Drafts of the organization that wait for approval (reviewers only)
+router.get(
+  '/reviews',
+  authMiddleware,
+  validateQuery(listReviewsSchema),
+  async (req: any, res, next) => {
+    try {
+      const { page, pageSize } = req.query;
+
+      const result = await complianceService.listPending(
+        req.user.userId,
+        Number(page) || 1,
+        Math.min(Number(pageSize) || 20, 100)
+      );
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/compliance/responses/:id/check - Check a response against the current policies
+router.post(
+  '/responses/:id/check',
+  authMiddleware,
+  aiRateLimit,
+  validateParams(responseIdSchema),
+  async (req: any, res, next) => {
+    try {
+      const response = await complianceService.recheck(req.user.userId, req.params.id);
+
+      res.json({
+        data: response,
+        message: 'Compliance check completed',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/compliance/responses/:id/approve - Allow a flagged response to be sent (reviewers only)
+router.post(
+  '/responses/:id/approve',
+  authMiddleware,
+  validateParams(responseIdSchema),
+  async (req: any, res, next) => {
+    try {
+      const response = await complianceService.approve(req.user.userId, req.params.id);
+
+      res.json({
+        data: response,
+        message: 'Response approved',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/compliance/organizations/:id - Replace an organization's compliance settings (admins only)
+router.put(
+  '/organizations/:id',
+  authMiddleware,
+  adminMiddleware,
+  validate(complianceSettingsSchema),
+  async (req, res, next) => {
+    try {
+      const settings = await complianceService.updateOrganizationSettings(req.params.id, req.body);
+
+      res.json({
+        data: settings,
+        message: 'Organization compliance settings updated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { emailService } from '../services/email-service';
+import { searchService } from '../services/search-service';
+import { priorityService } from '../services/priority-service';
+import { smartReplyService } from '../services/smart-reply-service';
+import { categoryService } from '../services/category-service';
 import { authMiddleware } from '../middleware/auth';
 import { validate, validateQuery, validateParams } from '../middleware/validation';
 import { aiRateLimit } from '../middleware/rate-limit';
@@ -13,7 +17,16 @@ const listEmailsSchema = z.object({
   pageSize: z.string().optional().transform(Number),
   sortBy: z.enum(['received_at', 'subject', 'from_address']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
+  // Shorthand for sortBy: 'priority' ranks the most important emails first
+  sort: z.enum(['date', 'priority']).optional(),
   filter: z.string().optional(),
+  // Only emails in this category
+  category: z.string().uuid().optional(),
+});
+
+const semanticSearchSchema = z.object({
+  q: z.string().min(1).max(500),
+  limit: z.string().regex(/^\d+$/).optional(),
 });
 
 const emailIdSchema = z.object({
@@ -23,6 +36,29 @@ const emailIdSchema = z.object({
 const processEmailSchema = z.object({
   style: z.enum(['professional', 'casual', 'friendly', 'formal']).optional(),
   instructions: z.string().optional(),
+  // Process an email flagged as high risk after the user reviewed the warnings
+  confirmed: z.boolean().optional(),
+  // Reply in the sender's language (default) or the user's own
+  replyLanguage: z.enum(['sender', 'user']).optional(),
+  // Also return a translation into the user's language for review
+  translate: z.boolean().optional(),
+});
+
+const smartRepliesQuerySchema = z.object({
+  refresh: z.enum(['true', 'false']).optional(),
+});
+
+const selectSmartReplySchema = z.object({
+  index: z.number().int().min(0).max(4),
+});
+
+const setCategorySchema = z.object({
+  // Null removes the email from its category
+  categoryId: z.string().uuid().nullable(),
+});
+
+const priorityFeedbackSchema = z.object({
+  feedback: z.enum(['higher', 'lower']),
 });
 
 // GET /api/emails - List emails
@@ -32,14 +68,17 @@ router.get(
   validateQuery(listEmailsSchema),
   async (req: any, res, next) => {
     try {
-      const { page, pageSize, sortBy, sortOrder, filter } = req.query;
+      const { page, pageSize, sortBy, sortOrder, sort, filter, category } = req.query;
       
       const result = await emailService.listEmails(req.user.userId, {
         page: page || 1,
         pageSize: pageSize || 20,
-        sortBy,
+        sortBy: sort === 'priority' ? 'priority' : sort === 'date' ? 'received_at' : sortBy,
         sortOrder,
-        filters: filter ? { search: filter } : undefined,
+        filters: filter || category ? {
+          search: filter,
+          'metadata->categorization->>category_id': category,
+        } : undefined,
       });
       
       res.json(result);
@@ -49,6 +88,31 @@ router.get(
   }
 );
 
+// GET /api/emails/search/semantic - Search emails by meaning
+router.get(
+  '/search/semantic',
+  authMiddleware,
+  aiRateLimit,
+  validateQuery(semanticSearchSchema),
+  async (req: any, res, next) => {
+    try {
+      const { q, limit } = req.query;
+      
+      const results = await searchService.semanticSearch(
+        req.user.userId,
+        q,
+        Math.min(Number(limit) || 10, 50)
+      );
+      
+      res.json({
+        data: results,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // GET /api/emails/:id - Get single email
 router.get(
   '/:id',
@@ -78,7 +142,12 @@ router.post(
     try {
       const result = await emailService.processEmail(
         req.params.id,
-        req.user.userId
+        req.user.userId,
+        {
+          confirmed: req.body.confirmed,
+          replyLanguage: req.body.replyLanguage,
+          translate: req.body.translate,
+        }
       );
       
       res.json({
@@ -91,6 +160,116 @@ router.post(
   }
 );
 
+// GET /api/emails/:id/smart-replies - Short one-tap replies, generated once per email
+router.get(
+  '/:id/smart-replies',
+  authMiddleware,
+  aiRateLimit,
+  validateParams(emailIdSchema),
+  validateQuery(smartRepliesQuerySchema),
+  async (req: any, res, next) => {
+    try {
+      const smartReplies = await smartReplyService.getReplies(req.user.userId, req.params.id, {
+        refresh: req.query.refresh === 'true',
+      });
+      
+      res.json({
+        data: smartReplies,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/emails/:id/smart-replies/select - Use a smart reply; it is saved as an AI response
+router.post(
+  '/:id/smart-replies/select',
+  authMiddleware,
+  validateParams(emailIdSchema),
+  validate(selectSmartReplySchema),
+  async (req: any, res, next) => {
+    try {
+      const response = await smartReplyService.select(req.user.userId, req.params.id, req.body.index);
+      
+      res.json({
+        data: response,
+        message: 'Smart reply selected',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/emails/:id/priority - Correct an email's priority; later mail from the sender follows
+router.post(
+  '/:id/priority',
+  authMiddleware,
+  validateParams(emailIdSchema),
+  validate(priorityFeedbackSchema),
+  async (req: any, res, next) => {
+    try {
+      const priority = await priorityService.feedback(
+        req.user.userId,
+        req.params.id,
+        req.body.feedback
+      );
+      
+      res.json({
+        data: priority,
+        message: 'Priority updated successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/emails/:id/categorize - Sort an email into the user's categories again
+router.post(
+  '/:id/categorize',
+  authMiddleware,
+  aiRateLimit,
+  validateParams(emailIdSchema),
+  async (req: any, res, next) => {
+    try {
+      const categorization = await categoryService.categorizeById(req.user.userId, req.params.id);
+      
+      res.json({
+        data: categorization,
+        message: categorization?.category_id ? `Categorized as ${categorization.category}` : 'No category fits this email',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/emails/:id/category - Correct an email's category; the email becomes an example of it
+router.put(
+  '/:id/category',
+  authMiddleware,
+  validateParams(emailIdSchema),
+  validate(setCategorySchema),
+  async (req: any, res, next) => {
+    try {
+      const categorization = await categoryService.correct(
+        req.user.userId,
+        req.params.id,
+        req.body.categoryId
+      );
+      
+      res.json({
+        data: categorization,
+        message: 'Category updated successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // DELETE /api/emails/:id - Delete email
 router.delete(
   '/:id',
@@ -4,6 +4,12 @@ import emailRoutes from './emails';
 import aiRoutes from './ai';
 import accountRoutes from './accounts';
 import userRoutes from './user';
+import promptRoutes from './prompts';
+import redactionRoutes from './redaction';
+import toolRoutes from './tools';
+import taskRoutes from './tasks';
+import complianceRoutes from './compliance';
+import categoryRoutes from './categories';
 
 const router = Router();
 
@@ -12,6 +18,12 @@ router.use('/emails', emailRoutes);
 router.use('/ai', aiRoutes);
 router.use('/accounts', accountRoutes);
 router.use('/user', userRoutes);
+router.use('/prompts', promptRoutes);
+router.use('/redaction', redactionRoutes);
+router.use('/tools', toolRoutes);
+router.use('/tasks', taskRoutes);
+router.use('/compliance', complianceRoutes);
+router.use('/categories', categoryRoutes);
 
 // API root endpoint
 router.get('/', (req, res) => {
@@ -24,6 +36,12 @@ router.get('/', (req, res) => {
       ai: '/api/ai',
       accounts: '/api/accounts',
       user: '/api/user',
+      prompts: '/api/prompts',
+      redaction: '/api/redaction',
+      tools: '/api/tools',
+      tasks: '/api/tasks',
+      compliance: '/api/compliance',
+      categories: '/api/categories',
     },
   });
 });
@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { adminMiddleware, authMiddleware } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validation';
+import { promptService } from '../services/prompt-service';
+
+const router = Router();
+
+// Validation schemas
+const createTemplateSchema = z.object({
+  id: z.string().min(1).max(100),
+  version: z.number().int().positive(),
+  template: z.string().min(1),
+  description: z.string().max(500).optional(),
+});
+
+const saveExperimentSchema = z.object({
+  promptId: z.string().min(1).max(100),
+  variants: z.array(z.object({
+    name: z.string().min(1).max(50),
+    version: z.number().int().positive(),
+    weight: z.number().positive().optional(),
+  })).min(1),
+  active: z.boolean().optional(),
+});
+
+const reportQuerySchema = z.object({
+  since: z.string().datetime().optional(),
+});
+
+router.use(authMiddleware, adminMiddleware);
+
+// GET /api/prompts - List prompt versions and experiments
+router.get('/', async (req, res, next) => {
+  try {
+    res.json({
+      data: promptService.list(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/prompts - Add a prompt version
+router.post(
+  '/',
+  validate(createTemplateSchema),
+  async (req, res, next) => {
+    try {
+      const template = await promptService.createTemplate(req.body);
+
+      res.status(201).json({
+        data: template,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/prompts/experiments/:id - Create or update an experiment
+router.put(
+  '/experiments/:id',
+  validate(saveExperimentSchema),
+  async (req, res, next) => {
+    try {
+      const experiment = await promptService.saveExperiment({
+        id: req.params.id,
+        ...req.body,
+      });
+
+      res.json({
+        data: experiment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/prompts/experiments/:id/report - Acceptance rates per variant
+router.get(
+  '/experiments/:id/report',
+  validateQuery(reportQuerySchema),
+  async (req, res, next) => {
+    try {
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      const report = await promptService.getExperimentReport(req.params.id, since);
+
+      res.json({
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { adminMiddleware, authMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { redactionService } from '../services/redaction-service';
+
+const router = Router();
+
+// Validation schemas
+const redactionSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  detectors: z.array(z.enum(['email', 'phone', 'iban', 'card', 'address', 'signature'])).optional(),
+  custom_rules: z.array(z.object({
+    name: z.string().min(1).max(50),
+    pattern: z.string().min(1).max(500),
+    flags: z.string().regex(/^[imsu]*$/).optional(),
+  })).max(50).optional(),
+  allow: z.array(z.string().min(1).max(255)).max(100).optional(),
+});
+
+// GET /api/redaction - Get the user's redaction settings
+router.get(
+  '/',
+  authMiddleware,
+  async (req: any, res, next) => {
+    try {
+      const settings = await redactionService.getUserSettings(req.user.userId);
+
+      res.json({
+        data: settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/redaction - Replace the user's redaction settings
+router.put(
+  '/',
+  authMiddleware,
+  validate(redactionSettingsSchema),
+  async (req: any, res, next) => {
+    try {
+      const settings = await redactionService.updateUserSettings(req.user.userId, req.body);
+
+      res.json({
+        data: settings,
+        message: 'Redaction settings updated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/redaction/organizations/:id - Replace an organization's redaction settings (admins only)
+router.put(
+  '/organizations/:id',
+  authMiddleware,
+  adminMiddleware,
+  validate(redactionSettingsSchema),
+  async (req, res, next) => {
+    try {
+      const settings = await redactionService.updateOrganizationSettings(req.params.id, req.body);
+
+      res.json({
+        data: settings,
+        message: 'Organization redaction settings updated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
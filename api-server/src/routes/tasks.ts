@@ -0,0 +1,185 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { taskService } from '../services/task-service';
+import { authMiddleware } from '../middleware/auth';
+import { validate, validateQuery, validateParams } from '../middleware/validation';
+import { aiRateLimit } from '../middleware/rate-limit';
+
+const router = Router();
+
+// Validation schemas
+const listTasksSchema = z.object({
+  page: z.string().regex(/^\d+$/).optional(),
+  pageSize: z.string().regex(/^\d+$/).optional(),
+  status: z.enum(['open', 'completed']).optional(),
+  emailId: z.string().uuid().optional(),
+  threadId: z.string().max(255).optional(),
+  dueBefore: z.string().datetime().optional(),
+});
+
+const taskIdSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const createTaskSchema = z.object({
+  description: z.string().min(1).max(1000),
+  owner: z.string().max(255).optional(),
+  dueDate: z.string().datetime().optional(),
+  priority: z.enum(['low', 'medium', 'high']).optional(),
+  // Links a manual task to an email and its thread
+  emailId: z.string().uuid().optional(),
+});
+
+const updateTaskSchema = z.object({
+  description: z.string().min(1).max(1000).optional(),
+  owner: z.string().max(255).optional(),
+  dueDate: z.string().datetime().optional(),
+  priority: z.enum(['low', 'medium', 'high']).optional(),
+  status: z.enum(['open', 'completed']).optional(),
+});
+
+const extractTasksSchema = z.object({
+  emailId: z.string().uuid(),
+  // Extract from an email flagged as high risk after the user reviewed the warnings
+  confirmed: z.boolean().optional(),
+});
+
+// GET /api/tasks - List tasks, soonest due first
+router.get(
+  '/',
+  authMiddleware,
+  validateQuery(listTasksSchema),
+  async (req: any, res, next) => {
+    try {
+      const { page, pageSize, status, emailId, threadId, dueBefore } = req.query;
+      
+      const result = await taskService.listTasks(req.user.userId, {
+        page: Number(page) || 1,
+        pageSize: Math.min(Number(pageSize) || 20, 100),
+        status,
+        emailId,
+        threadId,
+        dueBefore: dueBefore ? new Date(dueBefore) : undefined,
+      });
+      
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/tasks - Create a task by hand
+router.post(
+  '/',
+  authMiddleware,
+  validate(createTaskSchema),
+  async (req: any, res, next) => {
+    try {
+      const { description, owner, dueDate, priority, emailId } = req.body;
+      
+      const task = await taskService.createTask(req.user.userId, {
+        description,
+        owner,
+        due_date: dueDate ? new Date(dueDate) : undefined,
+        priority,
+        email_id: emailId,
+      });
+      
+      res.status(201).json({
+        data: task,
+        message: 'Task created successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/tasks/extract - Extract tasks from an email now instead of after processing
+router.post(
+  '/extract',
+  authMiddleware,
+  aiRateLimit,
+  validate(extractTasksSchema),
+  async (req: any, res, next) => {
+    try {
+      const tasks = await taskService.extractFromEmailId(req.user.userId, req.body.emailId, {
+        confirmed: req.body.confirmed,
+      });
+      
+      res.json({
+        data: tasks,
+        message: tasks.length > 0 ? `Extracted ${tasks.length} tasks` : 'No new tasks found',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/tasks/:id - Get a task with its source email
+router.get(
+  '/:id',
+  authMiddleware,
+  validateParams(taskIdSchema),
+  async (req: any, res, next) => {
+    try {
+      const task = await taskService.getTask(req.user.userId, req.params.id);
+      
+      res.json({
+        data: task,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/tasks/:id - Update or complete a task
+router.patch(
+  '/:id',
+  authMiddleware,
+  validateParams(taskIdSchema),
+  validate(updateTaskSchema),
+  async (req: any, res, next) => {
+    try {
+      const { description, owner, dueDate, priority, status } = req.body;
+      
+      const task = await taskService.updateTask(req.user.userId, req.params.id, {
+        description,
+        owner,
+        due_date: dueDate ? new Date(dueDate) : undefined,
+        priority,
+        status,
+      });
+      
+      res.json({
+        data: task,
+        message: status === 'completed' ? 'Task completed' : 'Task updated successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/tasks/:id - Delete a task
+router.delete(
+  '/:id',
+  authMiddleware,
+  validateParams(taskIdSchema),
+  async (req: any, res, next) => {
+    try {
+      await taskService.deleteTask(req.user.userId, req.params.id);
+      
+      res.json({
+        message: 'Task deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
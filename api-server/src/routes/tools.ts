@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { toolService } from '../services/tool-service';
+
+const router = Router();
+
+// Validation schemas
+const clockSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+const calendarSettingsSchema = z.object({
+  ics_url: z.string().url().max(2000).refine(
+    url => /^(https|webcal):/i.test(url),
+    'Calendar feed must use https or webcal'
+  ).optional(),
+  working_hours: z.object({
+    start: clockSchema,
+    end: clockSchema,
+    days: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(),
+  }).refine(hours => hours.start < hours.end, 'Working hours must end after they start').optional(),
+});
+
+const contactNotesSchema = z.object({
+  notes: z.string().max(2000),
+});
+
+// GET /api/tools - List the tools the AI can use while drafting, and whether each is set up
+router.get(
+  '/',
+  authMiddleware,
+  async (req: any, res, next) => {
+    try {
+      const tools = await toolService.listTools(req.user.userId);
+
+      res.json({
+        data: tools,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/tools/calendar - Replace the calendar used for free/busy lookups
+router.put(
+  '/calendar',
+  authMiddleware,
+  validate(calendarSettingsSchema),
+  async (req: any, res, next) => {
+    try {
+      const calendar = await toolService.updateCalendarSettings(req.user.userId, req.body);
+
+      res.json({
+        data: calendar,
+        message: 'Calendar settings updated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/tools/contacts/:email - Save notes about a contact; empty notes remove them
+router.put(
+  '/contacts/:email',
+  authMiddleware,
+  validate(contactNotesSchema),
+  async (req: any, res, next) => {
+    try {
+      const contacts = await toolService.updateContactNotes(req.user.userId, req.params.email, req.body.notes);
+
+      res.json({
+        data: contacts,
+        message: 'Contact notes updated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
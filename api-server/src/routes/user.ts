@@ -3,6 +3,10 @@ import { z } from 'zod';
 import { db } from '../lib/database';
 import { authMiddleware } from '../middleware/auth';
 import { validate } from '../middleware/validation';
+import { budgetService } from '../services/budget-service';
+import { styleService } from '../services/style-service';
+import { languageService } from '../services/language-service';
+import { priorityService } from '../services/priority-service';
 import { NotFoundError } from '../types';
 
 const router = Router();
@@ -18,6 +22,22 @@ const updateProfileSchema = z.object({
   }).optional(),
 });
 
+const styleSettingsSchema = z.object({
+  enabled: z.boolean(),
+});
+
+const languageSettingsSchema = z.object({
+  // ISO 639-1 code, e.g. 'en' or 'pt-BR'
+  language: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/).optional(),
+  reply_language: z.enum(['sender', 'user']).optional(),
+  translate_replies: z.boolean().optional(),
+});
+
+const prioritySettingsSchema = z.object({
+  // Addresses, or domains written as "@example.com"
+  vip_senders: z.array(z.string().regex(/^([^@\s]+@|@)[^@\s]+\.[^@\s]+$/)).max(500),
+});
+
 // GET /api/user/profile - Get user profile
 router.get(
   '/profile',
@@ -72,34 +92,36 @@ router.get(
   authMiddleware,
   async (req: any, res, next) => {
     try {
-      const now = new Date();
-      const startOfDay = new Date(now);
-      startOfDay.setUTCHours(0, 0, 0, 0);
-      
-      const startOfMonth = new Date(now);
+      const startOfMonth = new Date();
       startOfMonth.setUTCDate(1);
       startOfMonth.setUTCHours(0, 0, 0, 0);
       
-      // Get various usage metrics
-      const [aiUsageToday, aiUsageMonth, emailsProcessed] = await Promise.all([
-        db.getUsage(req.user.userId, 'ai_calls', startOfDay),
-        db.getUsage(req.user.userId, 'ai_calls', startOfMonth),
+      const [budget, emailsProcessed] = await Promise.all([
+        budgetService.getStatus(req.user.userId),
         db.getUsage(req.user.userId, 'emails_processed', startOfMonth),
       ]);
       
+      const day = budget.windows.find(window => window.window === 'day')!;
+      const month = budget.windows.find(window => window.window === 'month')!;
+      
       res.json({
         data: {
           ai: {
             today: {
-              used: aiUsageToday?.count || 0,
-              limit: 50,
-              resetAt: new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000),
+              used: day.requestsUsed,
+              limit: day.requestLimit,
+              tokensUsed: day.tokensUsed,
+              tokenLimit: day.tokenLimit,
+              resetAt: day.resetTime,
             },
             month: {
-              used: aiUsageMonth?.count || 0,
-              limit: 1500,
-              resetAt: new Date(startOfMonth.getTime() + 30 * 24 * 60 * 60 * 1000),
+              used: month.requestsUsed,
+              limit: month.requestLimit,
+              tokensUsed: month.tokensUsed,
+              tokenLimit: month.tokenLimit,
+              resetAt: month.resetTime,
             },
+            rateLimit: budget,
           },
           emails: {
             processedThisMonth: emailsProcessed?.count || 0,
@@ -112,6 +134,132 @@ router.get(
   }
 );
 
+// GET /api/user/language - Get the language used for replies
+router.get(
+  '/language',
+  authMiddleware,
+  async (req: any, res, next) => {
+    try {
+      const settings = await languageService.getSettings(req.user.userId);
+      
+      res.json({
+        data: settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/user/language - Reply in the sender's language or the user's own
+router.put(
+  '/language',
+  authMiddleware,
+  validate(languageSettingsSchema),
+  async (req: any, res, next) => {
+    try {
+      const settings = await languageService.updateSettings(req.user.userId, req.body);
+      
+      res.json({
+        data: settings,
+        message: 'Language settings updated successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/user/priority - Get the senders whose mail always ranks high
+router.get(
+  '/priority',
+  authMiddleware,
+  async (req: any, res, next) => {
+    try {
+      const settings = await priorityService.getSettings(req.user.userId);
+      
+      res.json({
+        data: settings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/user/priority - Replace the VIP senders
+router.put(
+  '/priority',
+  authMiddleware,
+  validate(prioritySettingsSchema),
+  async (req: any, res, next) => {
+    try {
+      const settings = await priorityService.updateSettings(req.user.userId, req.body.vip_senders);
+      
+      res.json({
+        data: settings,
+        message: 'Priority settings updated successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/user/style - Get the writing style learned from the user's sent mail
+router.get(
+  '/style',
+  authMiddleware,
+  async (req: any, res, next) => {
+    try {
+      const status = await styleService.getStatus(req.user.userId);
+      
+      res.json({
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/user/style - Turn style learning on or off; turning it off deletes the profile
+router.put(
+  '/style',
+  authMiddleware,
+  validate(styleSettingsSchema),
+  async (req: any, res, next) => {
+    try {
+      const status = await styleService.setEnabled(req.user.userId, req.body.enabled);
+      
+      res.json({
+        data: status,
+        message: req.body.enabled ? 'Style learning enabled' : 'Style learning disabled and profile deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/user/style/refresh - Rebuild the writing style from the latest sent mail
+router.post(
+  '/style/refresh',
+  authMiddleware,
+  async (req: any, res, next) => {
+    try {
+      const profile = await styleService.rebuild(req.user.userId);
+      
+      res.json({
+        data: profile,
+        message: profile ? 'Style profile rebuilt' : 'Not enough sent mail to learn from yet',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // DELETE /api/user/account - Delete user account
 router.delete(
   '/account',
@@ -150,11 +298,12 @@ router.get(
   async (req: any, res, next) => {
     try {
       // Gather all user data
-      const [user, accounts, emails, usage] = await Promise.all([
+      const [user, accounts, emails, usage, style] = await Promise.all([
         db.getUserById(req.user.userId),
         db.getEmailAccounts(req.user.userId),
         db.getUserEmails(req.user.userId),
         db.getUserUsageHistory(req.user.userId),
+        db.getStyleProfile(req.user.userId),
       ]);
       
       // Remove sensitive fields
@@ -165,6 +314,7 @@ router.get(
         emailAccounts: accounts,
         emails: emails,
         usage: usage,
+        styleProfile: style,
         exportedAt: new Date().toISOString(),
       };
       
@@ -0,0 +1,43 @@
+import { budgetService } from '../budget-service';
+
+jest.mock('../../config', () => ({ config: {} }));
+
+jest.mock('@email-ai/database', () => ({ getUsageLimits: jest.fn() }));
+
+jest.mock('../../lib/database', () => ({ db: { getUser: jest.fn() } }));
+
+jest.mock('../../lib/cache-store', () => ({ counterStore: { increment: jest.fn() } }));
+
+jest.mock('../../lib/ai', () => ({ ai: { countTokens: jest.fn(() => 10) } }));
+
+describe('BudgetService', () => {
+  const reservation: any = { subject: 'user-1', estimatedTokens: 500, windows: [] };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(budgetService, 'reserve').mockResolvedValue(reservation);
+    jest.spyOn(budgetService, 'reconcile').mockResolvedValue();
+    jest.spyOn(budgetService, 'release').mockResolvedValue();
+  });
+
+  describe('withBudget', () => {
+    it('charges the tokens the call used instead of the estimate', async () => {
+      const result = await budgetService.withBudget('user-1', 500, async () => ({ result: 'done', tokensUsed: 180 }));
+
+      expect(result).toBe('done');
+      expect(budgetService.reserve).toHaveBeenCalledWith('user-1', 500);
+      expect(budgetService.reconcile).toHaveBeenCalledWith(reservation, 180);
+      expect(budgetService.release).not.toHaveBeenCalled();
+    });
+
+    it('releases the reservation when the call fails', async () => {
+      const call = async (): Promise<never> => {
+        throw new Error('Provider unavailable');
+      };
+
+      await expect(budgetService.withBudget('user-1', 500, call)).rejects.toThrow('Provider unavailable');
+      expect(budgetService.release).toHaveBeenCalledWith(reservation);
+      expect(budgetService.reconcile).not.toHaveBeenCalled();
+    });
+  });
+});
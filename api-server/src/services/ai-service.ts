@@ -1,5 +1,6 @@
 import { ai } from '../lib/ai';
 import { db } from '../lib/database';
+import { budgetService } from './budget-service';
 import { RateLimitError, ValidationError } from '../types';
 
 export class AIService {
@@ -9,14 +10,6 @@ export class AIService {
     context?: any,
     stream?: boolean
   ): Promise<any> {
-    // Check usage limits
-    const usage = await db.getUsage(userId, 'ai_calls', new Date());
-    const dailyLimit = 50;
-    
-    if (usage && usage.count >= dailyLimit) {
-      throw new RateLimitError('Daily AI usage limit exceeded');
-    }
-    
     // Validate prompt
     if (!prompt || prompt.trim().length < 10) {
       throw new ValidationError('Prompt must be at least 10 characters');
@@ -26,28 +19,32 @@ export class AIService {
       throw new ValidationError('Prompt exceeds maximum length of 4000 characters');
     }
     
+    const maxTokens = context?.maxTokens || 1000;
+    const reservation = await budgetService.reserve(userId, budgetService.estimateTokens(prompt, maxTokens));
+    
     const startTime = Date.now();
     
+    let response: any;
+    
     try {
-      let response;
-      
       if (stream) {
         // Handle streaming response
         response = await ai.streamGenerate(prompt, {
-          maxTokens: 1000,
+          maxTokens,
           temperature: 0.7,
           ...context,
-        });
+        }, userId);
       } else {
         // Regular generation
         response = await ai.generate(prompt, {
-          maxTokens: 1000,
+          maxTokens,
           temperature: 0.7,
           ...context,
-        });
+        }, userId);
       }
       
       const responseTime = Date.now() - startTime;
+      await budgetService.reconcile(reservation, response.tokensUsed || 0);
       
       // Update usage
       await db.incrementUsage(userId, 'ai_calls', response.tokensUsed || 100);
@@ -67,12 +64,13 @@ export class AIService {
         model: response.model,
         tokensUsed: response.tokensUsed,
         responseTime,
-        usage: {
-          remaining: dailyLimit - (usage?.count || 0) - 1,
-          resetAt: this.getResetDate(),
-        },
+        usage: await budgetService.getStatus(userId),
       };
     } catch (error) {
+      if (!response) {
+        await budgetService.release(reservation);
+      }
+      
       // Handle rate limiting from AI provider
       if (error instanceof Error && error.message.includes('rate limit')) {
         throw new RateLimitError('AI provider rate limit exceeded. Please try again later.');
@@ -85,28 +83,27 @@ export class AIService {
     userId: string,
     emailContent: string
   ): Promise<any> {
-    // Check usage limits
-    const usage = await db.getUsage(userId, 'ai_calls', new Date());
-    const dailyLimit = 50;
+    // Sentiment, intent, action items and entities are four calls that each read the email;
+    // the analyzer does not report token counts, so the estimate is kept as the usage
+    const reservation = await budgetService.reserve(userId, budgetService.estimateTokens(emailContent, 750) * 4);
     
-    if (usage && usage.count >= dailyLimit) {
-      throw new RateLimitError('Daily AI usage limit exceeded');
+    let analysis: any;
+    try {
+      analysis = await ai.analyzeEmail({
+        subject: emailContent,
+        body: emailContent,
+      }, userId);
+    } catch (error) {
+      await budgetService.release(reservation);
+      throw error;
     }
     
-    const analysis = await ai.analyzeEmail({
-      subject: emailContent,
-      body: emailContent,
-    });
-    
     // Update usage
     await db.incrementUsage(userId, 'ai_calls', 50); // Analysis uses fewer tokens
     
     return {
       ...analysis,
-      usage: {
-        remaining: dailyLimit - (usage?.count || 0) - 1,
-        resetAt: this.getResetDate(),
-      },
+      usage: await budgetService.getStatus(userId),
     };
   }
   
@@ -158,12 +155,6 @@ export class AIService {
     await db.deleteUserTemplate(templateId);
   }
   
-  private getResetDate(): Date {
-    const tomorrow = new Date();
-    tomorrow.setUTCHours(24, 0, 0, 0);
-    return tomorrow;
-  }
-  
   // Retry logic for AI calls
   private async retryWithBackoff<T>(
     fn: () => Promise<T>,
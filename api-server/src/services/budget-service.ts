@@ -0,0 +1,100 @@
+import {
+  BudgetLimits,
+  BudgetReservation,
+  BudgetStatus,
+  RateLimitError as BudgetExceededError,
+  TokenBudget,
+} from '@email-ai/ai-provider';
+import { getUsageLimits } from '@email-ai/database';
+import { ai, Metered } from '../lib/ai';
+import { db } from '../lib/database';
+import { counterStore } from '../lib/cache-store';
+import { RateLimitError, UsageStatus } from '../types';
+
+// Output tokens reserved when the caller does not cap the response
+const DEFAULT_MAX_OUTPUT_TOKENS = 1000;
+
+export class BudgetService {
+  private budget = new TokenBudget(counterStore, 'ai-budget');
+
+  // Throws RateLimitError with the current usage when the reservation does not fit
+  async reserve(userId: string, estimatedTokens: number): Promise<BudgetReservation> {
+    const limits = await this.getLimits(userId);
+
+    try {
+      return await this.budget.reserve(userId, limits, estimatedTokens);
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        const status = await this.budget.getStatus(userId, limits);
+        throw new RateLimitError(error.message, {
+          retryAfter: Math.ceil(error.retryAfter / 1000),
+          limitType: error.limitType,
+          usage: toUsageStatus(status),
+        });
+      }
+      throw error;
+    }
+  }
+
+  // The prompt plus the largest completion the call may return
+  estimateTokens(prompt: string, maxOutputTokens: number = DEFAULT_MAX_OUTPUT_TOKENS): number {
+    return ai.countTokens(prompt) + maxOutputTokens;
+  }
+
+  // Reserves the estimate for the call, then charges what it used, or nothing if it failed
+  async withBudget<T>(userId: string, estimatedTokens: number, call: () => Promise<Metered<T>>): Promise<T> {
+    const reservation = await this.reserve(userId, estimatedTokens);
+
+    let metered: Metered<T>;
+    try {
+      metered = await call();
+    } catch (error) {
+      await this.release(reservation);
+      throw error;
+    }
+    await this.reconcile(reservation, metered.tokensUsed);
+    return metered.result;
+  }
+
+  // Bookkeeping failures are logged rather than failing a call that already succeeded
+  async reconcile(reservation: BudgetReservation, tokensUsed: number): Promise<void> {
+    await this.budget.reconcile(reservation, tokensUsed).catch(error => {
+      console.error('Failed to reconcile AI budget:', error);
+    });
+  }
+
+  async release(reservation: BudgetReservation): Promise<void> {
+    await this.budget.release(reservation).catch(error => {
+      console.error('Failed to release AI budget reservation:', error);
+    });
+  }
+
+  async getStatus(userId: string): Promise<UsageStatus> {
+    const limits = await this.getLimits(userId);
+    return toUsageStatus(await this.budget.getStatus(userId, limits));
+  }
+
+  async getLimits(userId: string): Promise<BudgetLimits> {
+    const user = await db.getUser(userId);
+    const limits = getUsageLimits(user?.subscription_tier || 'free');
+
+    return {
+      requestsPerMinute: limits.ai_calls_per_minute,
+      tokensPerMinute: limits.ai_tokens_per_minute,
+      requestsPerDay: limits.ai_calls_per_day,
+      tokensPerDay: limits.ai_tokens_per_day,
+      requestsPerMonth: limits.ai_calls,
+      tokensPerMonth: limits.ai_tokens,
+    };
+  }
+}
+
+function toUsageStatus(status: BudgetStatus): UsageStatus {
+  return {
+    ...status,
+    remaining: status.requestsRemaining,
+    resetAt: status.resetTime,
+  };
+}
+
+export const budgetService = new BudgetService();
@@ -0,0 +1,324 @@
+import { Email as ThreadEmail, EmailCategoryDefinition } from '@email-ai/ai-provider';
+import {
+  EmailCategorization,
+  EmailCategory,
+  EmailCategoryExample,
+  EmailCategoryInput,
+  EmailCategoryUpdate,
+} from '@email-ai/database';
+import { db } from '../lib/database';
+import { ai } from '../lib/ai';
+import { config } from '../config';
+import { budgetService } from './budget-service';
+import { securityService } from './security-service';
+import { NotFoundError, ForbiddenError, ValidationError } from '../types';
+
+const CATEGORIZATION_OUTPUT_TOKENS = 300;
+const MAX_CATEGORIES = 30;
+// Corrections kept as examples per category; the oldest make way for new ones
+const MAX_CORRECTION_EXAMPLES = 10;
+const SNIPPET_LENGTH = 200;
+// Uncategorized emails sorted per account sync
+const BACKFILL_LIMIT = 20;
+// Providers whose messages can carry the category as a label
+const LABEL_PROVIDERS = ['gmail', 'outlook'];
+// Labels written back to the provider per account sync and status
+const LABEL_SYNC_LIMIT = 50;
+
+export interface CategorizeOptions {
+  // Categorize again even if the email has a category, including one the user chose
+  recategorize?: boolean;
+}
+
+// The part of a connected email provider that labels messages
+export interface LabelProvider {
+  setCategory?(messageId: string, category: string | null, previous?: string): Promise<void>;
+}
+
+export class CategoryService {
+  async listCategories(userId: string): Promise<EmailCategory[]> {
+    return db.getEmailCategories(userId);
+  }
+
+  async createCategory(userId: string, input: EmailCategoryInput): Promise<EmailCategory> {
+    const categories = await db.getEmailCategories(userId);
+    if (categories.length >= MAX_CATEGORIES) {
+      throw new ValidationError(`At most ${MAX_CATEGORIES} categories are allowed`);
+    }
+
+    return db.createEmailCategory(userId, {
+      ...input,
+      name: input.name.trim(),
+      examples: input.examples?.map(example => ({ ...example, source: 'user' as const })),
+    });
+  }
+
+  async updateCategory(userId: string, categoryId: string, data: EmailCategoryUpdate): Promise<EmailCategory> {
+    await this.getOwnedCategory(userId, categoryId);
+    return db.updateEmailCategory(categoryId, { ...data, name: data.name?.trim() });
+  }
+
+  // Emails keep the deleted category's ID until they are categorized again; it is ignored meanwhile
+  async deleteCategory(userId: string, categoryId: string): Promise<void> {
+    await this.getOwnedCategory(userId, categoryId);
+    await db.deleteEmailCategory(categoryId);
+  }
+
+  /**
+   * Sorts an email into one of the user's categories, judged together with
+   * the rest of its thread. The result is kept in the email's metadata and
+   * marked for writing back to the provider as a label.
+   */
+  async categorize(email: any, userId: string, options: CategorizeOptions = {}): Promise<EmailCategorization | undefined> {
+    const current: EmailCategorization | undefined = email.metadata?.categorization;
+    if (config.AUTO_CATEGORIZATION !== 'true' || (current && !options.recategorize)) {
+      return current;
+    }
+
+    const account = await db.getEmailAccount(email.account_id);
+    if (!account || (account.settings?.auto_categorize === false && !options.recategorize)) {
+      return current;
+    }
+
+    const categories = await db.getEmailCategories(userId);
+    if (categories.length === 0) {
+      return current;
+    }
+
+    // Inbound mail could steer its own label; high-risk mail waits for the user's confirmation
+    const security = await securityService.scan(email, account);
+    if (security.risk === 'high' && !security.confirmed_at) {
+      return current;
+    }
+
+    const thread = await this.getThread(email);
+    const definitions = categories.map(toDefinition);
+    const prompt = [
+      ...thread.map(message => `${message.subject}\n${message.body}`),
+      ...definitions.map(definition => JSON.stringify(definition)),
+    ].join('\n');
+    const estimate = budgetService.estimateTokens(prompt, CATEGORIZATION_OUTPUT_TOKENS);
+    const assignment = await budgetService.withBudget(
+      userId,
+      estimate,
+      () => ai.categorizeThread(thread, definitions, parseFloat(config.CATEGORY_MIN_CONFIDENCE), userId)
+    );
+
+    const category = categories.find(candidate => candidate.name === assignment.category);
+    return this.save(email, account, category, {
+      category_id: category?.id ?? null,
+      category: category?.name,
+      confidence: assignment.confidence,
+      reason: assignment.reason,
+      model: ai.provider.getModelInfo().name,
+      categorized_at: new Date().toISOString(),
+    });
+  }
+
+  async categorizeById(userId: string, emailId: string): Promise<EmailCategorization | undefined> {
+    const email = await this.getOwnedEmail(userId, emailId);
+    return this.categorize(email, userId, { recategorize: true });
+  }
+
+  // Sorts recently synced emails that have no category yet
+  async backfill(userId: string, accountId: string): Promise<void> {
+    if (config.AUTO_CATEGORIZATION !== 'true') {
+      return;
+    }
+
+    const recent = await db.getEmailsForAccounts([accountId], { limit: BACKFILL_LIMIT });
+    for (const email of recent.data) {
+      if (!email.metadata?.categorization) {
+        await this.categorize(email, userId);
+      }
+    }
+  }
+
+  // Whether the account's provider can carry categories as labels, before connecting to it
+  supportsLabels(account: { provider: string }): boolean {
+    return LABEL_PROVIDERS.includes(account.provider);
+  }
+
+  /**
+   * Writes categories waiting for the provider to the account's mailbox as
+   * labels, replacing the label written before. Writes that fail are marked
+   * failed and tried again on the next sync.
+   */
+  async syncLabels(userId: string, accountId: string, provider: LabelProvider): Promise<void> {
+    const setCategory = provider.setCategory?.bind(provider);
+    if (!setCategory) {
+      return;
+    }
+
+    const categories = await db.getEmailCategories(userId);
+    // Earlier failures go first, so a write failing now is not retried in the same sync
+    for (const status of ['failed', 'pending']) {
+      const waiting = await db.getEmailsForAccounts([accountId], {
+        limit: LABEL_SYNC_LIMIT,
+        filters: { 'metadata->categorization->>provider_sync': status },
+      });
+      for (const email of waiting.data) {
+        await this.syncLabel(email, categories, setCategory);
+      }
+    }
+  }
+
+  /**
+   * Sets an email's category by hand, or clears it with null. The email
+   * becomes an example of the chosen category, so later emails like it are
+   * sorted the same way.
+   */
+  async correct(userId: string, emailId: string, categoryId: string | null): Promise<EmailCategorization> {
+    const email = await this.getOwnedEmail(userId, emailId);
+    const category = categoryId ? await this.getOwnedCategory(userId, categoryId) : undefined;
+    const previousId: string | null | undefined = email.metadata?.categorization?.category_id;
+
+    // The email stops being an example of the category it was moved out of
+    if (previousId && previousId !== categoryId) {
+      const previous = await db.getEmailCategory(previousId);
+      if (previous && previous.examples.some(example => example.email_id === email.id)) {
+        await db.updateEmailCategory(previous.id, {
+          examples: previous.examples.filter(example => example.email_id !== email.id),
+        });
+      }
+    }
+
+    if (category && !category.examples.some(example => example.email_id === email.id)) {
+      await db.updateEmailCategory(category.id, { examples: withCorrection(category.examples, toExample(email)) });
+    }
+
+    const account = await db.getEmailAccount(email.account_id);
+    return this.save(email, account, category, {
+      category_id: category?.id ?? null,
+      category: category?.name,
+      confidence: 1,
+      corrected: true,
+      categorized_at: new Date().toISOString(),
+    });
+  }
+
+  // Gmail and Outlook get the category as a label when the account next syncs
+  private async save(
+    email: any,
+    account: any,
+    category: EmailCategory | undefined,
+    categorization: EmailCategorization
+  ): Promise<EmailCategorization> {
+    const current: EmailCategorization | undefined = email.metadata?.categorization;
+    const label = category?.sync_to_provider ? category.name : undefined;
+    const providerLabel = current?.provider_label;
+
+    let providerSync: EmailCategorization['provider_sync'];
+    if (!account || !this.supportsLabels(account)) {
+      providerSync = label ? 'unsupported' : undefined;
+    } else if (label !== providerLabel) {
+      providerSync = 'pending';
+    } else {
+      providerSync = providerLabel ? 'synced' : undefined;
+    }
+
+    const result: EmailCategorization = {
+      ...categorization,
+      provider_sync: providerSync,
+      provider_label: providerLabel,
+    };
+
+    const categories = category ? [category.name] : [];
+    email.metadata = { ...email.metadata, categorization: result, categories };
+    await db.mergeEmailMetadata(email.id, { categorization: result, categories });
+    return result;
+  }
+
+  // The category's current name is written, so renames reach the provider too
+  private async syncLabel(
+    email: any,
+    categories: EmailCategory[],
+    setCategory: Required<LabelProvider>['setCategory']
+  ): Promise<void> {
+    const current: EmailCategorization = email.metadata.categorization;
+    const category = categories.find(candidate => candidate.id === current.category_id);
+    const label = category?.sync_to_provider ? category.name : undefined;
+
+    let result: EmailCategorization;
+    try {
+      await setCategory(email.message_id, label ?? null, current.provider_label);
+      result = { ...current, provider_sync: label ? 'synced' : undefined, provider_label: label };
+    } catch (error) {
+      console.error('Failed to write category label to provider:', error);
+      result = { ...current, provider_sync: 'failed' };
+    }
+
+    email.metadata = { ...email.metadata, categorization: result };
+    await db.mergeEmailMetadata(email.id, { categorization: result });
+  }
+
+  private async getThread(email: any): Promise<ThreadEmail[]> {
+    const messages: any[] = email.thread_id ? await db.getEmailsByThread(email.thread_id) : [email];
+
+    return messages
+      .filter(message => message.account_id === email.account_id)
+      .map(message => ({
+        id: message.id,
+        from: message.from_address,
+        to: message.to_addresses || [],
+        subject: message.subject,
+        body: message.body_text || message.body_html || '',
+        timestamp: new Date(message.received_at),
+      }));
+  }
+
+  private async getOwnedCategory(userId: string, categoryId: string): Promise<EmailCategory> {
+    const category: EmailCategory | null = await db.getEmailCategory(categoryId);
+    if (!category) {
+      throw new NotFoundError('Category not found');
+    }
+    if (category.user_id !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+    return category;
+  }
+
+  private async getOwnedEmail(userId: string, emailId: string): Promise<any> {
+    const email = await db.getEmail(emailId);
+    if (!email) {
+      throw new NotFoundError('Email not found');
+    }
+
+    const account = await db.getEmailAccount(email.account_id);
+    if (!account || account.user_id !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+    return email;
+  }
+}
+
+function toDefinition(category: EmailCategory): EmailCategoryDefinition {
+  return {
+    name: category.name,
+    description: category.description,
+    examples: category.examples.map(example => ({
+      subject: example.subject,
+      from: example.from,
+      snippet: example.snippet,
+    })),
+  };
+}
+
+function toExample(email: any): EmailCategoryExample {
+  return {
+    subject: email.subject,
+    from: email.from_address,
+    snippet: (email.body_text || '').replace(/\s+/g, ' ').trim().slice(0, SNIPPET_LENGTH),
+    source: 'correction',
+    email_id: email.id,
+  };
+}
+
+// Examples the user wrote are kept; corrections beyond the limit drop the oldest
+function withCorrection(examples: EmailCategoryExample[], example: EmailCategoryExample): EmailCategoryExample[] {
+  const corrections = examples.filter(existing => existing.source === 'correction');
+  const dropped = new Set(corrections.slice(0, Math.max(0, corrections.length + 1 - MAX_CORRECTION_EXAMPLES)));
+  return [...examples.filter(existing => !dropped.has(existing)), example];
+}
+
+export const categoryService = new CategoryService();
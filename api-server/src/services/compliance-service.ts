@@ -0,0 +1,232 @@
+import { ComplianceViolation as Violation, checkCompliancePatterns } from '@email-ai/ai-provider';
+import { AIResponse, ComplianceReview, ComplianceSettings } from '@email-ai/database';
+import { db } from '../lib/database';
+import { ai } from '../lib/ai';
+import { config } from '../config';
+import { budgetService } from './budget-service';
+import {
+  ApprovalRequiredError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PaginatedResponse,
+  ValidationError,
+} from '../types';
+
+const CHECK_OUTPUT_TOKENS = 1000;
+
+export class ComplianceService {
+  /**
+   * Checks a response against the policies of its author's organization and
+   * stores the review on the response. Users without an organization or
+   * policies get the response back unchanged.
+   */
+  async review(response: AIResponse, userId: string): Promise<AIResponse> {
+    if (config.COMPLIANCE_CHECKS !== 'true') {
+      return response;
+    }
+
+    const settings = await this.getSettingsForUser(userId);
+    const policies = settings.policies || [];
+    if (policies.length === 0) {
+      return response;
+    }
+
+    let violations: Violation[];
+    let incomplete = false;
+    try {
+      violations = await this.check(response.response_text, settings, userId);
+    } catch (error) {
+      // The patterns still apply; the draft is treated as unchecked for the rest
+      console.error('Failed to check compliance with the model:', error);
+      violations = checkCompliancePatterns(response.response_text, policies);
+      incomplete = true;
+    }
+
+    const needsReview = violations.length > 0 || incomplete;
+    const review: ComplianceReview = {
+      status: !needsReview ? 'passed' : settings.require_approval ? 'pending_approval' : 'flagged',
+      violations: violations.map(violation => ({
+        policy_id: violation.policyId,
+        policy_name: violation.policyName,
+        severity: violation.severity,
+        explanation: violation.explanation,
+        excerpt: violation.excerpt,
+        source: violation.source,
+      })),
+      incomplete: incomplete || undefined,
+      checked_at: new Date().toISOString(),
+    };
+
+    return db.saveComplianceReview(response.id, review);
+  }
+
+  // Checks a response again, e.g. after the organization changed its policies
+  async recheck(userId: string, responseId: string): Promise<AIResponse> {
+    const { response } = await this.getOwnedResponse(userId, responseId);
+    return this.review(response, userId);
+  }
+
+  /**
+   * Approves a response that waits for review. Only reviewers of the author's
+   * organization can approve, and never their own drafts.
+   */
+  async approve(reviewerId: string, responseId: string): Promise<AIResponse> {
+    const response: AIResponse | null = await db.getAIResponseById(responseId);
+    if (!response) {
+      throw new NotFoundError('AI response not found');
+    }
+
+    const [reviewer, author] = await Promise.all([this.getUser(reviewerId), this.getAuthor(response)]);
+    await this.assertReviewer(reviewer, author.organization_id);
+    if (author.id === reviewerId) {
+      throw new ForbiddenError('Drafts cannot be approved by their author');
+    }
+    if (response.compliance?.status !== 'pending_approval') {
+      throw new ConflictError('This response does not need approval');
+    }
+
+    return db.saveComplianceReview(response.id, {
+      ...response.compliance,
+      status: 'approved',
+      approved_by: reviewerId,
+      approved_at: new Date().toISOString(),
+    });
+  }
+
+  // Responses of the reviewer's organization that wait for approval, oldest first
+  async listPending(reviewerId: string, page: number, pageSize: number): Promise<PaginatedResponse<AIResponse>> {
+    const reviewer = await this.getUser(reviewerId);
+    const organizationId = await this.assertReviewer(reviewer, reviewer.organization_id);
+
+    const result = await db.getPendingComplianceReviews(organizationId, {
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    });
+
+    return {
+      data: result.data,
+      meta: {
+        page,
+        pageSize,
+        total: result.total,
+        totalPages: Math.ceil(result.total / pageSize),
+      },
+    };
+  }
+
+  // Sending is the one step a pending review blocks
+  assertSendable(response: AIResponse): void {
+    if (response.compliance?.status === 'pending_approval') {
+      throw new ApprovalRequiredError(
+        'This draft violates compliance policies and needs a reviewer\'s approval before it can be sent.',
+        { compliance: response.compliance }
+      );
+    }
+  }
+
+  async markSent(userId: string, responseId: string): Promise<void> {
+    const { response } = await this.getOwnedResponse(userId, responseId);
+    this.assertSendable(response);
+    await db.markAIResponseSent(response.id, new Date());
+  }
+
+  async getSettingsForUser(userId: string): Promise<ComplianceSettings> {
+    const user = await this.getUser(userId);
+    const organization = user.organization_id ? await db.getOrganization(user.organization_id) : null;
+    return organization?.settings?.compliance || {};
+  }
+
+  async updateOrganizationSettings(organizationId: string, compliance: ComplianceSettings): Promise<ComplianceSettings> {
+    validatePolicies(compliance);
+
+    const organization = await db.getOrganization(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization not found');
+    }
+
+    const settings = {
+      ...compliance,
+      reviewers: compliance.reviewers?.map(email => email.trim().toLowerCase()),
+    };
+    await db.updateOrganizationSettings(organizationId, { ...organization.settings, compliance: settings });
+    return settings;
+  }
+
+  // 'llm' policies cost a model call, so only they are charged to the budget
+  private async check(draft: string, settings: ComplianceSettings, userId: string): Promise<Violation[]> {
+    const policies = settings.policies || [];
+    if (!policies.some(policy => policy.type === 'llm')) {
+      return checkCompliancePatterns(draft, policies);
+    }
+
+    const descriptions = policies.map(policy => policy.description).join('\n');
+    const estimate = budgetService.estimateTokens(`${draft}\n${descriptions}`, CHECK_OUTPUT_TOKENS);
+    return budgetService.withBudget(userId, estimate, () => ai.checkCompliance(draft, policies, userId));
+  }
+
+  private async assertReviewer(reviewer: any, organizationId?: string): Promise<string> {
+    const organization = organizationId ? await db.getOrganization(organizationId) : null;
+    const reviewers: string[] = organization?.settings?.compliance?.reviewers || [];
+
+    if (!organization || reviewer.organization_id !== organization.id || !reviewers.includes(reviewer.email.toLowerCase())) {
+      throw new ForbiddenError('Compliance reviewer access required');
+    }
+    return organization.id;
+  }
+
+  private async getAuthor(response: AIResponse): Promise<any> {
+    const email = await db.getEmail(response.email_id);
+    const account = email ? await db.getEmailAccount(email.account_id) : null;
+    if (!account) {
+      throw new NotFoundError('Email not found');
+    }
+    return this.getUser(account.user_id);
+  }
+
+  private async getUser(userId: string): Promise<any> {
+    const user = await db.getUser(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+
+  private async getOwnedResponse(userId: string, responseId: string): Promise<{ response: AIResponse; email: any }> {
+    const response: AIResponse | null = await db.getAIResponseById(responseId);
+    if (!response) {
+      throw new NotFoundError('AI response not found');
+    }
+
+    const email = await db.getEmail(response.email_id);
+    const account = email ? await db.getEmailAccount(email.account_id) : null;
+    if (!account || account.user_id !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    return { response, email };
+  }
+}
+
+// A broken pattern or duplicate ID would otherwise fail or confuse every check of the organization
+function validatePolicies(compliance: ComplianceSettings): void {
+  const ids = new Set<string>();
+
+  for (const policy of compliance.policies || []) {
+    if (ids.has(policy.id)) {
+      throw new ValidationError(`Duplicate compliance policy ID '${policy.id}'`);
+    }
+    ids.add(policy.id);
+
+    if (policy.type !== 'llm' && !policy.pattern) {
+      throw new ValidationError(`Compliance policy '${policy.name}' needs a pattern`);
+    }
+    try {
+      new RegExp(policy.pattern || '', policy.flags);
+    } catch (error) {
+      throw new ValidationError(`Invalid pattern for compliance policy '${policy.name}'`);
+    }
+  }
+}
+
+export const complianceService = new ComplianceService();
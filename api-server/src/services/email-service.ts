@@ -1,16 +1,32 @@
 import { db } from '../lib/database';
 import { ai } from '../lib/ai';
+import { searchService } from './search-service';
+import { budgetService } from './budget-service';
+import { securityService, SecurityCheckOptions } from './security-service';
+import { toolService } from './tool-service';
+import { styleService } from './style-service';
+import { languageService, ReplyLanguageOptions } from './language-service';
+import { taskService } from './task-service';
+import { priorityService } from './priority-service';
+import { categoryService } from './category-service';
+import { complianceService } from './compliance-service';
+import { config } from '../config';
 import { 
   ProcessedEmail,
   NotFoundError,
   ForbiddenError,
-  RateLimitError,
   ListOptions,
   PaginatedResponse
 } from '../types';
 
+export interface ProcessEmailOptions extends SecurityCheckOptions, ReplyLanguageOptions {}
+
 export class EmailService {
-  async processEmail(emailId: string, userId: string): Promise<ProcessedEmail> {
+  async processEmail(
+    emailId: string,
+    userId: string,
+    options: ProcessEmailOptions = {}
+  ): Promise<ProcessedEmail> {
     // Get email
     const email = await db.getEmail(emailId);
     
@@ -24,54 +40,114 @@ export class EmailService {
       throw new ForbiddenError('Access denied');
     }
     
-    // Check usage limits
-    const usage = await db.getUsage(userId, 'ai_calls', new Date());
-    const dailyLimit = 50; // Free tier limit
+    // Inbound mail is attacker-controlled; high-risk mail needs a human before it reaches the model
+    const security = await securityService.scan(email, account);
+    await securityService.assertSafeToProcess(email, userId, security, options);
     
-    if (usage && usage.count >= dailyLimit) {
-      throw new RateLimitError('Daily AI usage limit exceeded');
-    }
+    // Reserve the user's AI budget before calling the provider
+    const body = email.body_text || email.body_html || '';
+    const reservation = await budgetService.reserve(
+      userId,
+      budgetService.estimateTokens(`${email.subject}\n${body}`)
+    );
     
     // Generate AI response
     const startTime = Date.now();
     
-    const aiResponse = await ai.generateEmailResponse({
-      subject: email.subject,
-      from: email.from_address,
-      to: email.to_addresses,
-      body: email.body_text || email.body_html || '',
-      responseStyle: 'professional',
-      context: {
-        threadId: email.thread_id,
-        isReply: !!email.in_reply_to,
-      },
-    });
+    const user = await db.getUser(userId);
+    
+    let aiResponse: any;
+    let translation: { language: string; text: string } | undefined;
+    let tokensUsed: number;
+    try {
+      const language = await languageService.plan(email, user, options);
+      
+      aiResponse = await ai.generateEmailResponse({
+        userId,
+        subject: email.subject,
+        from: email.from_address,
+        to: email.to_addresses,
+        body,
+        responseStyle: 'professional',
+        tools: toolService.forEmail({ userId, user, email }),
+        maxToolSteps: parseInt(config.AI_MAX_TOOL_STEPS),
+        styleProfile: await styleService.getProfileForDraft(user),
+        language: language.language,
+        context: {
+          threadId: email.thread_id,
+          isReply: !!email.in_reply_to,
+        },
+      });
+      tokensUsed = aiResponse.tokensUsed || 0;
+      
+      // The draft is still useful without its translation
+      if (language.translateTo) {
+        translation = await languageService.translate(aiResponse.text, language.translateTo, userId)
+          .then(text => ({ language: language.translateTo!, text }))
+          .catch(error => {
+            console.error('Failed to translate reply:', error);
+            return undefined;
+          });
+        if (translation) {
+          tokensUsed += budgetService.estimateTokens(aiResponse.text, ai.countTokens(translation.text));
+        }
+      }
+    } catch (error) {
+      await budgetService.release(reservation);
+      throw error;
+    }
+    await budgetService.reconcile(reservation, tokensUsed);
     
     const responseTime = Date.now() - startTime;
     
     // Save response
-    const saved = await db.saveAIResponse({
+    let saved = await db.saveAIResponse({
       email_id: emailId,
       response_text: aiResponse.text,
       model_used: aiResponse.model || 'groq-llama',
       confidence_score: aiResponse.confidence || 0.8,
       tokens_used: aiResponse.tokensUsed || 0,
       response_time_ms: responseTime,
+      prompt_id: aiResponse.prompt?.id,
+      prompt_version: aiResponse.prompt?.version,
+      experiment_id: aiResponse.prompt?.experimentId,
+      prompt_variant: aiResponse.prompt?.variant,
+      redaction_audit: aiResponse.redaction,
+      language: aiResponse.language,
+      translation,
     });
     
+    // Regulated organizations see violations with the draft; sending may wait for a reviewer
+    saved = await complianceService.review(saved, userId);
+    
     // Update usage
     await db.incrementUsage(userId, 'ai_calls', aiResponse.tokensUsed || 100);
     
     // Mark email as processed
     await db.markEmailProcessed(emailId);
     
+    // Index for semantic search; search backfills anything missed, so failures are not fatal
+    searchService.indexEmail(email, userId).catch(error => {
+      console.error('Failed to index email for semantic search:', error);
+    });
+    
+    // Tasks are a by-product; the reply does not wait for them
+    taskService.extractFromEmail(email, userId).catch(error => {
+      console.error('Failed to extract tasks from email:', error);
+    });
+    
+    priorityService.prioritize(email, userId, { useModel: true }).catch(error => {
+      console.error('Failed to prioritize email:', error);
+    });
+    
+    categoryService.categorize(email, userId).catch(error => {
+      console.error('Failed to categorize email:', error);
+    });
+    
     return {
       email,
       aiResponse: saved,
-      usage: {
-        remaining: dailyLimit - (usage?.count || 0) - 1,
-        resetAt: this.getResetDate(),
-      },
+      usage: await budgetService.getStatus(userId),
     };
   }
   
@@ -97,21 +173,29 @@ export class EmailService {
     // Get emails from all accounts
     const accountIds = accounts.map(a => a.id);
     
-    const result = await db.getEmails(accountIds, {
-      page: options.page || 1,
-      pageSize: options.pageSize || 20,
-      sortBy: options.sortBy || 'received_at',
-      sortOrder: options.sortOrder || 'desc',
+    const page = options.page || 1;
+    const pageSize = options.pageSize || 20;
+    
+    // Emails that arrived since the last visit get a score before they are ranked
+    if (options.sortBy === 'priority') {
+      await priorityService.backfill(userId, accountIds);
+    }
+    
+    const result = await db.getEmailsForAccounts(accountIds, {
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+      orderBy: options.sortBy === 'priority' ? 'priority_score' : options.sortBy || 'received_at',
+      orderDirection: options.sortOrder || 'desc',
       filters: options.filters,
     });
     
     return {
-      data: result.emails,
+      data: result.data,
       meta: {
-        page: result.page,
-        pageSize: result.pageSize,
+        page,
+        pageSize,
         total: result.total,
-        totalPages: Math.ceil(result.total / result.pageSize),
+        totalPages: Math.ceil(result.total / pageSize),
       },
     };
   }
@@ -129,6 +213,9 @@ export class EmailService {
       throw new ForbiddenError('Access denied');
     }
     
+    // Scanned on first view so warnings show before the user asks for a draft
+    await securityService.scan(email, account);
+    
     // Get AI responses if any
     const aiResponses = await db.getAIResponses(emailId);
     
@@ -169,12 +256,6 @@ export class EmailService {
     
     await db.archiveEmail(emailId);
   }
-  
-  private getResetDate(): Date {
-    const tomorrow = new Date();
-    tomorrow.setUTCHours(24, 0, 0, 0);
-    return tomorrow;
-  }
 }
 
 export const emailService = new EmailService();
\ No newline at end of file
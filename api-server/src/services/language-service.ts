@@ -0,0 +1,110 @@
+import { detectLanguageLocally } from '@email-ai/ai-provider';
+import { ai } from '../lib/ai';
+import { db } from '../lib/database';
+import { NotFoundError } from '../types';
+
+// Shorter bodies ("Thanks!") say too little to be worth a model call
+const MIN_MODEL_DETECTION_LENGTH = 20;
+
+export interface ReplyLanguageOptions {
+  // Overrides UserSettings.reply_language for one reply
+  replyLanguage?: 'sender' | 'user';
+  // Overrides UserSettings.translate_replies for one reply
+  translate?: boolean;
+}
+
+export interface ReplyLanguagePlan {
+  // Language of the inbound email, if it could be detected
+  detected?: string;
+  language?: string;
+  // Set when the reply needs a translation into the user's language for review
+  translateTo?: string;
+}
+
+export interface LanguageSettings {
+  language?: string;
+  reply_language?: 'sender' | 'user';
+  translate_replies?: boolean;
+}
+
+export class LanguageService {
+  // Detects once per email; the result is kept in the email's metadata
+  async detect(email: any, userId: string): Promise<string | undefined> {
+    if (email.metadata?.language) {
+      return email.metadata.language;
+    }
+
+    const body = email.body_text || '';
+    let language = detectLanguageLocally(`${email.subject || ''}\n${body}`)?.language;
+
+    if (!language && body.trim().length >= MIN_MODEL_DETECTION_LENGTH) {
+      // Drafting still works without it; the model then follows the email's language
+      language = await ai.detectLanguage(body, userId)
+        .then(detection => detection.language)
+        .catch(error => {
+          console.error('Failed to detect email language:', error);
+          return undefined;
+        });
+    }
+
+    if (language) {
+      email.metadata = { ...email.metadata, language };
+      await db.mergeEmailMetadata(email.id, { language });
+    }
+    return language;
+  }
+
+  /**
+   * Replies follow the sender's language by default. Users who prefer their
+   * own language get replies in it, and anyone can ask for a translation of
+   * replies written in a language other than their own.
+   */
+  async plan(email: any, user: any, options: ReplyLanguageOptions = {}): Promise<ReplyLanguagePlan> {
+    const detected = await this.detect(email, user?.id);
+    const userLanguage: string | undefined = user?.settings?.language;
+    const mode = options.replyLanguage || user?.settings?.reply_language || 'sender';
+    const language = mode === 'user' ? userLanguage || detected : detected;
+    const translate = options.translate ?? user?.settings?.translate_replies ?? false;
+
+    return {
+      detected,
+      language,
+      translateTo: translate && userLanguage && language !== userLanguage ? userLanguage : undefined,
+    };
+  }
+
+  async translate(text: string, language: string, userId: string): Promise<string> {
+    return ai.translate(text, language, userId);
+  }
+
+  async getSettings(userId: string): Promise<LanguageSettings> {
+    const user = await this.getUser(userId);
+    return pickSettings(user.settings);
+  }
+
+  async updateSettings(userId: string, settings: LanguageSettings): Promise<LanguageSettings> {
+    const user = await this.getUser(userId);
+    const updated = { ...user.settings, ...settings };
+
+    await db.updateUser(userId, { settings: updated });
+    return pickSettings(updated);
+  }
+
+  private async getUser(userId: string): Promise<any> {
+    const user = await db.getUser(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+}
+
+function pickSettings(settings: any = {}): LanguageSettings {
+  return {
+    language: settings.language,
+    reply_language: settings.reply_language || 'sender',
+    translate_replies: settings.translate_replies ?? false,
+  };
+}
+
+export const languageService = new LanguageService();
@@ -0,0 +1,207 @@
+import { findDeadline, scorePriority, PrioritySignals } from '@email-ai/ai-provider';
+import { EmailPriority, PrioritySettings } from '@email-ai/database';
+import { db } from '../lib/database';
+import { ai } from '../lib/ai';
+import { config } from '../config';
+import { budgetService } from './budget-service';
+import { securityService } from './security-service';
+import { NotFoundError, ForbiddenError } from '../types';
+
+const ASSESSMENT_OUTPUT_TOKENS = 500;
+// Each correction moves the sender's future emails by this many points
+const FEEDBACK_STEP = 10;
+const MAX_ADJUSTMENT = 30;
+// Unscored emails scored from local signals when the inbox is sorted by priority
+const BACKFILL_LIMIT = 50;
+
+export interface PrioritizeOptions {
+  // Ask the model how urgent the content is; costs AI budget
+  useModel?: boolean;
+  // Score again even if the email already has a priority
+  rescore?: boolean;
+}
+
+export class PriorityService {
+  /**
+   * Scores an email from the model's urgency, the user's history with the
+   * sender, VIP senders, whether the user was addressed directly and any
+   * deadline in the body. The result is kept in the email's metadata.
+   */
+  async prioritize(email: any, userId: string, options: PrioritizeOptions = {}): Promise<EmailPriority | undefined> {
+    if (config.PRIORITY_SCORING !== 'true') {
+      return undefined;
+    }
+    const current: EmailPriority | undefined = email.metadata?.priority;
+    // Scores from local signals alone are redone once the model can add its urgency
+    if (current && !options.rescore && (current.urgency || !options.useModel)) {
+      return current;
+    }
+
+    const [user, accounts] = await Promise.all([db.getUser(userId), db.getEmailAccounts(userId)]);
+    const settings: PrioritySettings = user?.settings?.priority || {};
+    const account = accounts.find((candidate: any) => candidate.id === email.account_id);
+    const body = email.body_text || email.body_html || '';
+
+    let urgency = current?.urgency;
+    let modelDeadline: string | undefined;
+    if (options.useModel && !urgency) {
+      // Inbound mail could talk its way up the inbox; high-risk mail keeps local signals until confirmed
+      const security = await securityService.scan(email, account);
+      if (security.risk !== 'high' || security.confirmed_at) {
+        const assessment = await this.assess(email, body, userId);
+        urgency = assessment?.level;
+        modelDeadline = assessment?.deadline;
+      }
+    }
+
+    const sender = normalizeAddress(email.from_address);
+    const history = await db.getSenderHistory(accounts.map((candidate: any) => candidate.id), sender);
+    // "Tomorrow" means the day after the email arrived, not after it was scored
+    const receivedAt = email.received_at ? new Date(email.received_at) : undefined;
+    const deadline = findDeadline(`${email.subject}\n${body}`, receivedAt)
+      || (modelDeadline ? { text: modelDeadline } : undefined);
+
+    const signals: PrioritySignals = {
+      urgency,
+      vip: isVip(sender, settings.vip_senders),
+      recipient: recipientType(email, account),
+      sender: {
+        received: history.received,
+        opened: history.opened,
+        replied: history.replied,
+        medianReplyMinutes: history.median_reply_minutes,
+      },
+      deadline,
+      adjustment: settings.sender_adjustments?.[sender],
+    };
+
+    const result = scorePriority(signals);
+    const priority: EmailPriority = {
+      ...result,
+      urgency,
+      deadline,
+      feedback: current?.feedback,
+      computed_at: new Date().toISOString(),
+    };
+
+    email.metadata = { ...email.metadata, priority };
+    await db.mergeEmailMetadata(email.id, { priority });
+    return priority;
+  }
+
+  // Scores recent emails that have no priority yet, without model calls
+  async backfill(userId: string, accountIds: string[]): Promise<void> {
+    if (config.PRIORITY_SCORING !== 'true') {
+      return;
+    }
+
+    const recent = await db.getEmailsForAccounts(accountIds, { limit: BACKFILL_LIMIT });
+    for (const email of recent.data) {
+      if (!email.metadata?.priority) {
+        await this.prioritize(email, userId);
+      }
+    }
+  }
+
+  /**
+   * Records that an email should have ranked higher or lower. The correction
+   * applies to everything from the same sender, this email included.
+   */
+  async feedback(userId: string, emailId: string, direction: 'higher' | 'lower'): Promise<EmailPriority | undefined> {
+    const email = await this.getOwnedEmail(userId, emailId);
+    const user = await db.getUser(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const sender = normalizeAddress(email.from_address);
+    const settings: PrioritySettings = user.settings?.priority || {};
+    const adjustments = { ...settings.sender_adjustments };
+    const step = direction === 'higher' ? FEEDBACK_STEP : -FEEDBACK_STEP;
+    adjustments[sender] = Math.max(-MAX_ADJUSTMENT, Math.min(MAX_ADJUSTMENT, (adjustments[sender] || 0) + step));
+
+    await db.updateUser(userId, {
+      settings: { ...user.settings, priority: { ...settings, sender_adjustments: adjustments } },
+    });
+
+    if (email.metadata?.priority) {
+      email.metadata.priority = { ...email.metadata.priority, feedback: direction };
+    }
+    return this.prioritize(email, userId, { rescore: true });
+  }
+
+  async getSettings(userId: string): Promise<{ vip_senders: string[] }> {
+    const user = await this.getUser(userId);
+    return { vip_senders: user.settings?.priority?.vip_senders || [] };
+  }
+
+  async updateSettings(userId: string, vipSenders: string[]): Promise<{ vip_senders: string[] }> {
+    const user = await this.getUser(userId);
+    const vip_senders = Array.from(new Set(vipSenders.map(normalizeAddress)));
+
+    await db.updateUser(userId, {
+      settings: { ...user.settings, priority: { ...user.settings?.priority, vip_senders } },
+    });
+    return { vip_senders };
+  }
+
+  // Priority works without the model, so a failed or unaffordable call only drops that signal
+  private async assess(email: any, body: string, userId: string) {
+    const prompt = `${email.subject}\n${body}`;
+    const estimate = budgetService.estimateTokens(prompt, ASSESSMENT_OUTPUT_TOKENS);
+
+    try {
+      return await budgetService.withBudget(userId, estimate, () => ai.assessPriority(prompt, userId));
+    } catch (error) {
+      console.error('Failed to assess email urgency:', error);
+      return undefined;
+    }
+  }
+
+  private async getUser(userId: string): Promise<any> {
+    const user = await db.getUser(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+
+  private async getOwnedEmail(userId: string, emailId: string): Promise<any> {
+    const email = await db.getEmail(emailId);
+    if (!email) {
+      throw new NotFoundError('Email not found');
+    }
+
+    const account = await db.getEmailAccount(email.account_id);
+    if (!account || account.user_id !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+    return email;
+  }
+}
+
+// "Jane Doe <Jane@Example.com>" -> "jane@example.com"
+function normalizeAddress(address: string = ''): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim().toLowerCase();
+}
+
+// Entries starting with "@" match a whole domain
+function isVip(sender: string, vipSenders: string[] = []): boolean {
+  return vipSenders.some(vip => (vip.startsWith('@') ? sender.endsWith(vip) : sender === vip));
+}
+
+// Mail that lists the account in neither To nor Cc reached it as Bcc or through a list
+function recipientType(email: any, account?: { email_address?: string }): PrioritySignals['recipient'] {
+  const own = account?.email_address?.toLowerCase();
+  if (!own) {
+    return undefined;
+  }
+
+  const includes = (addresses?: string[]) => (addresses || []).some(address => normalizeAddress(address) === own);
+  if (includes(email.to_addresses)) return 'to';
+  if (includes(email.cc_addresses)) return 'cc';
+  return 'bcc';
+}
+
+export const priorityService = new PriorityService();
@@ -0,0 +1,112 @@
+import {
+  ExperimentReport,
+  FilePromptSource,
+  PromptExperiment,
+  PromptTemplate,
+  prompts,
+} from '@email-ai/ai-provider';
+import { DuplicateError, PromptExperimentRecord } from '@email-ai/database';
+import { promptStore } from '../lib/database';
+import { config } from '../config';
+import { ConflictError, NotFoundError, ValidationError } from '../types';
+
+export class PromptService {
+  // Files first, then the database, so prompts edited through the API win
+  async load(): Promise<void> {
+    if (config.PROMPTS_DIR) {
+      await prompts.load(new FilePromptSource(config.PROMPTS_DIR));
+    }
+
+    const [templates, experiments] = await Promise.all([
+      promptStore.getPromptTemplates(),
+      promptStore.getPromptExperiments(),
+    ]);
+
+    await prompts.load({
+      loadPrompts: async () => ({
+        templates: templates.map(template => ({
+          id: template.prompt_id,
+          version: template.version,
+          template: template.template,
+          description: template.description,
+        })),
+        experiments: experiments.map(toExperiment),
+      }),
+    });
+  }
+
+  list(): { templates: PromptTemplate[]; experiments: PromptExperiment[] } {
+    return {
+      templates: prompts.list(),
+      experiments: prompts.listExperiments(),
+    };
+  }
+
+  async createTemplate(template: PromptTemplate): Promise<PromptTemplate> {
+    try {
+      await promptStore.savePromptTemplate({
+        prompt_id: template.id,
+        version: template.version,
+        template: template.template,
+        description: template.description,
+      });
+    } catch (error) {
+      if (error instanceof DuplicateError) {
+        throw new ConflictError(`Version ${template.version} of prompt '${template.id}' already exists`);
+      }
+      throw error;
+    }
+
+    prompts.register(template);
+    return template;
+  }
+
+  async saveExperiment(experiment: PromptExperiment): Promise<PromptExperiment> {
+    const unknown = experiment.variants.filter(variant => !prompts.get(experiment.promptId, variant.version));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown versions of prompt '${experiment.promptId}'`, {
+        versions: unknown.map(variant => variant.version),
+      });
+    }
+
+    const saved = await promptStore.savePromptExperiment({
+      id: experiment.id,
+      prompt_id: experiment.promptId,
+      variants: experiment.variants,
+      is_active: experiment.active !== false,
+    });
+
+    const registered = toExperiment(saved);
+    prompts.addExperiment(registered);
+    return registered;
+  }
+
+  async getExperimentReport(experimentId: string, since?: Date): Promise<ExperimentReport> {
+    const experiment = prompts.getExperiment(experimentId);
+    if (!experiment) {
+      throw new NotFoundError('Experiment not found');
+    }
+
+    const outcomes = await promptStore.getPromptOutcomes(experiment.promptId, { experimentId, since });
+
+    return prompts.report(experimentId, outcomes.map(outcome => ({
+      version: outcome.prompt_version,
+      variant: outcome.prompt_variant,
+      responses: outcome.responses,
+      sent: outcome.sent,
+      edited: outcome.edited,
+      sentUnedited: outcome.sent_unedited,
+    })));
+  }
+}
+
+function toExperiment(record: PromptExperimentRecord): PromptExperiment {
+  return {
+    id: record.id,
+    promptId: record.prompt_id,
+    variants: record.variants,
+    active: record.is_active,
+  };
+}
+
+export const promptService = new PromptService();
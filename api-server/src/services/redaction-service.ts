@@ -0,0 +1,90 @@
+import { RedactionPolicy, mergeRedactionPolicies } from '@email-ai/ai-provider';
+import { RedactionSettings } from '@email-ai/database';
+import { db } from '../lib/database';
+import { NotFoundError, ValidationError } from '../types';
+
+// Settings rarely change, while a single processed email makes several AI calls
+const POLICY_TTL_MS = 60 * 1000;
+
+export class RedactionService {
+  private policies: Map<string, { policy: RedactionPolicy; expiresAt: number }> = new Map();
+
+  // The user's and their organization's settings, merged so the stricter one wins
+  async getPolicy(userId: string): Promise<RedactionPolicy> {
+    const cached = this.policies.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.policy;
+    }
+
+    const user = await db.getUser(userId);
+    const organization = user?.organization_id ? await db.getOrganization(user.organization_id) : null;
+    const policy = mergeRedactionPolicies(
+      toPolicy(organization?.settings?.redaction),
+      toPolicy(user?.settings?.redaction)
+    );
+
+    this.policies.set(userId, { policy, expiresAt: Date.now() + POLICY_TTL_MS });
+    return policy;
+  }
+
+  async getUserSettings(userId: string): Promise<RedactionSettings> {
+    const user = await db.getUser(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user.settings?.redaction || {};
+  }
+
+  async updateUserSettings(userId: string, redaction: RedactionSettings): Promise<RedactionSettings> {
+    validateRules(redaction);
+
+    const user = await db.getUser(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    await db.updateUser(userId, { settings: { ...user.settings, redaction } });
+    this.policies.delete(userId);
+    return redaction;
+  }
+
+  async updateOrganizationSettings(organizationId: string, redaction: RedactionSettings): Promise<RedactionSettings> {
+    validateRules(redaction);
+
+    const organization = await db.getOrganization(organizationId);
+    if (!organization) {
+      throw new NotFoundError('Organization not found');
+    }
+
+    await db.updateOrganizationSettings(organizationId, { ...organization.settings, redaction });
+    // Every member's policy may have changed
+    this.policies.clear();
+    return redaction;
+  }
+}
+
+function toPolicy(settings?: RedactionSettings): RedactionPolicy | undefined {
+  if (!settings) {
+    return undefined;
+  }
+
+  return {
+    enabled: settings.enabled,
+    detectors: settings.detectors,
+    customRules: settings.custom_rules,
+    allow: settings.allow,
+  };
+}
+
+// A broken pattern would otherwise fail every AI call of the user
+function validateRules(redaction: RedactionSettings): void {
+  for (const rule of redaction.custom_rules || []) {
+    try {
+      new RegExp(rule.pattern, rule.flags);
+    } catch (error) {
+      throw new ValidationError(`Invalid pattern for redaction rule '${rule.name}'`);
+    }
+  }
+}
+
+export const redactionService = new RedactionService();
@@ -0,0 +1,132 @@
+import { RevisionRequest } from '@email-ai/ai-provider';
+import { AIResponse } from '@email-ai/database';
+import { db } from '../lib/database';
+import { ai } from '../lib/ai';
+import { budgetService } from './budget-service';
+import { styleService } from './style-service';
+import { languageService } from './language-service';
+import { complianceService } from './compliance-service';
+import { NotFoundError, ForbiddenError } from '../types';
+
+export class RevisionService {
+  /**
+   * Revises a stored response with the user's feedback or presets. The
+   * revision is saved as a new version linked to the one it was made from;
+   * earlier versions stay untouched.
+   */
+  async improve(userId: string, responseId: string, request: RevisionRequest): Promise<AIResponse> {
+    const { response, email } = await this.getOwnedResponse(userId, responseId);
+    const user = await db.getUser(userId);
+    const body = email.body_text || email.body_html || '';
+
+    const reservation = await budgetService.reserve(
+      userId,
+      budgetService.estimateTokens(`${email.subject}\n${body}\n${response.response_text}`)
+    );
+
+    const startTime = Date.now();
+    let revised: any;
+    let translation: { language: string; text: string } | undefined;
+    let tokensUsed: number;
+    try {
+      revised = await ai.reviseEmailResponse({
+        userId,
+        subject: email.subject,
+        from: email.from_address,
+        to: email.to_addresses,
+        body,
+        responseStyle: 'professional',
+        styleProfile: await styleService.getProfileForDraft(user),
+        language: response.language,
+      }, response.response_text, request);
+      tokensUsed = revised.tokensUsed || 0;
+
+      // A translated draft keeps its translation, so the revision can be reviewed the same way
+      if (response.translation) {
+        const { language } = response.translation;
+        translation = await languageService.translate(revised.text, language, userId)
+          .then(text => ({ language, text }))
+          .catch(error => {
+            console.error('Failed to translate revised reply:', error);
+            return undefined;
+          });
+        if (translation) {
+          tokensUsed += budgetService.estimateTokens(revised.text, ai.countTokens(translation.text));
+        }
+      }
+    } catch (error) {
+      await budgetService.release(reservation);
+      throw error;
+    }
+    await budgetService.reconcile(reservation, tokensUsed);
+
+    const saved = await db.saveAIResponse({
+      email_id: email.id,
+      response_text: revised.text,
+      model_used: revised.model,
+      confidence_score: revised.confidence ?? response.confidence_score,
+      tokens_used: revised.tokensUsed || 0,
+      response_time_ms: Date.now() - startTime,
+      redaction_audit: revised.redaction,
+      language: response.language,
+      translation,
+      parent_response_id: response.id,
+      revision: { presets: request.presets, feedback: request.feedback },
+    });
+
+    await db.incrementUsage(userId, 'ai_calls', revised.tokensUsed || 100);
+    return complianceService.review(saved, userId);
+  }
+
+  // Every version of the response's email, oldest first
+  async getVersions(userId: string, responseId: string): Promise<AIResponse[]> {
+    const { email } = await this.getOwnedResponse(userId, responseId);
+    return db.getAIResponseVersions(email.id);
+  }
+
+  /**
+   * Restores an earlier version by saving its text as the newest version, so
+   * rolling back never loses the versions in between.
+   */
+  async rollback(userId: string, responseId: string): Promise<AIResponse> {
+    const { response, email } = await this.getOwnedResponse(userId, responseId);
+    const versions: AIResponse[] = await db.getAIResponseVersions(email.id);
+    const latest = versions[versions.length - 1];
+
+    if (latest.id === response.id) {
+      return response;
+    }
+
+    // Policies may have changed since the restored version was checked
+    const restored = await db.saveAIResponse({
+      email_id: email.id,
+      response_text: response.response_text,
+      model_used: response.model_used,
+      confidence_score: response.confidence_score,
+      tokens_used: 0,
+      response_time_ms: 0,
+      language: response.language,
+      translation: response.translation,
+      parent_response_id: latest.id,
+      revision: { restored_from: response.id },
+    });
+    return complianceService.review(restored, userId);
+  }
+
+  private async getOwnedResponse(userId: string, responseId: string): Promise<{ response: AIResponse; email: any }> {
+    const response: AIResponse | null = await db.getAIResponseById(responseId);
+    if (!response) {
+      throw new NotFoundError('AI response not found');
+    }
+
+    const email = await db.getEmail(response.email_id);
+    const account = email ? await db.getEmailAccount(email.account_id) : null;
+    if (!account || account.user_id !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    return { response, email };
+  }
+}
+
+export const revisionService = new RevisionService();
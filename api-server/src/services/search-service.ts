@@ -0,0 +1,108 @@
+import { chunkText } from '@email-ai/database';
+import { db, vectorStore } from '../lib/database';
+import { ai } from '../lib/ai';
+import { SemanticSearchResult } from '../types';
+
+// How many recent emails per account are checked for missing embeddings before a search
+const BACKFILL_LIMIT = 100;
+const MIN_SCORE = 0.2;
+
+export class SearchService {
+  async indexEmail(email: any, userId: string): Promise<void> {
+    await this.indexEmails([email], userId);
+  }
+
+  async semanticSearch(userId: string, query: string, limit: number = 10): Promise<SemanticSearchResult[]> {
+    const accounts = await db.getEmailAccounts(userId);
+    if (accounts.length === 0) {
+      return [];
+    }
+
+    const accountIds: string[] = accounts.map((account: any) => account.id);
+    await this.backfill(userId, accountIds);
+
+    const [embedding] = await ai.embed([query], userId);
+
+    // Several chunks of one email can match; fetch extra and keep the best per email
+    const matches = await vectorStore.searchEmailChunks(embedding, {
+      accountIds,
+      limit: limit * 3,
+      minScore: MIN_SCORE,
+      embeddingModel: ai.embeddingModel,
+    });
+
+    const best = new Map<string, { score: number; snippet: string }>();
+    for (const match of matches) {
+      if (!best.has(match.email_id)) {
+        best.set(match.email_id, { score: match.score, snippet: match.content });
+      }
+    }
+
+    const results = await Promise.all(
+      Array.from(best.entries()).slice(0, limit).map(async ([emailId, match]) => {
+        const email = await db.getEmail(emailId);
+        return email ? { email, score: match.score, snippet: this.toSnippet(match.snippet) } : null;
+      })
+    );
+
+    return results.filter((result): result is SemanticSearchResult => result !== null);
+  }
+
+  // Emails are written by the sync workers, so anything they stored since the last search is embedded lazily
+  private async backfill(userId: string, accountIds: string[]): Promise<void> {
+    const pages = await Promise.all(
+      accountIds.map(accountId => db.getEmails(accountId, { limit: BACKFILL_LIMIT }))
+    );
+    const emails = pages.flatMap(page => page.data || []);
+    if (emails.length === 0) {
+      return;
+    }
+
+    const indexed = new Set(
+      await vectorStore.getIndexedEmailIds(emails.map((email: any) => email.id), ai.embeddingModel)
+    );
+    await this.indexEmails(emails.filter((email: any) => !indexed.has(email.id)), userId);
+  }
+
+  private async indexEmails(emails: any[], userId: string): Promise<void> {
+    const pending = emails.flatMap(email =>
+      this.chunkEmail(email).map((content, index) => ({ email, content, index }))
+    );
+    if (pending.length === 0) {
+      return;
+    }
+
+    const embeddings = await ai.embed(pending.map(chunk => chunk.content), userId);
+
+    await vectorStore.upsertEmailChunks(pending.map((chunk, i) => ({
+      email_id: chunk.email.id,
+      account_id: chunk.email.account_id,
+      chunk_index: chunk.index,
+      content: chunk.content,
+      embedding: embeddings[i],
+      embedding_model: ai.embeddingModel,
+    })));
+  }
+
+  // Each chunk carries the subject and sender so body fragments still match on them
+  private chunkEmail(email: any): string[] {
+    const body = email.body_text || this.stripHtml(email.body_html || '');
+    const header = `Subject: ${email.subject || ''}\nFrom: ${email.from_address || ''}`;
+    const chunks = chunkText(body);
+
+    return chunks.length > 0
+      ? chunks.map(chunk => `${header}\n\n${chunk}`)
+      : [header];
+  }
+
+  private toSnippet(content: string): string {
+    const body = content.split('\n\n').slice(1).join(' ') || content;
+    return body.length > 240 ? `${body.slice(0, 237)}...` : body;
+  }
+
+  private stripHtml(html: string): string {
+    return html.replace(/<style[\s\S]*?<\/style>/gi, ' ').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+}
+
+export const searchService = new SearchService();
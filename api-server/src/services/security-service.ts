@@ -0,0 +1,69 @@
+import { scanEmailThreats } from '@email-ai/ai-provider';
+import { EmailSecurity } from '@email-ai/database';
+import { db } from '../lib/database';
+import { ConfirmationRequiredError } from '../types';
+
+export interface SecurityCheckOptions {
+  // The user has reviewed the warnings and wants to continue
+  confirmed?: boolean;
+  // Automated actions such as auto-reply rules can never confirm on the user's behalf
+  automated?: boolean;
+}
+
+export class SecurityService {
+  // Scans once per email; the result is kept in the email's metadata
+  async scan(email: any, account?: { email_address?: string }): Promise<EmailSecurity> {
+    if (email.metadata?.security) {
+      return email.metadata.security;
+    }
+
+    const ownDomain = account?.email_address?.split('@')[1];
+    const report = scanEmailThreats({
+      from: email.from_address,
+      subject: email.subject || '',
+      body: email.body_text || '',
+      html: email.body_html || undefined,
+      trustedDomains: ownDomain ? [ownDomain] : [],
+    });
+
+    const security: EmailSecurity = { ...report, scanned_at: new Date().toISOString() };
+    await this.saveSecurity(email, security);
+    return security;
+  }
+
+  /**
+   * Throws ConfirmationRequiredError for high-risk emails that no user has
+   * confirmed yet. A confirmation is recorded, so later actions on the same
+   * email do not ask again.
+   */
+  async assertSafeToProcess(
+    email: any,
+    userId: string,
+    security: EmailSecurity,
+    options: SecurityCheckOptions = {}
+  ): Promise<void> {
+    if (security.risk !== 'high' || security.confirmed_at) {
+      return;
+    }
+
+    if (options.automated || !options.confirmed) {
+      throw new ConfirmationRequiredError(
+        'This email looks unsafe. Review the warnings and confirm before AI processing.',
+        { security }
+      );
+    }
+
+    await this.saveSecurity(email, {
+      ...security,
+      confirmed_at: new Date().toISOString(),
+      confirmed_by: userId,
+    });
+  }
+
+  private async saveSecurity(email: any, security: EmailSecurity): Promise<void> {
+    email.metadata = { ...email.metadata, security };
+    await db.mergeEmailMetadata(email.id, { security });
+  }
+}
+
+export const securityService = new SecurityService();
@@ -0,0 +1,96 @@
+import { AIResponse, SmartReplies } from '@email-ai/database';
+import { db } from '../lib/database';
+import { ai } from '../lib/ai';
+import { config } from '../config';
+import { budgetService } from './budget-service';
+import { securityService } from './security-service';
+import { complianceService } from './compliance-service';
+import { NotFoundError, ForbiddenError, ValidationError } from '../types';
+
+// Five replies of under 25 words each, plus the JSON around them
+const SMART_REPLY_OUTPUT_TOKENS = 300;
+
+export interface SmartReplyOptions {
+  // Generate new replies even if the email has some
+  refresh?: boolean;
+}
+
+export class SmartReplyService {
+  /**
+   * Returns short one-tap replies to an email. They are generated once and
+   * kept in the email's metadata, so opening the email again costs nothing.
+   */
+  async getReplies(userId: string, emailId: string, options: SmartReplyOptions = {}): Promise<SmartReplies> {
+    const { email, account } = await this.getOwnedEmail(userId, emailId);
+
+    if (email.metadata?.smart_replies && !options.refresh) {
+      return email.metadata.smart_replies;
+    }
+
+    // Chips appear without the user asking, so high-risk mail gets none until it is confirmed
+    const security = await securityService.scan(email, account);
+    if (security.risk === 'high' && !security.confirmed_at) {
+      return { replies: [], generated_at: new Date().toISOString() };
+    }
+
+    const prompt = `${email.subject}\n${email.body_text || email.body_html || ''}`;
+    const estimate = budgetService.estimateTokens(prompt, SMART_REPLY_OUTPUT_TOKENS);
+    const replies = await budgetService.withBudget(
+      userId,
+      estimate,
+      () => ai.suggestSmartReplies(prompt, parseInt(config.SMART_REPLY_COUNT), userId)
+    );
+
+    const smartReplies: SmartReplies = {
+      replies,
+      model: ai.provider.getModelInfo().name,
+      generated_at: new Date().toISOString(),
+    };
+
+    email.metadata = { ...email.metadata, smart_replies: smartReplies };
+    await db.mergeEmailMetadata(email.id, { smart_replies: smartReplies });
+
+    return smartReplies;
+  }
+
+  /**
+   * Turns the chosen reply into an AI response, so picked chips show up in
+   * usage, versions, compliance and sent tracking like any other draft.
+   */
+  async select(userId: string, emailId: string, index: number): Promise<AIResponse> {
+    const { email } = await this.getOwnedEmail(userId, emailId);
+    const smartReplies: SmartReplies | undefined = email.metadata?.smart_replies;
+    const reply = smartReplies?.replies[index];
+
+    if (!reply) {
+      throw new ValidationError('Smart reply not found; fetch the smart replies of the email first');
+    }
+
+    const response = await db.saveAIResponse({
+      email_id: email.id,
+      response_text: reply.text,
+      model_used: smartReplies!.model || 'smart-reply',
+      confidence_score: 0.8,
+      tokens_used: 0,
+      response_time_ms: 0,
+      source: 'smart_reply',
+    });
+
+    return complianceService.review(response, userId);
+  }
+
+  private async getOwnedEmail(userId: string, emailId: string): Promise<{ email: any; account: any }> {
+    const email = await db.getEmail(emailId);
+    if (!email) {
+      throw new NotFoundError('Email not found');
+    }
+
+    const account = await db.getEmailAccount(email.account_id);
+    if (!account || account.user_id !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+    return { email, account };
+  }
+}
+
+export const smartReplyService = new SmartReplyService();
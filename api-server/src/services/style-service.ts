@@ -0,0 +1,160 @@
+import { SentMailSample, SentMailSource, StyleProfile, StyleProfileBuilder } from '@email-ai/ai-provider';
+import { StyleProfileRecord } from '@email-ai/database';
+import { db } from '../lib/database';
+import { config } from '../config';
+import { NotFoundError } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Profiles rebuilt per refresh run; the rest wait for the next one
+const REFRESH_BATCH_SIZE = 50;
+
+export interface StyleStatus {
+  enabled: boolean;
+  profile: StyleProfile | null;
+  built_at?: Date;
+}
+
+export class StyleService {
+  private builder = new StyleProfileBuilder();
+  private building: Set<string> = new Set();
+  private refreshTimer?: NodeJS.Timeout;
+
+  /**
+   * The style to draft in, or undefined when the user opted out. A user
+   * without a profile yet gets one built in the background for later drafts.
+   */
+  async getProfileForDraft(user: any): Promise<StyleProfile | undefined> {
+    if (!this.isEnabled(user)) {
+      return undefined;
+    }
+
+    const record = await db.getStyleProfile(user.id);
+    if (!record) {
+      this.rebuildInBackground(user.id);
+      return undefined;
+    }
+    return record.profile;
+  }
+
+  async getStatus(userId: string): Promise<StyleStatus> {
+    const user = await this.getUser(userId);
+    const record: StyleProfileRecord | null = await db.getStyleProfile(userId);
+
+    return {
+      enabled: this.isEnabled(user),
+      profile: record?.profile || null,
+      built_at: record?.built_at,
+    };
+  }
+
+  // Opting out also deletes the learned profile and its example emails
+  async setEnabled(userId: string, enabled: boolean): Promise<StyleStatus> {
+    const user = await this.getUser(userId);
+    await db.updateUser(userId, { settings: { ...user.settings, style_learning: enabled } });
+
+    if (!enabled) {
+      await db.deleteStyleProfile(userId);
+      return { enabled, profile: null };
+    }
+
+    return this.getStatus(userId);
+  }
+
+  // Null when the user has sent too little mail to learn from
+  async rebuild(userId: string): Promise<StyleProfile | null> {
+    const user = await this.getUser(userId);
+    if (!this.isEnabled(user)) {
+      await db.deleteStyleProfile(userId);
+      return null;
+    }
+
+    const accounts = await db.getEmailAccounts(userId);
+    const profile = await this.builder.fromMailbox(new StoredSentMail(accounts));
+    if (profile) {
+      await db.saveStyleProfile(userId, profile);
+    }
+    return profile;
+  }
+
+  // Rebuilds profiles older than STYLE_PROFILE_MAX_AGE_DAYS, one user at a time
+  async refreshStale(): Promise<number> {
+    const maxAge = parseInt(config.STYLE_PROFILE_MAX_AGE_DAYS) * DAY_MS;
+    const stale = await db.getStaleStyleProfiles(new Date(Date.now() - maxAge), REFRESH_BATCH_SIZE);
+
+    let refreshed = 0;
+    for (const record of stale) {
+      try {
+        await this.rebuild(record.user_id);
+        refreshed++;
+      } catch (error) {
+        console.error(`Failed to refresh style profile for user ${record.user_id}:`, error);
+      }
+    }
+    return refreshed;
+  }
+
+  startRefreshJob(): void {
+    if (config.STYLE_LEARNING !== 'true' || this.refreshTimer) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.refreshStale().catch(error => {
+        console.error('Style profile refresh failed:', error);
+      });
+    }, parseInt(config.STYLE_REFRESH_INTERVAL_MS));
+    this.refreshTimer.unref();
+  }
+
+  stopRefreshJob(): void {
+    clearInterval(this.refreshTimer);
+    this.refreshTimer = undefined;
+  }
+
+  private rebuildInBackground(userId: string): void {
+    if (this.building.has(userId)) {
+      return;
+    }
+
+    this.building.add(userId);
+    this.rebuild(userId)
+      .catch(error => {
+        console.error('Failed to build style profile:', error);
+      })
+      .finally(() => {
+        this.building.delete(userId);
+      });
+  }
+
+  private isEnabled(user: any): boolean {
+    return config.STYLE_LEARNING === 'true' && user?.settings?.style_learning !== false;
+  }
+
+  private async getUser(userId: string): Promise<any> {
+    const user = await db.getUser(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+}
+
+// Sent mail of the user's synced accounts, newest first, as StyleProfileBuilder reads a mailbox
+class StoredSentMail implements SentMailSource {
+  constructor(private accounts: any[]) {}
+
+  async fetchEmails(options: { folder?: string; limit?: number } = {}): Promise<SentMailSample[]> {
+    const limit = options.limit || 50;
+    const perAccount = await Promise.all(
+      this.accounts.map(account => db.getSentEmails(account.id, account.email_address, limit))
+    );
+
+    return perAccount
+      .flat()
+      .sort((a: any, b: any) => new Date(b.received_at).getTime() - new Date(a.received_at).getTime())
+      .slice(0, limit)
+      .map((email: any) => ({ subject: email.subject || '', body: { text: email.body_text || '' } }));
+  }
+}
+
+export const styleService = new StyleService();
@@ -0,0 +1,173 @@
+import { Task, TaskInput, TaskQuery, TaskUpdate } from '@email-ai/database';
+import { db } from '../lib/database';
+import { ai } from '../lib/ai';
+import { config } from '../config';
+import { budgetService } from './budget-service';
+import { securityService, SecurityCheckOptions } from './security-service';
+import { NotFoundError, ForbiddenError, PaginatedResponse } from '../types';
+
+// Action items and entities are extracted in two calls of this size each
+const EXTRACTION_OUTPUT_TOKENS = 1000;
+
+// Where a task came from, so completing it can lead back to the conversation
+export interface TaskSource {
+  email_id: string;
+  thread_id?: string;
+  subject: string;
+  from_address: string;
+}
+
+export type TaskWithSource = Task & { source_email?: TaskSource };
+
+export interface TaskListOptions {
+  page: number;
+  pageSize: number;
+  status?: TaskQuery['status'];
+  emailId?: string;
+  threadId?: string;
+  dueBefore?: Date;
+}
+
+export class TaskService {
+  /**
+   * Turns the action items of a processed email into tasks. Runs once per
+   * email; reprocessing the email does not create duplicates.
+   */
+  async extractFromEmail(email: any, userId: string): Promise<Task[]> {
+    if (config.TASK_EXTRACTION !== 'true' || email.metadata?.tasks_extracted_at) {
+      return [];
+    }
+
+    // Inbound mail could plant its own tasks; high-risk mail waits for the user's confirmation
+    const account = await db.getEmailAccount(email.account_id);
+    const security = await securityService.scan(email, account);
+    if (security.risk === 'high' && !security.confirmed_at) {
+      return [];
+    }
+
+    const body = email.body_text || email.body_html || '';
+    const prompt = `${email.subject}\n${body}`;
+    const estimate = 2 * budgetService.estimateTokens(prompt, EXTRACTION_OUTPUT_TOKENS);
+    const extracted = await budgetService.withBudget(userId, estimate, () => ai.extractTasks(prompt, userId));
+
+    const tasks = await db.createTasks(userId, extracted.map((task): TaskInput => ({
+      email_id: email.id,
+      thread_id: email.thread_id,
+      description: task.description,
+      owner: task.owner,
+      due_date: task.dueDate ? new Date(task.dueDate) : undefined,
+      amounts: task.amounts,
+      priority: task.priority,
+      type: task.type,
+      source: 'extracted',
+    })));
+
+    const tasksExtractedAt = new Date().toISOString();
+    email.metadata = { ...email.metadata, tasks_extracted_at: tasksExtractedAt };
+    await db.mergeEmailMetadata(email.id, { tasks_extracted_at: tasksExtractedAt });
+
+    return tasks;
+  }
+
+  // Asked for explicitly, so a high-risk email throws ConfirmationRequiredError instead of being skipped
+  async extractFromEmailId(userId: string, emailId: string, options: SecurityCheckOptions = {}): Promise<Task[]> {
+    const email = await this.getOwnedEmail(userId, emailId);
+    const security = await securityService.scan(email, await db.getEmailAccount(email.account_id));
+    await securityService.assertSafeToProcess(email, userId, security, options);
+
+    return this.extractFromEmail(email, userId);
+  }
+
+  async listTasks(userId: string, options: TaskListOptions): Promise<PaginatedResponse<Task>> {
+    const result = await db.getTasks(userId, {
+      limit: options.pageSize,
+      offset: (options.page - 1) * options.pageSize,
+      status: options.status,
+      email_id: options.emailId,
+      thread_id: options.threadId,
+      due_before: options.dueBefore,
+    });
+
+    return {
+      data: result.data,
+      meta: {
+        page: options.page,
+        pageSize: options.pageSize,
+        total: result.total,
+        totalPages: Math.ceil(result.total / options.pageSize),
+      },
+    };
+  }
+
+  async getTask(userId: string, taskId: string): Promise<TaskWithSource> {
+    return this.withSource(await this.getOwnedTask(userId, taskId));
+  }
+
+  async createTask(userId: string, input: TaskInput): Promise<Task> {
+    if (input.email_id) {
+      const email = await this.getOwnedEmail(userId, input.email_id);
+      input = { ...input, thread_id: email.thread_id };
+    }
+
+    const [task] = await db.createTasks(userId, [{ ...input, source: 'manual' }]);
+    return task;
+  }
+
+  // The source email comes back with the task, so completing it can lead back to the thread
+  async updateTask(userId: string, taskId: string, data: TaskUpdate): Promise<TaskWithSource> {
+    await this.getOwnedTask(userId, taskId);
+    return this.withSource(await db.updateTask(taskId, data));
+  }
+
+  async deleteTask(userId: string, taskId: string): Promise<void> {
+    await this.getOwnedTask(userId, taskId);
+    await db.deleteTask(taskId);
+  }
+
+  private async withSource(task: Task): Promise<TaskWithSource> {
+    if (!task.email_id) {
+      return task;
+    }
+
+    const email = await db.getEmail(task.email_id);
+    if (!email) {
+      return task;
+    }
+
+    return {
+      ...task,
+      source_email: {
+        email_id: email.id,
+        thread_id: email.thread_id,
+        subject: email.subject,
+        from_address: email.from_address,
+      },
+    };
+  }
+
+  private async getOwnedTask(userId: string, taskId: string): Promise<Task> {
+    const task: Task | null = await db.getTask(taskId);
+    if (!task) {
+      throw new NotFoundError('Task not found');
+    }
+    if (task.user_id !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+    return task;
+  }
+
+  private async getOwnedEmail(userId: string, emailId: string): Promise<any> {
+    const email = await db.getEmail(emailId);
+    if (!email) {
+      throw new NotFoundError('Email not found');
+    }
+
+    const account = await db.getEmailAccount(email.account_id);
+    if (!account || account.user_id !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+    return email;
+  }
+}
+
+export const taskService = new TaskService();
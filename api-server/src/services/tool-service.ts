@@ -0,0 +1,95 @@
+import { Tool, ToolDefinition } from '@email-ai/ai-provider';
+import { CalendarSettings } from '@email-ai/database';
+import { db } from '../lib/database';
+import { config } from '../config';
+import { calendarTool } from '../tools/calendar';
+import { contactNotesTool } from '../tools/contacts';
+import { pastThreadTool } from '../tools/threads';
+import { NotFoundError } from '../types';
+
+// What a tool knows about the draft it is helping with
+export interface ToolContext {
+  userId: string;
+  user: any;
+  email: any;
+}
+
+// A tool run on the server; execute receives the arguments the model chose
+export interface ServerTool extends ToolDefinition {
+  // Tools that need setup, such as a calendar feed, are only offered once configured
+  isAvailable?(context: ToolContext): boolean;
+  execute(args: Record<string, any>, context: ToolContext): Promise<unknown>;
+}
+
+export class ToolService {
+  private tools: Map<string, ServerTool> = new Map();
+
+  register(tool: ServerTool): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  // Tools for drafting a reply to the email, bound to its user
+  forEmail(context: ToolContext): Tool[] {
+    if (config.AI_TOOLS !== 'true') {
+      return [];
+    }
+
+    return Array.from(this.tools.values())
+      .filter(tool => !tool.isAvailable || tool.isAvailable(context))
+      .map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+        execute: (args: Record<string, any>) => tool.execute(args, context),
+      }));
+  }
+
+  async listTools(userId: string): Promise<Array<{ name: string; description: string; available: boolean }>> {
+    const user = await this.getUser(userId);
+    const context: ToolContext = { userId, user, email: null };
+
+    return Array.from(this.tools.values()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      available: config.AI_TOOLS === 'true' && (!tool.isAvailable || tool.isAvailable(context)),
+    }));
+  }
+
+  async updateCalendarSettings(userId: string, calendar: CalendarSettings): Promise<CalendarSettings> {
+    const user = await this.getUser(userId);
+    await db.updateUser(userId, { settings: { ...user.settings, calendar } });
+    return calendar;
+  }
+
+  // Empty notes remove the contact
+  async updateContactNotes(userId: string, address: string, notes: string): Promise<Record<string, string>> {
+    const user = await this.getUser(userId);
+    const contactNotes = { ...user.settings?.contact_notes };
+    const key = address.trim().toLowerCase();
+
+    if (notes.trim()) {
+      contactNotes[key] = notes.trim();
+    } else {
+      delete contactNotes[key];
+    }
+
+    await db.updateUser(userId, { settings: { ...user.settings, contact_notes: contactNotes } });
+    return contactNotes;
+  }
+
+  private async getUser(userId: string): Promise<any> {
+    const user = await db.getUser(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+}
+
+export const toolService = new ToolService();
+toolService.register(calendarTool);
+toolService.register(contactNotesTool);
+toolService.register(pastThreadTool);
@@ -0,0 +1,66 @@
+import {
+  UsageDimension,
+  UsageExportFormat,
+  UsageQuery,
+  UsageRollup,
+  mergeRollups,
+} from '@email-ai/ai-provider';
+import { usageTracker } from '../lib/usage-store';
+
+export interface UserUsage {
+  start: Date;
+  end?: Date;
+  totals: UsageRollup;
+  byDay: UsageRollup[];
+  byModel: UsageRollup[];
+}
+
+export class UsageService {
+  // Defaults to the current calendar month (UTC)
+  async getUserUsage(userId: string, start?: Date, end?: Date): Promise<UserUsage> {
+    const from = start || startOfMonth();
+    const rollups = await usageTracker.getRollups(['day', 'model'], { userId, start: from, end });
+    const [totals] = mergeRollups(rollups, []);
+
+    return {
+      start: from,
+      end,
+      totals: totals || emptyTotals(),
+      byDay: mergeRollups(rollups, ['day']),
+      byModel: mergeRollups(rollups, ['model']),
+    };
+  }
+
+  // Usage across all users, e.g. grouped by user and model for billing
+  async getReport(groupBy: UsageDimension[], query: UsageQuery): Promise<UsageRollup[]> {
+    return usageTracker.getRollups(groupBy, query);
+  }
+
+  // One row per provider call, streamed from the database page by page
+  exportUsage(format: UsageExportFormat, query: UsageQuery): AsyncGenerator<string> {
+    return usageTracker.exportMetrics(format, query);
+  }
+}
+
+function startOfMonth(): Date {
+  const date = new Date();
+  date.setUTCDate(1);
+  date.setUTCHours(0, 0, 0, 0);
+  return date;
+}
+
+function emptyTotals(): UsageRollup {
+  return {
+    requests: 0,
+    tokens: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    errors: 0,
+    cacheHits: 0,
+    semanticCacheHits: 0,
+    totalResponseTimeMs: 0,
+  };
+}
+
+export const usageService = new UsageService();
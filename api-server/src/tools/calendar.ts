@@ -0,0 +1,89 @@
+import {
+  findFreeSlots,
+  formatDateInZone,
+  parseBusyIntervals,
+  startOfDateInZone,
+} from '../lib/ics';
+import { ServerTool, ToolContext } from '../services/tool-service';
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+// A draft can look up availability several times; the feed is fetched once
+const FEED_TTL_MS = 5 * 60 * 1000;
+
+const feeds: Map<string, { ics: string; expiresAt: number }> = new Map();
+
+export const calendarTool: ServerTool = {
+  name: 'list_free_slots',
+  description:
+    "Lists free time slots in the user's calendar within working hours. Use it before proposing or accepting meeting times.",
+  parameters: {
+    type: 'object',
+    properties: {
+      start_date: { type: 'string', description: 'First day to check, YYYY-MM-DD. Defaults to today.' },
+      days: { type: 'integer', minimum: 1, maximum: 14, description: 'Number of days to check. Defaults to 5.' },
+      duration_minutes: { type: 'integer', minimum: 15, maximum: 240, description: 'Meeting length. Defaults to 30.' },
+    },
+  },
+
+  isAvailable: (context: ToolContext) => !!context.user?.settings?.calendar?.ics_url,
+
+  async execute(args, context) {
+    const calendar = context.user.settings.calendar;
+    const timeZone = context.user.settings.time_zone || 'UTC';
+    const days = clamp(args.days, 1, 14, 5);
+    const durationMinutes = clamp(args.duration_minutes, 15, 240, 30);
+
+    const now = new Date();
+    const requested = typeof args.start_date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(args.start_date)
+      ? startOfDateInZone(args.start_date, timeZone)
+      : now;
+    const from = requested > now ? requested : now;
+    const to = new Date(startOfDateInZone(formatDateInZone(from, timeZone), timeZone).getTime() + (days + 1) * 24 * 60 * 60 * 1000);
+
+    const busy = parseBusyIntervals(await fetchFeed(calendar.ics_url), from, to, timeZone);
+    const slots = findFreeSlots(busy, {
+      from,
+      days,
+      durationMinutes,
+      timeZone,
+      workingHours: calendar.working_hours,
+    });
+
+    return {
+      time_zone: timeZone,
+      duration_minutes: durationMinutes,
+      slots,
+    };
+  },
+};
+
+async function fetchFeed(url: string): Promise<string> {
+  const cached = feeds.get(url);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.ics;
+  }
+
+  const response = await fetch(url.replace(/^webcal:/i, 'https:'), {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Calendar feed returned ${response.status}`);
+  }
+  if (Number(response.headers.get('content-length')) > MAX_FEED_BYTES) {
+    throw new Error('Calendar feed is too large');
+  }
+
+  const ics = await response.text();
+  if (ics.length > MAX_FEED_BYTES) {
+    throw new Error('Calendar feed is too large');
+  }
+
+  feeds.set(url, { ics, expiresAt: Date.now() + FEED_TTL_MS });
+  return ics;
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const number = Math.round(Number(value));
+  return Number.isFinite(number) && value !== undefined ? Math.min(max, Math.max(min, number)) : fallback;
+}
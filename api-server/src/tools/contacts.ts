@@ -0,0 +1,30 @@
+import { ServerTool } from '../services/tool-service';
+
+export const contactNotesTool: ServerTool = {
+  name: 'lookup_contact_notes',
+  description:
+    "Looks up the user's own notes about a contact, such as their role, preferences or open topics. Defaults to the sender of the email.",
+  parameters: {
+    type: 'object',
+    properties: {
+      email: { type: 'string', description: 'Email address of the contact. Defaults to the sender.' },
+    },
+  },
+
+  isAvailable: context => Object.keys(context.user?.settings?.contact_notes || {}).length > 0,
+
+  async execute(args, context) {
+    const address = extractAddress(typeof args.email === 'string' && args.email ? args.email : context.email?.from_address || '');
+    const notes = context.user.settings?.contact_notes?.[address];
+
+    return notes
+      ? { email: address, notes }
+      : { email: address, notes: null, message: 'No notes saved for this contact' };
+  },
+};
+
+// "Jane Doe <jane@example.com>" and "jane@example.com" both map to the stored key
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
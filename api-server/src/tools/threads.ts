@@ -0,0 +1,60 @@
+import { db } from '../lib/database';
+import { searchService } from '../services/search-service';
+import { ServerTool } from '../services/tool-service';
+
+const MAX_THREADS = 2;
+const MESSAGES_PER_THREAD = 5;
+const EXCERPT_LENGTH = 400;
+
+export const pastThreadTool: ServerTool = {
+  name: 'lookup_past_thread',
+  description:
+    "Searches the user's earlier emails for a topic, project or person and returns the most relevant conversations.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'What to look for, e.g. "Q3 invoice from Acme"' },
+    },
+    required: ['query'],
+  },
+
+  async execute(args, context) {
+    if (typeof args.query !== 'string' || !args.query.trim()) {
+      throw new Error('query is required');
+    }
+
+    const results = await searchService.semanticSearch(context.userId, args.query, MAX_THREADS * 3);
+    const threads: any[] = [];
+    const seen = new Set<string>();
+
+    for (const result of results) {
+      const email = result.email;
+      const key = email.thread_id || email.id;
+      if (email.id === context.email?.id || seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      // Thread ids come from each provider and are not unique across accounts, so keep this account's messages
+      const messages = email.thread_id ? await db.getEmailsByThread(email.thread_id) : [email];
+      threads.push({
+        subject: email.subject,
+        score: Math.round(result.score * 100) / 100,
+        messages: messages
+          .filter((message: any) => message.account_id === email.account_id && message.id !== context.email?.id)
+          .slice(-MESSAGES_PER_THREAD)
+          .map((message: any) => ({
+            from: message.from_address,
+            date: message.received_at,
+            excerpt: (message.body_text || '').replace(/\s+/g, ' ').trim().slice(0, EXCERPT_LENGTH),
+          })),
+      });
+
+      if (threads.length >= MAX_THREADS) {
+        break;
+      }
+    }
+
+    return threads.length > 0 ? { threads } : { threads, message: 'No related emails found' };
+  },
+};
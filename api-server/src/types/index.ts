@@ -1,4 +1,5 @@
 import { Request } from 'express';
+import type { BudgetStatus } from '@email-ai/ai-provider';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -21,10 +22,13 @@ export interface AuthResponse {
 export interface ProcessedEmail {
   email: any;
   aiResponse: any;
-  usage: {
-    remaining: number;
-    resetAt: Date;
-  };
+  usage: UsageStatus;
+}
+
+export interface UsageStatus extends BudgetStatus {
+  // Shorthand for requestsRemaining and resetTime, kept for older clients
+  remaining: number;
+  resetAt: Date;
 }
 
 export interface PaginatedResponse<T> {
@@ -45,6 +49,12 @@ export interface ListOptions {
   filters?: Record<string, any>;
 }
 
+export interface SemanticSearchResult {
+  email: any;
+  score: number;
+  snippet: string;
+}
+
 export interface RateLimiterOptions {
   windowMs: number;
   max: number;
@@ -95,7 +105,20 @@ export class ConflictError extends ApiError {
 }
 
 export class RateLimitError extends ApiError {
-  constructor(message: string = 'Rate limit exceeded') {
-    super(429, 'RATE_LIMIT', message);
+  constructor(message: string = 'Rate limit exceeded', details?: { retryAfter: number; [key: string]: any }) {
+    super(429, 'RATE_LIMIT', message, details);
+  }
+}
+// The action needs an explicit user confirmation, e.g. AI processing of a high-risk email
+export class ConfirmationRequiredError extends ApiError {
+  constructor(message: string, details?: any) {
+    super(409, 'CONFIRMATION_REQUIRED', message, details);
   }
-}
\ No newline at end of file
+}
+
+// The action waits for someone else, e.g. sending a draft that a compliance reviewer has not approved
+export class ApprovalRequiredError extends ApiError {
+  constructor(message: string, details?: any) {
+    super(409, 'APPROVAL_REQUIRED', message, details);
+  }
+}
@@ -4,6 +4,15 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 -- Enable RLS
 ALTER DATABASE postgres SET "app.jwt_secret" TO 'your-jwt-secret';
 
+-- Organizations table
+CREATE TABLE organizations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    settings JSONB DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Users table
 CREATE TABLE users (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -11,7 +20,8 @@ CREATE TABLE users (
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
     settings JSONB DEFAULT '{}',
-    subscription_tier TEXT DEFAULT 'free' CHECK (subscription_tier IN ('free', 'pro', 'enterprise'))
+    subscription_tier TEXT DEFAULT 'free' CHECK (subscription_tier IN ('free', 'pro', 'enterprise')),
+    organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL
 );
 
 -- Email accounts table
@@ -46,6 +56,8 @@ CREATE TABLE emails (
     received_at TIMESTAMPTZ NOT NULL,
     processed_at TIMESTAMPTZ,
     metadata JSONB DEFAULT '{}',
+    -- Mirrors metadata.priority.score so the inbox can be sorted by priority
+    priority_score REAL GENERATED ALWAYS AS ((metadata->'priority'->>'score')::REAL) STORED,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
     UNIQUE(account_id, message_id)
@@ -61,10 +73,23 @@ CREATE TABLE ai_responses (
     tokens_used INTEGER NOT NULL,
     response_time_ms INTEGER NOT NULL,
     template_id UUID,
+    prompt_id VARCHAR(100),
+    prompt_version INTEGER,
+    experiment_id VARCHAR(100),
+    prompt_variant VARCHAR(100),
+    redaction_audit JSONB,
+    language VARCHAR(10),
+    translation JSONB,
+    parent_response_id UUID REFERENCES ai_responses(id) ON DELETE SET NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    revision JSONB,
+    compliance JSONB,
+    source VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (source IN ('draft', 'smart_reply')),
     user_edited BOOLEAN DEFAULT false,
     sent_at TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT NOW(),
-    updated_at TIMESTAMPTZ DEFAULT NOW()
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(email_id, version)
 );
 
 -- Response Templates table
@@ -115,11 +140,16 @@ CREATE TABLE usage_metrics (
 );
 
 -- Create indexes for performance
+CREATE INDEX idx_users_organization_id ON users(organization_id);
 CREATE INDEX idx_email_accounts_user_id ON email_accounts(user_id);
 CREATE INDEX idx_emails_account_id ON emails(account_id);
 CREATE INDEX idx_emails_received_at ON emails(account_id, received_at DESC);
 CREATE INDEX idx_emails_thread_id ON emails(thread_id);
+CREATE INDEX idx_emails_priority_score ON emails(account_id, priority_score DESC NULLS LAST);
 CREATE INDEX idx_ai_responses_email_id ON ai_responses(email_id);
+CREATE INDEX idx_ai_responses_parent_response_id ON ai_responses(parent_response_id);
+CREATE INDEX idx_ai_responses_compliance_pending ON ai_responses(created_at)
+    WHERE compliance->>'status' = 'pending_approval';
 CREATE INDEX idx_response_templates_user_id ON response_templates(user_id);
 CREATE INDEX idx_notification_logs_user_id ON notification_logs(user_id);
 CREATE INDEX idx_notification_logs_email_id ON notification_logs(email_id);
@@ -135,6 +165,9 @@ END;
 $$ language 'plpgsql';
 
 -- Apply updated_at triggers to all tables
+CREATE TRIGGER update_organizations_updated_at BEFORE UPDATE ON organizations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -147,6 +180,21 @@ CREATE TRIGGER update_emails_updated_at BEFORE UPDATE ON emails
 CREATE TRIGGER update_ai_responses_updated_at BEFORE UPDATE ON ai_responses
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- Numbers each email's responses on insert; inserts for the same email wait for each other
+CREATE OR REPLACE FUNCTION assign_response_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.email_id::text));
+    SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+    FROM ai_responses
+    WHERE email_id = NEW.email_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_ai_responses_version BEFORE INSERT ON ai_responses
+    FOR EACH ROW EXECUTE FUNCTION assign_response_version();
+
 CREATE TRIGGER update_response_templates_updated_at BEFORE UPDATE ON response_templates
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -179,6 +227,7 @@ END;
 $$ LANGUAGE plpgsql;
 
 -- Enable Row Level Security (RLS) on all tables
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE email_accounts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE emails ENABLE ROW LEVEL SECURITY;
@@ -287,6 +336,293 @@ CREATE POLICY "System can insert usage metrics" ON usage_metrics
 CREATE POLICY "System can update usage metrics" ON usage_metrics
     FOR UPDATE USING (true);
 
+-- Semantic search: pgvector chunks of email bodies
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE email_chunks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email_id UUID NOT NULL REFERENCES emails(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    embedding vector(1536) NOT NULL,
+    embedding_model VARCHAR(100) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(email_id, chunk_index)
+);
+
+CREATE INDEX idx_email_chunks_email_id ON email_chunks(email_id);
+CREATE INDEX idx_email_chunks_account_id ON email_chunks(account_id, embedding_model);
+CREATE INDEX idx_email_chunks_embedding ON email_chunks USING hnsw (embedding vector_cosine_ops);
+
+ALTER TABLE email_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own email chunks" ON email_chunks
+    FOR SELECT USING (
+        account_id IN (
+            SELECT id FROM email_accounts WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE OR REPLACE FUNCTION match_email_chunks(
+    query_embedding vector(1536),
+    account_ids UUID[],
+    match_count INTEGER DEFAULT 10,
+    min_score FLOAT DEFAULT 0,
+    model VARCHAR(100) DEFAULT NULL
+)
+RETURNS TABLE (
+    email_id UUID,
+    account_id UUID,
+    chunk_index INTEGER,
+    content TEXT,
+    score FLOAT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT c.email_id, c.account_id, c.chunk_index, c.content,
+           1 - (c.embedding <=> query_embedding) AS score
+    FROM email_chunks c
+    WHERE c.account_id = ANY(account_ids)
+      AND (model IS NULL OR c.embedding_model = model)
+      AND 1 - (c.embedding <=> query_embedding) >= min_score
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count
+$$;
+
+-- Prompt registry: versioned templates and A/B experiments
+CREATE TABLE prompt_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    prompt_id VARCHAR(100) NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    template TEXT NOT NULL,
+    description TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(prompt_id, version)
+);
+
+CREATE TABLE prompt_experiments (
+    id VARCHAR(100) PRIMARY KEY,
+    prompt_id VARCHAR(100) NOT NULL,
+    variants JSONB NOT NULL,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_ai_responses_prompt ON ai_responses(prompt_id, prompt_version);
+
+CREATE TRIGGER update_prompt_experiments_updated_at BEFORE UPDATE ON prompt_experiments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_experiments ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION prompt_outcome_counts(
+    p_prompt_id VARCHAR(100),
+    p_experiment_id VARCHAR(100) DEFAULT NULL,
+    p_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    prompt_version INTEGER,
+    prompt_variant VARCHAR(100),
+    responses BIGINT,
+    sent BIGINT,
+    edited BIGINT,
+    sent_unedited BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT r.prompt_version, r.prompt_variant,
+           COUNT(*),
+           COUNT(r.sent_at),
+           COUNT(*) FILTER (WHERE r.user_edited),
+           COUNT(*) FILTER (WHERE r.sent_at IS NOT NULL AND NOT r.user_edited)
+    FROM ai_responses r
+    WHERE r.prompt_id = p_prompt_id
+      AND (p_experiment_id IS NULL OR r.experiment_id = p_experiment_id)
+      AND (p_since IS NULL OR r.created_at >= p_since)
+    GROUP BY r.prompt_version, r.prompt_variant
+$$;
+
+-- AI usage: one row per provider call, for usage stats and billing reconciliation
+CREATE TABLE ai_usage_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    input_tokens INTEGER,
+    output_tokens INTEGER,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    response_time_ms INTEGER NOT NULL DEFAULT 0,
+    cost NUMERIC(12, 6),
+    cache_hit VARCHAR(20) CHECK (cache_hit IN ('exact', 'semantic')),
+    success BOOLEAN NOT NULL,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_ai_usage_events_created_at ON ai_usage_events(created_at, id);
+CREATE INDEX idx_ai_usage_events_user_id ON ai_usage_events(user_id, created_at);
+
+-- Written by the backend only; users see their usage through the API
+ALTER TABLE ai_usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Totals per UTC day, provider, model and user; callers merge to coarser groups
+CREATE OR REPLACE FUNCTION ai_usage_rollups(
+    p_start TIMESTAMPTZ DEFAULT NULL,
+    p_end TIMESTAMPTZ DEFAULT NULL,
+    p_user_id UUID DEFAULT NULL,
+    p_provider VARCHAR(50) DEFAULT NULL,
+    p_model VARCHAR(100) DEFAULT NULL
+)
+RETURNS TABLE (
+    day DATE,
+    provider VARCHAR(50),
+    model VARCHAR(100),
+    user_id UUID,
+    requests BIGINT,
+    tokens BIGINT,
+    input_tokens BIGINT,
+    output_tokens BIGINT,
+    cost NUMERIC,
+    errors BIGINT,
+    cache_hits BIGINT,
+    semantic_cache_hits BIGINT,
+    total_response_time_ms BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT (e.created_at AT TIME ZONE 'UTC')::DATE, e.provider, e.model, e.user_id,
+           COUNT(*),
+           COALESCE(SUM(e.total_tokens), 0),
+           COALESCE(SUM(e.input_tokens), 0),
+           COALESCE(SUM(e.output_tokens), 0),
+           COALESCE(SUM(e.cost), 0),
+           COUNT(*) FILTER (WHERE NOT e.success),
+           COUNT(e.cache_hit),
+           COUNT(*) FILTER (WHERE e.cache_hit = 'semantic'),
+           COALESCE(SUM(e.response_time_ms) FILTER (WHERE e.success), 0)
+    FROM ai_usage_events e
+    WHERE (p_start IS NULL OR e.created_at >= p_start)
+      AND (p_end IS NULL OR e.created_at <= p_end)
+      AND (p_user_id IS NULL OR e.user_id = p_user_id)
+      AND (p_provider IS NULL OR e.provider = p_provider)
+      AND (p_model IS NULL OR e.model = p_model)
+    GROUP BY 1, e.provider, e.model, e.user_id
+$$;
+
+-- Writing style learned from each user's sent mail, used as few-shot examples for drafts
+CREATE TABLE style_profiles (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    profile JSONB NOT NULL,
+    built_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_style_profiles_built_at ON style_profiles(built_at);
+
+-- Examples are excerpts of real emails; only the backend reads them
+ALTER TABLE style_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Tasks extracted from processed emails, linked to their source email and thread
+CREATE TABLE tasks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    email_id UUID REFERENCES emails(id) ON DELETE SET NULL,
+    thread_id VARCHAR(255),
+    description TEXT NOT NULL,
+    owner VARCHAR(255),
+    due_date TIMESTAMPTZ,
+    amounts JSONB DEFAULT '[]',
+    priority VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+    type VARCHAR(20) CHECK (type IN ('request', 'commitment')),
+    source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('extracted', 'manual')),
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed')),
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_tasks_user_id ON tasks(user_id, status, due_date);
+CREATE INDEX idx_tasks_email_id ON tasks(email_id);
+CREATE INDEX idx_tasks_thread_id ON tasks(user_id, thread_id);
+
+CREATE TRIGGER update_tasks_updated_at BEFORE UPDATE ON tasks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tasks" ON tasks
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own tasks" ON tasks
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own tasks" ON tasks
+    FOR DELETE USING (user_id = auth.uid());
+
+-- User-defined email categories; the model learns from their examples and the user's corrections
+CREATE TABLE email_categories (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT NOT NULL,
+    examples JSONB DEFAULT '[]',
+    sync_to_provider BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, name)
+);
+
+CREATE INDEX idx_emails_category_id ON emails((metadata->'categorization'->>'category_id'));
+
+CREATE TRIGGER update_email_categories_updated_at BEFORE UPDATE ON email_categories
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE email_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own email categories" ON email_categories
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own email categories" ON email_categories
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own email categories" ON email_categories
+    FOR DELETE USING (user_id = auth.uid());
+
+-- Sets top-level metadata keys in place, so concurrent updates of one email keep each other's keys
+CREATE OR REPLACE FUNCTION merge_email_metadata(p_email_id UUID, p_patch JSONB)
+RETURNS SETOF emails
+LANGUAGE sql AS $$
+    UPDATE emails
+    SET metadata = COALESCE(metadata, '{}'::JSONB) || p_patch
+    WHERE id = p_email_id
+    RETURNING *;
+$$;
+
+-- Expiring counters for AI budgets and rate limits when the API runs without a shared cache store
+CREATE TABLE counters (
+    key TEXT PRIMARY KEY,
+    value BIGINT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_counters_expires_at ON counters(expires_at);
+
+-- Written by the backend only
+ALTER TABLE counters ENABLE ROW LEVEL SECURITY;
+
+-- Adds to a counter and returns its new value; an expired counter restarts at the amount with a fresh expiry
+CREATE OR REPLACE FUNCTION increment_counter(p_key TEXT, p_amount BIGINT, p_ttl_seconds INTEGER)
+RETURNS BIGINT
+LANGUAGE sql AS $$
+    DELETE FROM counters WHERE expires_at <= NOW() - INTERVAL '1 day';
+
+    INSERT INTO counters AS c (key, value, expires_at)
+    VALUES (p_key, p_amount, NOW() + make_interval(secs => p_ttl_seconds))
+    ON CONFLICT (key) DO UPDATE SET
+        value = CASE WHEN c.expires_at <= NOW() THEN EXCLUDED.value ELSE c.value + EXCLUDED.value END,
+        expires_at = CASE WHEN c.expires_at <= NOW() THEN EXCLUDED.expires_at ELSE c.expires_at END
+    RETURNING c.value;
+$$;
+
 -- Create a service role that bypasses RLS for backend operations
 -- This will be used with the service key in the backend
 GRANT ALL ON ALL TABLES IN SCHEMA public TO service_role;
@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { InMemoryVectorStore } from './memory-vector-store';
+import { chunkText } from '../utils/chunking';
+import { EmailChunkInput } from '../types';
+
+function chunk(emailId: string, accountId: string, index: number, embedding: number[]): EmailChunkInput {
+  return {
+    email_id: emailId,
+    account_id: accountId,
+    chunk_index: index,
+    content: `${emailId}#${index}`,
+    embedding,
+    embedding_model: 'test',
+  };
+}
+
+describe('InMemoryVectorStore', () => {
+  it('should rank chunks by cosine similarity within the given accounts', async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsertEmailChunks([
+      chunk('invoice', 'acc-1', 0, [1, 0, 0]),
+      chunk('lunch', 'acc-1', 0, [0, 1, 0]),
+      chunk('other-user', 'acc-2', 0, [1, 0, 0]),
+    ]);
+
+    const results = await store.searchEmailChunks([0.9, 0.1, 0], { accountIds: ['acc-1'], limit: 5 });
+
+    expect(results.map(result => result.email_id)).toEqual(['invoice', 'lunch']);
+    expect(results[0]?.score).toBeGreaterThan(0.99);
+  });
+
+  it('should replace every chunk of a re-indexed email', async () => {
+    const store = new InMemoryVectorStore();
+    await store.upsertEmailChunks([chunk('a', 'acc-1', 0, [1, 0]), chunk('a', 'acc-1', 1, [0, 1])]);
+    await store.upsertEmailChunks([chunk('a', 'acc-1', 0, [1, 1])]);
+
+    const results = await store.searchEmailChunks([1, 0], { accountIds: ['acc-1'] });
+
+    expect(results).toHaveLength(1);
+    expect(await store.getIndexedEmailIds(['a', 'b'], 'test')).toEqual(['a']);
+  });
+});
+
+describe('chunkText', () => {
+  it('should keep short text whole and split long text with overlap', () => {
+    expect(chunkText('  Hello there.  ')).toEqual(['Hello there.']);
+
+    const sentence = 'The quarterly report is attached for review. ';
+    const chunks = chunkText(sentence.repeat(20), { maxChars: 200, overlapChars: 50 });
+
+    expect(chunks.length).toBeGreaterThan(4);
+    expect(chunks.every(text => text.length <= 200)).toBe(true);
+    expect(chunks[0]?.endsWith('.')).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { VectorStore, EmailChunkInput, VectorSearchOptions, VectorSearchResult } from '../interface';
+
+/**
+ * Process-local VectorStore using brute-force cosine similarity.
+ * Suitable for development, tests and small single-instance deployments.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private chunks: Map<string, EmailChunkInput[]> = new Map();
+
+  upsertEmailChunks(chunks: EmailChunkInput[]): Promise<void> {
+    const byEmail = new Map<string, EmailChunkInput[]>();
+    for (const chunk of chunks) {
+      byEmail.set(chunk.email_id, [...(byEmail.get(chunk.email_id) || []), chunk]);
+    }
+
+    for (const [emailId, emailChunks] of byEmail) {
+      this.chunks.set(emailId, emailChunks);
+    }
+
+    return Promise.resolve();
+  }
+
+  searchEmailChunks(embedding: number[], options: VectorSearchOptions): Promise<VectorSearchResult[]> {
+    const accountIds = new Set(options.accountIds);
+    const minScore = options.minScore ?? 0;
+    const results: VectorSearchResult[] = [];
+
+    for (const emailChunks of this.chunks.values()) {
+      for (const chunk of emailChunks) {
+        if (!accountIds.has(chunk.account_id)) continue;
+        if (options.embeddingModel && chunk.embedding_model !== options.embeddingModel) continue;
+
+        const score = cosineSimilarity(embedding, chunk.embedding);
+        if (score < minScore) continue;
+
+        results.push({
+          email_id: chunk.email_id,
+          account_id: chunk.account_id,
+          chunk_index: chunk.chunk_index,
+          content: chunk.content,
+          score,
+        });
+      }
+    }
+
+    return Promise.resolve(
+      results
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.limit || 10)
+    );
+  }
+
+  deleteEmailChunks(emailId: string): Promise<void> {
+    this.chunks.delete(emailId);
+    return Promise.resolve();
+  }
+
+  getIndexedEmailIds(emailIds: string[], embeddingModel: string): Promise<string[]> {
+    return Promise.resolve(
+      emailIds.filter(id =>
+        this.chunks.get(id)?.some(chunk => chunk.embedding_model === embeddingModel)
+      )
+    );
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -1,18 +1,10 @@
-import { describe, it, expect, jest, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
 import { SupabaseAdapter, SupabaseConfig } from './supabase';
 import { 
   DatabaseConnectionError,
-  DatabaseOperationError,
-  NotFoundError,
-  DuplicateError,
-  ValidationError
+  DuplicateError
 } from '../errors';
 import { 
-  User,
-  EmailAccount,
-  Email,
-  AIResponse,
-  ResponseTemplate,
   CreateUserInput,
   EmailAccountInput,
   CreateEmailInput,
@@ -692,7 +684,7 @@ describe('SupabaseAdapter', () => {
 
   describe('Transaction Support', () => {
     it('should execute transaction successfully', async () => {
-      const result = await adapter.transaction(async (trx) => {
+      const result = await adapter.transaction(async (_trx) => {
         return 'transaction-result';
       });
 
@@ -701,7 +693,7 @@ describe('SupabaseAdapter', () => {
 
     it('should handle transaction failure', async () => {
       await expect(
-        adapter.transaction(async (trx) => {
+        adapter.transaction(async (_trx) => {
           throw new Error('Transaction failed');
         })
       ).rejects.toThrow('Transaction failed');
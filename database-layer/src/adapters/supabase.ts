@@ -7,7 +7,9 @@ import {
   UpdateUserInput,
   EmailAccount,
   EmailAccountInput,
+  EmailAccountSettings,
   Email,
+  EmailMetadata,
   CreateEmailInput,
   AIResponse,
   AIResponseInput,
@@ -17,13 +19,44 @@ import {
   NotificationInput,
   UsageMetric,
   MetricType,
+  AIUsageEvent,
+  AIUsageEventInput,
+  AIUsageQuery,
+  AIUsageRollup,
+  AIUsageEventPage,
   QueryOptions,
   PaginatedResult,
   SubscriptionCallback,
   UnsubscribeFunction,
+  VectorStore,
+  EmailChunkInput,
+  VectorSearchOptions,
+  VectorSearchResult,
+  PromptStore,
+  PromptTemplateRecord,
+  PromptTemplateInput,
+  PromptExperimentRecord,
+  PromptExperimentInput,
+  PromptOutcomeOptions,
+  PromptOutcomeCounts,
+  Organization,
+  OrganizationInput,
+  OrganizationSettings,
+  WritingStyleProfile,
+  StyleProfileRecord,
+  Task,
+  TaskInput,
+  TaskUpdate,
+  TaskQuery,
+  EmailCategory,
+  EmailCategoryInput,
+  EmailCategoryUpdate,
+  SenderHistory,
+  ComplianceReview,
 } from '../interface';
 import {
   DatabaseConnectionError,
+  ValidationError,
   NotFoundError,
   DuplicateError,
   TransactionError,
@@ -31,6 +64,93 @@ import {
 } from '../errors';
 import { logger } from '../utils/logger';
 
+// Rows as returned by PostgREST, before dates are parsed
+type PromptTemplateRow = Omit<PromptTemplateRecord, 'description' | 'created_at'> & {
+  description: string | null;
+  created_at: string;
+};
+
+type PromptExperimentRow = Omit<PromptExperimentRecord, 'variants' | 'created_at' | 'updated_at'> & {
+  variants: PromptExperimentRecord['variants'] | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type UserRow = Omit<User, 'settings' | 'organization_id' | 'created_at' | 'updated_at'> & {
+  settings: User['settings'] | null;
+  organization_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Columns added after the table was created are null on older rows
+type AIResponseRow = Omit<AIResponse, AIResponseNullableColumn | 'version' | 'source' | 'sent_at' | 'created_at' | 'updated_at'>
+  & { [K in AIResponseNullableColumn]: AIResponse[K] | null }
+  & {
+    version: number | null;
+    source: AIResponse['source'] | null;
+    sent_at: string | null;
+    created_at: string;
+    updated_at: string;
+  };
+
+type AIResponseNullableColumn = 'template_id' | 'prompt_id' | 'prompt_version' | 'experiment_id' | 'prompt_variant'
+  | 'redaction_audit' | 'language' | 'translation' | 'parent_response_id' | 'revision' | 'compliance';
+
+type OrganizationRow = Omit<Organization, 'settings' | 'created_at' | 'updated_at'> & {
+  settings: OrganizationSettings | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type StyleProfileRow = Omit<StyleProfileRecord, 'built_at'> & {
+  built_at: string;
+};
+
+type TaskRow = Omit<Task, 'email_id' | 'thread_id' | 'owner' | 'due_date' | 'amounts' | 'type' | 'completed_at' | 'created_at' | 'updated_at'> & {
+  email_id: string | null;
+  thread_id: string | null;
+  owner: string | null;
+  due_date: string | null;
+  amounts: Task['amounts'] | null;
+  type: Task['type'] | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type EmailCategoryRow = Omit<EmailCategory, 'examples' | 'created_at' | 'updated_at'> & {
+  examples: EmailCategory['examples'] | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// COUNT() comes back as bigint, which PostgREST serializes as a string
+type PromptOutcomeRow = Omit<PromptOutcomeCounts, 'prompt_variant' | 'responses' | 'sent' | 'edited' | 'sent_unedited'> & {
+  prompt_variant: string | null;
+  responses: number | string;
+  sent: number | string;
+  edited: number | string;
+  sent_unedited: number | string;
+};
+
+type AIUsageEventRow = Omit<AIUsageEvent, 'user_id' | 'input_tokens' | 'output_tokens' | 'cost' | 'cache_hit' | 'error' | 'created_at'> & {
+  user_id: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cost: number | string | null;
+  cache_hit: AIUsageEvent['cache_hit'] | null;
+  error: string | null;
+  created_at: string;
+};
+
+// Sums come back as bigint/numeric, which PostgREST serializes as strings
+type AIUsageRollupRow = Pick<AIUsageRollup, 'day' | 'provider' | 'model'> & { user_id: string | null }
+  & Record<Exclude<keyof AIUsageRollup, 'day' | 'provider' | 'model' | 'user_id'>, number | string>;
+
+// Result rows of the SQL functions called over RPC
+type RpcRows<Row> = { Args: Record<string, unknown>; Returns: Row[] };
+
 // Validation schemas
 const emailSchema = z.object({
   account_id: z.string().uuid(),
@@ -55,6 +175,10 @@ const emailSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+// Width of email_chunks.embedding; smaller embeddings are zero-padded, which
+// leaves cosine similarity unchanged
+export const EMBEDDING_DIMENSIONS = 1536;
+
 export interface SupabaseConfig {
   url: string;
   anonKey: string;
@@ -74,7 +198,7 @@ export interface SupabaseConfig {
   };
 }
 
-export class SupabaseAdapter implements DatabaseAdapter {
+export class SupabaseAdapter implements DatabaseAdapter, VectorStore, PromptStore {
   private client: SupabaseClient<any, 'public', any>;
   private serviceClient?: SupabaseClient<any, 'public', any>;
   private channels: Map<string, RealtimeChannel> = new Map();
@@ -158,7 +282,7 @@ export class SupabaseAdapter implements DatabaseAdapter {
           subscription_tier: data.subscription_tier || 'free',
         })
         .select()
-        .single();
+        .single<UserRow>();
 
       if (error) {
         if (error.code === '23505') { // Unique violation
@@ -178,7 +302,7 @@ export class SupabaseAdapter implements DatabaseAdapter {
         .from('users')
         .select('*')
         .eq('id', id)
-        .single();
+        .single<UserRow>();
 
       if (error) {
         if (error.code === 'PGRST116') return null; // Not found
@@ -195,7 +319,7 @@ export class SupabaseAdapter implements DatabaseAdapter {
         .from('users')
         .select('*')
         .eq('email', email)
-        .single();
+        .single<UserRow>();
 
       if (error) {
         if (error.code === 'PGRST116') return null; // Not found
@@ -214,10 +338,11 @@ export class SupabaseAdapter implements DatabaseAdapter {
           ...(data.email && { email: data.email }),
           ...(data.settings && { settings: data.settings }),
           ...(data.subscription_tier && { subscription_tier: data.subscription_tier }),
+          ...(data.organization_id !== undefined && { organization_id: data.organization_id }),
         })
         .eq('id', id)
         .select()
-        .single();
+        .single<UserRow>();
 
       if (error) {
         if (error.code === 'PGRST116') {
@@ -249,6 +374,130 @@ export class SupabaseAdapter implements DatabaseAdapter {
     }, 'delete user');
   }
 
+  // Organization Operations
+
+  async createOrganization(data: OrganizationInput): Promise<Organization> {
+    return withErrorHandling(async () => {
+      const { data: organization, error } = await this.db
+        .from('organizations')
+        .insert({
+          name: data.name,
+          settings: data.settings || {},
+        })
+        .select()
+        .single<OrganizationRow>();
+
+      if (error) throw error;
+
+      logger.info('Created organization', { organizationId: organization.id });
+      return this.mapOrganization(organization);
+    }, 'create organization');
+  }
+
+  async getOrganization(id: string): Promise<Organization | null> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('organizations')
+        .select('*')
+        .eq('id', id)
+        .single<OrganizationRow>();
+
+      if (error) {
+        if (error.code === 'PGRST116') return null;
+        throw error;
+      }
+
+      return data ? this.mapOrganization(data) : null;
+    }, 'get organization');
+  }
+
+  async updateOrganizationSettings(id: string, settings: OrganizationSettings): Promise<Organization> {
+    return withErrorHandling(async () => {
+      const { data: organization, error } = await this.db
+        .from('organizations')
+        .update({ settings })
+        .eq('id', id)
+        .select()
+        .single<OrganizationRow>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          throw new NotFoundError('Organization', id);
+        }
+        throw error;
+      }
+
+      logger.info('Updated organization settings', { organizationId: id });
+      return this.mapOrganization(organization);
+    }, 'update organization settings');
+  }
+
+  // Style Profile Operations
+
+  async getStyleProfile(userId: string): Promise<StyleProfileRecord | null> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('style_profiles')
+        .select('user_id, profile, built_at')
+        .eq('user_id', userId)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') return null;
+        throw error;
+      }
+
+      return data ? this.mapStyleProfile(data as StyleProfileRow) : null;
+    }, 'get style profile');
+  }
+
+  async saveStyleProfile(userId: string, profile: WritingStyleProfile): Promise<StyleProfileRecord> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('style_profiles')
+        .upsert({
+          user_id: userId,
+          profile,
+          built_at: new Date().toISOString(),
+        }, { onConflict: 'user_id' })
+        .select('user_id, profile, built_at')
+        .single();
+
+      if (error) throw error;
+
+      logger.info('Saved style profile', { userId, sampleSize: profile.sampleSize });
+      return this.mapStyleProfile(data as StyleProfileRow);
+    }, 'save style profile');
+  }
+
+  async deleteStyleProfile(userId: string): Promise<void> {
+    return withErrorHandling(async () => {
+      const { error } = await this.db
+        .from('style_profiles')
+        .delete()
+        .eq('user_id', userId);
+
+      if (error) throw error;
+
+      logger.info('Deleted style profile', { userId });
+    }, 'delete style profile');
+  }
+
+  async getStaleStyleProfiles(builtBefore: Date, limit: number = 50): Promise<StyleProfileRecord[]> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('style_profiles')
+        .select('user_id, profile, built_at')
+        .lt('built_at', builtBefore.toISOString())
+        .order('built_at', { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return ((data as StyleProfileRow[] | null) || []).map(this.mapStyleProfile);
+    }, 'get stale style profiles');
+  }
+
   // Email Account Operations
 
   async addEmailAccount(userId: string, data: EmailAccountInput): Promise<EmailAccount> {
@@ -452,6 +701,111 @@ export class SupabaseAdapter implements DatabaseAdapter {
     }, 'get emails');
   }
 
+  async getEmailsForAccounts(accountIds: string[], options?: QueryOptions): Promise<PaginatedResult<Email>> {
+    return withErrorHandling(async () => {
+      const limit = options?.limit || 50;
+      const offset = options?.offset || 0;
+      const orderBy = options?.orderBy || 'received_at';
+      const { search, ...filters } = options?.filters || {};
+
+      let query = this.db
+        .from('emails')
+        .select('*', { count: 'exact' })
+        .in('account_id', accountIds);
+
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined && value !== null) {
+          query = query.eq(key, value);
+        }
+      }
+
+      if (typeof search === 'string' && search.trim()) {
+        // Commas and parentheses would break the or() filter syntax
+        const term = search.trim().replace(/[%_\\]/g, '\\$&').replace(/[,()]/g, ' ');
+        query = query.or(`subject.ilike.%${term}%,from_address.ilike.%${term}%`);
+      }
+
+      query = query.order(orderBy, { ascending: options?.orderDirection === 'asc', nullsFirst: false });
+      if (orderBy !== 'received_at') {
+        query = query.order('received_at', { ascending: false });
+      }
+
+      const { data, error, count } = await query.range(offset, offset + limit - 1);
+
+      if (error) throw error;
+
+      return {
+        data: (data || []).map(row => this.mapEmail(row)),
+        total: count || 0,
+        limit,
+        offset,
+        hasMore: (count || 0) > offset + limit,
+      };
+    }, 'get emails for accounts');
+  }
+
+  async getSenderHistory(accountIds: string[], senderAddress: string, limit: number = 50): Promise<SenderHistory> {
+    return withErrorHandling(async () => {
+      const { data: accounts, error: accountsError } = await this.db
+        .from('email_accounts')
+        .select('email_address')
+        .in('id', accountIds);
+
+      if (accountsError) throw accountsError;
+
+      const { data: received, error: receivedError } = await this.db
+        .from('emails')
+        .select('thread_id, received_at, metadata')
+        .in('account_id', accountIds)
+        .ilike('from_address', `%${senderAddress.replace(/[%_\\]/g, '\\$&')}%`)
+        .order('received_at', { ascending: false })
+        .limit(limit);
+
+      if (receivedError) throw receivedError;
+
+      const receivedRows = (received || []) as Array<{ thread_id: string | null; received_at: string; metadata: Email['metadata'] | null }>;
+      const threadIds = Array.from(new Set(receivedRows.map(row => row.thread_id).filter((id): id is string => !!id)));
+
+      let threadRows: Array<{ thread_id: string; from_address: string; received_at: string }> = [];
+      if (threadIds.length > 0) {
+        const { data: threadMail, error: threadError } = await this.db
+          .from('emails')
+          .select('thread_id, from_address, received_at')
+          .in('account_id', accountIds)
+          .in('thread_id', threadIds);
+
+        if (threadError) throw threadError;
+        threadRows = (threadMail || []) as typeof threadRows;
+      }
+
+      // The user's replies are the synced emails sent from one of their own addresses
+      const ownAddresses = ((accounts || []) as Array<{ email_address: string }>).map(account => account.email_address.toLowerCase());
+      const sent = threadRows.filter(row => ownAddresses.some(address => row.from_address.toLowerCase().includes(address)));
+
+      const replyMinutes: number[] = [];
+      for (const row of receivedRows) {
+        const receivedAt = new Date(row.received_at).getTime();
+        const replies = sent
+          .filter(reply => reply.thread_id === row.thread_id && new Date(reply.received_at).getTime() > receivedAt)
+          .map(reply => new Date(reply.received_at).getTime());
+
+        if (replies.length > 0) {
+          replyMinutes.push((Math.min(...replies) - receivedAt) / 60000);
+        }
+      }
+
+      replyMinutes.sort((a, b) => a - b);
+      const median = replyMinutes[Math.floor(replyMinutes.length / 2)];
+
+      return {
+        received: receivedRows.length,
+        opened: receivedRows.filter(row => row.metadata?.is_read).length,
+        replied: replyMinutes.length,
+        median_reply_minutes: median !== undefined ? Math.round(median) : undefined,
+      };
+    }, 'get sender history');
+  }
+
   async getEmailsByThread(threadId: string): Promise<Email[]> {
     return withErrorHandling(async () => {
       const { data, error } = await this.db
@@ -466,6 +820,23 @@ export class SupabaseAdapter implements DatabaseAdapter {
     }, 'get emails by thread');
   }
 
+  async getSentEmails(accountId: string, fromAddress: string, limit: number = 50): Promise<Email[]> {
+    return withErrorHandling(async () => {
+      // from_address may include a display name, e.g. "Anna Berg <anna@example.com>"
+      const { data, error } = await this.db
+        .from('emails')
+        .select('*')
+        .eq('account_id', accountId)
+        .ilike('from_address', `%${fromAddress.replace(/[%_\\]/g, '\\$&')}%`)
+        .order('received_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return (data || []).map(row => this.mapEmail(row));
+    }, 'get sent emails');
+  }
+
   async getEmail(id: string): Promise<Email | null> {
     return withErrorHandling(async () => {
       const { data, error } = await this.db
@@ -521,6 +892,26 @@ export class SupabaseAdapter implements DatabaseAdapter {
     }, 'update email metadata');
   }
 
+  async mergeEmailMetadata(id: string, patch: Partial<EmailMetadata>): Promise<Email> {
+    return withErrorHandling(async () => {
+      const { data: email, error } = await this.db
+        .rpc<'merge_email_metadata', RpcRows<Record<string, unknown>>>('merge_email_metadata', {
+          p_email_id: id,
+          p_patch: patch,
+        })
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          throw new NotFoundError('Email', id);
+        }
+        throw error;
+      }
+
+      return this.mapEmail(email);
+    }, 'merge email metadata');
+  }
+
   async deleteEmail(id: string): Promise<void> {
     return withErrorHandling(async () => {
       const { error } = await this.db
@@ -553,10 +944,20 @@ export class SupabaseAdapter implements DatabaseAdapter {
           tokens_used: data.tokens_used,
           response_time_ms: data.response_time_ms,
           template_id: data.template_id,
+          prompt_id: data.prompt_id,
+          prompt_version: data.prompt_version,
+          experiment_id: data.experiment_id,
+          prompt_variant: data.prompt_variant,
+          redaction_audit: data.redaction_audit,
+          language: data.language,
+          translation: data.translation,
+          parent_response_id: data.parent_response_id,
+          revision: data.revision,
+          source: data.source ?? 'draft',
           user_edited: false,
         })
         .select()
-        .single();
+        .single<AIResponseRow>();
 
       if (error) throw error;
 
@@ -582,7 +983,7 @@ export class SupabaseAdapter implements DatabaseAdapter {
         .eq('email_id', emailId)
         .order('created_at', { ascending: false })
         .limit(1)
-        .single();
+        .single<AIResponseRow>();
 
       if (error) {
         if (error.code === 'PGRST116') return null;
@@ -593,6 +994,37 @@ export class SupabaseAdapter implements DatabaseAdapter {
     }, 'get AI response');
   }
 
+  async getAIResponseById(id: string): Promise<AIResponse | null> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('ai_responses')
+        .select('*')
+        .eq('id', id)
+        .single<AIResponseRow>();
+
+      if (error) {
+        if (error.code === 'PGRST116') return null;
+        throw error;
+      }
+
+      return data ? this.mapAIResponse(data) : null;
+    }, 'get AI response by ID');
+  }
+
+  async getAIResponseVersions(emailId: string): Promise<AIResponse[]> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('ai_responses')
+        .select('*')
+        .eq('email_id', emailId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(row => this.mapAIResponse(row as AIResponseRow));
+    }, 'get AI response versions');
+  }
+
   async getAIResponses(userId: string, options?: QueryOptions): Promise<PaginatedResult<AIResponse>> {
     return withErrorHandling(async () => {
       const limit = options?.limit || 50;
@@ -613,7 +1045,7 @@ export class SupabaseAdapter implements DatabaseAdapter {
       if (error) throw error;
 
       return {
-        data: (data || []).map(this.mapAIResponse),
+        data: (data || []).map(row => this.mapAIResponse(row as AIResponseRow)),
         total: count || 0,
         limit,
         offset,
@@ -634,7 +1066,7 @@ export class SupabaseAdapter implements DatabaseAdapter {
         .update(updateData)
         .eq('id', id)
         .select()
-        .single();
+        .single<AIResponseRow>();
 
       if (error) {
         if (error.code === 'PGRST116') {
@@ -666,6 +1098,59 @@ export class SupabaseAdapter implements DatabaseAdapter {
     }, 'mark AI response sent');
   }
 
+  async saveComplianceReview(id: string, review: ComplianceReview): Promise<AIResponse> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('ai_responses')
+        .update({ compliance: review })
+        .eq('id', id)
+        .select()
+        .single<AIResponseRow>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          throw new NotFoundError('AIResponse', id);
+        }
+        throw error;
+      }
+
+      logger.info('Saved compliance review', { responseId: id, status: review.status });
+      return this.mapAIResponse(data);
+    }, 'save compliance review');
+  }
+
+  async getPendingComplianceReviews(organizationId: string, options?: QueryOptions): Promise<PaginatedResult<AIResponse>> {
+    return withErrorHandling(async () => {
+      const limit = options?.limit || 50;
+      const offset = options?.offset || 0;
+
+      const { data, error, count } = await this.db
+        .from('ai_responses')
+        .select(`
+          *,
+          emails!inner(
+            email_accounts!inner(
+              users!inner(organization_id)
+            )
+          )
+        `, { count: 'exact' })
+        .eq('emails.email_accounts.users.organization_id', organizationId)
+        .eq('compliance->>status', 'pending_approval')
+        .order('created_at', { ascending: true })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+
+      return {
+        data: (data || []).map(row => this.mapAIResponse(row as AIResponseRow)),
+        total: count || 0,
+        limit,
+        offset,
+        hasMore: (count || 0) > offset + limit,
+      };
+    }, 'get pending compliance reviews');
+  }
+
   // Template Operations
 
   async createTemplate(userId: string, data: TemplateInput): Promise<ResponseTemplate> {
@@ -795,6 +1280,232 @@ export class SupabaseAdapter implements DatabaseAdapter {
     }, 'delete template');
   }
 
+  // Task Operations
+
+  async createTasks(userId: string, tasks: TaskInput[]): Promise<Task[]> {
+    return withErrorHandling(async () => {
+      if (tasks.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await this.db
+        .from('tasks')
+        .insert(tasks.map(task => ({
+          user_id: userId,
+          email_id: task.email_id,
+          thread_id: task.thread_id,
+          description: task.description,
+          owner: task.owner,
+          due_date: task.due_date?.toISOString(),
+          amounts: task.amounts || [],
+          priority: task.priority || 'medium',
+          type: task.type,
+          source: task.source || 'manual',
+        })))
+        .select();
+
+      if (error) throw error;
+
+      logger.info('Created tasks', { userId, count: tasks.length });
+      return ((data as TaskRow[] | null) || []).map(this.mapTask);
+    }, 'create tasks');
+  }
+
+  async getTask(id: string): Promise<Task | null> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('tasks')
+        .select('*')
+        .eq('id', id)
+        .single<TaskRow>();
+
+      if (error) {
+        if (error.code === 'PGRST116') return null;
+        throw error;
+      }
+
+      return data ? this.mapTask(data) : null;
+    }, 'get task');
+  }
+
+  async getTasks(userId: string, query?: TaskQuery): Promise<PaginatedResult<Task>> {
+    return withErrorHandling(async () => {
+      const limit = query?.limit || 50;
+      const offset = query?.offset || 0;
+
+      let request = this.db
+        .from('tasks')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId);
+
+      if (query?.status) request = request.eq('status', query.status);
+      if (query?.email_id) request = request.eq('email_id', query.email_id);
+      if (query?.thread_id) request = request.eq('thread_id', query.thread_id);
+      if (query?.due_before) request = request.lte('due_date', query.due_before.toISOString());
+
+      const { data, error, count } = await request
+        .order('due_date', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+
+      return {
+        data: ((data as TaskRow[] | null) || []).map(this.mapTask),
+        total: count || 0,
+        limit,
+        offset,
+        hasMore: (count || 0) > offset + limit,
+      };
+    }, 'get tasks');
+  }
+
+  async updateTask(id: string, data: TaskUpdate): Promise<Task> {
+    return withErrorHandling(async () => {
+      const updateData: Partial<TaskRow> = {};
+      if (data.description !== undefined) updateData.description = data.description;
+      if (data.owner !== undefined) updateData.owner = data.owner;
+      if (data.due_date !== undefined) updateData.due_date = data.due_date.toISOString();
+      if (data.priority !== undefined) updateData.priority = data.priority;
+      if (data.status !== undefined) {
+        updateData.status = data.status;
+        updateData.completed_at = data.status === 'completed' ? new Date().toISOString() : null;
+      }
+
+      const { data: task, error } = await this.db
+        .from('tasks')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single<TaskRow>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          throw new NotFoundError('Task', id);
+        }
+        throw error;
+      }
+
+      logger.info('Updated task', { taskId: id, status: data.status });
+      return this.mapTask(task);
+    }, 'update task');
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    return withErrorHandling(async () => {
+      const { error } = await this.db
+        .from('tasks')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      logger.info('Deleted task', { taskId: id });
+    }, 'delete task');
+  }
+
+  // Email Category Operations
+
+  async getEmailCategories(userId: string): Promise<EmailCategory[]> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('email_categories')
+        .select('*')
+        .eq('user_id', userId)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      return ((data as EmailCategoryRow[] | null) || []).map(this.mapEmailCategory);
+    }, 'get email categories');
+  }
+
+  async getEmailCategory(id: string): Promise<EmailCategory | null> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('email_categories')
+        .select('*')
+        .eq('id', id)
+        .single<EmailCategoryRow>();
+
+      if (error) {
+        if (error.code === 'PGRST116') return null;
+        throw error;
+      }
+
+      return data ? this.mapEmailCategory(data) : null;
+    }, 'get email category');
+  }
+
+  async createEmailCategory(userId: string, data: EmailCategoryInput): Promise<EmailCategory> {
+    return withErrorHandling(async () => {
+      const { data: category, error } = await this.db
+        .from('email_categories')
+        .insert({
+          user_id: userId,
+          name: data.name,
+          description: data.description,
+          examples: data.examples || [],
+          sync_to_provider: data.sync_to_provider ?? true,
+        })
+        .select()
+        .single<EmailCategoryRow>();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new DuplicateError('category name', data.name);
+        }
+        throw error;
+      }
+
+      logger.info('Created email category', { userId, categoryId: category.id });
+      return this.mapEmailCategory(category);
+    }, 'create email category');
+  }
+
+  async updateEmailCategory(id: string, data: EmailCategoryUpdate): Promise<EmailCategory> {
+    return withErrorHandling(async () => {
+      const updateData: Partial<EmailCategoryRow> = {};
+      if (data.name !== undefined) updateData.name = data.name;
+      if (data.description !== undefined) updateData.description = data.description;
+      if (data.examples !== undefined) updateData.examples = data.examples;
+      if (data.sync_to_provider !== undefined) updateData.sync_to_provider = data.sync_to_provider;
+
+      const { data: category, error } = await this.db
+        .from('email_categories')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single<EmailCategoryRow>();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          throw new NotFoundError('Email category', id);
+        }
+        if (error.code === '23505') {
+          throw new DuplicateError('category name', data.name || id);
+        }
+        throw error;
+      }
+
+      logger.info('Updated email category', { categoryId: id });
+      return this.mapEmailCategory(category);
+    }, 'update email category');
+  }
+
+  async deleteEmailCategory(id: string): Promise<void> {
+    return withErrorHandling(async () => {
+      const { error } = await this.db
+        .from('email_categories')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      logger.info('Deleted email category', { categoryId: id });
+    }, 'delete email category');
+  }
+
   // Notification Operations
 
   async logNotification(data: NotificationInput): Promise<NotificationLog> {
@@ -937,6 +1648,104 @@ export class SupabaseAdapter implements DatabaseAdapter {
     }, 'check usage limit');
   }
 
+  async saveAIUsageEvents(events: AIUsageEventInput[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    return withErrorHandling(async () => {
+      const { error } = await this.db
+        .from('ai_usage_events')
+        .insert(events.map(event => ({
+          ...event,
+          created_at: event.created_at.toISOString(),
+        })));
+
+      if (error) throw error;
+    }, 'save AI usage events');
+  }
+
+  async getAIUsageRollups(query: AIUsageQuery = {}): Promise<AIUsageRollup[]> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db.rpc<'ai_usage_rollups', RpcRows<AIUsageRollupRow>>('ai_usage_rollups', {
+        p_start: query.start?.toISOString() ?? null,
+        p_end: query.end?.toISOString() ?? null,
+        p_user_id: query.user_id ?? null,
+        p_provider: query.provider ?? null,
+        p_model: query.model ?? null,
+      });
+
+      if (error) throw error;
+
+      return (data || []).map(row => ({
+        day: row.day,
+        provider: row.provider,
+        model: row.model,
+        user_id: row.user_id ?? undefined,
+        requests: Number(row.requests),
+        tokens: Number(row.tokens),
+        input_tokens: Number(row.input_tokens),
+        output_tokens: Number(row.output_tokens),
+        cost: Number(row.cost),
+        errors: Number(row.errors),
+        cache_hits: Number(row.cache_hits),
+        semantic_cache_hits: Number(row.semantic_cache_hits),
+        total_response_time_ms: Number(row.total_response_time_ms),
+      }));
+    }, 'get AI usage rollups');
+  }
+
+  async getAIUsageEvents(query: AIUsageQuery = {}, after?: string, limit: number = 1000): Promise<AIUsageEventPage> {
+    return withErrorHandling(async () => {
+      let request = this.db
+        .from('ai_usage_events')
+        .select('*')
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(limit);
+
+      if (query.start) request = request.gte('created_at', query.start.toISOString());
+      if (query.end) request = request.lte('created_at', query.end.toISOString());
+      if (query.user_id) request = request.eq('user_id', query.user_id);
+      if (query.provider) request = request.eq('provider', query.provider);
+      if (query.model) request = request.eq('model', query.model);
+
+      // Keyset pagination: the cursor is the created_at and id of the last row
+      if (after) {
+        const [createdAt, id] = Buffer.from(after, 'base64url').toString().split('|');
+        request = request.or(`created_at.gt.${createdAt},and(created_at.eq.${createdAt},id.gt.${id})`);
+      }
+
+      const { data, error } = await request;
+
+      if (error) throw error;
+
+      const rows = (data as AIUsageEventRow[] | null) || [];
+      const last = rows[rows.length - 1];
+
+      return {
+        data: rows.map(row => this.mapAIUsageEvent(row)),
+        next: rows.length === limit && last
+          ? Buffer.from(`${last.created_at}|${last.id}`).toString('base64url')
+          : undefined,
+      };
+    }, 'get AI usage events');
+  }
+
+  async incrementCounter(key: string, amount: number, ttlSeconds: number): Promise<number> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db.rpc<'increment_counter', { Args: Record<string, unknown>; Returns: number }>('increment_counter', {
+        p_key: key,
+        p_amount: amount,
+        p_ttl_seconds: ttlSeconds,
+      });
+
+      if (error) throw error;
+
+      return Number(data);
+    }, 'increment counter');
+  }
+
   // Real-time Subscriptions
 
   subscribeToEmails(accountId: string, callback: SubscriptionCallback<Email>): UnsubscribeFunction {
@@ -973,7 +1782,7 @@ export class SupabaseAdapter implements DatabaseAdapter {
         table: 'ai_responses',
       }, async (payload) => {
         // Check if this response belongs to the user
-        const response = this.mapAIResponse(payload.new);
+        const response = this.mapAIResponse(payload.new as AIResponseRow);
         const email = await this.getEmail(response.email_id);
         if (email) {
           const account = await this.getEmailAccount(email.account_id);
@@ -1032,6 +1841,183 @@ export class SupabaseAdapter implements DatabaseAdapter {
     }
   }
 
+  // Vector Store Operations
+
+  async upsertEmailChunks(chunks: EmailChunkInput[]): Promise<void> {
+    return withErrorHandling(async () => {
+      if (chunks.length === 0) return;
+
+      const emailIds = [...new Set(chunks.map(chunk => chunk.email_id))];
+
+      // Re-indexing can produce fewer chunks than before, so replace rather than merge
+      const { error: deleteError } = await this.db
+        .from('email_chunks')
+        .delete()
+        .in('email_id', emailIds);
+
+      if (deleteError) throw deleteError;
+
+      const { error } = await this.db
+        .from('email_chunks')
+        .insert(chunks.map(chunk => ({
+          email_id: chunk.email_id,
+          account_id: chunk.account_id,
+          chunk_index: chunk.chunk_index,
+          content: chunk.content,
+          embedding: this.toStoredEmbedding(chunk.embedding),
+          embedding_model: chunk.embedding_model,
+        })));
+
+      if (error) throw error;
+
+      logger.info('Indexed email chunks', { emails: emailIds.length, chunks: chunks.length });
+    }, 'upsert email chunks');
+  }
+
+  async searchEmailChunks(embedding: number[], options: VectorSearchOptions): Promise<VectorSearchResult[]> {
+    return withErrorHandling(async () => {
+      if (options.accountIds.length === 0) return [];
+
+      const { data, error } = await this.db.rpc<'match_email_chunks', RpcRows<VectorSearchResult>>('match_email_chunks', {
+        query_embedding: this.toStoredEmbedding(embedding),
+        account_ids: options.accountIds,
+        match_count: options.limit || 10,
+        min_score: options.minScore ?? 0,
+        model: options.embeddingModel ?? null,
+      });
+
+      if (error) throw error;
+
+      return (data || []).map(row => ({
+        ...row,
+        score: Number(row.score),
+      }));
+    }, 'search email chunks');
+  }
+
+  async deleteEmailChunks(emailId: string): Promise<void> {
+    return withErrorHandling(async () => {
+      const { error } = await this.db
+        .from('email_chunks')
+        .delete()
+        .eq('email_id', emailId);
+
+      if (error) throw error;
+    }, 'delete email chunks');
+  }
+
+  async getIndexedEmailIds(emailIds: string[], embeddingModel: string): Promise<string[]> {
+    return withErrorHandling(async () => {
+      if (emailIds.length === 0) return [];
+
+      const { data, error } = await this.db
+        .from('email_chunks')
+        .select('email_id')
+        .in('email_id', emailIds)
+        .eq('embedding_model', embeddingModel)
+        .eq('chunk_index', 0);
+
+      if (error) throw error;
+
+      return ((data as { email_id: string }[] | null) || []).map(row => row.email_id);
+    }, 'get indexed email ids');
+  }
+
+  // Prompt Registry Operations
+
+  async getPromptTemplates(): Promise<PromptTemplateRecord[]> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('prompt_templates')
+        .select('*')
+        .order('prompt_id')
+        .order('version');
+
+      if (error) throw error;
+
+      return ((data as PromptTemplateRow[] | null) || []).map(row => this.mapPromptTemplate(row));
+    }, 'get prompt templates');
+  }
+
+  async savePromptTemplate(data: PromptTemplateInput): Promise<PromptTemplateRecord> {
+    return withErrorHandling(async () => {
+      const { data: template, error } = await this.db
+        .from('prompt_templates')
+        .insert({
+          prompt_id: data.prompt_id,
+          version: data.version,
+          template: data.template,
+          description: data.description,
+        })
+        .select()
+        .single<PromptTemplateRow>();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new DuplicateError('prompt version', `${data.prompt_id}@${data.version}`);
+        }
+        throw error;
+      }
+
+      logger.info('Saved prompt template', { promptId: data.prompt_id, version: data.version });
+      return this.mapPromptTemplate(template);
+    }, 'save prompt template');
+  }
+
+  async getPromptExperiments(): Promise<PromptExperimentRecord[]> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db
+        .from('prompt_experiments')
+        .select('*')
+        .order('created_at');
+
+      if (error) throw error;
+
+      return ((data as PromptExperimentRow[] | null) || []).map(row => this.mapPromptExperiment(row));
+    }, 'get prompt experiments');
+  }
+
+  async savePromptExperiment(data: PromptExperimentInput): Promise<PromptExperimentRecord> {
+    return withErrorHandling(async () => {
+      const { data: experiment, error } = await this.db
+        .from('prompt_experiments')
+        .upsert({
+          id: data.id,
+          prompt_id: data.prompt_id,
+          variants: data.variants,
+          is_active: data.is_active ?? true,
+        })
+        .select()
+        .single<PromptExperimentRow>();
+
+      if (error) throw error;
+
+      logger.info('Saved prompt experiment', { experimentId: data.id, promptId: data.prompt_id });
+      return this.mapPromptExperiment(experiment);
+    }, 'save prompt experiment');
+  }
+
+  async getPromptOutcomes(promptId: string, options?: PromptOutcomeOptions): Promise<PromptOutcomeCounts[]> {
+    return withErrorHandling(async () => {
+      const { data, error } = await this.db.rpc<'prompt_outcome_counts', RpcRows<PromptOutcomeRow>>('prompt_outcome_counts', {
+        p_prompt_id: promptId,
+        p_experiment_id: options?.experimentId ?? null,
+        p_since: options?.since?.toISOString() ?? null,
+      });
+
+      if (error) throw error;
+
+      return (data || []).map(row => ({
+        prompt_version: row.prompt_version,
+        prompt_variant: row.prompt_variant ?? undefined,
+        responses: Number(row.responses),
+        sent: Number(row.sent),
+        edited: Number(row.edited),
+        sent_unedited: Number(row.sent_unedited),
+      }));
+    }, 'get prompt outcomes');
+  }
+
   // Utility Operations
 
   async rawQuery<T = any>(query: string, params?: any[]): Promise<T[]> {
@@ -1103,7 +2089,20 @@ export class SupabaseAdapter implements DatabaseAdapter {
 
   // Mapping functions
 
-  private mapUser(data: any): User {
+  private toStoredEmbedding(embedding: number[]): number[] {
+    if (embedding.length > EMBEDDING_DIMENSIONS) {
+      throw new ValidationError(
+        `Embedding has ${embedding.length} dimensions; email_chunks stores at most ${EMBEDDING_DIMENSIONS}`,
+        { embedding: [`max ${EMBEDDING_DIMENSIONS} dimensions`] }
+      );
+    }
+
+    return embedding.length === EMBEDDING_DIMENSIONS
+      ? embedding
+      : embedding.concat(new Array<number>(EMBEDDING_DIMENSIONS - embedding.length).fill(0));
+  }
+
+  private mapUser(data: UserRow): User {
     return {
       id: data.id,
       email: data.email,
@@ -1111,17 +2110,65 @@ export class SupabaseAdapter implements DatabaseAdapter {
       updated_at: new Date(data.updated_at),
       settings: data.settings || {},
       subscription_tier: data.subscription_tier,
+      organization_id: data.organization_id ?? undefined,
+    };
+  }
+
+  private mapTask = (data: TaskRow): Task => ({
+    id: data.id,
+    user_id: data.user_id,
+    email_id: data.email_id ?? undefined,
+    thread_id: data.thread_id ?? undefined,
+    description: data.description,
+    owner: data.owner ?? undefined,
+    due_date: data.due_date ? new Date(data.due_date) : undefined,
+    amounts: data.amounts || [],
+    priority: data.priority,
+    type: data.type ?? undefined,
+    source: data.source,
+    status: data.status,
+    completed_at: data.completed_at ? new Date(data.completed_at) : undefined,
+    created_at: new Date(data.created_at),
+    updated_at: new Date(data.updated_at),
+  });
+
+  private mapEmailCategory = (data: EmailCategoryRow): EmailCategory => ({
+    id: data.id,
+    user_id: data.user_id,
+    name: data.name,
+    description: data.description,
+    examples: data.examples || [],
+    sync_to_provider: data.sync_to_provider,
+    created_at: new Date(data.created_at),
+    updated_at: new Date(data.updated_at),
+  });
+
+  private mapStyleProfile = (data: StyleProfileRow): StyleProfileRecord => ({
+    user_id: data.user_id,
+    profile: data.profile,
+    built_at: new Date(data.built_at),
+  });
+
+  private mapOrganization(data: OrganizationRow): Organization {
+    return {
+      id: data.id,
+      name: data.name,
+      settings: data.settings || {},
+      created_at: new Date(data.created_at),
+      updated_at: new Date(data.updated_at),
     };
   }
 
   private mapEmailAccount(data: any): EmailAccount {
+    // Older rows hold the settings as a JSON string
+    const { settings } = data as { settings: EmailAccountSettings | string | null };
     return {
       id: data.id,
       user_id: data.user_id,
       email_address: data.email_address,
       provider: data.provider,
       encrypted_credentials: data.encrypted_credentials,
-      settings: data.settings || {},
+      settings: typeof settings === 'string' ? (JSON.parse(settings) as EmailAccountSettings) : settings || {},
       last_sync: data.last_sync ? new Date(data.last_sync) : null,
       is_active: data.is_active,
       created_at: new Date(data.created_at),
@@ -1151,7 +2198,7 @@ export class SupabaseAdapter implements DatabaseAdapter {
     };
   }
 
-  private mapAIResponse(data: any): AIResponse {
+  private mapAIResponse(data: AIResponseRow): AIResponse {
     return {
       id: data.id,
       email_id: data.email_id,
@@ -1160,7 +2207,19 @@ export class SupabaseAdapter implements DatabaseAdapter {
       confidence_score: data.confidence_score,
       tokens_used: data.tokens_used,
       response_time_ms: data.response_time_ms,
-      template_id: data.template_id,
+      template_id: data.template_id ?? undefined,
+      prompt_id: data.prompt_id ?? undefined,
+      prompt_version: data.prompt_version ?? undefined,
+      experiment_id: data.experiment_id ?? undefined,
+      prompt_variant: data.prompt_variant ?? undefined,
+      redaction_audit: data.redaction_audit ?? undefined,
+      language: data.language ?? undefined,
+      translation: data.translation ?? undefined,
+      parent_response_id: data.parent_response_id ?? undefined,
+      version: data.version ?? 1,
+      revision: data.revision ?? undefined,
+      compliance: data.compliance ?? undefined,
+      source: data.source ?? 'draft',
       user_edited: data.user_edited,
       sent_at: data.sent_at ? new Date(data.sent_at) : undefined,
       created_at: new Date(data.created_at),
@@ -1168,6 +2227,28 @@ export class SupabaseAdapter implements DatabaseAdapter {
     };
   }
 
+  private mapPromptTemplate(data: PromptTemplateRow): PromptTemplateRecord {
+    return {
+      id: data.id,
+      prompt_id: data.prompt_id,
+      version: data.version,
+      template: data.template,
+      description: data.description ?? undefined,
+      created_at: new Date(data.created_at),
+    };
+  }
+
+  private mapPromptExperiment(data: PromptExperimentRow): PromptExperimentRecord {
+    return {
+      id: data.id,
+      prompt_id: data.prompt_id,
+      variants: data.variants || [],
+      is_active: data.is_active,
+      created_at: new Date(data.created_at),
+      updated_at: new Date(data.updated_at),
+    };
+  }
+
   private mapTemplate(data: any): ResponseTemplate {
     return {
       id: data.id,
@@ -1203,6 +2284,24 @@ export class SupabaseAdapter implements DatabaseAdapter {
     };
   }
 
+  private mapAIUsageEvent(data: AIUsageEventRow): AIUsageEvent {
+    return {
+      id: data.id,
+      user_id: data.user_id ?? undefined,
+      provider: data.provider,
+      model: data.model,
+      input_tokens: data.input_tokens ?? undefined,
+      output_tokens: data.output_tokens ?? undefined,
+      total_tokens: data.total_tokens,
+      response_time_ms: data.response_time_ms,
+      cost: data.cost === null ? undefined : Number(data.cost),
+      cache_hit: data.cache_hit ?? undefined,
+      success: data.success,
+      error: data.error ?? undefined,
+      created_at: new Date(data.created_at),
+    };
+  }
+
   private mapUsageMetric(data: any): UsageMetric {
     return {
       id: data.id,
@@ -60,6 +60,11 @@ export const dbConfig = {
 // Usage limits for free tier
 export const FREE_TIER_LIMITS = {
   ai_calls: 100, // per month
+  ai_calls_per_day: 50,
+  ai_calls_per_minute: 5,
+  ai_tokens: 200000, // per month
+  ai_tokens_per_day: 50000,
+  ai_tokens_per_minute: 10000,
   emails_processed: 1000, // per month
   storage_used: 100 * 1024 * 1024, // 100MB in bytes
   templates_created: 10, // total
@@ -68,6 +73,11 @@ export const FREE_TIER_LIMITS = {
 // Usage limits for pro tier
 export const PRO_TIER_LIMITS = {
   ai_calls: 1000, // per month
+  ai_calls_per_day: 200,
+  ai_calls_per_minute: 20,
+  ai_tokens: 2000000, // per month
+  ai_tokens_per_day: 400000,
+  ai_tokens_per_minute: 40000,
   emails_processed: 10000, // per month
   storage_used: 1024 * 1024 * 1024, // 1GB in bytes
   templates_created: 100, // total
@@ -76,6 +86,11 @@ export const PRO_TIER_LIMITS = {
 // Usage limits for enterprise tier
 export const ENTERPRISE_TIER_LIMITS = {
   ai_calls: -1, // unlimited
+  ai_calls_per_day: -1, // unlimited
+  ai_calls_per_minute: 60, // protects provider quotas shared by all users
+  ai_tokens: -1, // unlimited
+  ai_tokens_per_day: -1, // unlimited
+  ai_tokens_per_minute: 150000,
   emails_processed: -1, // unlimited
   storage_used: -1, // unlimited
   templates_created: -1, // unlimited
@@ -10,8 +10,9 @@ import { DatabaseAdapter } from './interface';
 import { SupabaseAdapter } from './adapters/supabase';
 
 // Export main adapter and types
-export { DatabaseAdapter } from './interface';
-export { SupabaseAdapter, SupabaseConfig } from './adapters/supabase';
+export { DatabaseAdapter, VectorStore, PromptStore } from './interface';
+export { SupabaseAdapter, SupabaseConfig, EMBEDDING_DIMENSIONS } from './adapters/supabase';
+export { InMemoryVectorStore } from './adapters/memory-vector-store';
 
 // Export all types
 export * from './types';
@@ -55,6 +56,9 @@ export { MigrationRunner, Migration, runMigrations, rollbackMigrations } from '.
 // Export logger
 export { logger } from './utils/logger';
 
+// Export text chunking for embeddings
+export { chunkText, ChunkOptions } from './utils/chunking';
+
 // Factory function to create database adapter
 export function createDatabaseAdapter(type: 'supabase' = 'supabase', config?: any): DatabaseAdapter {
   switch (type) {
@@ -5,6 +5,7 @@ import {
   EmailAccount,
   EmailAccountInput,
   Email,
+  EmailMetadata,
   CreateEmailInput,
   AIResponse,
   AIResponseInput,
@@ -14,10 +15,37 @@ import {
   NotificationInput,
   UsageMetric,
   MetricType,
+  AIUsageEventInput,
+  AIUsageQuery,
+  AIUsageRollup,
+  AIUsageEventPage,
   QueryOptions,
   PaginatedResult,
   SubscriptionCallback,
-  UnsubscribeFunction
+  UnsubscribeFunction,
+  EmailChunkInput,
+  VectorSearchOptions,
+  VectorSearchResult,
+  PromptTemplateRecord,
+  PromptTemplateInput,
+  PromptExperimentRecord,
+  PromptExperimentInput,
+  PromptOutcomeOptions,
+  PromptOutcomeCounts,
+  Organization,
+  OrganizationInput,
+  OrganizationSettings,
+  WritingStyleProfile,
+  StyleProfileRecord,
+  Task,
+  TaskInput,
+  TaskUpdate,
+  TaskQuery,
+  EmailCategory,
+  EmailCategoryInput,
+  EmailCategoryUpdate,
+  SenderHistory,
+  ComplianceReview
 } from './types';
 
 // Re-export types for external use
@@ -27,7 +55,9 @@ export {
   UpdateUserInput,
   EmailAccount,
   EmailAccountInput,
+  EmailAccountSettings,
   Email,
+  EmailMetadata,
   CreateEmailInput,
   AIResponse,
   AIResponseInput,
@@ -37,10 +67,53 @@ export {
   NotificationInput,
   UsageMetric,
   MetricType,
+  AIUsageEvent,
+  AIUsageEventInput,
+  AIUsageQuery,
+  AIUsageRollup,
+  AIUsageEventPage,
   QueryOptions,
   PaginatedResult,
   SubscriptionCallback,
-  UnsubscribeFunction
+  UnsubscribeFunction,
+  EmailChunkInput,
+  VectorSearchOptions,
+  VectorSearchResult,
+  PromptTemplateRecord,
+  PromptTemplateInput,
+  PromptExperimentRecord,
+  PromptExperimentInput,
+  PromptOutcomeOptions,
+  PromptOutcomeCounts,
+  Organization,
+  OrganizationInput,
+  OrganizationSettings,
+  ComplianceSettings,
+  CompliancePolicy,
+  RedactionSettings,
+  CalendarSettings,
+  PrioritySettings,
+  EmailPriority,
+  SenderHistory,
+  SmartReplies,
+  EmailCategorization,
+  WritingStyleProfile,
+  StyleProfileRecord,
+  RedactionAudit,
+  ReplyTranslation,
+  ResponseRevision,
+  ComplianceReview,
+  ComplianceViolation,
+  Task,
+  TaskStatus,
+  TaskAmount,
+  TaskInput,
+  TaskUpdate,
+  TaskQuery,
+  EmailCategory,
+  EmailCategoryExample,
+  EmailCategoryInput,
+  EmailCategoryUpdate
 } from './types';
 
 /**
@@ -108,6 +181,62 @@ export interface DatabaseAdapter {
    */
   deleteUser(id: string): Promise<void>;
   
+  // Organization Operations
+  
+  /**
+   * Creates a new organization
+   * @param data - Organization name and settings
+   * @returns The created organization
+   */
+  createOrganization(data: OrganizationInput): Promise<Organization>;
+  
+  /**
+   * Retrieves an organization by its ID
+   * @param id - Organization ID
+   * @returns Organization if found, null otherwise
+   */
+  getOrganization(id: string): Promise<Organization | null>;
+  
+  /**
+   * Replaces the settings of an organization
+   * @param id - Organization ID
+   * @param settings - New settings
+   * @returns Updated organization
+   * @throws {NotFoundError} If organization not found
+   */
+  updateOrganizationSettings(id: string, settings: OrganizationSettings): Promise<Organization>;
+  
+  // Style Profile Operations
+  
+  /**
+   * Retrieves the writing style learned for a user
+   * @param userId - User ID
+   * @returns Style profile if one was built, null otherwise
+   */
+  getStyleProfile(userId: string): Promise<StyleProfileRecord | null>;
+  
+  /**
+   * Creates or replaces a user's writing style
+   * @param userId - User ID
+   * @param profile - Profile built from the user's sent mail
+   * @returns Stored style profile
+   */
+  saveStyleProfile(userId: string, profile: WritingStyleProfile): Promise<StyleProfileRecord>;
+  
+  /**
+   * Deletes a user's writing style, e.g. when they opt out
+   * @param userId - User ID
+   */
+  deleteStyleProfile(userId: string): Promise<void>;
+  
+  /**
+   * Retrieves style profiles due for a rebuild, oldest first
+   * @param builtBefore - Profiles built before this time
+   * @param limit - Maximum number of profiles (default: 50)
+   * @returns Style profiles
+   */
+  getStaleStyleProfiles(builtBefore: Date, limit?: number): Promise<StyleProfileRecord[]>;
+  
   // Email Account Operations
   
   /**
@@ -175,6 +304,24 @@ export interface DatabaseAdapter {
    */
   getEmails(accountId: string, options?: QueryOptions): Promise<PaginatedResult<Email>>;
   
+  /**
+   * Retrieves emails of several accounts with pagination, e.g. a user's inbox
+   * @param accountIds - Email account IDs
+   * @param options - Query options; orderBy 'priority_score' puts unscored emails last,
+   *   filters.search matches subject and sender
+   * @returns Paginated email results
+   */
+  getEmailsForAccounts(accountIds: string[], options?: QueryOptions): Promise<PaginatedResult<Email>>;
+  
+  /**
+   * Summarizes how the owner of the accounts treated recent mail from a sender
+   * @param accountIds - The user's email account IDs
+   * @param senderAddress - Sender email address
+   * @param limit - Most recent emails considered (default: 50)
+   * @returns Counts of received, opened and answered emails
+   */
+  getSenderHistory(accountIds: string[], senderAddress: string, limit?: number): Promise<SenderHistory>;
+  
   /**
    * Retrieves emails by thread ID
    * @param threadId - Thread ID
@@ -182,6 +329,15 @@ export interface DatabaseAdapter {
    */
   getEmailsByThread(threadId: string): Promise<Email[]>;
   
+  /**
+   * Retrieves the most recent emails an account sent
+   * @param accountId - Email account ID
+   * @param fromAddress - The account's own address
+   * @param limit - Maximum number of emails (default: 50)
+   * @returns Sent emails, newest first
+   */
+  getSentEmails(accountId: string, fromAddress: string, limit?: number): Promise<Email[]>;
+  
   /**
    * Retrieves a specific email
    * @param id - Email ID
@@ -203,6 +359,16 @@ export interface DatabaseAdapter {
    * @returns Updated email
    */
   updateEmailMetadata(id: string, metadata: Record<string, any>): Promise<Email>;
+
+  /**
+   * Set top-level metadata keys of an email, keeping all other keys as stored.
+   * Unlike updateEmailMetadata, concurrent patches of different keys do not
+   * overwrite each other.
+   * @param id - Email ID
+   * @param patch - Keys to set
+   * @returns Updated email
+   */
+  mergeEmailMetadata(id: string, patch: Partial<EmailMetadata>): Promise<Email>;
   
   /**
    * Deletes an email and all associated responses
@@ -228,6 +394,21 @@ export interface DatabaseAdapter {
    */
   getAIResponse(emailId: string): Promise<AIResponse | null>;
   
+  /**
+   * Retrieves an AI response by ID, e.g. an earlier version
+   * @param id - AI response ID
+   * @returns AI response if found, null otherwise
+   */
+  getAIResponseById(id: string): Promise<AIResponse | null>;
+  
+  /**
+   * Retrieves every AI response for an email, oldest first, including
+   * revisions linked through parent_response_id
+   * @param emailId - Email ID
+   * @returns AI responses of the email
+   */
+  getAIResponseVersions(emailId: string): Promise<AIResponse[]>;
+  
   /**
    * Retrieves all AI responses for a user
    * @param userId - User ID
@@ -253,6 +434,23 @@ export interface DatabaseAdapter {
    */
   markAIResponseSent(id: string, sentAt: Date): Promise<void>;
   
+  /**
+   * Stores the compliance review of an AI response without marking it as edited
+   * @param id - AI response ID
+   * @param review - Violations found and approval state
+   * @returns Updated AI response
+   * @throws {NotFoundError} If response not found
+   */
+  saveComplianceReview(id: string, review: ComplianceReview): Promise<AIResponse>;
+  
+  /**
+   * Retrieves the responses of an organization's members that await approval, oldest first
+   * @param organizationId - Organization ID
+   * @param options - Query options
+   * @returns Paginated AI response results
+   */
+  getPendingComplianceReviews(organizationId: string, options?: QueryOptions): Promise<PaginatedResult<AIResponse>>;
+  
   // Template Operations
   
   /**
@@ -302,6 +500,86 @@ export interface DatabaseAdapter {
    */
   deleteTemplate(id: string): Promise<void>;
   
+  // Task Operations
+  
+  /**
+   * Creates tasks for a user, e.g. the action items extracted from an email
+   * @param userId - User ID
+   * @param tasks - Task data
+   * @returns Created tasks
+   */
+  createTasks(userId: string, tasks: TaskInput[]): Promise<Task[]>;
+  
+  /**
+   * Retrieves a task
+   * @param id - Task ID
+   * @returns Task if found, null otherwise
+   */
+  getTask(id: string): Promise<Task | null>;
+  
+  /**
+   * Retrieves a user's tasks, soonest due first
+   * @param userId - User ID
+   * @param query - Status, email, thread and due date filters
+   * @returns Paginated task results
+   */
+  getTasks(userId: string, query?: TaskQuery): Promise<PaginatedResult<Task>>;
+  
+  /**
+   * Updates a task; completing it sets completed_at
+   * @param id - Task ID
+   * @param data - Update data
+   * @returns Updated task
+   * @throws {NotFoundError} If task not found
+   */
+  updateTask(id: string, data: TaskUpdate): Promise<Task>;
+  
+  /**
+   * Deletes a task
+   * @param id - Task ID
+   */
+  deleteTask(id: string): Promise<void>;
+  
+  // Email Category Operations
+  
+  /**
+   * Retrieves a user's email categories, ordered by name
+   * @param userId - User ID
+   * @returns Categories with their examples
+   */
+  getEmailCategories(userId: string): Promise<EmailCategory[]>;
+  
+  /**
+   * Retrieves an email category
+   * @param id - Category ID
+   * @returns Category if found, null otherwise
+   */
+  getEmailCategory(id: string): Promise<EmailCategory | null>;
+  
+  /**
+   * Creates an email category
+   * @param userId - User ID
+   * @param data - Category data
+   * @returns Created category
+   * @throws {DuplicateError} If the user has a category with this name
+   */
+  createEmailCategory(userId: string, data: EmailCategoryInput): Promise<EmailCategory>;
+  
+  /**
+   * Updates an email category; examples are replaced as a whole
+   * @param id - Category ID
+   * @param data - Update data
+   * @returns Updated category
+   * @throws {NotFoundError} If category not found
+   */
+  updateEmailCategory(id: string, data: EmailCategoryUpdate): Promise<EmailCategory>;
+  
+  /**
+   * Deletes an email category
+   * @param id - Category ID
+   */
+  deleteEmailCategory(id: string): Promise<void>;
+  
   // Notification Operations
   
   /**
@@ -369,6 +647,37 @@ export interface DatabaseAdapter {
    */
   checkUsageLimit(userId: string, metric: MetricType, limit: number): Promise<boolean>;
   
+  /**
+   * Stores AI provider calls in one batch
+   * @param events - Calls to store
+   */
+  saveAIUsageEvents(events: AIUsageEventInput[]): Promise<void>;
+  
+  /**
+   * Aggregates AI usage per UTC day, provider, model and user
+   * @param query - Time range and filters
+   * @returns One rollup per day, provider, model and user with usage
+   */
+  getAIUsageRollups(query?: AIUsageQuery): Promise<AIUsageRollup[]>;
+  
+  /**
+   * Retrieves AI usage events in call order, one page at a time
+   * @param query - Time range and filters
+   * @param after - Cursor from the previous page
+   * @param limit - Page size (default: 1000)
+   * @returns A page of events and the cursor of the next page, if any
+   */
+  getAIUsageEvents(query?: AIUsageQuery, after?: string, limit?: number): Promise<AIUsageEventPage>;
+  
+  /**
+   * Adds to an expiring counter, for budgets and rate limits shared by API instances
+   * @param key - Counter key
+   * @param amount - Amount to add (negative to subtract)
+   * @param ttlSeconds - Lifetime of the counter, starting when it is created
+   * @returns The counter's new value
+   */
+  incrementCounter(key: string, amount: number, ttlSeconds: number): Promise<number>;
+  
   // Real-time Subscriptions
   
   /**
@@ -433,4 +742,80 @@ export interface DatabaseAdapter {
    * @returns Number of records cleaned up
    */
   cleanup(olderThan: Date): Promise<number>;
-}
\ No newline at end of file
+}
+
+/**
+ * Storage for email embeddings used by semantic search.
+ * Kept separate from DatabaseAdapter so search can run against a dedicated store.
+ */
+export interface VectorStore {
+  /**
+   * Replaces all stored chunks of the given emails with the new chunks
+   * @param chunks - Chunks with their embeddings
+   * @throws {ValidationError} If an embedding is larger than the store supports
+   */
+  upsertEmailChunks(chunks: EmailChunkInput[]): Promise<void>;
+  
+  /**
+   * Finds the chunks most similar to a query embedding
+   * @param embedding - Query embedding, produced by the same model as the stored chunks
+   * @param options - Accounts to search, result limit and minimum cosine similarity
+   * @returns Matching chunks ordered by descending similarity
+   */
+  searchEmailChunks(embedding: number[], options: VectorSearchOptions): Promise<VectorSearchResult[]>;
+  
+  /**
+   * Deletes all chunks of an email
+   * @param emailId - Email ID
+   */
+  deleteEmailChunks(emailId: string): Promise<void>;
+  
+  /**
+   * Lists which of the given emails already have chunks for a model
+   * @param emailIds - Email IDs to check
+   * @param embeddingModel - Embedding model the chunks must have been produced by
+   * @returns Subset of emailIds that are indexed
+   */
+  getIndexedEmailIds(emailIds: string[], embeddingModel: string): Promise<string[]>;
+}
+
+/**
+ * Storage for versioned prompt templates, A/B experiments and their outcomes.
+ * Kept separate from DatabaseAdapter so prompts can be managed outside the main database.
+ */
+export interface PromptStore {
+  /**
+   * Lists every stored prompt template version
+   * @returns Templates ordered by prompt ID and version
+   */
+  getPromptTemplates(): Promise<PromptTemplateRecord[]>;
+  
+  /**
+   * Stores a new prompt template version
+   * @param data - Template data
+   * @returns The stored template
+   * @throws {DatabaseOperationError} If the version already exists
+   */
+  savePromptTemplate(data: PromptTemplateInput): Promise<PromptTemplateRecord>;
+  
+  /**
+   * Lists all experiments, including inactive ones
+   * @returns Experiments ordered by creation date
+   */
+  getPromptExperiments(): Promise<PromptExperimentRecord[]>;
+  
+  /**
+   * Creates an experiment or replaces the one with the same ID
+   * @param data - Experiment data
+   * @returns The stored experiment
+   */
+  savePromptExperiment(data: PromptExperimentInput): Promise<PromptExperimentRecord>;
+  
+  /**
+   * Counts AI responses generated from a prompt and how users treated them
+   * @param promptId - Prompt ID the responses were tagged with
+   * @param options - Restrict to one experiment or to responses created since a date
+   * @returns One row per prompt version and variant
+   */
+  getPromptOutcomes(promptId: string, options?: PromptOutcomeOptions): Promise<PromptOutcomeCounts[]>;
+}
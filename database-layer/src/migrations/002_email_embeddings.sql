@@ -0,0 +1,50 @@
+-- Migration: 002_email_embeddings
+-- Description: pgvector storage for semantic email search
+
+-- Enable pgvector extension
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Email chunks table (embeddings narrower than 1536 are zero-padded)
+CREATE TABLE IF NOT EXISTS email_chunks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email_id UUID NOT NULL REFERENCES emails(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    embedding vector(1536) NOT NULL,
+    embedding_model VARCHAR(100) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(email_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_chunks_email_id ON email_chunks(email_id);
+CREATE INDEX IF NOT EXISTS idx_email_chunks_account_id ON email_chunks(account_id, embedding_model);
+CREATE INDEX IF NOT EXISTS idx_email_chunks_embedding ON email_chunks USING hnsw (embedding vector_cosine_ops);
+
+ALTER TABLE email_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Nearest chunks by cosine similarity, restricted to the caller's accounts
+CREATE OR REPLACE FUNCTION match_email_chunks(
+    query_embedding vector(1536),
+    account_ids UUID[],
+    match_count INTEGER DEFAULT 10,
+    min_score FLOAT DEFAULT 0,
+    model VARCHAR(100) DEFAULT NULL
+)
+RETURNS TABLE (
+    email_id UUID,
+    account_id UUID,
+    chunk_index INTEGER,
+    content TEXT,
+    score FLOAT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT c.email_id, c.account_id, c.chunk_index, c.content,
+           1 - (c.embedding <=> query_embedding) AS score
+    FROM email_chunks c
+    WHERE c.account_id = ANY(account_ids)
+      AND (model IS NULL OR c.embedding_model = model)
+      AND 1 - (c.embedding <=> query_embedding) >= min_score
+    ORDER BY c.embedding <=> query_embedding
+    LIMIT match_count
+$$
@@ -0,0 +1,61 @@
+-- Migration: 003_prompt_registry
+-- Description: Versioned prompt templates, A/B experiments and prompt tags on AI responses
+
+CREATE TABLE IF NOT EXISTS prompt_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    prompt_id VARCHAR(100) NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    template TEXT NOT NULL,
+    description TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(prompt_id, version)
+);
+
+-- variants: [{ "name": "control", "version": 1, "weight": 1 }, ...]
+CREATE TABLE IF NOT EXISTS prompt_experiments (
+    id VARCHAR(100) PRIMARY KEY,
+    prompt_id VARCHAR(100) NOT NULL,
+    variants JSONB NOT NULL,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE ai_responses
+    ADD COLUMN IF NOT EXISTS prompt_id VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS prompt_version INTEGER,
+    ADD COLUMN IF NOT EXISTS experiment_id VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS prompt_variant VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_ai_responses_prompt ON ai_responses(prompt_id, prompt_version);
+
+-- Prompts are managed by the backend only
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_experiments ENABLE ROW LEVEL SECURITY;
+
+-- Draft outcomes per prompt version and variant; a draft is accepted when sent unedited
+CREATE OR REPLACE FUNCTION prompt_outcome_counts(
+    p_prompt_id VARCHAR(100),
+    p_experiment_id VARCHAR(100) DEFAULT NULL,
+    p_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    prompt_version INTEGER,
+    prompt_variant VARCHAR(100),
+    responses BIGINT,
+    sent BIGINT,
+    edited BIGINT,
+    sent_unedited BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT r.prompt_version, r.prompt_variant,
+           COUNT(*),
+           COUNT(r.sent_at),
+           COUNT(*) FILTER (WHERE r.user_edited),
+           COUNT(*) FILTER (WHERE r.sent_at IS NOT NULL AND NOT r.user_edited)
+    FROM ai_responses r
+    WHERE r.prompt_id = p_prompt_id
+      AND (p_experiment_id IS NULL OR r.experiment_id = p_experiment_id)
+      AND (p_since IS NULL OR r.created_at >= p_since)
+    GROUP BY r.prompt_version, r.prompt_variant
+$$;
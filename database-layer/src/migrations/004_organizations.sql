@@ -0,0 +1,26 @@
+-- Migration: 004_organizations
+-- Description: Organizations with shared settings (PII redaction rules) and redaction audits on AI responses
+
+CREATE TABLE IF NOT EXISTS organizations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    settings JSONB DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_organization_id ON users(organization_id);
+
+DROP TRIGGER IF EXISTS update_organizations_updated_at ON organizations;
+CREATE TRIGGER update_organizations_updated_at BEFORE UPDATE ON organizations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Placeholders and counts only; the redacted values are never stored
+ALTER TABLE ai_responses
+    ADD COLUMN IF NOT EXISTS redaction_audit JSONB;
+
+-- Organizations are managed by the backend only
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,67 @@
+-- Migration: 005_ai_usage_events
+-- Description: Per-call AI usage (tokens, latency, cost, cache hits, errors) with daily rollups
+
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    input_tokens INTEGER,
+    output_tokens INTEGER,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    response_time_ms INTEGER NOT NULL DEFAULT 0,
+    cost NUMERIC(12, 6),
+    cache_hit VARCHAR(20) CHECK (cache_hit IN ('exact', 'semantic')),
+    success BOOLEAN NOT NULL,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_created_at ON ai_usage_events(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_user_id ON ai_usage_events(user_id, created_at);
+
+-- Written by the backend only; users see their usage through the API
+ALTER TABLE ai_usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Totals per UTC day, provider, model and user; callers merge to coarser groups
+CREATE OR REPLACE FUNCTION ai_usage_rollups(
+    p_start TIMESTAMPTZ DEFAULT NULL,
+    p_end TIMESTAMPTZ DEFAULT NULL,
+    p_user_id UUID DEFAULT NULL,
+    p_provider VARCHAR(50) DEFAULT NULL,
+    p_model VARCHAR(100) DEFAULT NULL
+)
+RETURNS TABLE (
+    day DATE,
+    provider VARCHAR(50),
+    model VARCHAR(100),
+    user_id UUID,
+    requests BIGINT,
+    tokens BIGINT,
+    input_tokens BIGINT,
+    output_tokens BIGINT,
+    cost NUMERIC,
+    errors BIGINT,
+    cache_hits BIGINT,
+    semantic_cache_hits BIGINT,
+    total_response_time_ms BIGINT
+)
+LANGUAGE sql STABLE AS $$
+    SELECT (e.created_at AT TIME ZONE 'UTC')::DATE, e.provider, e.model, e.user_id,
+           COUNT(*),
+           COALESCE(SUM(e.total_tokens), 0),
+           COALESCE(SUM(e.input_tokens), 0),
+           COALESCE(SUM(e.output_tokens), 0),
+           COALESCE(SUM(e.cost), 0),
+           COUNT(*) FILTER (WHERE NOT e.success),
+           COUNT(e.cache_hit),
+           COUNT(*) FILTER (WHERE e.cache_hit = 'semantic'),
+           COALESCE(SUM(e.response_time_ms) FILTER (WHERE e.success), 0)
+    FROM ai_usage_events e
+    WHERE (p_start IS NULL OR e.created_at >= p_start)
+      AND (p_end IS NULL OR e.created_at <= p_end)
+      AND (p_user_id IS NULL OR e.user_id = p_user_id)
+      AND (p_provider IS NULL OR e.provider = p_provider)
+      AND (p_model IS NULL OR e.model = p_model)
+    GROUP BY 1, e.provider, e.model, e.user_id
+$$;
@@ -0,0 +1,14 @@
+-- Migration: 006_style_profiles
+-- Description: Writing style learned from each user's sent mail, used as few-shot examples for drafts
+
+CREATE TABLE IF NOT EXISTS style_profiles (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    profile JSONB NOT NULL,
+    built_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The refresh job picks the oldest profiles first
+CREATE INDEX IF NOT EXISTS idx_style_profiles_built_at ON style_profiles(built_at);
+
+-- Examples are excerpts of real emails; only the backend reads them
+ALTER TABLE style_profiles ENABLE ROW LEVEL SECURITY;
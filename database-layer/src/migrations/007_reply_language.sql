@@ -0,0 +1,7 @@
+-- Migration: 007_reply_language
+-- Description: Language of AI replies and an optional translation for review
+-- The detected language of inbound mail is kept in emails.metadata.language
+
+ALTER TABLE ai_responses
+    ADD COLUMN IF NOT EXISTS language VARCHAR(10),
+    ADD COLUMN IF NOT EXISTS translation JSONB;
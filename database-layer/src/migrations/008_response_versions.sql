@@ -0,0 +1,9 @@
+-- Migration: 008_response_versions
+-- Description: Revisions of AI responses, linked to the version they were derived from
+
+ALTER TABLE ai_responses
+    ADD COLUMN IF NOT EXISTS parent_response_id UUID REFERENCES ai_responses(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS revision JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_ai_responses_parent_response_id ON ai_responses(parent_response_id);
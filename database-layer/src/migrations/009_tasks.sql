@@ -0,0 +1,39 @@
+-- Migration: 009_tasks
+-- Description: Tasks extracted from processed emails, with owners, due dates and amounts
+
+CREATE TABLE IF NOT EXISTS tasks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    email_id UUID REFERENCES emails(id) ON DELETE SET NULL,
+    thread_id VARCHAR(255),
+    description TEXT NOT NULL,
+    owner VARCHAR(255),
+    due_date TIMESTAMPTZ,
+    amounts JSONB DEFAULT '[]',
+    priority VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+    type VARCHAR(20) CHECK (type IN ('request', 'commitment')),
+    source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('extracted', 'manual')),
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed')),
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_user_id ON tasks(user_id, status, due_date);
+CREATE INDEX IF NOT EXISTS idx_tasks_email_id ON tasks(email_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_thread_id ON tasks(user_id, thread_id);
+
+DROP TRIGGER IF EXISTS update_tasks_updated_at ON tasks;
+CREATE TRIGGER update_tasks_updated_at BEFORE UPDATE ON tasks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tasks" ON tasks
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own tasks" ON tasks
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own tasks" ON tasks
+    FOR DELETE USING (user_id = auth.uid());
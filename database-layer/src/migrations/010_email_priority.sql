@@ -0,0 +1,7 @@
+-- Migration: 010_email_priority
+-- Description: Sortable inbox priority; the score and its factors live in emails.metadata.priority
+
+ALTER TABLE emails
+    ADD COLUMN IF NOT EXISTS priority_score REAL GENERATED ALWAYS AS ((metadata->'priority'->>'score')::REAL) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_emails_priority_score ON emails(account_id, priority_score DESC NULLS LAST);
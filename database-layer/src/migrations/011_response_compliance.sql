@@ -0,0 +1,9 @@
+-- Migration: 011_response_compliance
+-- Description: Compliance review of AI responses against their organization's policies
+
+ALTER TABLE ai_responses
+    ADD COLUMN IF NOT EXISTS compliance JSONB;
+
+-- Reviewers list the responses that wait for their approval
+CREATE INDEX IF NOT EXISTS idx_ai_responses_compliance_pending ON ai_responses(created_at)
+    WHERE compliance->>'status' = 'pending_approval';
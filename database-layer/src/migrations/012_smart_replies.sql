@@ -0,0 +1,5 @@
+-- Migration: 012_smart_replies
+-- Description: Responses picked from an email's smart replies; the replies themselves live in emails.metadata.smart_replies
+
+ALTER TABLE ai_responses
+    ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (source IN ('draft', 'smart_reply'));
@@ -0,0 +1,32 @@
+-- Migration: 013_email_categories
+-- Description: User-defined email categories with few-shot examples; assignments live in emails.metadata.categorization
+
+CREATE TABLE IF NOT EXISTS email_categories (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT NOT NULL,
+    examples JSONB DEFAULT '[]',
+    sync_to_provider BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, name)
+);
+
+-- Listing emails filtered by category
+CREATE INDEX IF NOT EXISTS idx_emails_category_id ON emails((metadata->'categorization'->>'category_id'));
+
+DROP TRIGGER IF EXISTS update_email_categories_updated_at ON email_categories;
+CREATE TRIGGER update_email_categories_updated_at BEFORE UPDATE ON email_categories
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE email_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own email categories" ON email_categories
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own email categories" ON email_categories
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own email categories" ON email_categories
+    FOR DELETE USING (user_id = auth.uid());
@@ -0,0 +1,31 @@
+-- Migration: 014_response_version_numbers
+-- Description: Response versions are numbered per email on insert, so concurrent saves never share a version
+
+-- Regenerated drafts were all saved as version 1
+WITH numbered AS (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY email_id ORDER BY created_at, id) AS version
+    FROM ai_responses
+)
+UPDATE ai_responses
+SET version = numbered.version
+FROM numbered
+WHERE ai_responses.id = numbered.id AND ai_responses.version <> numbered.version;
+
+ALTER TABLE ai_responses DROP CONSTRAINT IF EXISTS ai_responses_email_id_version_key;
+ALTER TABLE ai_responses ADD CONSTRAINT ai_responses_email_id_version_key UNIQUE (email_id, version);
+
+CREATE OR REPLACE FUNCTION assign_response_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Inserts for the same email wait for each other until the transaction ends
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.email_id::text));
+    SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+    FROM ai_responses
+    WHERE email_id = NEW.email_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_ai_responses_version ON ai_responses;
+CREATE TRIGGER assign_ai_responses_version BEFORE INSERT ON ai_responses
+    FOR EACH ROW EXECUTE FUNCTION assign_response_version();
@@ -0,0 +1,11 @@
+-- Migration: 015_email_metadata_merge
+-- Description: Sets top-level keys of emails.metadata in place, so services updating the same email keep each other's keys
+
+CREATE OR REPLACE FUNCTION merge_email_metadata(p_email_id UUID, p_patch JSONB)
+RETURNS SETOF emails
+LANGUAGE sql AS $$
+    UPDATE emails
+    SET metadata = COALESCE(metadata, '{}'::JSONB) || p_patch
+    WHERE id = p_email_id
+    RETURNING *;
+$$;
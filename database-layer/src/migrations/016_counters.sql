@@ -0,0 +1,27 @@
+-- Migration: 016_counters
+-- Description: Expiring counters for AI budgets and rate limits, shared by every API instance without a cache store
+
+CREATE TABLE counters (
+    key TEXT PRIMARY KEY,
+    value BIGINT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_counters_expires_at ON counters(expires_at);
+
+-- Written by the backend only
+ALTER TABLE counters ENABLE ROW LEVEL SECURITY;
+
+-- Adds to a counter and returns its new value; an expired counter restarts at the amount with a fresh expiry
+CREATE OR REPLACE FUNCTION increment_counter(p_key TEXT, p_amount BIGINT, p_ttl_seconds INTEGER)
+RETURNS BIGINT
+LANGUAGE sql AS $$
+    DELETE FROM counters WHERE expires_at <= NOW() - INTERVAL '1 day';
+
+    INSERT INTO counters AS c (key, value, expires_at)
+    VALUES (p_key, p_amount, NOW() + make_interval(secs => p_ttl_seconds))
+    ON CONFLICT (key) DO UPDATE SET
+        value = CASE WHEN c.expires_at <= NOW() THEN EXCLUDED.value ELSE c.value + EXCLUDED.value END,
+        expires_at = CASE WHEN c.expires_at <= NOW() THEN EXCLUDED.expires_at ELSE c.expires_at END
+    RETURNING c.value;
+$$;
@@ -5,6 +5,7 @@ export interface User {
   updated_at: Date;
   settings: UserSettings;
   subscription_tier: 'free' | 'pro' | 'enterprise';
+  organization_id?: string;
 }
 
 export interface UserSettings {
@@ -15,9 +16,80 @@ export interface UserSettings {
   theme?: 'light' | 'dark' | 'system';
   email_signature?: string;
   ai_tone?: 'professional' | 'casual' | 'friendly';
+  redaction?: RedactionSettings;
+  calendar?: CalendarSettings;
+  // Notes about contacts by lowercase email address, available to the AI while drafting
+  contact_notes?: Record<string, string>;
+  // Learn the user's writing style from their sent mail (default: true)
+  style_learning?: boolean;
+  // Reply in the sender's language (default) or always in the user's own `language`
+  reply_language?: 'sender' | 'user';
+  // Add a translation into `language` when a reply is written in another language
+  translate_replies?: boolean;
+  priority?: PrioritySettings;
   custom_settings?: Record<string, any>;
 }
 
+export interface PrioritySettings {
+  // Addresses or whole domains ("@example.com") whose mail is always important
+  vip_senders?: string[];
+  // Points learned from the user's corrections, by lowercase sender address
+  sender_adjustments?: Record<string, number>;
+}
+
+// Calendar the AI checks before proposing meeting times
+export interface CalendarSettings {
+  // Private ICS feed, e.g. Google Calendar's secret address in iCal format
+  ics_url?: string;
+  // In the user's time_zone; days are 0 (Sunday) to 6, Monday to Friday by default
+  working_hours?: { start: string; end: string; days?: number[] };
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  settings: OrganizationSettings;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface OrganizationSettings {
+  redaction?: RedactionSettings;
+  compliance?: ComplianceSettings;
+  [key: string]: any;
+}
+
+// Policies every AI draft of the organization's members is checked against
+export interface ComplianceSettings {
+  policies?: CompliancePolicy[];
+  // Drafts with violations cannot be sent until a reviewer approves them
+  require_approval?: boolean;
+  // Email addresses of the members allowed to approve drafts
+  reviewers?: string[];
+}
+
+export interface CompliancePolicy {
+  id: string;
+  name: string;
+  // What the policy forbids or requires; 'llm' policies are judged by the model from this
+  description: string;
+  // 'forbidden' drafts must not match pattern, 'required' drafts must (e.g. a disclaimer)
+  type: 'forbidden' | 'required' | 'llm';
+  pattern?: string;
+  flags?: string;
+  severity: 'low' | 'medium' | 'high';
+}
+
+// PII redaction applied before email content is sent to an AI provider.
+// User and organization settings are merged; the stricter one wins.
+export interface RedactionSettings {
+  enabled?: boolean;
+  detectors?: Array<'email' | 'phone' | 'iban' | 'card' | 'address' | 'signature'>;
+  custom_rules?: Array<{ name: string; pattern: string; flags?: string }>;
+  // Values that are never redacted
+  allow?: string[];
+}
+
 export interface EmailAccount {
   id: string;
   user_id: string;
@@ -91,9 +163,70 @@ export interface EmailMetadata {
   is_starred?: boolean;
   is_spam?: boolean;
   sentiment?: 'positive' | 'neutral' | 'negative';
+  security?: EmailSecurity;
+  // ISO 639-1 code of the body, detected before the first reply
+  language?: string;
+  // Set once action items were extracted into tasks, so reprocessing does not duplicate them
+  tasks_extracted_at?: string;
+  priority?: EmailPriority;
+  smart_replies?: SmartReplies;
+  // The user's category for the email; `categories` holds its name for display
+  categorization?: EmailCategorization;
   [key: string]: any;
 }
 
+// Result of sorting an email into the user's categories
+export interface EmailCategorization {
+  // Null when no category fit well enough
+  category_id: string | null;
+  category?: string;
+  confidence: number;
+  reason?: string;
+  model?: string;
+  // Chosen by the user; never replaced by the model
+  corrected?: boolean;
+  // Whether the category still has to be written to Gmail or Outlook; failed writes are retried on the next sync
+  provider_sync?: 'pending' | 'synced' | 'failed' | 'unsupported';
+  // The label last written to the provider, removed there when the category changes
+  provider_label?: string;
+  categorized_at: string;
+}
+
+// Short one-tap replies, generated once per email
+export interface SmartReplies {
+  replies: Array<{ text: string; intent: 'accept' | 'acknowledge' | 'decline' | 'question' }>;
+  model?: string;
+  generated_at: string;
+}
+
+// Inbox priority; emails.priority_score mirrors score for sorting
+export interface EmailPriority {
+  score: number;
+  level: 'low' | 'medium' | 'high' | 'urgent';
+  factors: Array<{ signal: string; points: number }>;
+  // The model's urgency, kept so feedback can rescore without another call
+  urgency?: 'low' | 'medium' | 'high' | 'urgent';
+  deadline?: { text: string; date?: string };
+  // Set when the user corrected the priority of this email
+  feedback?: 'higher' | 'lower';
+  computed_at: string;
+}
+
+// Result of scanning an inbound email for prompt injection and phishing
+export interface EmailSecurity {
+  risk: 'low' | 'medium' | 'high';
+  score: number;
+  flags: Array<{
+    type: 'prompt_injection' | 'hidden_text' | 'link_mismatch' | 'lookalike_domain' | 'urgent_payment';
+    severity: 'low' | 'medium' | 'high';
+    detail: string;
+  }>;
+  scanned_at: string;
+  // Set once a user has reviewed a high-risk email and allowed AI processing
+  confirmed_at?: string;
+  confirmed_by?: string;
+}
+
 export interface AIResponse {
   id: string;
   email_id: string;
@@ -103,6 +236,23 @@ export interface AIResponse {
   tokens_used: number;
   response_time_ms: number;
   template_id?: string;
+  prompt_id?: string;
+  prompt_version?: number;
+  experiment_id?: string;
+  prompt_variant?: string;
+  redaction_audit?: RedactionAudit;
+  // ISO 639-1 code the reply is written in
+  language?: string;
+  // For review when the reply is not in the user's language
+  translation?: ReplyTranslation;
+  // Set on revisions: the version this one was derived from
+  parent_response_id?: string;
+  // Numbered per email by the database on insert: 1 for the first draft, then up with each draft or revision
+  version: number;
+  revision?: ResponseRevision;
+  compliance?: ComplianceReview;
+  // 'smart_reply' responses were picked from the email's smart replies instead of drafted
+  source: 'draft' | 'smart_reply';
   user_edited: boolean;
   sent_at?: Date;
   created_at: Date;
@@ -162,6 +312,136 @@ export interface UsageMetric {
 
 export type MetricType = 'ai_calls' | 'emails_processed' | 'storage_used' | 'templates_created';
 
+// One AI provider call, kept for usage stats and billing reconciliation
+export interface AIUsageEvent {
+  id: string;
+  user_id?: string;
+  provider: string;
+  model: string;
+  input_tokens?: number;
+  output_tokens?: number;
+  total_tokens: number;
+  response_time_ms: number;
+  cost?: number;
+  cache_hit?: 'exact' | 'semantic';
+  success: boolean;
+  error?: string;
+  created_at: Date;
+}
+
+// created_at is the time of the call, not of the insert
+export type AIUsageEventInput = Omit<AIUsageEvent, 'id'>;
+
+export interface AIUsageQuery {
+  start?: Date;
+  end?: Date;
+  user_id?: string;
+  provider?: string;
+  model?: string;
+}
+
+// Totals for one UTC day, provider, model and user
+export interface AIUsageRollup {
+  day: string;
+  provider: string;
+  model: string;
+  user_id?: string;
+  requests: number;
+  tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost: number;
+  errors: number;
+  cache_hits: number;
+  semantic_cache_hits: number;
+  // Over successful calls only
+  total_response_time_ms: number;
+}
+
+// Built by the AI layer's StyleProfileBuilder and stored as-is
+export interface WritingStyleProfile {
+  greetings: string[];
+  signOffs: string[];
+  typicalLength: number;
+  formality: 'formal' | 'neutral' | 'casual';
+  commonPhrases: string[];
+  examples: Array<{ subject: string; body: string }>;
+  sampleSize: number;
+}
+
+export interface StyleProfileRecord {
+  user_id: string;
+  profile: WritingStyleProfile;
+  built_at: Date;
+}
+
+// A category the user sorts mail into; its description and examples guide the model
+export interface EmailCategory {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string;
+  // Examples given by the user and taken from corrections, oldest first
+  examples: EmailCategoryExample[];
+  // Write the category back to the provider as a Gmail label or Outlook category
+  sync_to_provider: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EmailCategoryExample {
+  subject: string;
+  from?: string;
+  snippet: string;
+  source: 'user' | 'correction';
+  email_id?: string;
+}
+
+export interface Task {
+  id: string;
+  user_id: string;
+  // The email the task was extracted from; tasks outlive a deleted email
+  email_id?: string;
+  thread_id?: string;
+  description: string;
+  owner?: string;
+  due_date?: Date;
+  // Amounts mentioned with the task, e.g. an invoice total
+  amounts: TaskAmount[];
+  priority: 'low' | 'medium' | 'high';
+  // Requests are asked of the user, commitments are promised by them; unset for manual tasks
+  type?: 'request' | 'commitment';
+  source: 'extracted' | 'manual';
+  status: TaskStatus;
+  completed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type TaskStatus = 'open' | 'completed';
+
+export interface TaskAmount {
+  text: string;
+  value?: number;
+  currency?: string;
+}
+
+// How the user has treated mail from one sender
+export interface SenderHistory {
+  received: number;
+  // Received emails marked as read
+  opened: number;
+  // Received emails the user answered in the same thread
+  replied: number;
+  median_reply_minutes?: number;
+}
+
+// Keyset page of usage events; pass `next` back as `after` for the following page
+export interface AIUsageEventPage {
+  data: AIUsageEvent[];
+  next?: string;
+}
+
 // Input types for creating/updating entities
 export interface CreateUserInput {
   email: string;
@@ -173,6 +453,12 @@ export interface UpdateUserInput {
   email?: string;
   settings?: Partial<UserSettings>;
   subscription_tier?: 'free' | 'pro' | 'enterprise';
+  organization_id?: string | null;
+}
+
+export interface OrganizationInput {
+  name: string;
+  settings?: OrganizationSettings;
 }
 
 export interface EmailAccountInput {
@@ -206,6 +492,89 @@ export interface AIResponseInput {
   tokens_used: number;
   response_time_ms: number;
   template_id?: string;
+  prompt_id?: string;
+  prompt_version?: number;
+  experiment_id?: string;
+  prompt_variant?: string;
+  redaction_audit?: RedactionAudit;
+  language?: string;
+  translation?: ReplyTranslation;
+  parent_response_id?: string;
+  revision?: ResponseRevision;
+  source?: AIResponse['source'];
+}
+
+export interface ReplyTranslation {
+  language: string;
+  text: string;
+}
+
+// What the user asked for when a response was revised or rolled back
+// Result of checking a response against its organization's compliance policies
+export interface ComplianceReview {
+  // 'pending_approval' responses cannot be sent until a reviewer approves them
+  status: 'passed' | 'flagged' | 'pending_approval' | 'approved';
+  violations: ComplianceViolation[];
+  // Set when the model could not judge the 'llm' policies
+  incomplete?: boolean;
+  checked_at: string;
+  approved_by?: string;
+  approved_at?: string;
+}
+
+export interface ComplianceViolation {
+  policy_id: string;
+  policy_name: string;
+  severity: CompliancePolicy['severity'];
+  explanation: string;
+  excerpt?: string;
+  source: 'rule' | 'model';
+}
+
+export interface ResponseRevision {
+  presets?: string[];
+  feedback?: string;
+  // Set on rollbacks: the earlier version whose text was restored
+  restored_from?: string;
+}
+
+// What was replaced in the prompt of an AI response; never the original values
+export interface RedactionAudit {
+  redactions: Array<{ type: string; placeholder: string; count: number }>;
+  restored: number;
+}
+
+export interface EmailCategoryInput {
+  name: string;
+  description: string;
+  examples?: EmailCategoryExample[];
+  sync_to_provider?: boolean;
+}
+
+export type EmailCategoryUpdate = Partial<EmailCategoryInput>;
+
+export interface TaskInput {
+  email_id?: string;
+  thread_id?: string;
+  description: string;
+  owner?: string;
+  due_date?: Date;
+  amounts?: TaskAmount[];
+  priority?: Task['priority'];
+  type?: Task['type'];
+  source?: Task['source'];
+}
+
+// Completing sets completed_at, reopening clears it
+export type TaskUpdate = Partial<Pick<TaskInput, 'description' | 'owner' | 'due_date' | 'priority'>> & {
+  status?: TaskStatus;
+};
+
+export interface TaskQuery extends QueryOptions {
+  status?: TaskStatus;
+  email_id?: string;
+  thread_id?: string;
+  due_before?: Date;
 }
 
 export interface TemplateInput {
@@ -227,6 +596,94 @@ export interface NotificationInput {
   metadata?: Record<string, any>;
 }
 
+// Semantic search types
+export interface EmailChunk {
+  id: string;
+  email_id: string;
+  account_id: string;
+  chunk_index: number;
+  content: string;
+  embedding_model: string;
+  created_at: Date;
+}
+
+export interface EmailChunkInput {
+  email_id: string;
+  account_id: string;
+  chunk_index: number;
+  content: string;
+  embedding: number[];
+  embedding_model: string;
+}
+
+export interface VectorSearchOptions {
+  accountIds: string[];
+  limit?: number;
+  minScore?: number;
+  embeddingModel?: string;
+}
+
+export interface VectorSearchResult {
+  email_id: string;
+  account_id: string;
+  chunk_index: number;
+  content: string;
+  score: number;
+}
+
+// Prompt registry types
+export interface PromptTemplateRecord {
+  id: string;
+  prompt_id: string;
+  version: number;
+  template: string;
+  description?: string;
+  created_at: Date;
+}
+
+export interface PromptTemplateInput {
+  prompt_id: string;
+  version: number;
+  template: string;
+  description?: string;
+}
+
+export interface PromptExperimentVariant {
+  name: string;
+  version: number;
+  weight?: number;
+}
+
+export interface PromptExperimentRecord {
+  id: string;
+  prompt_id: string;
+  variants: PromptExperimentVariant[];
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PromptExperimentInput {
+  id: string;
+  prompt_id: string;
+  variants: PromptExperimentVariant[];
+  is_active?: boolean;
+}
+
+export interface PromptOutcomeOptions {
+  experimentId?: string;
+  since?: Date;
+}
+
+export interface PromptOutcomeCounts {
+  prompt_version: number;
+  prompt_variant?: string;
+  responses: number;
+  sent: number;
+  edited: number;
+  sent_unedited: number;
+}
+
 // Query and pagination types
 export interface QueryOptions {
   limit?: number;
@@ -0,0 +1,50 @@
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+const DEFAULT_MAX_CHARS = 1500;
+const DEFAULT_OVERLAP_CHARS = 200;
+
+/**
+ * Splits text into overlapping chunks for embedding, preferring paragraph and
+ * sentence boundaries so each chunk stays readable as a search snippet.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapChars = Math.min(options.overlapChars ?? DEFAULT_OVERLAP_CHARS, Math.floor(maxChars / 2));
+  const normalized = text.replace(/\r\n/g, '\n').replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+
+  if (!normalized) return [];
+  if (normalized.length <= maxChars) return [normalized];
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + maxChars, normalized.length);
+
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      const breakAt = Math.max(
+        window.lastIndexOf('\n\n'),
+        window.lastIndexOf('. '),
+        window.lastIndexOf('? '),
+        window.lastIndexOf('! ')
+      );
+
+      // Only honour a boundary that keeps the chunk reasonably full
+      if (breakAt > maxChars / 2) {
+        end = start + breakAt + 1;
+      }
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+
+    if (end >= normalized.length) break;
+    start = Math.max(end - overlapChars, start + 1);
+  }
+
+  return chunks;
+}
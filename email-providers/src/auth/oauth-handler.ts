@@ -1,5 +1,5 @@
 import crypto from 'crypto';
-import { OAuth2Config, TokenResponse } from '../interface';
+import { TokenResponse } from '../interface';
 
 export interface OAuth2Provider {
   name: string;
@@ -155,7 +155,7 @@ export class OAuth2Handler {
       throw new Error(`Token exchange failed for ${provider}: ${error}`);
     }
 
-    const data = await response.json();
+    const data = await response.json() as TokenResponse;
     
     return {
       access_token: data.access_token,
@@ -196,7 +196,7 @@ export class OAuth2Handler {
       throw new Error(`Token refresh failed for ${provider}: ${error}`);
     }
 
-    const data = await response.json();
+    const data = await response.json() as TokenResponse;
     
     return {
       access_token: data.access_token,
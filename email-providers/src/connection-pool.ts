@@ -1,4 +1,4 @@
-import * as Imap from 'node-imap';
+import Imap from 'node-imap';
 import { IMAPConfig } from './interface';
 
 export interface IMAPConnection {
@@ -20,7 +20,7 @@ export interface ConnectionPoolOptions {
 export class ConnectionPool {
   private connections: Map<string, IMAPConnection> = new Map();
   private options: Required<ConnectionPoolOptions>;
-  private healthCheckTimer?: NodeJS.Timer;
+  private healthCheckTimer?: NodeJS.Timeout;
 
   constructor(options: ConnectionPoolOptions = {}) {
     this.options = {
@@ -77,6 +77,7 @@ export interface AuthResult {
 }
 
 export interface FetchOptions {
+  // Provider folder ID or name; 'sent' is mapped to each provider's sent mail folder
   folder?: string;
   limit?: number;
   offset?: number;
@@ -153,6 +154,9 @@ export interface EmailProvider {
   starEmail(messageId: string): Promise<void>;
   unstarEmail(messageId: string): Promise<void>;
   
+  // Labels (optional): a user category as a Gmail label or Outlook category, replacing `previous`
+  setCategory?(messageId: string, category: string | null, previous?: string): Promise<void>;
+  
   // Search
   searchEmails(query: SearchQuery): Promise<Email[]>;
   
@@ -146,7 +146,8 @@ export class EmailProviderFactory {
         });
 
       case 'imap':
-        const imapConfig = config as IMAPConfig;
+        // The password arrives with the credentials in authenticate()
+        const imapConfig = { ...config, password: '' } as IMAPConfig;
         
         if (!imapConfig.imapHost || !imapConfig.smtpHost) {
           // Try to auto-detect configuration
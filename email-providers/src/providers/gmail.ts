@@ -3,7 +3,6 @@ import { OAuth2Client } from 'google-auth-library';
 import {
   EmailProvider,
   Email,
-  EmailAddress,
   EmailCredentials,
   AuthResult,
   FetchOptions,
@@ -29,7 +28,7 @@ export class GmailProvider implements EmailProvider {
   private gmail?: gmail_v1.Gmail;
   private userEmail?: string;
 
-  constructor(private config: GmailConfig) {
+  constructor(config: GmailConfig) {
     this.oauth2Client = new OAuth2Client(
       config.clientId,
       config.clientSecret,
@@ -126,7 +125,11 @@ export class GmailProvider implements EmailProvider {
   async fetchEmails(options: FetchOptions = {}): Promise<Email[]> {
     if (!this.gmail) throw new Error('Not authenticated');
     
-    const query = this.buildQuery(options);
+    return this.listEmails(this.buildQuery(options), options);
+  }
+
+  private async listEmails(query: string, options: FetchOptions): Promise<Email[]> {
+    if (!this.gmail) throw new Error('Not authenticated');
     
     try {
       // List messages
@@ -189,7 +192,7 @@ export class GmailProvider implements EmailProvider {
       date: new Date(parseInt(message.internalDate || '0')),
       body: this.extractBody(message.payload),
       attachments: this.extractAttachments(message.payload),
-      labels: message.labelIds,
+      labels: message.labelIds ?? undefined,
       isRead: !message.labelIds?.includes('UNREAD'),
       isImportant: message.labelIds?.includes('IMPORTANT'),
       isStarred: message.labelIds?.includes('STARRED'),
@@ -416,14 +419,43 @@ export class GmailProvider implements EmailProvider {
     });
   }
 
-  async searchEmails(query: SearchQuery): Promise<Email[]> {
-    const gmailQuery = this.buildSearchQuery(query);
+  async setCategory(messageId: string, category: string | null, previous?: string): Promise<void> {
+    if (!this.gmail) throw new Error('Not authenticated');
+    
+    const response = await this.gmail.users.labels.list({ userId: 'me' });
+    const labels = response.data.labels || [];
+    const findLabel = (name: string) => labels.find(label => label.name === name)?.id;
+    
+    let addLabelId = category ? findLabel(category) : undefined;
+    if (category && !addLabelId) {
+      const created = await this.gmail.users.labels.create({
+        userId: 'me',
+        requestBody: {
+          name: category,
+          labelListVisibility: 'labelShow',
+          messageListVisibility: 'show',
+        },
+      });
+      addLabelId = created.data.id!;
+    }
+    const removeLabelId = previous && previous !== category ? findLabel(previous) : undefined;
     
-    return this.fetchEmails({
-      limit: 100,
+    await this.gmail.users.messages.modify({
+      userId: 'me',
+      id: messageId,
+      requestBody: {
+        addLabelIds: addLabelId ? [addLabelId] : [],
+        removeLabelIds: removeLabelId ? [removeLabelId] : [],
+      },
     });
   }
 
+  async searchEmails(query: SearchQuery): Promise<Email[]> {
+    if (!this.gmail) throw new Error('Not authenticated');
+    
+    return this.listEmails(this.buildSearchQuery(query), { limit: 100 });
+  }
+
   private buildQuery(options: FetchOptions): string {
     const parts: string[] = [];
     
@@ -477,10 +509,10 @@ export class GmailProvider implements EmailProvider {
     return parts.join(' ');
   }
 
-  async setupWebhook(webhookUrl: string): Promise<void> {
+  async setupWebhook(_webhookUrl: string): Promise<void> {
     if (!this.gmail) throw new Error('Not authenticated');
     
-    // Set up Gmail push notifications via Cloud Pub/Sub
+    // Set up Gmail push notifications via Cloud Pub/Sub; the topic's subscription delivers them
     await this.gmail.users.watch({
       userId: 'me',
       requestBody: {
@@ -1,7 +1,6 @@
-import * as Imap from 'node-imap';
+import Imap from 'node-imap';
 import { simpleParser, ParsedMail } from 'mailparser';
 import nodemailer from 'nodemailer';
-import { Readable } from 'stream';
 import {
   EmailProvider,
   Email,
@@ -20,6 +19,11 @@ import {
 } from '../interface';
 import { EmailParser } from '../utils/parser';
 
+// node-imap implements GETQUOTA, but its type definitions leave it out
+type QuotaConnection = Imap & {
+  getQuota(quotaRoot: string, callback: (err: Error | null, quota?: any) => void): void;
+};
+
 export class IMAPProvider implements EmailProvider {
   private imap?: Imap;
   private smtp?: nodemailer.Transporter;
@@ -54,7 +58,7 @@ export class IMAPProvider implements EmailProvider {
       });
 
       // Initialize SMTP transporter
-      this.smtp = nodemailer.createTransporter({
+      this.smtp = nodemailer.createTransport({
         host: this.config.smtpHost,
         port: this.config.smtpPort || 587,
         secure: this.config.smtpPort === 465,
@@ -115,7 +119,7 @@ export class IMAPProvider implements EmailProvider {
     });
   }
 
-  async refreshAuth(refreshToken: string): Promise<AuthResult> {
+  async refreshAuth(_refreshToken: string): Promise<AuthResult> {
     // IMAP doesn't use refresh tokens
     return {
       success: false,
@@ -156,9 +160,13 @@ export class IMAPProvider implements EmailProvider {
       await this.connectImap();
     }
 
+    // Sent mail lives in 'Sent', 'Sent Items' or '[Gmail]/Sent Mail' depending on the server
+    const folder = options.folder === 'sent'
+      ? (await this.getFolders()).find(box => box.type === 'sent')?.id || 'Sent'
+      : options.folder || 'INBOX';
+
     return new Promise((resolve, reject) => {
       const emails: Email[] = [];
-      const folder = options.folder || 'INBOX';
 
       this.imap!.openBox(folder, true, (err, box) => {
         if (err) {
@@ -224,7 +232,7 @@ export class IMAPProvider implements EmailProvider {
             envelope: true,
           });
 
-          fetch.on('message', (msg, seqno) => {
+          fetch.on('message', (msg) => {
             let buffer = '';
             let attributes: any = {};
 
@@ -327,11 +335,12 @@ export class IMAPProvider implements EmailProvider {
       query: messageId,
     });
     
-    if (emails.length === 0) {
+    const [email] = emails;
+    if (!email) {
       throw new Error(`Email ${messageId} not found`);
     }
     
-    return emails[0];
+    return email;
   }
 
   async sendEmail(email: OutgoingEmail): Promise<SentEmail> {
@@ -375,12 +384,13 @@ export class IMAPProvider implements EmailProvider {
       const sentFolders = ['Sent', 'Sent Items', 'Sent Mail', '[Gmail]/Sent Mail'];
       
       const tryFolder = (index: number) => {
-        if (index >= sentFolders.length) {
+        const folder = sentFolders[index];
+        if (!folder) {
           reject(new Error('Could not find Sent folder'));
           return;
         }
 
-        this.imap!.openBox(sentFolders[index], false, (err) => {
+        this.imap!.openBox(folder, false, (err) => {
           if (err) {
             tryFolder(index + 1);
             return;
@@ -581,7 +591,7 @@ export class IMAPProvider implements EmailProvider {
     return new Promise((resolve, reject) => {
       const emails: Email[] = [];
       
-      this.imap!.openBox('INBOX', true, (err, box) => {
+      this.imap!.openBox('INBOX', true, (err) => {
         if (err) {
           reject(err);
           return;
@@ -660,7 +670,7 @@ export class IMAPProvider implements EmailProvider {
             envelope: true,
           });
 
-          fetch.on('message', (msg, seqno) => {
+          fetch.on('message', (msg) => {
             let buffer = '';
             let attributes: any = {};
 
@@ -717,8 +727,8 @@ export class IMAPProvider implements EmailProvider {
       await this.connectImap();
     }
 
-    return new Promise((resolve, reject) => {
-      this.imap!.getQuota('INBOX', (err, quota) => {
+    return new Promise((resolve) => {
+      (this.imap as QuotaConnection).getQuota('INBOX', (err, quota) => {
         if (err || !quota) {
           // Many IMAP servers don't support quota
           resolve({
@@ -1,10 +1,7 @@
 import { Client } from '@microsoft/microsoft-graph-client';
-import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
-import { ClientSecretCredential } from '@azure/identity';
 import {
   EmailProvider,
   Email,
-  EmailAddress,
   EmailCredentials,
   AuthResult,
   FetchOptions,
@@ -14,7 +11,8 @@ import {
   SearchQuery,
   ProviderInfo,
   QuotaInfo,
-  Attachment
+  Attachment,
+  TokenResponse
 } from '../interface';
 import { EmailParser } from '../utils/parser';
 
@@ -186,7 +184,7 @@ export class OutlookProvider implements EmailProvider {
         throw new Error(`Token refresh failed: ${await response.text()}`);
       }
 
-      const tokenResponse = await response.json();
+      const tokenResponse = await response.json() as TokenResponse;
       
       this.accessToken = tokenResponse.access_token;
       this.refreshToken = tokenResponse.refresh_token || refreshToken;
@@ -236,7 +234,9 @@ export class OutlookProvider implements EmailProvider {
       const filters: string[] = [];
       
       if (options.folder) {
-        query = this.client.api(`/me/mailFolders/${options.folder}/messages`)
+        // Graph's well-known name for the sent mail folder
+        const folder = options.folder === 'sent' ? 'sentitems' : options.folder;
+        query = this.client.api(`/me/mailFolders/${folder}/messages`)
           .top(options.limit || 50)
           .select('id,conversationId,subject,bodyPreview,body,from,toRecipients,ccRecipients,bccRecipients,receivedDateTime,hasAttachments,isRead,importance,flag,isDraft,categories,parentFolderId')
           .orderby('receivedDateTime desc');
@@ -467,6 +467,25 @@ export class OutlookProvider implements EmailProvider {
       });
   }
 
+  // Categories the user set in Outlook are kept; only `previous` is replaced
+  async setCategory(messageId: string, category: string | null, previous?: string): Promise<void> {
+    if (!this.client) throw new Error('Not authenticated');
+    
+    const message = await this.client
+      .api(`/me/messages/${messageId}`)
+      .select('categories')
+      .get();
+    
+    const categories: string[] = (message.categories || [])
+      .filter((name: string) => name !== previous && name !== category);
+    
+    await this.client
+      .api(`/me/messages/${messageId}`)
+      .patch({
+        categories: category ? [...categories, category] : categories,
+      });
+  }
+
   async searchEmails(query: SearchQuery): Promise<Email[]> {
     if (!this.client) throw new Error('Not authenticated');
     
@@ -571,7 +590,7 @@ export class OutlookProvider implements EmailProvider {
     if (!this.client) throw new Error('Not authenticated');
     
     try {
-      const mailboxSettings = await this.client.api('/me/mailboxSettings').get();
+      await this.client.api('/me/mailboxSettings').get();
       
       // Outlook doesn't provide quota via Graph API by default
       return {
@@ -275,17 +275,6 @@ export class EmailTestUtils {
    * Generate random email content
    */
   static generateRandomContent(): { text: string; html: string } {
-    const subjects = [
-      'Meeting reminder',
-      'Project update',
-      'Invoice attached',
-      'Weekly report',
-      'Quick question',
-      'Follow up',
-      'Important announcement',
-      'Newsletter',
-    ];
-
     const bodies = [
       'I hope this email finds you well.',
       'Please find attached the requested documents.',
@@ -297,8 +286,7 @@ export class EmailTestUtils {
       'Here is the weekly update as requested.',
     ];
 
-    const subject = subjects[Math.floor(Math.random() * subjects.length)];
-    const body = bodies[Math.floor(Math.random() * bodies.length)];
+    const body = bodies[Math.floor(Math.random() * bodies.length)]!;
 
     return {
       text: body,
@@ -375,7 +375,7 @@ export class EmailFormatter {
       "'": '&#39;',
     };
     
-    return text.replace(/[&<>"']/g, char => escapeMap[char]);
+    return text.replace(/[&<>"']/g, char => escapeMap[char] ?? char);
   }
 
   /**
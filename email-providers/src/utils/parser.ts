@@ -14,8 +14,8 @@ export class EmailParser {
     const match = raw.match(/^(.*?)\s*<(.+?)>$/);
     if (match) {
       return {
-        name: match[1].replace(/"/g, '').trim() || undefined,
-        email: match[2].toLowerCase().trim(),
+        name: match[1]?.replace(/"/g, '').trim() || undefined,
+        email: (match[2] ?? '').toLowerCase().trim(),
       };
     }
 
@@ -77,7 +77,7 @@ export class EmailParser {
       .replace(/&#039;/g, "'")
       .replace(/&#x27;/g, "'")
       .replace(/&#x2F;/g, '/')
-      .replace(/&#(\d+);/g, (match, dec) => String.fromCharCode(dec))
+      .replace(/&#(\d+);/g, (_match, dec) => String.fromCharCode(dec))
       // Clean up extra whitespace
       .replace(/\n\s*\n\s*\n/g, '\n\n')
       .replace(/^\s+|\s+$/g, '')
@@ -88,7 +88,7 @@ export class EmailParser {
    * Extract thread ID from email headers or generate from subject
    */
   static extractThreadId(subject: string, references?: string[]): string {
-    if (references && references.length > 0) {
+    if (references?.[0]) {
       return references[0];
     }
 
@@ -113,8 +113,9 @@ export class EmailParser {
 
     // Simple language detection based on character sets
     const patterns = [
-      { lang: 'zh', regex: /[\u4e00-\u9fa5]/ }, // Chinese
+      // Japanese mixes kana with the Han characters Chinese uses, so kana decides first
       { lang: 'ja', regex: /[\u3040-\u309f\u30a0-\u30ff]/ }, // Japanese
+      { lang: 'zh', regex: /[\u4e00-\u9fa5]/ }, // Chinese
       { lang: 'ko', regex: /[\uac00-\ud7af]/ }, // Korean
       { lang: 'ar', regex: /[\u0600-\u06ff]/ }, // Arabic
       { lang: 'he', regex: /[\u0590-\u05ff]/ }, // Hebrew
@@ -205,7 +206,7 @@ export class EmailParser {
     let emptyLineCount = 0;
     
     for (let i = 0; i < reversedLines.length && i < 15; i++) {
-      const line = reversedLines[i].trim();
+      const line = (reversedLines[i] ?? '').trim();
       
       if (line === '') {
         emptyLineCount++;
@@ -291,7 +292,7 @@ export class EmailParser {
    */
   static extractDomain(email: string): string {
     const parts = email.toLowerCase().split('@');
-    return parts.length === 2 ? parts[1] : '';
+    return parts.length === 2 ? parts[1] ?? '' : '';
   }
 
   /**
@@ -348,7 +349,7 @@ export class EmailParser {
     mimeType: string;
     isInline: boolean;
   } {
-    const mimeType = contentType.split(';')[0].trim();
+    const mimeType = (contentType.split(';')[0] ?? '').trim();
     let filename: string | undefined;
     let isInline = false;
 
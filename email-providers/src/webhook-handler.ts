@@ -138,7 +138,6 @@ export class WebhookHandler {
         }
 
         // Extract resource information
-        const resourceParts = notification.resource.split('/');
         const emailId = notification.resourceData.id;
 
         console.log(`Outlook notification: ${notification.changeType} for message ${emailId}`);
@@ -190,7 +189,7 @@ export class WebhookHandler {
   /**
    * Verify Gmail Cloud Pub/Sub signature
    */
-  private verifyGmailSignature(signature: string, body: any, secret: string): boolean {
+  private verifyGmailSignature(_signature: string, body: any, _secret: string): boolean {
     // Gmail uses Cloud Pub/Sub which handles authentication differently
     // The signature verification depends on your Pub/Sub setup
     // This is a simplified example
@@ -327,7 +326,7 @@ export class WebhookHandler {
   /**
    * Set up webhook subscription for Gmail
    */
-  async setupGmailWebhook(accessToken: string, topicName?: string): Promise<{
+  async setupGmailWebhook(_accessToken: string, topicName?: string): Promise<{
     historyId: string;
     expiration: string;
   }> {
@@ -349,15 +348,13 @@ export class WebhookHandler {
    * Set up webhook subscription for Outlook
    */
   async setupOutlookWebhook(
-    accessToken: string,
-    webhookUrl: string,
-    changeTypes: string[] = ['created', 'updated']
+    _accessToken: string,
+    _webhookUrl: string,
+    _changeTypes: string[] = ['created', 'updated']
   ): Promise<{
     subscriptionId: string;
     expiration: string;
   }> {
-    const config = this.configs.get('outlook');
-    
     // This would use the Microsoft Graph API to create a subscription
     // Implementation depends on your Outlook provider setup
     
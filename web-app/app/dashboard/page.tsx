@@ -15,6 +15,8 @@ import {
   Loader2
 } from 'lucide-react'
 import { useEmails } from '@/hooks/useEmails'
+import { useSmartReplies, useSelectSmartReply } from '@/hooks/useAI'
+import { useCategories, useSetEmailCategory } from '@/hooks/useCategories'
 import { useAuth } from '@/providers/auth-provider'
 import { useEmailSubscription } from '@/hooks/useRealtime'
 import { cn } from '@/lib/utils'
@@ -32,6 +34,10 @@ export default function DashboardPage() {
   
   const { user } = useAuth()
   const { data: emailsData, isLoading, error, refetch } = useEmails(filter)
+  const { data: smartReplies } = useSmartReplies(selectedEmailId)
+  const selectSmartReply = useSelectSmartReply()
+  const { data: categories } = useCategories()
+  const setEmailCategory = useSetEmailCategory()
   
   // Set up real-time subscriptions
   useEmailSubscription(user?.id)
@@ -179,6 +185,11 @@ export default function DashboardPage() {
                 // Archive functionality to be implemented with API
                 setSelectedEmailId(null)
               }}
+              smartReplies={smartReplies}
+              onSmartReply={(index) => selectSmartReply.mutate({ emailId: selectedEmail.id, index })}
+              smartReplyPending={selectSmartReply.isPending}
+              categories={categories}
+              onCategoryChange={(categoryId) => setEmailCategory.mutate({ emailId: selectedEmail.id, categoryId })}
             />
           </div>
           
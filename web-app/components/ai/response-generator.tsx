@@ -6,6 +6,7 @@ import { useGenerateResponse } from '@/hooks/useAI'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { 
   Select,
   SelectContent,
@@ -21,7 +22,8 @@ import {
   Check,
   Loader2,
   Edit,
-  Save
+  Save,
+  ShieldAlert
 } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 
@@ -39,6 +41,8 @@ export function ResponseGenerator({ email, onSend }: ResponseGeneratorProps) {
   const [editedResponse, setEditedResponse] = useState('')
   
   const generateMutation = useGenerateResponse()
+  const compliance = (generateMutation.data || email.aiResponse)?.compliance
+  const awaitingApproval = compliance?.status === 'pending_approval'
 
   useEffect(() => {
     if (email.aiResponse) {
@@ -204,6 +208,26 @@ export function ResponseGenerator({ email, onSend }: ResponseGeneratorProps) {
               )}
             </div>
             
+            {compliance && compliance.violations.length > 0 && !isEditing && (
+              <Alert variant={awaitingApproval ? 'destructive' : 'default'} className="mt-4">
+                <ShieldAlert className="h-4 w-4" />
+                <AlertTitle>
+                  {awaitingApproval ? 'Needs compliance approval before sending' : 'Compliance issues'}
+                </AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-2 space-y-1 text-sm">
+                    {compliance.violations.map((violation, index) => (
+                      <li key={index}>
+                        <Badge variant="outline" className="mr-2">{violation.severity}</Badge>
+                        <span className="font-medium">{violation.policy_name}:</span> {violation.explanation}
+                        {violation.excerpt && <span className="text-muted-foreground"> "{violation.excerpt}"</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+            
             <div className="flex items-center justify-between mt-4 pt-4 border-t">
               {isEditing ? (
                 <div className="flex items-center space-x-2 w-full">
@@ -254,7 +278,7 @@ export function ResponseGenerator({ email, onSend }: ResponseGeneratorProps) {
                   
                   <Button 
                     onClick={() => onSend?.(displayedResponse)}
-                    disabled={generateMutation.isPending || !displayedResponse}
+                    disabled={generateMutation.isPending || !displayedResponse || awaitingApproval}
                   >
                     <Send className="h-4 w-4 mr-2" />
                     Send Response
@@ -1,10 +1,12 @@
 'use client'
 
 import { Email } from '@/lib/mock-data'
+import { EmailCategory, SmartReply } from '@/lib/api-client'
 import { formatRelativeTime, formatFileSize } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { 
   Reply, 
   ReplyAll, 
@@ -16,7 +18,8 @@ import {
   Paperclip,
   Download,
   MoreVertical,
-  ArrowLeft
+  ArrowLeft,
+  Sparkles
 } from 'lucide-react'
 
 interface EmailDetailProps {
@@ -26,16 +29,33 @@ interface EmailDetailProps {
   onToggleStar?: () => void
   onDelete?: () => void
   onArchive?: () => void
+  smartReplies?: SmartReply[]
+  // Receives the index of the chosen reply
+  onSmartReply?: (index: number) => void
+  smartReplyPending?: boolean
+  // The user's categories; picking one corrects the email's category
+  categories?: EmailCategory[]
+  onCategoryChange?: (categoryId: string | null) => void
 }
 
+// Radix Select items cannot have an empty value
+const UNCATEGORIZED = 'none'
+
 export function EmailDetail({ 
   email, 
   onBack,
   onReply,
   onToggleStar,
   onDelete,
-  onArchive
+  onArchive,
+  smartReplies,
+  onSmartReply,
+  smartReplyPending,
+  categories,
+  onCategoryChange
 }: EmailDetailProps) {
+  const currentCategory = categories?.find(category => category.name === email.category)
+  
   return (
     <div className="h-full flex flex-col">
       {/* Header */}
@@ -75,7 +95,24 @@ export function EmailDetail({
             {email.isImportant && (
               <Badge variant="destructive">Important</Badge>
             )}
-            <Badge variant="outline">{email.category}</Badge>
+            {categories && categories.length > 0 && onCategoryChange ? (
+              <Select
+                value={currentCategory?.id ?? UNCATEGORIZED}
+                onValueChange={(value) => onCategoryChange(value === UNCATEGORIZED ? null : value)}
+              >
+                <SelectTrigger className="h-7 w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNCATEGORIZED}>Uncategorized</SelectItem>
+                  {categories.map(category => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Badge variant="outline">{email.category}</Badge>
+            )}
           </div>
           
           <div className="flex items-center space-x-2">
@@ -127,6 +164,25 @@ export function EmailDetail({
             <div className="whitespace-pre-wrap">{email.body}</div>
           </div>
           
+          {/* Smart Replies */}
+          {smartReplies && smartReplies.length > 0 && (
+            <div className="mt-6 flex flex-wrap items-center gap-2">
+              <Sparkles className="h-4 w-4 text-primary" />
+              {smartReplies.map((reply, index) => (
+                <Button
+                  key={index}
+                  variant="outline"
+                  size="sm"
+                  className="rounded-full h-auto py-1.5 whitespace-normal text-left"
+                  disabled={smartReplyPending}
+                  onClick={() => onSmartReply?.(index)}
+                >
+                  {reply.text}
+                </Button>
+              ))}
+            </div>
+          )}
+          
           {/* Attachments */}
           {email.hasAttachment && email.attachments && (
             <Card className="mt-6 p-4">
@@ -1,5 +1,5 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiClient, AIResponse, ResponseStyle } from '@/lib/api-client';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, getRateLimitMessage, AIResponse, ResponseStyle, RevisionPreset, SmartReply } from '@/lib/api-client';
 import { toast } from 'sonner';
 
 interface GenerateResponseParams {
@@ -25,7 +25,7 @@ export const useGenerateResponse = () => {
       toast.success('Response generated successfully!');
     },
     onError: (error) => {
-      toast.error(`Failed to generate response: ${error.message}`);
+      toast.error(getRateLimitMessage(error) || `Failed to generate response: ${error.message}`);
     },
   });
 };
@@ -33,9 +33,9 @@ export const useGenerateResponse = () => {
 export const useImproveResponse = () => {
   const queryClient = useQueryClient();
   
-  return useMutation<AIResponse, Error, { responseId: string; feedback: string }>({
-    mutationFn: ({ responseId, feedback }) => 
-      apiClient.improveResponse(responseId, feedback),
+  return useMutation<AIResponse, Error, { responseId: string; feedback: string; presets?: RevisionPreset[] }>({
+    mutationFn: ({ responseId, feedback, presets }) => 
+      apiClient.improveResponse(responseId, feedback, presets),
     onSuccess: (data) => {
       // Update the AI response
       queryClient.setQueryData(['email', data.emailId], (old: any) => {
@@ -49,4 +49,34 @@ export const useImproveResponse = () => {
       toast.error(`Failed to improve response: ${error.message}`);
     },
   });
-};
\ No newline at end of file
+};
+
+// Cached per email on the server, so refetching is cheap
+export const useSmartReplies = (emailId?: string | null) => {
+  return useQuery<SmartReply[]>({
+    queryKey: ['smart-replies', emailId],
+    queryFn: () => apiClient.getSmartReplies(emailId!),
+    enabled: !!emailId,
+    staleTime: Infinity,
+    retry: false,
+  });
+};
+
+export const useSelectSmartReply = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation<AIResponse, Error, { emailId: string; index: number }>({
+    mutationFn: ({ emailId, index }) => apiClient.selectSmartReply(emailId, index),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(['email', variables.emailId], (old: any) => {
+        if (!old) return old;
+        return { ...old, aiResponse: data };
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ['emails'] });
+    },
+    onError: (error) => {
+      toast.error(getRateLimitMessage(error) || `Failed to use smart reply: ${error.message}`);
+    },
+  });
+};
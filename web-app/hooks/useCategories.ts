@@ -0,0 +1,89 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient, EmailCategory } from '@/lib/api-client';
+import { toast } from 'sonner';
+
+export const useCategories = () => {
+  return useQuery<EmailCategory[]>({
+    queryKey: ['categories'],
+    queryFn: () => apiClient.getCategories(),
+  });
+};
+
+export const useCreateCategory = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (category: { name: string; description: string; examples?: Array<{ subject: string; from?: string; snippet: string }> }) => 
+      apiClient.createCategory(category),
+    onSuccess: (newCategory) => {
+      queryClient.setQueryData(['categories'], (old: EmailCategory[] | undefined) => {
+        if (!old) return [newCategory];
+        return [...old, newCategory];
+      });
+      toast.success('Category created successfully');
+    },
+    onError: () => {
+      toast.error('Failed to create category');
+    },
+  });
+};
+
+export const useUpdateCategory = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: { name?: string; description?: string; syncToProvider?: boolean } }) => 
+      apiClient.updateCategory(id, updates),
+    onSuccess: (updatedCategory) => {
+      queryClient.setQueryData(['categories'], (old: EmailCategory[] | undefined) => {
+        if (!old) return old;
+        return old.map(category => 
+          category.id === updatedCategory.id ? updatedCategory : category
+        );
+      });
+      toast.success('Category updated successfully');
+    },
+    onError: () => {
+      toast.error('Failed to update category');
+    },
+  });
+};
+
+export const useDeleteCategory = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteCategory(id),
+    onSuccess: (_, deletedId) => {
+      queryClient.setQueryData(['categories'], (old: EmailCategory[] | undefined) => {
+        if (!old) return old;
+        return old.filter(category => category.id !== deletedId);
+      });
+      toast.success('Category deleted successfully');
+    },
+    onError: () => {
+      toast.error('Failed to delete category');
+    },
+  });
+};
+
+// The corrected email becomes an example, so the category list is refetched as well
+export const useSetEmailCategory = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ emailId, categoryId }: { emailId: string; categoryId: string | null }) => 
+      apiClient.setEmailCategory(emailId, categoryId),
+    onSuccess: (categorization, { emailId }) => {
+      queryClient.setQueryData(['email', emailId], (old: any) => {
+        if (!old) return old;
+        return { ...old, category: categorization.category };
+      });
+      queryClient.invalidateQueries({ queryKey: ['emails'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+    },
+    onError: () => {
+      toast.error('Failed to update category');
+    },
+  });
+};
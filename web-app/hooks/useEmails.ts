@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiClient, GetEmailsOptions, PaginatedEmails, Email } from '@/lib/api-client';
+import { apiClient, getRateLimitMessage, getSecurityWarnings, GetEmailsOptions, PaginatedEmails, Email } from '@/lib/api-client';
 import { toast } from 'sonner';
 
 export const useEmails = (options?: GetEmailsOptions) => {
@@ -130,14 +130,29 @@ export const useProcessEmail = () => {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: (emailId: string) => apiClient.processEmail(emailId),
+    mutationFn: async (emailId: string) => {
+      try {
+        return await apiClient.processEmail(emailId);
+      } catch (error) {
+        // High-risk emails are only sent to the AI once the user has seen why they were flagged
+        const warnings = getSecurityWarnings(error);
+        if (warnings && window.confirm(`This email looks unsafe:\n\n- ${warnings.join('\n- ')}\n\nProcess it anyway?`)) {
+          return apiClient.processEmail(emailId, { confirmed: true });
+        }
+        throw error;
+      }
+    },
     onSuccess: (data, variables) => {
       queryClient.invalidateQueries({ queryKey: ['email', variables] });
       queryClient.invalidateQueries({ queryKey: ['emails'] });
       toast.success('Email processed successfully!');
     },
-    onError: () => {
-      toast.error('Failed to process email');
+    onError: (error) => {
+      toast.error(
+        getSecurityWarnings(error)
+          ? 'Email not processed: it was flagged as unsafe'
+          : getRateLimitMessage(error) || 'Failed to process email'
+      );
     },
   });
 };
\ No newline at end of file
@@ -63,12 +63,56 @@ export interface GetEmailsOptions {
   category?: string;
   isRead?: boolean;
   isPriority?: boolean;
+  sort?: 'date' | 'priority';
+}
+
+export interface EmailPriority {
+  score: number;
+  level: 'low' | 'medium' | 'high' | 'urgent';
+  factors: Array<{ signal: string; points: number }>;
+  feedback?: 'higher' | 'lower';
 }
 
 export interface ProcessedEmail extends Email {
   sentiment: 'positive' | 'neutral' | 'negative';
   category: string;
   suggestedResponse?: string;
+  usage?: RateLimitStatus;
+}
+
+// Remaining counts are for the most constrained window; -1 means unlimited
+export interface RateLimitStatus {
+  requestsRemaining: number;
+  tokensRemaining: number;
+  resetTime: string;
+  isLimited: boolean;
+  windows: Array<{
+    window: 'minute' | 'day' | 'month';
+    requestsUsed: number;
+    requestLimit: number;
+    tokensUsed: number;
+    tokenLimit: number;
+    resetTime: string;
+  }>;
+}
+
+export interface UsagePeriod {
+  used: number;
+  limit: number;
+  tokensUsed: number;
+  tokenLimit: number;
+  resetAt: string;
+}
+
+export interface Usage {
+  ai: {
+    today: UsagePeriod;
+    month: UsagePeriod;
+    rateLimit: RateLimitStatus;
+  };
+  emails: {
+    processedThisMonth: number;
+  };
 }
 
 export interface AIResponse {
@@ -77,9 +121,49 @@ export interface AIResponse {
   response: string;
   style: ResponseStyle;
   confidence: number;
+  // 1 for the first draft, counting up with each revision or rollback
+  version?: number;
+  parentResponseId?: string;
+  compliance?: ComplianceReview;
   createdAt: string;
 }
 
+// Violations of the organization's policies; 'pending_approval' drafts cannot be sent yet
+export interface ComplianceReview {
+  status: 'passed' | 'flagged' | 'pending_approval' | 'approved';
+  violations: Array<{
+    policy_name: string;
+    severity: 'low' | 'medium' | 'high';
+    explanation: string;
+    excerpt?: string;
+  }>;
+  incomplete?: boolean;
+}
+
+// A one-tap reply; choosing it saves it as an AI response
+export interface SmartReply {
+  text: string;
+  intent: 'accept' | 'acknowledge' | 'decline' | 'question';
+}
+
+// A category the user sorts mail into; corrections become examples
+export interface EmailCategory {
+  id: string;
+  name: string;
+  description: string;
+  examples: Array<{ subject: string; from?: string; snippet: string; source: 'user' | 'correction' }>;
+  sync_to_provider: boolean;
+}
+
+export interface EmailCategorization {
+  category_id: string | null;
+  category?: string;
+  confidence: number;
+  corrected?: boolean;
+}
+
+export type RevisionPreset = 'shorter' | 'warmer' | 'add_apology' | 'decline_politely';
+
 export type ResponseStyle = 'professional' | 'casual' | 'brief';
 
 export interface Template {
@@ -98,13 +182,33 @@ export class APIError extends Error {
   constructor(
     message: string,
     public status: number,
-    public code?: string
+    public code?: string,
+    public details?: any
   ) {
     super(message);
     this.name = 'APIError';
   }
 }
 
+// User-facing message for an exhausted AI budget, or null for any other error
+export function getRateLimitMessage(error: unknown): string | null {
+  if (!(error instanceof APIError) || error.status !== 429) {
+    return null;
+  }
+  const resetAt = error.details?.usage?.resetAt;
+  return resetAt
+    ? `${error.message} Try again after ${new Date(resetAt).toLocaleString()}.`
+    : error.message;
+}
+
+// Warnings for an email the server will only process after confirmation, or null for any other error
+export function getSecurityWarnings(error: unknown): string[] | null {
+  if (!(error instanceof APIError) || error.code !== 'CONFIRMATION_REQUIRED' || !error.details?.security) {
+    return null;
+  }
+  return error.details.security.flags.map((flag: { detail: string }) => flag.detail);
+}
+
 export class APIClient {
   private baseURL: string;
   private accessToken: string | null = null;
@@ -213,7 +317,8 @@ export class APIClient {
         throw new APIError(
           errorMessage,
           response.status,
-          errorCode
+          errorCode,
+          responseData?.error?.details
         );
       }
 
@@ -283,6 +388,7 @@ export class APIClient {
     if (options?.category) params.set('category', options.category);
     if (options?.isRead !== undefined) params.set('isRead', options.isRead.toString());
     if (options?.isPriority !== undefined) params.set('isPriority', options.isPriority.toString());
+    if (options?.sort) params.set('sort', options.sort);
     
     return this.request(`/emails?${params}`);
   }
@@ -291,6 +397,32 @@ export class APIClient {
     return this.request(`/emails/${id}`);
   }
 
+  async getSmartReplies(emailId: string): Promise<SmartReply[]> {
+    const result = await this.request<{ replies: SmartReply[] }>(`/emails/${emailId}/smart-replies`);
+    return result.replies;
+  }
+
+  async selectSmartReply(emailId: string, index: number): Promise<AIResponse> {
+    return this.request(`/emails/${emailId}/smart-replies/select`, {
+      method: 'POST',
+      body: { index },
+    });
+  }
+
+  async setEmailCategory(emailId: string, categoryId: string | null): Promise<EmailCategorization> {
+    return this.request(`/emails/${emailId}/category`, {
+      method: 'PUT',
+      body: { categoryId },
+    });
+  }
+
+  async updateEmailPriority(id: string, feedback: 'higher' | 'lower'): Promise<EmailPriority> {
+    return this.request(`/emails/${id}/priority`, {
+      method: 'POST',
+      body: { feedback },
+    });
+  }
+
   async markAsRead(id: string): Promise<Email> {
     return this.request(`/emails/${id}/read`, {
       method: 'POST',
@@ -309,9 +441,10 @@ export class APIClient {
     });
   }
 
-  async processEmail(id: string): Promise<ProcessedEmail> {
+  async processEmail(id: string, options?: { confirmed?: boolean }): Promise<ProcessedEmail> {
     return this.request(`/emails/${id}/process`, {
       method: 'POST',
+      ...(options?.confirmed && { body: { confirmed: true } }),
     });
   }
 
@@ -323,10 +456,20 @@ export class APIClient {
     });
   }
 
-  async improveResponse(responseId: string, feedback: string): Promise<AIResponse> {
+  async improveResponse(responseId: string, feedback: string, presets?: RevisionPreset[]): Promise<AIResponse> {
     return this.request(`/ai/responses/${responseId}/improve`, {
       method: 'POST',
-      body: { feedback },
+      body: { feedback, presets },
+    });
+  }
+
+  async getResponseVersions(responseId: string): Promise<AIResponse[]> {
+    return this.request(`/ai/responses/${responseId}/versions`);
+  }
+
+  async rollbackResponse(responseId: string): Promise<AIResponse> {
+    return this.request(`/ai/responses/${responseId}/rollback`, {
+      method: 'POST',
     });
   }
 
@@ -359,6 +502,31 @@ export class APIClient {
     });
   }
 
+  // Category methods
+  async getCategories(): Promise<EmailCategory[]> {
+    return this.request('/categories');
+  }
+
+  async createCategory(category: { name: string; description: string; examples?: Array<{ subject: string; from?: string; snippet: string }> }): Promise<EmailCategory> {
+    return this.request('/categories', {
+      method: 'POST',
+      body: category,
+    });
+  }
+
+  async updateCategory(id: string, updates: { name?: string; description?: string; syncToProvider?: boolean }): Promise<EmailCategory> {
+    return this.request(`/categories/${id}`, {
+      method: 'PATCH',
+      body: updates,
+    });
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    return this.request(`/categories/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Settings methods
   async getSettings(): Promise<UserSettings> {
     return this.request('/settings');
@@ -392,6 +560,10 @@ export class APIClient {
     });
   }
 
+  async getUsage(): Promise<Usage> {
+    return this.request('/user/usage');
+  }
+
   // Analytics methods
   async getAnalytics(period: 'day' | 'week' | 'month' = 'week'): Promise<any> {
     return this.request(`/analytics?period=${period}`);
@@ -4,6 +4,7 @@ import {
   APIClient as IAPIClient, 
   EmailSummary, 
   Email,
+  SmartReply,
   UserSession 
 } from './types';
 
@@ -81,6 +82,34 @@ export class APIClient implements IAPIClient {
     });
   }
 
+  async getSmartReplies(whatsappId: string, emailId: string): Promise<SmartReply[]> {
+    logger.debug({ whatsappId, emailId }, 'Fetching smart replies');
+    
+    const result = await this.request(`/api/emails/${encodeURIComponent(emailId)}/smart-replies`, {
+      headers: {
+        'X-WhatsApp-ID': whatsappId,
+      },
+    });
+    return result.data.replies;
+  }
+
+  async selectSmartReply(
+    whatsappId: string,
+    emailId: string,
+    index: number
+  ): Promise<{ id: string; response_text: string }> {
+    logger.info({ whatsappId, emailId, index }, 'Selecting smart reply');
+    
+    const result = await this.request(`/api/emails/${encodeURIComponent(emailId)}/smart-replies/select`, {
+      method: 'POST',
+      headers: {
+        'X-WhatsApp-ID': whatsappId,
+      },
+      body: { index },
+    });
+    return result.data;
+  }
+
   async generateEmailResponse(
     whatsappId: string,
     emailId: string
@@ -2,7 +2,7 @@ import { WAMessage, WASocket } from '@whiskeysockets/baileys';
 import { logger } from '../utils/logger';
 import { APIClient, CommandFunction, EmailSummary } from '../types';
 import { WhatsAppBot } from '../whatsapp-client';
-import { formatEmailSummary, formatEmailDetails, formatHelp } from '../templates/message-templates';
+import { formatEmailSummary, formatEmailDetails, formatHelp, formatSmartReplies } from '../templates/message-templates';
 
 export class CommandHandler {
   private commands = new Map<string, CommandFunction>();
@@ -26,6 +26,7 @@ export class CommandHandler {
     this.commands.set('/settings', this.handleSettings.bind(this));
     this.commands.set('/view', this.handleViewEmail.bind(this));
     this.commands.set('/reply', this.handleReplyEmail.bind(this));
+    this.commands.set('/quick', this.handleQuickReply.bind(this));
     this.commands.set('/send', this.handleSendResponse.bind(this));
     this.commands.set('/ignore', this.handleIgnore.bind(this));
     this.commands.set('/test', this.handleTest.bind(this));
@@ -243,6 +244,37 @@ Reply with:
     }
   }
 
+  private async handleQuickReply(message: WAMessage, args: string[], sock: WASocket): Promise<void> {
+    const userId = message.key.remoteJid!;
+    const emailId = args[0];
+    
+    if (!emailId) {
+      await this.sendMessage(sock, userId, '❌ Please provide an email ID. Usage: /quick <email_id>');
+      return;
+    }
+    
+    try {
+      const replies = await this.apiClient.getSmartReplies(userId, emailId);
+      if (replies.length === 0) {
+        await this.sendMessage(sock, userId, `❌ No quick replies for this email. Use /reply ${emailId} for a full response.`);
+        return;
+      }
+      
+      // The chosen number is resolved by the message handler
+      this.userContexts.set(userId, {
+        action: 'quick_reply',
+        emailId,
+        replies,
+        timestamp: Date.now(),
+      });
+      
+      await this.sendMessage(sock, userId, formatSmartReplies(replies));
+    } catch (error) {
+      logger.error({ error }, 'Failed to get quick replies');
+      await this.sendMessage(sock, userId, '❌ Could not get quick replies. Please try again.');
+    }
+  }
+
   private async handleSendResponse(message: WAMessage, args: string[], sock: WASocket): Promise<void> {
     const userId = message.key.remoteJid!;
     const context = this.userContexts.get(userId);
@@ -89,6 +89,19 @@ export class MessageHandler {
         }
         break;
 
+      case 'quick_reply':
+        if (text.toLowerCase() === 'cancel') {
+          this.commandHandler.clearContext(userId);
+          await sock.sendMessage(userId, { text: '❌ Operation cancelled.' });
+        } else if (/^\d+$/.test(text.trim()) && context.replies[parseInt(text) - 1]) {
+          await this.selectQuickReply(userId, context, parseInt(text) - 1, sock);
+        } else {
+          await sock.sendMessage(userId, {
+            text: `❓ Please reply with a number from 1 to ${context.replies.length} or type "cancel" to stop.`,
+          });
+        }
+        break;
+
       case 'awaiting_response':
         // Handle custom responses
         await this.handleCustomResponse(userId, text, context, sock);
@@ -146,6 +159,31 @@ export class MessageHandler {
     }
   }
 
+  private async selectQuickReply(
+    userId: string,
+    context: any,
+    index: number,
+    sock: WASocket
+  ): Promise<void> {
+    try {
+      const response = await this.apiClient.selectSmartReply(userId, context.emailId, index);
+      
+      // From here on the quick reply is a pending response like any other
+      context.action = 'reply';
+      context.response = response.response_text;
+      delete context.replies;
+      
+      await sock.sendMessage(userId, {
+        text: `⚡ *Quick Reply Selected*\n\n${response.response_text}\n\nReply with:\n• /send - Send this response\n• /edit <text> - Modify response\n• /cancel - Cancel`,
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to select quick reply');
+      await sock.sendMessage(userId, {
+        text: '❌ Failed to select quick reply. Please try again.',
+      });
+    }
+  }
+
   private async editResponse(
     userId: string,
     emailId: string,
@@ -1,4 +1,4 @@
-import { Email, EmailSummary, DailyStats } from '../types';
+import { Email, EmailSummary, DailyStats, SmartReply } from '../types';
 
 export function formatEmailNotification(email: Email): string {
   const importance = email.isImportant ? '⚠️ *IMPORTANT*' : '📧 *New Email*';
@@ -45,11 +45,24 @@ ${email.body || email.preview}
 
 *Actions:*
 • /reply ${email.id} - Generate AI response
+• /quick ${email.id} - Pick a quick reply
 • /forward ${email.id} - Forward email
 • /delete ${email.id} - Delete email
   `.trim();
 }
 
+export function formatSmartReplies(replies: SmartReply[]): string {
+  const replyList = replies.map((reply, i) => `*${i + 1}.* ${reply.text}`).join('\n');
+  
+  return `
+⚡ *Quick Replies*
+
+${replyList}
+
+Reply with a number to pick one, or "cancel" to stop.
+  `.trim();
+}
+
 export function formatEmailSummary(summary: EmailSummary): string {
   const topSendersList = summary.topSenders
     .slice(0, 5)
@@ -143,6 +156,7 @@ export function formatHelp(): string {
 • /summary - Get email summary
 • /view <id> - View full email
 • /reply <id> - Generate AI response
+• /quick <id> - Pick a short quick reply
 • /send - Send pending response
 • /ignore - Mark email as read
 
@@ -108,11 +108,18 @@ export type CommandFunction = (
   sock: WASocket
 ) => Promise<void>;
 
+export interface SmartReply {
+  text: string;
+  intent: 'accept' | 'acknowledge' | 'decline' | 'question';
+}
+
 export interface APIClient {
   registerWhatsAppUser(whatsappId: string): Promise<any>;
   getEmailSummary(whatsappId: string): Promise<EmailSummary>;
   getEmail(whatsappId: string, emailId: string): Promise<Email>;
   sendEmailResponse(whatsappId: string, emailId: string, response: string): Promise<void>;
+  getSmartReplies(whatsappId: string, emailId: string): Promise<SmartReply[]>;
+  selectSmartReply(whatsappId: string, emailId: string, index: number): Promise<{ id: string; response_text: string }>;
   updateBotStatus(status: 'online' | 'offline'): Promise<void>;
   getUserPreferences(whatsappId: string): Promise<any>;
   updateUserPreferences(whatsappId: string, preferences: any): Promise<void>;